@@ -0,0 +1,89 @@
+import { join } from 'path';
+import { getConfig } from './config.js';
+import { createFileCacheStore } from './upstream/index.js';
+
+const NAMESPACES = ['responses', 'briefs'];
+
+const USAGE = `
+Usage:
+  git-repo-brief cache stats                      Show entry counts and sizes
+  git-repo-brief cache prune [--older-than <s>]   Remove entries unused for <s> seconds
+                                                  and enforce CACHE_MAX_BYTES
+  git-repo-brief cache clear                      Remove all entries
+
+The persistent cache lives in CACHE_DIR (or --dir <path>).
+`;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MiB`;
+}
+
+/**
+ * Run the `cache` subcommand against the persistent cache. Returns the exit code.
+ */
+export async function runCacheCommand(args: string[]): Promise<number> {
+  const config = getConfig();
+  const [action, ...rest] = args;
+  let dir = config.cacheDir;
+  let olderThanSeconds: number | undefined;
+
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--dir') {
+      dir = rest[++i];
+    } else if (rest[i] === '--older-than') {
+      olderThanSeconds = parseInt(rest[++i], 10);
+      if (isNaN(olderThanSeconds) || olderThanSeconds < 0) {
+        console.error('--older-than expects a non-negative number of seconds');
+        return 1;
+      }
+    } else {
+      console.error(`Unknown option: ${rest[i]}`);
+      console.error(USAGE);
+      return 1;
+    }
+  }
+
+  if (!action || !['stats', 'prune', 'clear'].includes(action)) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  if (!dir) {
+    console.error('No persistent cache configured. Set CACHE_DIR or pass --dir <path>.');
+    return 1;
+  }
+
+  for (const namespace of NAMESPACES) {
+    const store = createFileCacheStore({
+      dir: join(dir, namespace),
+      maxBytes: config.cacheMaxBytes,
+      maxEntries: config.cacheMaxEntries,
+      eviction: config.cacheEviction,
+    });
+
+    switch (action) {
+      case 'stats': {
+        const stats = await store.stats();
+        console.log(`${namespace}: ${stats.entries} entries, ${formatBytes(stats.bytes)} (${stats.location})`);
+        break;
+      }
+      case 'prune': {
+        const removed = await store.prune(
+          olderThanSeconds === undefined ? undefined : olderThanSeconds * 1000
+        );
+        console.log(`${namespace}: removed ${removed} entries`);
+        break;
+      }
+      case 'clear': {
+        const { entries } = await store.stats();
+        await store.clear();
+        console.log(`${namespace}: removed ${entries} entries`);
+        break;
+      }
+    }
+  }
+
+  return 0;
+}
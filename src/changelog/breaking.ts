@@ -0,0 +1,92 @@
+import type { BreakingMarker } from '../types.js';
+import { LIST_ITEM, clean, headingOf, proseLines } from './markup.js';
+
+export interface BreakingItem {
+  text: string;
+  marker: BreakingMarker;
+}
+
+const BREAKING_TITLE = /\bbreaking\b/i;
+/** A BREAKING CHANGE footer, written as git trailers are, or as a line in notes */
+const FOOTER = /^\s*(?:[-*+]\s+)?(?:\*\*|__)?BREAKING[ -]CHANGES?(?:\*\*|__)?\s*:(?:\*\*|__)?\s*(.*)$/;
+/** A conventional commit subject whose ! marks a breaking change, as in feat(api)!: */
+const CONVENTIONAL = /^\s*(?:[-*+]\s+)?(?:\*\*|__)?[a-z]+(?:\([^)]*\))?!(?:\*\*|__)?:\s*\S/i;
+
+/**
+ * Breaking changes marked in release notes: the items (or, without items,
+ * the paragraphs) under a heading naming them, BREAKING CHANGE lines, and
+ * conventional commit subjects with a !
+ */
+export function breakingChangesInNotes(notes: string): BreakingItem[] {
+  const items: BreakingItem[] = [];
+  const lines = proseLines(notes);
+  // The level of the breaking section being read, or null
+  let section: number | null = null;
+  let current: string[] | null = null;
+
+  const flush = () => {
+    if (current && current.length > 0) items.push({ text: clean(current.join(' ')), marker: 'heading' });
+    current = null;
+  };
+  const nextText = (i: number) => lines.slice(i + 1).find((next) => next.trim() !== '') ?? '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = headingOf(line);
+    if (heading) {
+      flush();
+      if (section !== null && heading.level <= section) section = null;
+      if (section === null && BREAKING_TITLE.test(heading.title)) section = heading.level;
+      continue;
+    }
+
+    if (section !== null) {
+      const item = LIST_ITEM.exec(line);
+      if (item && item[1].length < 2) {
+        flush();
+        current = [item[2].replace(FOOTER, '$1')];
+      } else if (line.trim() === '') {
+        // Paragraphs end at blank lines; list items may go on after one
+        if (current && !LIST_ITEM.test(nextText(i))) flush();
+      } else {
+        (current ??= []).push(line.trim());
+      }
+      continue;
+    }
+
+    const footer = FOOTER.exec(line);
+    if (footer) {
+      // The description may start on the next line
+      const text = clean((footer[1] || nextText(i)).replace(LIST_ITEM, '$2'));
+      if (text) items.push({ text, marker: 'footer' });
+      continue;
+    }
+    if (CONVENTIONAL.test(line)) {
+      items.push({ text: clean(line.replace(LIST_ITEM, '$2')), marker: 'conventional' });
+    }
+  }
+  flush();
+  return items;
+}
+
+/**
+ * Breaking changes marked in a commit message: a ! after the type of a
+ * conventional commit subject, and BREAKING CHANGE footers
+ */
+export function breakingChangesInCommit(message: string): BreakingItem[] {
+  const [subject, ...body] = message.replace(/\r\n?/g, '\n').split('\n');
+  const items: BreakingItem[] = [];
+  if (CONVENTIONAL.test(subject)) items.push({ text: clean(subject), marker: 'conventional' });
+
+  for (let i = 0; i < body.length; i++) {
+    const footer = /^BREAKING[ -]CHANGE:\s*(.*)$/.exec(body[i]);
+    if (!footer) continue;
+    // A footer runs on to the next blank line or trailer
+    const text = [footer[1]];
+    while (i + 1 < body.length && body[i + 1].trim() !== '' && !/^[\w-]+: /.test(body[i + 1])) {
+      text.push(body[++i]);
+    }
+    if (clean(text.join(' '))) items.push({ text: clean(text.join(' ')), marker: 'footer' });
+  }
+  return items;
+}
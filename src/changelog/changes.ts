@@ -0,0 +1,67 @@
+import type { ChangeCategory, ReleaseChanges } from '../types.js';
+import { LIST_ITEM, clean, headingOf, proseLines } from './markup.js';
+
+/** Heading words naming each kind of change, checked in this order */
+const CATEGORY_TITLES: Array<[ChangeCategory, RegExp]> = [
+  ['security', /\bsecurity\b/i],
+  ['deprecated', /\bdeprecat/i],
+  ['removed', /\b(remov|delet|drop)/i],
+  ['fixed', /\b(fix|bug)/i],
+  ['added', /\b(add|new\b|features?\b|enhancements?\b)/i],
+  ['changed', /\b(chang|improve|updat|breaking\b|performance\b|refactor)/i],
+];
+
+/** Headings listing people rather than changes, such as New Contributors */
+const PEOPLE_TITLE = /\b(contributors?|thanks|credits|acknowledg)/i;
+
+export function changeCategory(title: string): ChangeCategory | null {
+  if (PEOPLE_TITLE.test(title)) return null;
+  return CATEGORY_TITLES.find(([, pattern]) => pattern.test(title))?.[0] ?? null;
+}
+
+/**
+ * Sort the list items of release notes by the heading they are under, as
+ * Keep a Changelog's Added, Changed, Deprecated, Removed, Fixed and Security,
+ * or the Features and Bug Fixes of generated notes. Returns null when no
+ * heading names a kind of change.
+ */
+export function releaseChanges(notes: string): ReleaseChanges | null {
+  const changes: ReleaseChanges = {};
+  let category: ChangeCategory | null = null;
+  let level = 0;
+  let current: string[] | null = null;
+  let found = false;
+
+  const flush = () => {
+    if (category && current && current.length > 0) (changes[category] ??= []).push(clean(current.join(' ')));
+    current = null;
+  };
+
+  for (const line of proseLines(notes)) {
+    const heading = headingOf(line);
+    if (heading) {
+      flush();
+      const named = changeCategory(heading.title);
+      // Headings below a category's naming none, such as a component name, stay in it
+      if (category && heading.level > level && !named) continue;
+      category = named;
+      level = heading.level;
+      found ||= named !== null;
+      continue;
+    }
+    if (!category) continue;
+
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1].length < 2) {
+      flush();
+      current = [item[2]];
+    } else if (current && line.trim() !== '' && /^\s/.test(line)) {
+      current.push(line.trim());
+    } else if (line.trim() !== '') {
+      flush();
+    }
+  }
+  flush();
+
+  return found ? changes : null;
+}
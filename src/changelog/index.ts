@@ -0,0 +1,3 @@
+export { type BreakingItem, breakingChangesInCommit, breakingChangesInNotes } from './breaking.js';
+export { changeCategory, releaseChanges } from './changes.js';
+export { type ChangelogEntry, parseChangelog } from './parse.js';
@@ -0,0 +1,42 @@
+/**
+ * Line patterns of the Markdown in release notes and changelogs
+ */
+
+export const FENCE = /^\s*(`{3,}|~{3,})/;
+export const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+/** A line wholly in bold, which release notes often use as a heading */
+export const BOLD_HEADING = /^\s*(?:\*\*|__)([^*_]+?):?(?:\*\*|__):?\s*$/;
+export const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+
+export function clean(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Lines outside fenced code blocks; code never holds headings or items
+ */
+export function proseLines(text: string): string[] {
+  const prose: string[] = [];
+  let fence: string | null = null;
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = FENCE.exec(line);
+    if (fence) {
+      if (match && match[1][0] === fence[0] && match[1].length >= fence.length) fence = null;
+    } else if (match) {
+      fence = match[1];
+    } else {
+      prose.push(line);
+    }
+  }
+  return prose;
+}
+
+/**
+ * Title and level of a heading line; bold lines rank below every ATX heading
+ */
+export function headingOf(line: string): { title: string; level: number } | null {
+  const atx = ATX_HEADING.exec(line);
+  if (atx) return { title: atx[2], level: atx[1].length };
+  const bold = BOLD_HEADING.exec(line);
+  return bold ? { title: bold[1], level: 7 } : null;
+}
@@ -0,0 +1,101 @@
+import type { ReadmeFormat } from '../types.js';
+import { documentLines, trimBlankLines } from '../readme/document.js';
+import { parseReadme } from '../readme/index.js';
+import { parseVersion } from '../semver.js';
+
+/**
+ * A version's section of a changelog
+ */
+export interface ChangelogEntry {
+  /** The version as the heading writes it, or Unreleased */
+  tag: string;
+  /** Heading text without markup */
+  title: string;
+  /** Release date as an ISO 8601 time, or null when the heading gives none */
+  date: string | null;
+  body: string | null;
+  /** URL the heading links to, such as a compare view of the version */
+  link: string | null;
+  unreleased: boolean;
+}
+
+const UNRELEASED = /^\W*(unreleased|upcoming|next)\b/i;
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+const MONTHS = 'jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec';
+/** Dates as January 5, 2024 or 5 January 2024 */
+const WRITTEN_DATE = new RegExp(
+  String.raw`\b(?:(?:${MONTHS})[a-z]*\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4}|\d{1,2}(?:st|nd|rd|th)?\s+(?:${MONTHS})[a-z]*\.?,?\s+\d{4})\b`,
+  'i'
+);
+/** Underlines and overlines of setext and reStructuredText headings */
+const ADORNMENT = /^\s*([=\-~^*+#`'":.])\1+\s*$/;
+
+/**
+ * The version a changelog heading names: the first word reading as a version
+ * with at least a minor number, so years and issue numbers are passed over
+ */
+function headingVersion(title: string): string | null {
+  for (const word of title.split(/[\s()[\]]+/)) {
+    const candidate = word.replace(/[,:;]+$/, '');
+    if (/\d+\.\d+/.test(candidate) && !ISO_DATE.test(candidate) && parseVersion(candidate)) return candidate;
+  }
+  return null;
+}
+
+function headingDate(title: string): string | null {
+  const iso = ISO_DATE.exec(title);
+  const time = iso ? Date.parse(`${iso[0]}T00:00:00Z`) : NaN;
+  if (!isNaN(time)) return new Date(time).toISOString();
+
+  const written = WRITTEN_DATE.exec(title);
+  if (!written) return null;
+  const parsed = Date.parse(`${written[0].replace(/(\d)(?:st|nd|rd|th)/i, '$1').replace('.', '')} UTC`);
+  return isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+/**
+ * Parse a changelog into its versions, as Keep a Changelog and most
+ * hand-written changelogs lay them out: a heading per version, such as
+ * "## [1.2.0] - 2024-05-01", "1.2.0 / 2024-05-01" underlined, or
+ * "# pkg 1.2.0", holding the notes of that version. Versions are the
+ * headings at the level of the first one naming a version; any heading at
+ * that level or above ends a version's notes. Plain text is read as
+ * Markdown, which is how NEWS files are usually written.
+ */
+export function parseChangelog(content: string, format: ReadmeFormat): ChangelogEntry[] {
+  const lines = documentLines(content);
+  const document = parseReadme(content, format === 'text' ? 'markdown' : format);
+
+  const named = document.headings.map((heading) => ({
+    heading,
+    version: headingVersion(heading.title),
+    unreleased: UNRELEASED.test(heading.title),
+  }));
+  const first = named.find((entry) => entry.version);
+  if (!first) return [];
+  const level = first.heading.level;
+  const bounds = named.filter((entry) => entry.heading.level <= level);
+
+  const entries: ChangelogEntry[] = [];
+  bounds.forEach(({ heading, version, unreleased }, index) => {
+    if (heading.level !== level || (!version && !unreleased)) return;
+
+    // Headings report the line of their text, numbered from 1
+    const end = index + 1 < bounds.length ? bounds[index + 1].heading.line - 1 : lines.length;
+    const body = trimBlankLines(lines.slice(heading.line, end));
+    if (body.length > 0 && ADORNMENT.test(body[0])) body.shift();
+    if (body.length > 0 && ADORNMENT.test(body[body.length - 1])) body.pop();
+    const text = trimBlankLines(body).join('\n');
+    if (unreleased && !version && text === '') return;
+
+    entries.push({
+      tag: version ?? 'Unreleased',
+      title: heading.title,
+      date: headingDate(heading.title),
+      body: text === '' ? null : text,
+      link: document.links.find((link) => link.line === heading.line && /^https?:\/\//i.test(link.url))?.url ?? null,
+      unreleased: !version || /\bunreleased\b/i.test(heading.title),
+    });
+  });
+  return entries;
+}
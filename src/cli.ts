@@ -1,57 +1,107 @@
 #!/usr/bin/env node
 
-import { getConfig } from './config.js';
-import { startHttpTransport } from './transport/index.js';
+import { getConfig, type TransportMode } from './config.js';
+import { startHttpTransport, startStdioTransport, clearSessions } from './transport/index.js';
+import { runCacheCommand } from './cache-command.js';
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
+  let transportOverride: TransportMode | undefined;
+
+  if (args[0] === 'cache') {
+    process.exit(await runCacheCommand(args.slice(1)));
+  }
 
   // Parse command line arguments
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === '--help' || arg === '-h') {
       console.log(`
-git-repo-brief - MCP server for GitHub repository briefs
+git-repo-brief - MCP server for GitHub, GitLab, Gitea/Forgejo and Bitbucket repository briefs
 
 Usage:
   git-repo-brief [options]
+  git-repo-brief cache <stats|prune|clear> [--older-than <seconds>] [--dir <path>]
 
 Options:
+  --stdio     Serve MCP over stdin/stdout (default)
+  --http      Serve MCP over HTTP
   --help, -h  Show this help message
 
 Environment Variables:
   GITHUB_TOKEN       GitHub personal access token (optional, increases rate limit)
+  GITHUB_TOKENS      Comma-separated tokens to pool with GITHUB_TOKEN
+  GITHUB_TOKEN_FILE  File with one pooled token per line
+  GITHUB_HOSTS       JSON array of GitHub Enterprise Server hosts and their tokens
+  GITLAB_TOKEN       GitLab personal access token for gitlab.com
+  GITLAB_HOSTS       JSON array of self-hosted GitLab hosts and their tokens
+  CODEBERG_TOKEN     Access token for codeberg.org
+  GITEA_HOSTS        JSON array of self-hosted Gitea/Forgejo hosts and their tokens
+  BITBUCKET_TOKEN    Bitbucket Cloud access token
   REQUEST_DELAY_MS   Delay between requests in ms (default: 100)
   REQUEST_TIMEOUT_MS Request timeout in ms (default: 30000)
+  TRANSPORT_MODE     Transport mode: stdio or http (default: stdio)
   HTTP_PORT          HTTP server port (default: 8080)
+  CACHE_TTL_MS       Serve cached responses without revalidation for this long (default: 0)
+  CACHE_DIR          Directory for the persistent cache (default: in-memory only)
+  CACHE_MAX_BYTES    Maximum persistent cache size in bytes (default: 52428800)
+  CACHE_EVICTION     Persistent cache eviction policy: lru or fifo (default: lru)
+  RATE_LIMIT_MAX_WAIT_MS
+                     Wait for an exhausted rate limit to reset, up to this long (default: 0)
+  RETRY_MAX_ATTEMPTS Attempts per upstream request, including the first (default: 3)
+  RETRY_BASE_DELAY_MS
+                     Backoff before the first retry, doubling per retry (default: 500)
+  CURSOR_SECRET      Key signing pagination cursors (default: random per process)
 
 Examples:
-  # Run as HTTP server
+  # Run as stdio MCP server
   git-repo-brief
 
+  # Run as HTTP server
+  git-repo-brief --http
+
   # With environment variable
   GITHUB_TOKEN=ghp_xxx git-repo-brief
 
   # On a different port
-  HTTP_PORT=3000 git-repo-brief
+  HTTP_PORT=3000 git-repo-brief --http
 `);
       process.exit(0);
+    } else if (arg === '--stdio') {
+      transportOverride = 'stdio';
+    } else if (arg === '--http') {
+      transportOverride = 'http';
     }
   }
 
   try {
     const config = getConfig();
+    const transportMode = transportOverride ?? config.transportMode;
+
+    if (transportMode === 'stdio') {
+      const transport = startStdioTransport();
+
+      // Exit once the client closes stdin
+      transport.closed.then(() => process.exit(0));
+
+      process.on('SIGINT', () => transport.close());
+      process.on('SIGTERM', () => transport.close());
+      return;
+    }
+
     const httpServer = startHttpTransport({ port: config.httpPort });
 
     // Handle graceful shutdown
     process.on('SIGINT', () => {
-      console.log('\nShutting down...');
+      console.error('\nShutting down...');
+      clearSessions();
       httpServer.close(() => {
         process.exit(0);
       });
     });
 
     process.on('SIGTERM', () => {
+      clearSessions();
       httpServer.close(() => {
         process.exit(0);
       });
@@ -1,8 +1,72 @@
+import { readFileSync } from 'fs';
+
+export type TransportMode = 'stdio' | 'http';
+
+export type CacheEviction = 'lru' | 'fifo';
+
+/** Forge APIs repositories can be read from */
+export type ProviderName = 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+
+/**
+ * A self-hosted forge instance (GitHub Enterprise Server, GitLab, Gitea or
+ * Forgejo). API and raw bases default to the standard paths of the provider
+ * on the web host.
+ */
+export interface ForgeHostConfig {
+  /** Web host of repository URLs, optionally with scheme and port (e.g. http://localhost:8080) */
+  host: string;
+  apiBase?: string;
+  rawBase?: string;
+  tokens: string[];
+}
+
 export interface Config {
   githubToken?: string;
+  /** Additional tokens pooled with githubToken; requests use whichever has the most budget */
+  githubTokens: string[];
+  /** GitHub Enterprise Server hosts accepted in repository URLs, with their own tokens */
+  githubHosts: ForgeHostConfig[];
+  gitlabToken?: string;
+  /** Self-hosted GitLab instances accepted in repository URLs, with their own tokens */
+  gitlabHosts: ForgeHostConfig[];
+  /** Token for codeberg.org */
+  codebergToken?: string;
+  /** Self-hosted Gitea and Forgejo instances accepted in repository URLs, with their own tokens */
+  giteaHosts: ForgeHostConfig[];
+  /** Bitbucket Cloud access token */
+  bitbucketToken?: string;
   requestDelayMs: number;
   requestTimeoutMs: number;
   httpPort: number;
+  transportMode: TransportMode;
+  /** How long cached upstream responses are served without revalidation (0 = always revalidate) */
+  cacheTtlMs: number;
+  /** Maximum number of upstream responses kept in memory (0 disables caching) */
+  cacheMaxEntries: number;
+  /** Directory for the persistent cache; unset keeps the cache in memory only */
+  cacheDir?: string;
+  /** Maximum total size of the persistent cache in bytes */
+  cacheMaxBytes: number;
+  /** Which entries the persistent cache evicts first when over its limits */
+  cacheEviction: CacheEviction;
+  /** How long a request may wait for an exhausted rate-limit budget to reset before failing (0 = fail immediately) */
+  rateLimitMaxWaitMs: number;
+  /** Total attempts per upstream request, including the first (1 disables retries) */
+  retryMaxAttempts: number;
+  /** Delay before the first retry; doubles with each further retry */
+  retryBaseDelayMs: number;
+  /** Upper bound of the random delay added to each backoff */
+  retryJitterMs: number;
+  /** 5xx statuses that are retried */
+  retryStatuses: number[];
+  /** Wait at least as long as a retry-after header asks before retrying */
+  retryRespectRetryAfter: boolean;
+  /** Largest part of one file returned; longer text is truncated and larger binaries are omitted */
+  fileMaxBytes: number;
+  /** Default total size of the files read by one extract_key_files call */
+  callMaxBytes: number;
+  /** Key signing pagination cursors; unset, a random key per process is used */
+  cursorSecret?: string;
   userAgent: string;
 }
 
@@ -13,12 +77,114 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+function getEnvNumberList(key: string, defaultValue: number[]): number[] {
+  const value = process.env[key];
+  if (value === undefined) return defaultValue;
+  return value
+    .split(',')
+    .map((item) => parseInt(item.trim(), 10))
+    .filter((item) => !isNaN(item));
+}
+
+function getEnvBoolean(key: string, defaultValue: boolean): boolean {
+  const value = process.env[key]?.toLowerCase();
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return defaultValue;
+}
+
+/**
+ * Read pooled tokens from GITHUB_TOKENS (comma-separated) and GITHUB_TOKEN_FILE
+ * (one per line, # comments allowed). Token values are never included in errors.
+ */
+function getEnvTokens(): string[] {
+  const tokens = (process.env.GITHUB_TOKENS ?? '').split(',');
+
+  const file = process.env.GITHUB_TOKEN_FILE;
+  if (file) {
+    let contents: string;
+    try {
+      contents = readFileSync(file, 'utf-8');
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code ?? 'unknown error';
+      throw new Error(`Cannot read GITHUB_TOKEN_FILE ${file}: ${code}`);
+    }
+    tokens.push(...contents.split('\n').filter((line) => !line.trim().startsWith('#')));
+  }
+
+  return tokens.map((token) => token.trim()).filter(Boolean);
+}
+
+/**
+ * Read GITHUB_HOSTS, GITLAB_HOSTS or GITEA_HOSTS: a JSON array of
+ * { host, api_base?, raw_base?, token?, tokens? }
+ */
+function getEnvHosts(key: string): ForgeHostConfig[] {
+  const value = process.env[key];
+  if (!value) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch {
+    throw new Error(`${key} must be a JSON array of host objects`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error(`${key} must be a JSON array of host objects`);
+  }
+
+  return entries.map((entry: Record<string, unknown>, index) => {
+    if (typeof entry?.host !== 'string' || entry.host === '') {
+      throw new Error(`${key} entry ${index} is missing "host"`);
+    }
+    const tokens = [entry.token, ...(Array.isArray(entry.tokens) ? entry.tokens : [])];
+    return {
+      host: entry.host,
+      apiBase: typeof entry.api_base === 'string' ? entry.api_base : undefined,
+      rawBase: typeof entry.raw_base === 'string' ? entry.raw_base : undefined,
+      tokens: tokens.filter((t): t is string => typeof t === 'string' && t !== ''),
+    };
+  });
+}
+
+function getEnvTransportMode(key: string, defaultValue: TransportMode): TransportMode {
+  const value = process.env[key]?.toLowerCase();
+  return value === 'stdio' || value === 'http' ? value : defaultValue;
+}
+
+function getEnvCacheEviction(key: string, defaultValue: CacheEviction): CacheEviction {
+  const value = process.env[key]?.toLowerCase();
+  return value === 'lru' || value === 'fifo' ? value : defaultValue;
+}
+
 export function loadConfig(): Config {
   return {
     githubToken: process.env.GITHUB_TOKEN,
+    githubTokens: getEnvTokens(),
+    githubHosts: getEnvHosts('GITHUB_HOSTS'),
+    gitlabToken: process.env.GITLAB_TOKEN,
+    gitlabHosts: getEnvHosts('GITLAB_HOSTS'),
+    codebergToken: process.env.CODEBERG_TOKEN,
+    giteaHosts: getEnvHosts('GITEA_HOSTS'),
+    bitbucketToken: process.env.BITBUCKET_TOKEN,
     requestDelayMs: getEnvNumber('REQUEST_DELAY_MS', 100),
     requestTimeoutMs: getEnvNumber('REQUEST_TIMEOUT_MS', 30000),
     httpPort: getEnvNumber('HTTP_PORT', 8080),
+    transportMode: getEnvTransportMode('TRANSPORT_MODE', 'stdio'),
+    cacheTtlMs: getEnvNumber('CACHE_TTL_MS', 0),
+    cacheMaxEntries: getEnvNumber('CACHE_MAX_ENTRIES', 500),
+    cacheDir: process.env.CACHE_DIR || undefined,
+    cacheMaxBytes: getEnvNumber('CACHE_MAX_BYTES', 50 * 1024 * 1024),
+    cacheEviction: getEnvCacheEviction('CACHE_EVICTION', 'lru'),
+    rateLimitMaxWaitMs: getEnvNumber('RATE_LIMIT_MAX_WAIT_MS', 0),
+    retryMaxAttempts: Math.max(1, getEnvNumber('RETRY_MAX_ATTEMPTS', 3)),
+    retryBaseDelayMs: getEnvNumber('RETRY_BASE_DELAY_MS', 500),
+    retryJitterMs: getEnvNumber('RETRY_JITTER_MS', 250),
+    retryStatuses: getEnvNumberList('RETRY_STATUSES', [500, 502, 503, 504]),
+    retryRespectRetryAfter: getEnvBoolean('RETRY_RESPECT_RETRY_AFTER', true),
+    fileMaxBytes: getEnvNumber('FILE_MAX_BYTES', 256 * 1024),
+    callMaxBytes: getEnvNumber('CALL_MAX_BYTES', 1_000_000),
+    cursorSecret: process.env.CURSOR_SECRET || undefined,
     userAgent: 'git-repo-brief/1.0.0',
   };
 }
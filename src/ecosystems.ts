@@ -0,0 +1,167 @@
+import { globToRegExp, isGlob } from './glob.js';
+
+/**
+ * A build or package ecosystem, recognised by its manifest files
+ */
+export interface Ecosystem {
+  name: string;
+  /** Languages whose code the ecosystem builds, as named by the forges */
+  languages: string[];
+  /** File names (or globs of them) of manifests kept at the top of a project */
+  manifests: string[];
+}
+
+export const ECOSYSTEMS: Ecosystem[] = [
+  { name: 'npm', languages: ['JavaScript', 'TypeScript'], manifests: ['package.json'] },
+  {
+    name: 'Python',
+    languages: ['Python'],
+    manifests: ['pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt'],
+  },
+  { name: 'Cargo', languages: ['Rust'], manifests: ['Cargo.toml'] },
+  { name: 'Go modules', languages: ['Go'], manifests: ['go.mod'] },
+  { name: 'Maven', languages: ['Java', 'Kotlin', 'Scala'], manifests: ['pom.xml'] },
+  {
+    name: 'Gradle',
+    languages: ['Java', 'Kotlin', 'Groovy'],
+    manifests: ['build.gradle', 'build.gradle.kts', 'settings.gradle', 'settings.gradle.kts'],
+  },
+  { name: 'Bundler', languages: ['Ruby'], manifests: ['Gemfile', '*.gemspec'] },
+  { name: 'Composer', languages: ['PHP'], manifests: ['composer.json'] },
+  {
+    name: '.NET',
+    languages: ['C#', 'F#', 'Visual Basic .NET'],
+    manifests: ['*.sln', '*.csproj', '*.fsproj', '*.vbproj'],
+  },
+  { name: 'CMake', languages: ['C', 'C++'], manifests: ['CMakeLists.txt'] },
+];
+
+/**
+ * A file picked without being asked for, and why
+ */
+export interface KeyFileChoice {
+  name: string;
+  reason: string;
+}
+
+const README = /^readme(\.[\w.-]+)?$/i;
+const LICENSE = /^(licen[cs]e|copying|unlicense)([.-][\w.-]+)?$/i;
+
+/** README formats in order of preference when a directory has several */
+const README_EXTENSIONS = ['.md', '.markdown', '.rst', '.adoc', '.asciidoc', '.txt', '.org', ''];
+
+function readmeRank(name: string): number {
+  const extension = name.slice('readme'.length).toLowerCase();
+  const rank = README_EXTENSIONS.indexOf(extension);
+  return rank === -1 ? README_EXTENSIONS.length : rank;
+}
+
+/**
+ * The README of a directory from the names of its files, preferring
+ * formats that render
+ */
+export function chooseReadme(names: string[]): string | undefined {
+  return [...names]
+    .sort()
+    .filter((name) => README.test(name))
+    .sort((a, b) => readmeRank(a) - readmeRank(b))[0];
+}
+
+const CHANGELOG = /^(changelog|changes|history|news)(\.(?:md|markdown|rst|txt))?$/i;
+
+/** Changelog names, then formats, in order of preference when a directory has several */
+const CHANGELOG_NAMES = ['changelog', 'changes', 'history', 'news'];
+const CHANGELOG_EXTENSIONS = ['.md', '.markdown', '.rst', '.txt', ''];
+
+/**
+ * The changelog of a directory from the names of its files
+ */
+export function chooseChangelog(names: string[]): string | undefined {
+  const rank = (name: string) => {
+    const [, base, extension = ''] = CHANGELOG.exec(name)!;
+    return (
+      CHANGELOG_NAMES.indexOf(base.toLowerCase()) * CHANGELOG_EXTENSIONS.length +
+      CHANGELOG_EXTENSIONS.indexOf(extension.toLowerCase())
+    );
+  };
+  return [...names]
+    .sort()
+    .filter((name) => CHANGELOG.test(name))
+    .sort((a, b) => rank(a) - rank(b))[0];
+}
+
+/**
+ * Index of the repository language an ecosystem builds, or -1. Bitbucket
+ * reports languages in lower case, so names are compared case-insensitively.
+ */
+function languageRank(ecosystem: Ecosystem, languages: string[]): number {
+  const wanted = new Set(ecosystem.languages.map((language) => language.toLowerCase()));
+  return languages.findIndex((language) => wanted.has(language.toLowerCase()));
+}
+
+function byLanguage(languages: string[]): Ecosystem[] {
+  const rank = (ecosystem: Ecosystem) => {
+    const index = languageRank(ecosystem, languages);
+    return index === -1 ? languages.length : index;
+  };
+  // Array.prototype.sort is stable, so ecosystems of one language keep their order
+  return [...ECOSYSTEMS].sort((a, b) => rank(a) - rank(b));
+}
+
+function manifestReason(ecosystem: Ecosystem, languages: string[]): string {
+  const index = languageRank(ecosystem, languages);
+  if (index === -1) return `${ecosystem.name} manifest`;
+  const role = index === 0 ? 'the primary language' : 'a repository language';
+  return `${ecosystem.name} manifest; ${languages[index]} is ${role}`;
+}
+
+/**
+ * Key files of a project directory: its README, license files and the
+ * manifests of every ecosystem present, those of the repository's main
+ * languages first
+ */
+export function chooseKeyFiles(names: string[], languages: string[]): KeyFileChoice[] {
+  const sorted = [...names].sort();
+  const choices: KeyFileChoice[] = [];
+
+  const readme = chooseReadme(sorted);
+  if (readme) {
+    choices.push({ name: readme, reason: 'README' });
+  }
+
+  for (const name of sorted.filter((name) => LICENSE.test(name))) {
+    choices.push({ name, reason: 'License text' });
+  }
+
+  for (const ecosystem of byLanguage(languages)) {
+    const patterns = ecosystem.manifests.map(globToRegExp);
+    for (const name of sorted.filter((name) => patterns.some((pattern) => pattern.test(name)))) {
+      if (choices.some((choice) => choice.name === name)) continue;
+      choices.push({ name, reason: manifestReason(ecosystem, languages) });
+    }
+  }
+
+  return choices;
+}
+
+/**
+ * Conventional key files for when a directory cannot be listed: a README,
+ * a LICENSE and the manifests expected for the repository's languages
+ */
+export function guessKeyFiles(languages: string[]): KeyFileChoice[] {
+  const choices: KeyFileChoice[] = [
+    { name: 'README.md', reason: 'Conventional README name' },
+    { name: 'LICENSE', reason: 'Conventional license file name' },
+  ];
+
+  // Without a known language, fall back to the npm and Python manifests
+  const expected = byLanguage(languages).filter((e) => languageRank(e, languages) !== -1);
+  for (const ecosystem of expected.length > 0 ? expected : ECOSYSTEMS.slice(0, 2)) {
+    // Manifests named by a glob cannot be guessed
+    const manifest = ecosystem.manifests.find((name) => !isGlob(name));
+    if (!manifest || choices.some((choice) => choice.name === manifest)) continue;
+    choices.push({ name: manifest, reason: manifestReason(ecosystem, languages) });
+  }
+
+  return choices;
+}
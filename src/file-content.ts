@@ -0,0 +1,171 @@
+import { createHash } from 'crypto';
+import type { FileContent, FileEncoding } from './types.js';
+
+/** Leading bytes inspected when telling text from binary, as git does */
+const SNIFF_BYTES = 8000;
+
+/**
+ * Git blob id of a file's bytes, the same on every forge
+ */
+export function blobSha(bytes: Uint8Array): string {
+  return createHash('sha1')
+    .update(`blob ${bytes.length}\0`)
+    .update(bytes)
+    .digest('hex');
+}
+
+/**
+ * Byte order of UTF-16 text without a byte order mark, recognised by the
+ * zero high bytes of ASCII characters falling on one side of each pair
+ */
+function utf16WithoutBom(sample: Uint8Array): 'utf-16le' | 'utf-16be' | null {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Whether bytes that are not UTF-8 read as Latin-1 text: no control
+ * characters other than whitespace, escape and form feed
+ */
+function isLatin1Text(sample: Uint8Array): boolean {
+  return sample.every(
+    (byte) => byte >= 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0c || byte === 0x0d || byte === 0x1b
+  );
+}
+
+/**
+ * Encoding of a file's bytes and the length of its byte order mark, or null
+ * for binary content. Partial bytes, the start of a longer file, may end
+ * within a character.
+ */
+export function detectEncoding(
+  bytes: Uint8Array,
+  partial = false
+): { encoding: Exclude<FileEncoding, 'base64'>; bom: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', bom: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', bom: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', bom: 2 };
+
+  const sample = bytes.subarray(0, SNIFF_BYTES);
+  if (sample.includes(0)) {
+    const utf16 = utf16WithoutBom(sample);
+    return utf16 ? { encoding: utf16, bom: 0 } : null;
+  }
+
+  try {
+    // Streaming leaves a character cut at the end undecoded rather than invalid
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: partial });
+    return { encoding: 'utf-8', bom: 0 };
+  } catch {
+    return isLatin1Text(sample) ? { encoding: 'latin1', bom: 0 } : null;
+  }
+}
+
+/**
+ * Length of the longest prefix of at most limit bytes that ends on a
+ * character boundary
+ */
+function characterBoundary(bytes: Uint8Array, limit: number, encoding: FileEncoding): number {
+  if (limit >= bytes.length) return bytes.length;
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') return limit - (limit % 2);
+  if (encoding !== 'utf-8') return limit;
+
+  let end = limit;
+  // Back off over continuation bytes to the start of the cut character
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return end;
+}
+
+function decodeText(bytes: Uint8Array, encoding: Exclude<FileEncoding, 'base64'>): string {
+  if (encoding === 'latin1') return Buffer.from(bytes).toString('latin1');
+  return new TextDecoder(encoding, { ignoreBOM: true }).decode(bytes);
+}
+
+function encodeText(text: string, encoding: Exclude<FileEncoding, 'base64'>): Uint8Array {
+  if (encoding === 'utf-16be') return Buffer.from(text, 'utf16le').swap16();
+  return Buffer.from(text, encoding === 'utf-16le' ? 'utf16le' : encoding === 'latin1' ? 'latin1' : 'utf8');
+}
+
+/**
+ * Text shown of a truncated file, followed by a marker saying how much it is
+ */
+function truncatedText(text: string, shown: number, of: number | string): string {
+  return `${text}\n\n[truncated: ${shown} of ${of} bytes shown]`;
+}
+
+const TRUNCATION_MARKER = /\n\n\[truncated: \d+ of (?:over )?\d+ bytes shown\]$/;
+
+/**
+ * Decode a file's bytes for a tool response. Text is decoded from UTF-8,
+ * UTF-16 or Latin-1 and cut at maxBytes with a marker saying how much is
+ * shown; binary files are returned as base64 when they fit, and without
+ * content otherwise. Given a rest, the bytes are only the start of the file,
+ * whose size is known or null, and the blob id is not known.
+ */
+export function decodeFile(
+  path: string,
+  bytes: Uint8Array,
+  maxBytes: number,
+  rest?: { size: number | null }
+): FileContent {
+  const size = rest ? rest.size : bytes.length;
+  const file = { path, size, sha: rest ? null : blobSha(bytes) };
+  const detected = detectEncoding(bytes, rest !== undefined);
+
+  if (!detected) {
+    const fits = !rest && bytes.length <= maxBytes;
+    return {
+      ...file,
+      content: fits ? Buffer.from(bytes).toString('base64') : null,
+      encoding: 'base64',
+      is_binary: true,
+      truncated: !fits,
+    };
+  }
+
+  const { encoding, bom } = detected;
+  const end = characterBoundary(bytes, bom + maxBytes, encoding);
+  const text = decodeText(bytes.subarray(bom, Math.max(bom, end)), encoding);
+  const truncated = rest !== undefined || end < bytes.length;
+  const of = size ?? `over ${bytes.length}`;
+
+  return {
+    ...file,
+    content: truncated ? truncatedText(text, end, of) : text,
+    encoding,
+    is_binary: false,
+    truncated,
+  };
+}
+
+/**
+ * Cut a decoded file down to maxBytes of content, marked the way decodeFile
+ * marks files over its limit. Binary files that do not fit lose their content.
+ */
+export function truncateFile(file: FileContent, maxBytes: number): FileContent {
+  if (file.content === null) return file;
+  if (file.encoding === 'base64') return { ...file, content: null, truncated: true };
+
+  const text = file.truncated ? file.content.replace(TRUNCATION_MARKER, '') : file.content;
+  const bytes = encodeText(text, file.encoding);
+  if (!file.truncated && bytes.length <= maxBytes) return file;
+
+  const end = characterBoundary(bytes, maxBytes, file.encoding);
+  const shown = decodeText(bytes.subarray(0, end), file.encoding);
+  return {
+    ...file,
+    content: truncatedText(shown, end, file.size ?? `over ${bytes.length}`),
+    truncated: true,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Whether a path contains glob syntax
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|\\\]{}[*?]/g, '\\$&');
+}
+
+/**
+ * Regular expression source for a glob fragment
+ */
+function globSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        if (pattern[i + 1] === '/') {
+          // **/ matches any number of directories, including none
+          i++;
+          source += '(?:[^/]*/)*';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      const members = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += members.startsWith('!') ? `[^/${members.slice(1)}]` : `[${members}]`;
+      i = end;
+    } else if (char === '{' && pattern.indexOf('}', i) !== -1) {
+      const end = pattern.indexOf('}', i);
+      const alternatives = pattern.slice(i + 1, end).split(',');
+      source += `(?:${alternatives.map(globSource).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile a glob against repository paths. `*` and `?` stay within one path
+ * segment, `**` crosses segments, and `[abc]`, `[!abc]` and `{a,b}` are
+ * supported. Dotfiles are matched like any other file.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globSource(pattern)}$`);
+}
@@ -0,0 +1,125 @@
+import { getConfig, type Config, type ForgeHostConfig, type ProviderName } from './config.js';
+
+/**
+ * A forge instance: github.com, gitlab.com, codeberg.org, bitbucket.org, or a
+ * self-hosted GitHub Enterprise Server, GitLab, Gitea or Forgejo host
+ */
+export interface ForgeHost {
+  provider: ProviderName;
+  /** Host as it appears in repository URLs (hostname, plus port if not the default) */
+  host: string;
+  /** Origin of the web UI, e.g. https://github.example.com */
+  webBase: string;
+  /** REST API base, e.g. https://github.example.com/api/v3 */
+  apiBase: string;
+  /** Raw file content base, e.g. https://github.example.com/raw */
+  rawBase: string;
+  /** Tokens used for this host only */
+  tokens: string[];
+}
+
+export const GITHUB_COM = 'github.com';
+
+function trimSlashes(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+function uniqueTokens(tokens: Array<string | undefined>): string[] {
+  return [...new Set(tokens.filter((t): t is string => Boolean(t)))];
+}
+
+/** Bitbucket is only available as a cloud service */
+type SelfHostedProvider = Exclude<ProviderName, 'bitbucket'>;
+
+/**
+ * Default API and raw content paths of self-hosted instances, relative to the
+ * web origin. A null raw path means raw files are served through the API.
+ */
+const SELF_HOSTED_PATHS: Record<SelfHostedProvider, { api: string; raw: string | null }> = {
+  github: { api: '/api/v3', raw: '/raw' },
+  gitlab: { api: '/api/v4', raw: null },
+  gitea: { api: '/api/v1', raw: null },
+};
+
+function selfHosted(provider: SelfHostedProvider, entry: ForgeHostConfig): ForgeHost {
+  const web = new URL(entry.host.includes('://') ? entry.host : `https://${entry.host}`);
+  const paths = SELF_HOSTED_PATHS[provider];
+  const apiBase = trimSlashes(entry.apiBase ?? `${web.origin}${paths.api}`);
+  return {
+    provider,
+    host: web.host,
+    webBase: web.origin,
+    apiBase,
+    rawBase: trimSlashes(entry.rawBase ?? (paths.raw ? `${web.origin}${paths.raw}` : apiBase)),
+    tokens: uniqueTokens(entry.tokens),
+  };
+}
+
+/**
+ * All known hosts, github.com first. Self-hosted instances default to the
+ * standard layout of their provider, e.g. /api/v3 and /raw for GitHub
+ * Enterprise Server, /api/v4 for GitLab and /api/v1 for Gitea and Forgejo.
+ */
+export function getForgeHosts(config: Config = getConfig()): ForgeHost[] {
+  return [
+    {
+      provider: 'github',
+      host: GITHUB_COM,
+      webBase: 'https://github.com',
+      apiBase: 'https://api.github.com',
+      rawBase: 'https://raw.githubusercontent.com',
+      tokens: uniqueTokens([config.githubToken, ...config.githubTokens]),
+    },
+    {
+      provider: 'gitlab',
+      host: 'gitlab.com',
+      webBase: 'https://gitlab.com',
+      apiBase: 'https://gitlab.com/api/v4',
+      rawBase: 'https://gitlab.com/api/v4',
+      tokens: uniqueTokens([config.gitlabToken]),
+    },
+    {
+      provider: 'gitea',
+      host: 'codeberg.org',
+      webBase: 'https://codeberg.org',
+      apiBase: 'https://codeberg.org/api/v1',
+      rawBase: 'https://codeberg.org/api/v1',
+      tokens: uniqueTokens([config.codebergToken]),
+    },
+    {
+      provider: 'bitbucket',
+      host: 'bitbucket.org',
+      webBase: 'https://bitbucket.org',
+      apiBase: 'https://api.bitbucket.org/2.0',
+      rawBase: 'https://api.bitbucket.org/2.0',
+      tokens: uniqueTokens([config.bitbucketToken]),
+    },
+    ...config.githubHosts.map((entry) => selfHosted('github', entry)),
+    ...config.gitlabHosts.map((entry) => selfHosted('gitlab', entry)),
+    ...config.giteaHosts.map((entry) => selfHosted('gitea', entry)),
+  ];
+}
+
+/**
+ * Find the host serving repository URLs on the given host (hostname[:port])
+ */
+export function findHost(webHost: string, config: Config = getConfig()): ForgeHost | undefined {
+  const normalized = webHost.toLowerCase().replace(/^www\./, '');
+  return getForgeHosts(config).find((h) => h.host.toLowerCase() === normalized);
+}
+
+/**
+ * The host of a parsed repository; repositories without a host are on github.com
+ */
+export function hostForRepo(repo: { host?: string }, config: Config = getConfig()): ForgeHost {
+  return (repo.host && findHost(repo.host, config)) || getForgeHosts(config)[0];
+}
+
+/**
+ * The host whose API or raw content base an upstream URL belongs to, if any
+ */
+export function hostForUpstreamUrl(url: string, config: Config = getConfig()): ForgeHost | undefined {
+  return getForgeHosts(config).find(
+    (h) => url.startsWith(`${h.apiBase}/`) || url.startsWith(`${h.rawBase}/`)
+  );
+}
@@ -1,12 +1,62 @@
 // Main entry point - exports all public APIs
-export { getConfig, setConfig, loadConfig, resetConfig, type Config } from './config.js';
-export { runHttpTransport, createHttpServer, startHttpTransport } from './transport/index.js';
+export {
+  getConfig,
+  setConfig,
+  loadConfig,
+  resetConfig,
+  type Config,
+  type TransportMode,
+  type CacheEviction,
+  type ForgeHostConfig,
+  type ProviderName,
+} from './config.js';
+export { type ForgeHost, getForgeHosts, findHost } from './hosts.js';
+export { type RepoUrlParseResult, parseRepoReference } from './repo-url.js';
+export {
+  type ForgeProvider,
+  type RepositoryMetadata,
+  type RepositoryStats,
+  type CommitSummary,
+  type CommitComparison,
+  type ComparedCommit,
+  type ForgeRelease,
+  type TagDetails,
+  type PageRequest,
+  type ReleasePage,
+  type ResolvedRef,
+  type RepoTree,
+  type UnsupportedFields,
+  githubProvider,
+  gitlabProvider,
+  giteaProvider,
+  bitbucketProvider,
+  providerFor,
+} from './providers/index.js';
+export {
+  runHttpTransport,
+  createHttpServer,
+  startHttpTransport,
+  createStdioTransport,
+  startStdioTransport,
+  handleJsonRpcRequest,
+  type StdioTransport,
+} from './transport/index.js';
 export {
   repoOverview,
   extractKeyFiles,
+  listTree,
+  listDependencies,
+  licenseReport,
+  readmeDigest,
   releaseNotes,
+  upgradeNotes,
   activitySnapshot,
+  repoBrief,
+  rateLimitStatus,
   parseRepoUrl,
+  type RepoBriefOptions,
+  type DependenciesOptions,
+  type UpgradeNotesOptions,
 } from './tools/index.js';
 export {
   type ApiResponse,
@@ -16,14 +66,108 @@ export {
   type RepoOverviewData,
   type ExtractKeyFilesData,
   type FileContent,
+  type FileEncoding,
+  type ListTreeData,
+  type TreeEntry,
+  type DependenciesData,
+  type Dependency,
+  type DependencyEcosystem,
+  type DependencyScope,
+  type ManifestStatus,
+  type LicenseReportData,
+  type LicenseCategory,
+  type LicenseMatch,
+  type LicenseFileReport,
+  type DeclaredLicense,
+  type PackageLicense,
+  type ReadmeDigestData,
+  type ReadmeFormat,
+  type ReadmeSection,
+  type ReadmeCodeBlock,
+  type ReadmeBadge,
+  type BadgeKind,
+  type ReadmeLink,
+  type ReadmeImage,
   type ReleaseNotesData,
   type ReleaseData,
+  type ReleaseVersion,
+  type ReleaseSort,
+  type ReleaseSource,
+  type ReleaseChanges,
+  type ChangeCategory,
+  type UpgradeNotesData,
+  type UpgradeVersion,
+  type UpgradeCommit,
+  type BreakingChange,
+  type BreakingMarker,
   type ActivitySnapshotData,
+  type RepoBriefData,
+  type BriefSection,
+  type BriefSectionStatus,
+  type RateLimitStatusData,
+  type RateLimitResourceStatus,
+  type RateLimitTokenStatus,
+  type ProgressReporter,
   type ParsedRepoInfo,
+  type OutputFormat,
+  type UpstreamMeta,
+  OUTPUT_FORMATS,
+  RELEASE_SORTS,
+  RELEASE_SOURCES,
+  CHANGE_CATEGORIES,
   createSuccessResponse,
   createErrorResponse,
+  CursorSchema,
   RepoOverviewInputSchema,
   ExtractKeyFilesInputSchema,
   ReleaseNotesInputSchema,
   ActivitySnapshotInputSchema,
+  ListTreeInputSchema,
+  DependenciesInputSchema,
+  LicenseReportInputSchema,
+  ReadmeDigestInputSchema,
+  UpgradeNotesInputSchema,
+  RepoBriefInputSchema,
+  RateLimitStatusInputSchema,
 } from './types.js';
+export { manifestFormat, parseManifest, parseToml, parseXml } from './manifests/index.js';
+export {
+  classifyDeclaredLicense,
+  licenseCategory,
+  matchLicenseText,
+  parseLicenseExpression,
+  LICENSE_TEMPLATES,
+} from './licenses/index.js';
+export { type VersionRange, compareVersions, parseRange, parseVersion, satisfies } from './semver.js';
+export {
+  type CursorPosition,
+  type CursorResult,
+  type PageOptions,
+  decodeCursor,
+  encodeCursor,
+  invalidCursor,
+  pageWindow,
+} from './pagination.js';
+export {
+  type BreakingItem,
+  type ChangelogEntry,
+  breakingChangesInCommit,
+  breakingChangesInNotes,
+  changeCategory,
+  parseChangelog,
+  releaseChanges,
+} from './changelog/index.js';
+export { badgeKind, digestReadme, parseReadme, readmeFormat, resolveReadmeUrl } from './readme/index.js';
+export { renderResult, renderMarkdown, renderHtml, renderYaml } from './render/index.js';
+export {
+  withUpstreamContext,
+  clearResponseCache,
+  setCacheStore,
+  createMemoryCacheStore,
+  createFileCacheStore,
+  type CacheStore,
+  type CachedResponse,
+  RateLimitError,
+  resetRateLimitState,
+  type RateLimitBudget,
+} from './upstream/index.js';
@@ -0,0 +1,198 @@
+import type { LicenseCategory } from '../types.js';
+
+/**
+ * Categories of SPDX licenses, keyed by identifier without an -only,
+ * -or-later or + suffix. Licenses missing here are 'unknown'.
+ */
+const CATEGORIES: Record<string, LicenseCategory> = {
+  '0BSD': 'permissive',
+  'AFL-3.0': 'permissive',
+  'Apache-1.1': 'permissive',
+  'Apache-2.0': 'permissive',
+  'Artistic-2.0': 'permissive',
+  'BlueOak-1.0.0': 'permissive',
+  'BSD-2-Clause': 'permissive',
+  'BSD-3-Clause': 'permissive',
+  'BSL-1.0': 'permissive',
+  'CC-BY-4.0': 'permissive',
+  'CC0-1.0': 'permissive',
+  ISC: 'permissive',
+  MIT: 'permissive',
+  'MIT-0': 'permissive',
+  NCSA: 'permissive',
+  PostgreSQL: 'permissive',
+  'PSF-2.0': 'permissive',
+  'Python-2.0': 'permissive',
+  Unlicense: 'permissive',
+  'UPL-1.0': 'permissive',
+  WTFPL: 'permissive',
+  X11: 'permissive',
+  Zlib: 'permissive',
+  'CDDL-1.0': 'weak-copyleft',
+  'CDDL-1.1': 'weak-copyleft',
+  'CPL-1.0': 'weak-copyleft',
+  'EPL-1.0': 'weak-copyleft',
+  'EPL-2.0': 'weak-copyleft',
+  'LGPL-2.0': 'weak-copyleft',
+  'LGPL-2.1': 'weak-copyleft',
+  'LGPL-3.0': 'weak-copyleft',
+  'MPL-1.1': 'weak-copyleft',
+  'MPL-2.0': 'weak-copyleft',
+  'AGPL-3.0': 'strong-copyleft',
+  'GPL-1.0': 'strong-copyleft',
+  'GPL-2.0': 'strong-copyleft',
+  'GPL-3.0': 'strong-copyleft',
+  'OSL-3.0': 'strong-copyleft',
+};
+
+const CATEGORY_BY_KEY = new Map(
+  Object.entries(CATEGORIES).map(([id, category]) => [id.toLowerCase(), category])
+);
+
+/** Categories from least to most restrictive */
+const RESTRICTIVENESS: LicenseCategory[] = ['permissive', 'weak-copyleft', 'strong-copyleft'];
+
+/**
+ * License names as written in pom.xml and older manifests, with the SPDX
+ * license they stand for. More specific names come first.
+ */
+const LICENSE_NAMES: Array<[RegExp, string]> = [
+  [/\bapache\b.*\bv?2(\.0)?\b/, 'Apache-2.0'],
+  [/\baffero\b|\bagpl/, 'AGPL-3.0'],
+  [/\b(lesser|library)\b.*\bv?2\.1\b|\blgpl\W*v?2\.1/, 'LGPL-2.1'],
+  [/\b(lesser|library)\b.*\bv?3(\.0)?\b|\blgpl\W*v?3/, 'LGPL-3.0'],
+  [/\bgeneral public license\b.*\bv?2(\.0)?\b|\bgpl\W*v?2/, 'GPL-2.0'],
+  [/\bgeneral public license\b.*\bv?3(\.0)?\b|\bgpl\W*v?3/, 'GPL-3.0'],
+  [/\bmozilla\b.*\bv?2(\.0)?\b|\bmpl\W*v?2/, 'MPL-2.0'],
+  [/\beclipse\b.*\bv?2(\.0)?\b|\bepl\W*v?2/, 'EPL-2.0'],
+  [/\beclipse\b.*\bv?1(\.0)?\b|\bepl\W*v?1/, 'EPL-1.0'],
+  [/\bcommon development and distribution\b.*\b1\.1\b/, 'CDDL-1.1'],
+  [/\bcommon development and distribution\b|\bcddl\b/, 'CDDL-1.0'],
+  [/\bbsd\b.*\b3\b|\b(new|revised|modified) bsd\b/, 'BSD-3-Clause'],
+  [/\bbsd\b.*\b2\b|\b(simplified|freebsd) bsd\b/, 'BSD-2-Clause'],
+  [/\bboost\b/, 'BSL-1.0'],
+  [/\bunlicense\b/, 'Unlicense'],
+  [/\bcc0\b|\bpublic domain dedication\b/, 'CC0-1.0'],
+  [/\bisc\b/, 'ISC'],
+  [/\bmit\b/, 'MIT'],
+];
+
+/**
+ * SPDX identifier without the -only, -or-later or + suffix of GNU licenses
+ */
+export function baseLicenseId(id: string): string {
+  return id.replace(/(-only|-or-later|\+)$/i, '');
+}
+
+export function licenseCategory(id: string): LicenseCategory {
+  return CATEGORY_BY_KEY.get(baseLicenseId(id).toLowerCase()) ?? 'unknown';
+}
+
+/**
+ * Category of licenses that all apply: the most restrictive one, or
+ * 'unknown' when any of them is unknown
+ */
+export function allOfCategories(categories: LicenseCategory[]): LicenseCategory {
+  if (categories.length === 0 || categories.includes('unknown')) return 'unknown';
+  return RESTRICTIVENESS[Math.max(...categories.map((category) => RESTRICTIVENESS.indexOf(category)))];
+}
+
+/**
+ * Category of licenses to choose from: the least restrictive known one
+ */
+export function anyOfCategories(categories: LicenseCategory[]): LicenseCategory {
+  const known = categories.filter((category) => category !== 'unknown');
+  if (known.length === 0) return 'unknown';
+  return RESTRICTIVENESS[Math.min(...known.map((category) => RESTRICTIVENESS.indexOf(category)))];
+}
+
+/**
+ * SPDX identifier of a license written out by name, such as
+ * "The Apache Software License, Version 2.0"
+ */
+export function licenseIdFromName(name: string): string | null {
+  const text = name.toLowerCase().replace(/[,()]/g, ' ').replace(/\s+/g, ' ');
+  return LICENSE_NAMES.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+export interface LicenseExpression {
+  /** Licenses named in the expression, in order, without exceptions */
+  spdx_ids: string[];
+  category: LicenseCategory;
+}
+
+/**
+ * Parse an SPDX license expression such as "MIT OR (Apache-2.0 AND BSD-3-Clause)".
+ * OR offers a choice, so the least restrictive alternative decides the
+ * category; AND combines licenses, so the most restrictive one does. An
+ * exception after WITH keeps the category of its license. Returns null when
+ * the text is not an expression.
+ */
+export function parseLicenseExpression(text: string): LicenseExpression | null {
+  const tokens = text.match(/\(|\)|[^\s()]+/g) ?? [];
+  const ids: string[] = [];
+  let pos = 0;
+
+  const keyword = (word: string) => tokens[pos]?.toUpperCase() === word;
+  const isId = (token: string | undefined) =>
+    token !== undefined && /^[A-Za-z0-9][A-Za-z0-9.+:-]*$/.test(token) && !/^(AND|OR|WITH)$/i.test(token);
+
+  const parseOr = (): LicenseCategory | null => {
+    const alternatives = [parseAnd()];
+    while (keyword('OR')) {
+      pos++;
+      alternatives.push(parseAnd());
+    }
+    return alternatives.includes(null) ? null : anyOfCategories(alternatives as LicenseCategory[]);
+  };
+
+  const parseAnd = (): LicenseCategory | null => {
+    const terms = [parseTerm()];
+    while (keyword('AND')) {
+      pos++;
+      terms.push(parseTerm());
+    }
+    return terms.includes(null) ? null : allOfCategories(terms as LicenseCategory[]);
+  };
+
+  const parseTerm = (): LicenseCategory | null => {
+    if (tokens[pos] === '(') {
+      pos++;
+      const category = parseOr();
+      if (tokens[pos] !== ')') return null;
+      pos++;
+      return category;
+    }
+
+    const id = tokens[pos];
+    if (!isId(id)) return null;
+    pos++;
+    if (keyword('WITH')) {
+      pos++;
+      if (!isId(tokens[pos])) return null;
+      pos++;
+    }
+    ids.push(id!);
+    return licenseCategory(id!);
+  };
+
+  if (tokens.length === 0) return null;
+  const category = parseOr();
+  if (category === null || pos < tokens.length) return null;
+  return { spdx_ids: ids, category };
+}
+
+/**
+ * Licenses and category of a manifest's license field: an SPDX expression,
+ * or license names such as "(Apache License, Version 2.0) OR (MIT License)"
+ */
+export function classifyDeclaredLicense(text: string): LicenseExpression {
+  const expression = parseLicenseExpression(text);
+  if (expression) return expression;
+
+  const ids = text
+    .split(/\)\s+OR\s+\(/)
+    .map((alternative) => licenseIdFromName(alternative.replace(/^\(|\)$/g, '')))
+    .filter((id): id is string => id !== null);
+  return { spdx_ids: ids, category: anyOfCategories(ids.map(licenseCategory)) };
+}
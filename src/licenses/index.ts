@@ -0,0 +1,12 @@
+export { type LicenseTemplate, LICENSE_TEMPLATES } from './templates.js';
+export {
+  type LicenseExpression,
+  allOfCategories,
+  anyOfCategories,
+  baseLicenseId,
+  classifyDeclaredLicense,
+  licenseCategory,
+  licenseIdFromName,
+  parseLicenseExpression,
+} from './classify.js';
+export { matchLicenseText } from './match.js';
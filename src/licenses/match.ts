@@ -0,0 +1,107 @@
+import type { LicenseMatch } from '../types.js';
+import { licenseCategory } from './classify.js';
+import { type LicenseTemplate, LICENSE_TEMPLATES } from './templates.js';
+
+/** Lowest similarity at which a text is taken to be a (possibly modified) copy of a template */
+const MATCH_THRESHOLD = 0.8;
+
+/** Number of opening words a copy of a template is located by */
+const ANCHOR_WORDS = 4;
+
+/**
+ * Words of a license text, lowercased and without copyright notices, which
+ * differ between copies of the same license
+ */
+function licenseWords(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => !/^\W*(copyright\b.*(\(c\)|©|\d{4}|[<[{])|\(c\)|©|all rights reserved\b)/i.test(line))
+    .join('\n')
+    .toLowerCase()
+    .replace(/licence/g, 'license')
+    .replace(/https:/g, 'http:')
+    .match(/[a-z0-9]+/g) ?? [];
+}
+
+/**
+ * Pairs of adjacent words, which unlike single words change when words are
+ * inserted, removed or reordered
+ */
+function wordPairs(words: string[]): Set<string> {
+  const pairs = new Set<string>();
+  for (let i = 1; i < words.length; i++) pairs.add(`${words[i - 1]} ${words[i]}`);
+  return pairs;
+}
+
+interface PreparedTemplate {
+  template: LicenseTemplate;
+  length: number;
+  pairs: Set<string>;
+  anchor: string[];
+}
+
+const PREPARED: PreparedTemplate[] = LICENSE_TEMPLATES.map((template) => {
+  const words = licenseWords(template.text);
+  return {
+    template,
+    length: words.length,
+    pairs: wordPairs(words),
+    anchor: words.slice(0, ANCHOR_WORDS),
+  };
+});
+
+/**
+ * Sørensen–Dice coefficient of two sets
+ */
+function dice(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Licenses whose text appears in a LICENSE or COPYING file, in the order
+ * they appear. Each template is compared with the stretch of the file that
+ * starts where the template's opening words occur (or at the start of the
+ * file) and is as long as the template, so a file holding several licenses
+ * yields one match for each. Where candidates overlap, the most similar wins.
+ */
+export function matchLicenseText(text: string): LicenseMatch[] {
+  const words = licenseWords(text);
+  const candidates: Array<{ start: number; end: number; score: number; prepared: PreparedTemplate }> = [];
+
+  for (const prepared of PREPARED) {
+    const starts = new Set([0]);
+    for (let i = 0; i + ANCHOR_WORDS <= words.length; i++) {
+      if (prepared.anchor.every((word, offset) => words[i + offset] === word)) starts.add(i);
+    }
+
+    for (const start of starts) {
+      const end = Math.min(start + prepared.length, words.length);
+      const score = dice(prepared.pairs, wordPairs(words.slice(start, end)));
+      if (score >= MATCH_THRESHOLD) candidates.push({ start, end, score, prepared });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || b.prepared.length - a.prepared.length);
+  const chosen: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (chosen.every((other) => candidate.end <= other.start || candidate.start >= other.end)) {
+      chosen.push(candidate);
+    }
+  }
+
+  // Notices of bundled code repeat licenses; each is reported once, as its closest copy
+  const matches = new Map<string, LicenseMatch>();
+  for (const { score, prepared } of chosen.sort((a, b) => a.start - b.start)) {
+    const { spdx_id, name } = prepared.template;
+    const confidence = Math.floor(score * 100) / 100;
+    const seen = matches.get(spdx_id);
+    if (!seen || seen.confidence < confidence) {
+      matches.set(spdx_id, { spdx_id, name, category: licenseCategory(spdx_id), confidence });
+    }
+  }
+  return [...matches.values()];
+}
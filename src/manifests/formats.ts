@@ -0,0 +1,483 @@
+import type { Dependency, DependencyEcosystem, DependencyScope } from '../types.js';
+import { type TomlTable, isTable, parseToml } from './toml.js';
+import { childElement, childElements, childText, parseXml } from './xml.js';
+
+/**
+ * A dependency as declared in one manifest
+ */
+export type DeclaredDependency = Omit<Dependency, 'ecosystem' | 'manifest'>;
+
+export interface ManifestFormat {
+  ecosystem: DependencyEcosystem;
+  /** File names of manifests in this format */
+  pattern: RegExp;
+  /** Read the declared dependencies; throws when the manifest is malformed */
+  parse(content: string, name: string): DeclaredDependency[];
+  /**
+   * Read the declared license, usually an SPDX expression; null when none is
+   * declared. Missing for formats without a license field.
+   */
+  license?(content: string): string | null;
+}
+
+function parseJsonObject(content: string): Record<string, unknown> {
+  const data: unknown = JSON.parse(content);
+  if (!isTable(data)) throw new Error('Expected a JSON object');
+  return data;
+}
+
+/**
+ * Entries of a name-to-version map such as package.json "dependencies"
+ */
+function versionMap(value: unknown, field: string, scope: DependencyScope): DeclaredDependency[] {
+  if (value === undefined) return [];
+  if (!isTable(value)) throw new Error(`"${field}" must be an object`);
+  return Object.entries(value).map(([name, spec]) => ({
+    name,
+    version_spec: typeof spec === 'string' && spec !== '' ? spec : null,
+    scope,
+  }));
+}
+
+function tableEntries(value: unknown): Array<[string, TomlTable]> {
+  return isTable(value)
+    ? Object.entries(value).filter((entry): entry is [string, TomlTable] => isTable(entry[1]))
+    : [];
+}
+
+/**
+ * A license field holding one license or a list of alternatives
+ */
+function licenseAlternatives(licenses: string[]): string | null {
+  if (licenses.length === 0) return null;
+  return licenses.length === 1 ? licenses[0] : licenses.map((license) => `(${license})`).join(' OR ');
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`"${field}" must be an array`);
+  return value.filter((item): item is string => typeof item === 'string');
+}
+
+// =============================================================================
+// npm and Composer
+// =============================================================================
+
+function parsePackageJson(content: string): DeclaredDependency[] {
+  const data = parseJsonObject(content);
+  const peerMeta = isTable(data.peerDependenciesMeta) ? data.peerDependenciesMeta : {};
+
+  return [
+    ...versionMap(data.dependencies, 'dependencies', 'runtime'),
+    ...versionMap(data.devDependencies, 'devDependencies', 'dev'),
+    ...versionMap(data.optionalDependencies, 'optionalDependencies', 'optional'),
+    // Peers are provided by the host package, unless marked optional
+    ...versionMap(data.peerDependencies, 'peerDependencies', 'runtime').map((dependency) => {
+      const meta = peerMeta[dependency.name];
+      return isTable(meta) && meta.optional === true
+        ? { ...dependency, scope: 'optional' as const }
+        : dependency;
+    }),
+  ];
+}
+
+function packageJsonLicense(content: string): string | null {
+  const data = parseJsonObject(content);
+  // Older packages use {type, url} objects or a "licenses" array of them
+  const entries = [data.license, ...(Array.isArray(data.licenses) ? data.licenses : [])];
+  return licenseAlternatives(
+    entries
+      .map((entry) => (isTable(entry) ? entry.type : entry))
+      .filter((license): license is string => typeof license === 'string' && license !== '')
+  );
+}
+
+function parseComposerJson(content: string): DeclaredDependency[] {
+  const data = parseJsonObject(content);
+
+  // Platform requirements (php, ext-*, lib-*) are not packages
+  return [
+    ...versionMap(data.require, 'require', 'runtime'),
+    ...versionMap(data['require-dev'], 'require-dev', 'dev'),
+  ].filter((dependency) => dependency.name.includes('/'));
+}
+
+function composerJsonLicense(content: string): string | null {
+  const { license } = parseJsonObject(content);
+  // A list offers a choice between licenses
+  const licenses = Array.isArray(license) ? license : [license];
+  return licenseAlternatives(
+    licenses.filter((item): item is string => typeof item === 'string' && item !== '')
+  );
+}
+
+// =============================================================================
+// Python
+// =============================================================================
+
+const REQUIREMENT = /^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(?:\[[^\]]*\])?\s*(.*)$/;
+
+/**
+ * Name and version specifier of a PEP 508 requirement; extras and
+ * environment markers are dropped. A direct reference (name @ url) has the
+ * URL as its specifier.
+ */
+function parseRequirement(text: string, scope: DependencyScope): DeclaredDependency {
+  const match = REQUIREMENT.exec(text.split(';')[0].trim());
+  if (!match) throw new Error(`Invalid requirement "${text}"`);
+
+  let spec = match[2].replace(/\s+/g, ' ').trim();
+  if (spec.startsWith('@')) spec = spec.slice(1).trim();
+  if (spec.startsWith('(') && spec.endsWith(')')) spec = spec.slice(1, -1).trim();
+  return { name: match[1], version_spec: spec || null, scope };
+}
+
+/**
+ * Poetry dependency tables, whose values are a constraint, a table with a
+ * version, or a list of such tables for different environments
+ */
+function poetryDependencies(value: unknown, scope: DependencyScope): DeclaredDependency[] {
+  if (!isTable(value)) return [];
+
+  return Object.entries(value)
+    .filter(([name]) => name !== 'python')
+    .map(([name, spec]) => {
+      const constraints = Array.isArray(spec) ? spec : [spec];
+      const versions = constraints
+        .map((constraint) => (isTable(constraint) ? constraint.version : constraint))
+        .filter((version): version is string => typeof version === 'string');
+      const optional = constraints.some((constraint) => isTable(constraint) && constraint.optional === true);
+      return {
+        name,
+        version_spec: versions.length > 0 ? versions.join(' || ') : null,
+        scope: optional ? 'optional' : scope,
+      };
+    });
+}
+
+function parsePyproject(content: string): DeclaredDependency[] {
+  const data = parseToml(content);
+  const project = isTable(data.project) ? data.project : {};
+  const dependencies: DeclaredDependency[] = [];
+
+  // PEP 621
+  for (const requirement of stringList(project.dependencies, 'project.dependencies')) {
+    dependencies.push(parseRequirement(requirement, 'runtime'));
+  }
+  const extras = isTable(project['optional-dependencies']) ? project['optional-dependencies'] : {};
+  for (const [extra, requirements] of Object.entries(extras)) {
+    for (const requirement of stringList(requirements, `project.optional-dependencies.${extra}`)) {
+      dependencies.push(parseRequirement(requirement, 'optional'));
+    }
+  }
+
+  // PEP 735 dependency groups; {include-group = ...} entries name other groups
+  const groups = isTable(data['dependency-groups']) ? data['dependency-groups'] : {};
+  for (const [group, requirements] of Object.entries(groups)) {
+    for (const requirement of stringList(requirements, `dependency-groups.${group}`)) {
+      dependencies.push(parseRequirement(requirement, 'dev'));
+    }
+  }
+
+  // Poetry
+  const tool = isTable(data.tool) ? data.tool : {};
+  const poetry = isTable(tool.poetry) ? tool.poetry : {};
+  dependencies.push(...poetryDependencies(poetry.dependencies, 'runtime'));
+  dependencies.push(...poetryDependencies(poetry['dev-dependencies'], 'dev'));
+  for (const [group, settings] of tableEntries(poetry.group)) {
+    dependencies.push(...poetryDependencies(settings.dependencies, group === 'main' ? 'runtime' : 'dev'));
+  }
+
+  return dependencies;
+}
+
+function pyprojectLicense(content: string): string | null {
+  const data = parseToml(content);
+  const project = isTable(data.project) ? data.project : {};
+  const tool = isTable(data.tool) ? data.tool : {};
+  const poetry = isTable(tool.poetry) ? tool.poetry : {};
+
+  // PEP 639 expressions are strings; PEP 621 tables hold free text or point to a file
+  const license = project.license ?? poetry.license;
+  if (typeof license === 'string') return license;
+  return isTable(license) && typeof license.text === 'string' ? license.text.trim() || null : null;
+}
+
+function parseRequirementsTxt(content: string, name: string): DeclaredDependency[] {
+  const scope: DependencyScope = /dev|test|lint|doc/i.test(name) ? 'dev' : 'runtime';
+  const dependencies: DeclaredDependency[] = [];
+
+  // Backslashes at the end of a line continue it on the next; errors name the line it starts on
+  const lines: Array<{ text: string; number: number }> = [];
+  let continued = false;
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const text = raw.replace(/\\$/, '');
+    if (continued) lines[lines.length - 1].text += ` ${text}`;
+    else lines.push({ text, number: index + 1 });
+    continued = raw.endsWith('\\');
+  });
+
+  for (const { text, number } of lines) {
+    // Per-requirement options such as --hash follow the requirement
+    const line = text.replace(/(^|\s)#.*$/, '').split(/\s--/)[0].trim();
+    // Options (-r, -e, --index-url) and direct references to URLs or local paths name no package
+    if (line === '' || line.startsWith('-') || /^[a-z][a-z0-9+.-]*:\/\//i.test(line) || /^[./~]/.test(line)) {
+      continue;
+    }
+    try {
+      dependencies.push(parseRequirement(line, scope));
+    } catch (error) {
+      throw new Error(`line ${number}: ${(error as Error).message}`);
+    }
+  }
+
+  return dependencies;
+}
+
+// =============================================================================
+// Rust
+// =============================================================================
+
+const CARGO_SECTIONS: Array<[string, DependencyScope]> = [
+  ['dependencies', 'runtime'],
+  ['dev-dependencies', 'dev'],
+  // Build dependencies are compiled for build scripts, not shipped
+  ['build-dependencies', 'dev'],
+];
+
+function parseCargoToml(content: string): DeclaredDependency[] {
+  const data = parseToml(content);
+  const workspace = isTable(data.workspace) ? data.workspace : {};
+  const inherited = isTable(workspace.dependencies) ? workspace.dependencies : {};
+
+  const versionOf = (spec: unknown): string | null => {
+    if (typeof spec === 'string') return spec;
+    return isTable(spec) && typeof spec.version === 'string' ? spec.version : null;
+  };
+
+  // Target-specific tables such as [target.'cfg(unix)'.dependencies] count like the plain ones
+  const scopes = [data, ...tableEntries(data.target).map(([, target]) => target)];
+  const dependencies: DeclaredDependency[] = [];
+
+  for (const table of scopes) {
+    for (const [section, scope] of CARGO_SECTIONS) {
+      const entries = table[section];
+      if (entries === undefined) continue;
+      if (!isTable(entries)) throw new Error(`[${section}] must be a table`);
+
+      for (const [key, spec] of Object.entries(entries)) {
+        const fromWorkspace = isTable(spec) && spec.workspace === true ? inherited[key] : undefined;
+        const settings = isTable(spec) ? spec : {};
+        const rename = settings.package ?? (isTable(fromWorkspace) ? fromWorkspace.package : undefined);
+        dependencies.push({
+          name: typeof rename === 'string' ? rename : key,
+          version_spec: versionOf(spec) ?? versionOf(fromWorkspace),
+          scope: settings.optional === true ? 'optional' : scope,
+        });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+function cargoTomlLicense(content: string): string | null {
+  const data = parseToml(content);
+  const settings = isTable(data.package) ? data.package : {};
+  const workspace = isTable(data.workspace) && isTable(data.workspace.package) ? data.workspace.package : {};
+
+  // license.workspace = true inherits [workspace.package] license
+  const license =
+    isTable(settings.license) && settings.license.workspace === true ? workspace.license : settings.license;
+  return typeof license === 'string' ? license : null;
+}
+
+// =============================================================================
+// Go
+// =============================================================================
+
+function parseGoMod(content: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  let block: string | null = null;
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/\/\/.*$/, '').trim();
+    if (line === '') return;
+
+    if (block !== null) {
+      if (line === ')') {
+        block = null;
+        return;
+      }
+      if (block !== 'require') return;
+    }
+
+    const opening = /^(\w+)\s*\($/.exec(line);
+    if (opening) {
+      block = opening[1];
+      return;
+    }
+
+    const requirement = block === 'require' ? line : /^require\s+(.*)$/.exec(line)?.[1];
+    if (requirement === undefined) return;
+
+    const [path, version] = requirement.split(/\s+/);
+    if (!path || !version) {
+      throw new Error(`line ${index + 1}: Expected a module path and version`);
+    }
+    dependencies.push({ name: path.replace(/^"|"$/g, ''), version_spec: version, scope: 'runtime' });
+  });
+
+  if (block !== null) throw new Error(`Unclosed ${block} block`);
+  return dependencies;
+}
+
+// =============================================================================
+// Ruby
+// =============================================================================
+
+const DEV_GROUPS = new Set(['development', 'test']);
+
+/**
+ * Names of the groups in a Gemfile option or group declaration, such as
+ * `:test`, `"test"` or `[:development, :test]`
+ */
+function groupNames(text: string): string[] {
+  return [...text.matchAll(/:(\w+)|["'](\w+)["']/g)].map((match) => match[1] ?? match[2]);
+}
+
+function stripRubyComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function parseGemfile(content: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  const blocks: Array<{ groups: string[]; optional: boolean }> = [];
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = stripRubyComment(raw).trim();
+    if (line === '') return;
+
+    if (line === 'end') {
+      if (!blocks.pop()) throw new Error(`line ${index + 1}: "end" without a block`);
+      return;
+    }
+
+    const group = /^group\s*\(?(.*?)\)?\s+do(\s*\|.*\|)?$/.exec(line);
+    if (group) {
+      const [names, options = ''] = group[1].split(/,\s*optional:/);
+      blocks.push({ groups: groupNames(names), optional: /^\s*true/.test(options) });
+      return;
+    }
+
+    const gem = /^gem\s*\(?\s*(["'])([^"']+)\1(.*)$/.exec(line);
+    if (gem) {
+      const rest = gem[3];
+      // Version requirements are the string arguments before the first option
+      const versions: string[] = [];
+      const argument = /\s*,\s*(["'])([^"']*)\1/y;
+      let match: RegExpExecArray | null;
+      while ((match = argument.exec(rest))) versions.push(match[2]);
+
+      const groupOption = /\bgroups?:\s*(\[[^\]]*\]|:\w+|["']\w+["'])/.exec(rest);
+      const groups = [
+        ...blocks.flatMap((block) => block.groups),
+        ...(groupOption ? groupNames(groupOption[1]) : []),
+      ];
+      const scope: DependencyScope = blocks.some((block) => block.optional)
+        ? 'optional'
+        : groups.some((name) => DEV_GROUPS.has(name))
+          ? 'dev'
+          : 'runtime';
+
+      dependencies.push({
+        name: gem[2],
+        version_spec: versions.length > 0 ? versions.join(', ') : null,
+        scope,
+      });
+    }
+
+    // Other blocks (platforms, source, path, git) group gems without changing their scope
+    if (/\bdo(\s*\|.*\|)?$/.test(line)) {
+      blocks.push({ groups: [], optional: false });
+    }
+  });
+
+  if (blocks.length > 0) throw new Error('Unclosed block at end of file');
+  return dependencies;
+}
+
+// =============================================================================
+// Maven
+// =============================================================================
+
+function parsePomXml(content: string): DeclaredDependency[] {
+  const project = parseXml(content);
+  if (project.name !== 'project') throw new Error('Root element is not <project>');
+
+  const parent = childElement(project, 'parent');
+  const properties: Record<string, string> = {};
+  for (const property of childElement(project, 'properties')?.children ?? []) {
+    properties[property.name] = property.text.trim();
+  }
+  const version = childText(project, 'version') ?? (parent ? childText(parent, 'version') : null);
+  const groupId = childText(project, 'groupId') ?? (parent ? childText(parent, 'groupId') : null);
+  if (version) properties['project.version'] = version;
+  if (groupId) properties['project.groupId'] = groupId;
+
+  const interpolate = (text: string) =>
+    text.replace(/\$\{([^}]+)\}/g, (reference, name: string) =>
+      Object.hasOwn(properties, name) ? properties[name] : reference
+    );
+
+  const container = childElement(project, 'dependencies');
+  return (container ? childElements(container, 'dependency') : []).map((dependency) => {
+    const group = childText(dependency, 'groupId');
+    const artifact = childText(dependency, 'artifactId');
+    if (!group || !artifact) throw new Error('<dependency> without groupId or artifactId');
+
+    const spec = childText(dependency, 'version');
+    const scope = childText(dependency, 'scope');
+    return {
+      name: `${interpolate(group)}:${interpolate(artifact)}`,
+      // Without a version, the version comes from dependency management in a parent or BOM
+      version_spec: spec ? interpolate(spec) : null,
+      scope:
+        childText(dependency, 'optional') === 'true' ? 'optional' : scope === 'test' ? 'dev' : 'runtime',
+    };
+  });
+}
+
+function pomXmlLicense(content: string): string | null {
+  const project = parseXml(content);
+  const container = childElement(project, 'licenses');
+  // Licenses are listed by name, such as "The Apache Software License, Version 2.0"
+  return licenseAlternatives(
+    (container ? childElements(container, 'license') : [])
+      .map((license) => childText(license, 'name'))
+      .filter((name): name is string => name !== null)
+  );
+}
+
+export const MANIFEST_FORMATS: ManifestFormat[] = [
+  { ecosystem: 'npm', pattern: /^package\.json$/, parse: parsePackageJson, license: packageJsonLicense },
+  { ecosystem: 'PyPI', pattern: /^pyproject\.toml$/, parse: parsePyproject, license: pyprojectLicense },
+  { ecosystem: 'PyPI', pattern: /^requirements[\w.-]*\.txt$/i, parse: parseRequirementsTxt },
+  { ecosystem: 'crates.io', pattern: /^Cargo\.toml$/, parse: parseCargoToml, license: cargoTomlLicense },
+  { ecosystem: 'Go', pattern: /^go\.mod$/, parse: parseGoMod },
+  { ecosystem: 'RubyGems', pattern: /^Gemfile$/, parse: parseGemfile },
+  { ecosystem: 'Packagist', pattern: /^composer\.json$/, parse: parseComposerJson, license: composerJsonLicense },
+  { ecosystem: 'Maven', pattern: /^pom\.xml$/, parse: parsePomXml, license: pomXmlLicense },
+];
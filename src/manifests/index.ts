@@ -0,0 +1,30 @@
+import type { Dependency } from '../types.js';
+import { type ManifestFormat, MANIFEST_FORMATS } from './formats.js';
+
+export { type DeclaredDependency, type ManifestFormat, MANIFEST_FORMATS } from './formats.js';
+export { type TomlTable, parseToml } from './toml.js';
+export { type XmlElement, parseXml } from './xml.js';
+
+/**
+ * Format of a manifest, recognised by its file name
+ */
+export function manifestFormat(path: string): ManifestFormat | undefined {
+  const name = path.split('/').pop()!;
+  return MANIFEST_FORMATS.find((format) => format.pattern.test(name));
+}
+
+/**
+ * Dependencies declared in a manifest. Throws when the file is not a
+ * supported manifest or cannot be parsed.
+ */
+export function parseManifest(path: string, content: string): Dependency[] {
+  const format = manifestFormat(path);
+  if (!format) throw new Error(`${path} is not a supported manifest`);
+
+  const name = path.split('/').pop()!;
+  return format.parse(content, name).map((dependency) => ({
+    ecosystem: format.ecosystem,
+    ...dependency,
+    manifest: path,
+  }));
+}
@@ -0,0 +1,338 @@
+/**
+ * A TOML table. Tables have no prototype, so keys such as __proto__ are
+ * ordinary keys.
+ */
+export type TomlTable = Record<string, unknown>;
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  '"': '"',
+  '\\': '\\',
+};
+
+function newTable(): TomlTable {
+  return Object.create(null) as TomlTable;
+}
+
+export function isTable(value: unknown): value is TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a TOML document: tables, arrays of tables, dotted and quoted keys,
+ * all four kinds of strings, numbers, booleans, arrays and inline tables.
+ * Dates and times are kept as strings. Errors name the line they occur on.
+ */
+export function parseToml(source: string): TomlTable {
+  const length = source.length;
+  const root = newTable();
+  let current = root;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = source.slice(0, pos).split('\n').length;
+    throw new Error(`line ${line}: ${message}`);
+  };
+
+  const skipSpaces = () => {
+    while (source[pos] === ' ' || source[pos] === '\t') pos++;
+  };
+
+  const skipComment = () => {
+    if (source[pos] === '#') {
+      while (pos < length && source[pos] !== '\n') pos++;
+    }
+  };
+
+  // Spaces, comments and line breaks, as allowed between array items
+  const skipBlank = () => {
+    for (;;) {
+      skipSpaces();
+      skipComment();
+      if (source[pos] !== '\n' && source[pos] !== '\r') return;
+      pos++;
+    }
+  };
+
+  const endOfLine = () => {
+    skipSpaces();
+    skipComment();
+    if (pos >= length) return;
+    if (source[pos] === '\r') pos++;
+    if (source[pos] !== '\n') fail(`Unexpected "${source[pos]}"`);
+    pos++;
+  };
+
+  const parseEscape = (): string => {
+    pos++;
+    const char = source[pos];
+    if (char in ESCAPES) {
+      pos++;
+      return ESCAPES[char];
+    }
+    if (char === 'u' || char === 'U') {
+      const digits = char === 'u' ? 4 : 8;
+      const hex = source.slice(pos + 1, pos + 1 + digits);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== digits) fail('Invalid unicode escape');
+      pos += 1 + digits;
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+    return fail(`Invalid escape "\\${char ?? ''}"`);
+  };
+
+  // Quotes that end a multi-line string, plus up to two quotes belonging to it
+  const closeMultiline = (quote: string): string | null => {
+    if (!source.startsWith(quote.repeat(3), pos)) return null;
+    pos += 3;
+    let extra = '';
+    while (source[pos] === quote && extra.length < 2) {
+      extra += quote;
+      pos++;
+    }
+    return extra;
+  };
+
+  const skipFirstNewline = () => {
+    if (source.startsWith('\r\n', pos)) pos += 2;
+    else if (source[pos] === '\n') pos++;
+  };
+
+  const parseBasicString = (): string => {
+    let out = '';
+
+    if (source.startsWith('"""', pos)) {
+      pos += 3;
+      skipFirstNewline();
+      const lineEndingBackslash = /\\[ \t]*\r?\n\s*/y;
+      for (;;) {
+        if (pos >= length) fail('Unterminated string');
+        const extra = closeMultiline('"');
+        if (extra !== null) return out + extra;
+        if (source[pos] === '\\') {
+          lineEndingBackslash.lastIndex = pos;
+          if (lineEndingBackslash.test(source)) {
+            pos = lineEndingBackslash.lastIndex;
+          } else {
+            out += parseEscape();
+          }
+        } else {
+          out += source[pos++];
+        }
+      }
+    }
+
+    pos++;
+    for (;;) {
+      const char = source[pos];
+      if (char === undefined || char === '\n') fail('Unterminated string');
+      if (char === '"') {
+        pos++;
+        return out;
+      }
+      if (char === '\\') {
+        out += parseEscape();
+      } else {
+        out += char;
+        pos++;
+      }
+    }
+  };
+
+  const parseLiteralString = (): string => {
+    if (source.startsWith("'''", pos)) {
+      pos += 3;
+      skipFirstNewline();
+      const start = pos;
+      for (;;) {
+        if (pos >= length) fail('Unterminated string');
+        const end = pos;
+        const extra = closeMultiline("'");
+        if (extra !== null) return source.slice(start, end) + extra;
+        pos++;
+      }
+    }
+
+    const end = source.indexOf("'", pos + 1);
+    const newline = source.indexOf('\n', pos + 1);
+    if (end === -1 || (newline !== -1 && newline < end)) fail('Unterminated string');
+    const text = source.slice(pos + 1, end);
+    pos = end + 1;
+    return text;
+  };
+
+  const parseKey = (): string[] => {
+    const parts: string[] = [];
+    for (;;) {
+      skipSpaces();
+      const char = source[pos];
+      if (char === '"') {
+        parts.push(parseBasicString());
+      } else if (char === "'") {
+        parts.push(parseLiteralString());
+      } else {
+        const start = pos;
+        while (pos < length && /[A-Za-z0-9_-]/.test(source[pos])) pos++;
+        if (start === pos) fail('Expected a key');
+        parts.push(source.slice(start, pos));
+      }
+      skipSpaces();
+      if (source[pos] !== '.') return parts;
+      pos++;
+    }
+  };
+
+  const assign = (table: TomlTable, keys: string[], value: unknown) => {
+    let target = table;
+    for (const key of keys.slice(0, -1)) {
+      if (target[key] === undefined) target[key] = newTable();
+      const next = target[key];
+      if (!isTable(next)) fail(`Key "${keys.join('.')}" is already defined`);
+      target = next as TomlTable;
+    }
+    const last = keys[keys.length - 1];
+    if (Object.hasOwn(target, last)) fail(`Key "${keys.join('.')}" is already defined`);
+    target[last] = value;
+  };
+
+  const parseBareValue = (): unknown => {
+    const token = /[0-9A-Za-z_+\-.:]+/y;
+    token.lastIndex = pos;
+    if (!token.test(source)) return fail(`Unexpected "${source[pos] ?? 'end of file'}"`);
+    let text = source.slice(pos, token.lastIndex);
+    pos = token.lastIndex;
+
+    // Date-times may separate the date and time with a space
+    const time = /[ ][0-9]{2}:[0-9]{2}[0-9:.+\-Z]*/y;
+    time.lastIndex = pos;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(text) && time.test(source)) {
+      text += source.slice(pos, time.lastIndex);
+      pos = time.lastIndex;
+    }
+
+    if (text === 'true') return true;
+    if (text === 'false') return false;
+    if (/^[+-]?inf$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+    if (/^[+-]?nan$/.test(text)) return NaN;
+    if (/^\d{4}-\d{2}-\d{2}|^\d{2}:\d{2}/.test(text)) return text;
+    if (/^0x[0-9a-fA-F_]+$/.test(text)) return parseInt(text.slice(2).replace(/_/g, ''), 16);
+    if (/^0o[0-7_]+$/.test(text)) return parseInt(text.slice(2).replace(/_/g, ''), 8);
+    if (/^0b[01_]+$/.test(text)) return parseInt(text.slice(2).replace(/_/g, ''), 2);
+    if (/^[+-]?\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d[\d_]*)?$/.test(text)) {
+      return Number(text.replace(/_/g, ''));
+    }
+    return fail(`Invalid value "${text}"`);
+  };
+
+  const parseValue = (): unknown => {
+    switch (source[pos]) {
+      case '"':
+        return parseBasicString();
+      case "'":
+        return parseLiteralString();
+      case '[':
+        return parseArray();
+      case '{':
+        return parseInlineTable();
+      default:
+        return parseBareValue();
+    }
+  };
+
+  const parseArray = (): unknown[] => {
+    const items: unknown[] = [];
+    pos++;
+    for (;;) {
+      skipBlank();
+      if (source[pos] === ']') {
+        pos++;
+        return items;
+      }
+      items.push(parseValue());
+      skipBlank();
+      if (source[pos] === ',') {
+        pos++;
+      } else if (source[pos] !== ']') {
+        fail('Expected , or ] in array');
+      }
+    }
+  };
+
+  const parseInlineTable = (): TomlTable => {
+    const table = newTable();
+    pos++;
+    skipBlank();
+    if (source[pos] === '}') {
+      pos++;
+      return table;
+    }
+    for (;;) {
+      skipBlank();
+      const keys = parseKey();
+      if (source[pos] !== '=') fail('Expected = after key');
+      pos++;
+      skipSpaces();
+      assign(table, keys, parseValue());
+      skipBlank();
+      if (source[pos] === '}') {
+        pos++;
+        return table;
+      }
+      if (source[pos] !== ',') fail('Expected , or } in inline table');
+      pos++;
+    }
+  };
+
+  // The table a header names; arrays of tables resolve to their last table
+  const openTable = (keys: string[]): TomlTable => {
+    let table = root;
+    for (const key of keys) {
+      if (table[key] === undefined) table[key] = newTable();
+      let next = table[key];
+      if (Array.isArray(next)) next = next[next.length - 1];
+      if (!isTable(next)) fail(`Key "${keys.join('.')}" is not a table`);
+      table = next as TomlTable;
+    }
+    return table;
+  };
+
+  const appendTable = (keys: string[]): TomlTable => {
+    const parent = openTable(keys.slice(0, -1));
+    const last = keys[keys.length - 1];
+    if (parent[last] === undefined) parent[last] = [];
+    const list = parent[last];
+    if (!Array.isArray(list)) return fail(`Key "${keys.join('.')}" is not an array of tables`);
+    const table = newTable();
+    list.push(table);
+    return table;
+  };
+
+  while (pos < length) {
+    skipBlank();
+    if (pos >= length) break;
+
+    if (source[pos] === '[') {
+      const isArray = source[pos + 1] === '[';
+      pos += isArray ? 2 : 1;
+      const keys = parseKey();
+      const close = isArray ? ']]' : ']';
+      if (!source.startsWith(close, pos)) fail(`Expected ${close} after table name`);
+      pos += close.length;
+      current = isArray ? appendTable(keys) : openTable(keys);
+    } else {
+      const keys = parseKey();
+      if (source[pos] !== '=') fail('Expected = after key');
+      pos++;
+      skipSpaces();
+      assign(current, keys, parseValue());
+    }
+
+    endOfLine();
+  }
+
+  return root;
+}
@@ -0,0 +1,95 @@
+/**
+ * An XML element with its child elements and the text directly inside it.
+ * Attributes are not kept; manifests carry their data in elements.
+ */
+export interface XmlElement {
+  /** Local name, without a namespace prefix */
+  name: string;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return Object.hasOwn(ENTITIES, name) ? ENTITIES[name] : entity;
+  });
+}
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>|<\/\s*([^\s>]+)\s*>|<([^\s/>!?]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|[^<]+/y;
+
+/**
+ * Parse an XML document into its root element. Comments, processing
+ * instructions and the doctype are skipped; errors name the line they occur on.
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = source.slice(0, pos).split('\n').length;
+    throw new Error(`line ${line}: ${message}`);
+  };
+
+  const localName = (name: string) => name.split(':').pop()!;
+
+  while (pos < source.length) {
+    TOKEN.lastIndex = pos;
+    const match = TOKEN.exec(source);
+    if (!match) fail('Malformed markup');
+    const [token, cdata, closing, opening, , selfClosing] = match!;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      if (parent) parent.text += cdata;
+    } else if (closing !== undefined) {
+      if (!parent || parent.name !== localName(closing)) {
+        fail(`Unexpected </${closing}>`);
+      }
+      stack.pop();
+    } else if (opening !== undefined) {
+      const element: XmlElement = { name: localName(opening), children: [], text: '' };
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        fail('More than one root element');
+      } else {
+        root = element;
+      }
+      if (!selfClosing) stack.push(element);
+    } else if (!token.startsWith('<')) {
+      if (parent) {
+        parent.text += decodeEntities(token);
+      } else if (token.trim() !== '') {
+        fail('Text outside the root element');
+      }
+    }
+
+    pos += token.length;
+  }
+
+  if (stack.length > 0) fail(`Unclosed <${stack[stack.length - 1].name}>`);
+  if (!root) return fail('No root element');
+  return root;
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
+
+/**
+ * Trimmed text of a child element, or null when it is missing or empty
+ */
+export function childText(element: XmlElement, name: string): string | null {
+  const text = childElement(element, name)?.text.trim();
+  return text ? text : null;
+}
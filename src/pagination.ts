@@ -0,0 +1,92 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getConfig } from './config.js';
+import { type ErrorResponse, createErrorResponse } from './types.js';
+
+/**
+ * Where a listing resumes: the index of the next item, and how many items a
+ * page holds unless the caller asks for another number
+ */
+export interface CursorPosition {
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Options of tools returning a list a page at a time
+ */
+export interface PageOptions {
+  /** The next_cursor of the previous page */
+  cursor?: string;
+}
+
+export type CursorResult = { ok: true; position: CursorPosition } | { ok: false; reason: string };
+
+/** Key for cursors when CURSOR_SECRET is unset; they lapse when the process exits */
+let processSecret: Buffer | null = null;
+
+function secret(): Buffer {
+  const configured = getConfig().cursorSecret;
+  if (configured) return Buffer.from(configured, 'utf-8');
+  processSecret ??= randomBytes(32);
+  return processSecret;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', secret()).update(payload).digest();
+}
+
+/**
+ * Encode a position in a listing as an opaque cursor. The scope names the
+ * listing (the tool, repository and any filters), so a cursor cannot resume
+ * another one; the signature keeps callers from forging positions.
+ */
+export function encodeCursor(scope: string, position: CursorPosition): string {
+  const payload = Buffer.from(
+    JSON.stringify({ s: scope, o: position.offset, l: position.limit }),
+    'utf-8'
+  ).toString('base64url');
+  return `${payload}.${sign(payload).toString('base64url')}`;
+}
+
+/**
+ * Check and decode a cursor issued by encodeCursor for the same scope
+ */
+export function decodeCursor(cursor: string, scope: string): CursorResult {
+  const [payload, signature, ...rest] = cursor.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return { ok: false, reason: 'Cursor is malformed' };
+  }
+
+  const expected = sign(payload);
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return { ok: false, reason: 'Cursor was not issued by this server, or has expired with a restart' };
+  }
+
+  let decoded: { s?: unknown; o?: unknown; l?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    return { ok: false, reason: 'Cursor is malformed' };
+  }
+  if (decoded.s !== scope) {
+    return { ok: false, reason: 'Cursor belongs to a different listing' };
+  }
+  if (!Number.isSafeInteger(decoded.o) || !Number.isSafeInteger(decoded.l)) {
+    return { ok: false, reason: 'Cursor is malformed' };
+  }
+  return { ok: true, position: { offset: decoded.o as number, limit: decoded.l as number } };
+}
+
+export function invalidCursor(reason: string): ErrorResponse {
+  return createErrorResponse('INVALID_INPUT', `Invalid cursor: ${reason}`, { reason });
+}
+
+/**
+ * Forge pages covering the items from offset to offset + limit, when the
+ * forge serves pageSize items per page: the first page and how many items of
+ * it come before the offset
+ */
+export function pageWindow(offset: number, pageSize: number): { firstPage: number; skip: number } {
+  return { firstPage: Math.floor(offset / pageSize) + 1, skip: offset % pageSize };
+}
@@ -0,0 +1,402 @@
+import {
+  type ApiResponse,
+  type ErrorResponse,
+  type ParsedRepoInfo,
+  type BitbucketPage,
+  type BitbucketRepoResponse,
+  type BitbucketTagResponse,
+  type BitbucketCommitResponse,
+  type BitbucketTreeEntry,
+  type TreeEntry,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import { hostForRepo } from '../hosts.js';
+import { RateLimitError, rateLimitedFetch } from '../upstream/index.js';
+import { toErrorResponse } from '../tools/errors.js';
+import {
+  bestEffort,
+  comparisonNotFound,
+  encodePath,
+  fetchRawFile,
+  fileError,
+  historyParams,
+  MAX_TREE_PAGES,
+  readFileResponse,
+  refNotFound,
+} from './common.js';
+import type {
+  CommitComparison,
+  ForgeProvider,
+  RepositoryMetadata,
+  PageRequest,
+  RepositoryStats,
+  ReleasePage,
+  RepoTree,
+  ResolvedRef,
+  TagDetails,
+} from './types.js';
+
+/**
+ * Directory levels listed below the root; Bitbucket lists one level without max_depth
+ */
+const MAX_TREE_DEPTH = 20;
+
+function repositoryApiUrl(repo: ParsedRepoInfo): string {
+  return `${hostForRepo(repo).apiBase}/repositories/${repo.owner}/${repo.repo}`;
+}
+
+function repositoryWebUrl(repo: ParsedRepoInfo): string {
+  return `${hostForRepo(repo).webBase}/${repo.owner}/${repo.repo}`;
+}
+
+function upstreamError(repo: ParsedRepoInfo, response: Response): ErrorResponse {
+  if (response.status === 404) {
+    return createErrorResponse('UPSTREAM_ERROR', `Repository not found: ${repo.owner}/${repo.repo}`, {
+      status: 404,
+    });
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return createErrorResponse('UPSTREAM_ERROR', 'Access forbidden', { status: response.status });
+  }
+
+  return createErrorResponse(
+    'UPSTREAM_ERROR',
+    `Bitbucket API error: ${response.status} ${response.statusText}`,
+    { status: response.status }
+  );
+}
+
+/**
+ * Total size of a Bitbucket list, requesting only the count
+ */
+function countList(url: string): Promise<number | null> {
+  return bestEffort(async () => {
+    const response = await rateLimitedFetch(`${url}${url.includes('?') ? '&' : '?'}fields=size`);
+    if (!response.ok) return null;
+    const page = (await response.json()) as BitbucketPage<unknown>;
+    return page.size ?? null;
+  });
+}
+
+function countOpenIssues(repo: ParsedRepoInfo): Promise<number | null> {
+  const query = encodeURIComponent('state="new" OR state="open"');
+  return countList(`${repositoryApiUrl(repo)}/issues?q=${query}`);
+}
+
+/**
+ * Repository counters, which Bitbucket only reports through separate list endpoints
+ */
+function repositoryStats(
+  data: BitbucketRepoResponse,
+  watchers: number | null,
+  openIssues: number | null
+): RepositoryStats {
+  return {
+    // Repositories without an issue tracker have no issues endpoint
+    open_issues_count: data.has_issues ? (openIssues ?? 0) : 0,
+    watchers_count: watchers ?? 0,
+    has_wiki: data.has_wiki,
+    has_discussions: false,
+  };
+}
+
+/**
+ * Annotated tags keep their own date and message; lightweight ones take their commit's
+ */
+function tagDetails(tag: BitbucketTagResponse): TagDetails {
+  return {
+    published_at: tag.date ?? tag.target.date,
+    body: (tag.message || tag.target.message)?.trim() || null,
+  };
+}
+
+/**
+ * A page of tags, newest commit first. Bitbucket has no releases, so its
+ * tags stand in for them as well.
+ */
+async function fetchTagPage(
+  repo: ParsedRepoInfo,
+  { page, perPage }: PageRequest,
+  warnings?: string[]
+): Promise<ApiResponse<ReleasePage>> {
+  const apiUrl = `${repositoryApiUrl(repo)}/refs/tags?sort=-target.date&pagelen=${perPage}&page=${page}`;
+
+  try {
+    const response = await rateLimitedFetch(apiUrl);
+
+    if (!response.ok) {
+      return upstreamError(repo, response);
+    }
+
+    const tags = (await response.json()) as BitbucketPage<BitbucketTagResponse>;
+
+    return createSuccessResponse(
+      {
+        releases: tags.values.map((tag) => ({
+          tag_name: tag.name,
+          name: tag.name,
+          ...tagDetails(tag),
+          prerelease: false,
+          draft: false,
+          html_url: tag.links.html.href,
+        })),
+        has_more: tags.next !== undefined,
+        total_count: tags.size ?? null,
+      },
+      { source: apiUrl, warnings }
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * Bitbucket Cloud, through the REST API 2.0. Bitbucket has no releases, so
+ * tags are listed in their place.
+ */
+export const bitbucketProvider: ForgeProvider = {
+  name: 'bitbucket',
+  label: 'Bitbucket',
+  unsupported: {
+    overview: ['stars', 'topics', 'license'],
+    releases: ['prerelease', 'draft'],
+    activity: ['contributors_count', 'has_discussions'],
+  },
+  maxPageSize: 100,
+
+  repositoryApiUrl,
+
+  repositoryWebUrl,
+
+  fileWebUrl(repo, sha, path) {
+    return `${repositoryWebUrl(repo)}/src/${sha}/${encodePath(path)}`;
+  },
+
+  fileRawUrl(repo, sha, path) {
+    return `${repositoryWebUrl(repo)}/raw/${sha}/${encodePath(path)}`;
+  },
+
+  async fetchRepository(repo): Promise<ApiResponse<RepositoryMetadata>> {
+    const apiUrl = repositoryApiUrl(repo);
+
+    try {
+      const [response, forks, watchers, openIssues] = await Promise.all([
+        rateLimitedFetch(apiUrl),
+        countList(`${apiUrl}/forks`),
+        countList(`${apiUrl}/watchers`),
+        countOpenIssues(repo),
+      ]);
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as BitbucketRepoResponse;
+
+      return createSuccessResponse(
+        {
+          name: data.name,
+          full_name: data.full_name,
+          html_url: data.links.html.href,
+          description: data.description || null,
+          stars: 0,
+          forks: forks ?? 0,
+          language: data.language || null,
+          topics: [],
+          license: null,
+          created_at: data.created_on,
+          updated_at: data.updated_on,
+          default_branch: data.mainbranch?.name ?? 'main',
+          homepage: data.website || null,
+          owner: {
+            login: data.workspace.slug,
+            avatar_url: data.owner.links.avatar.href,
+            type: data.owner.type === 'team' ? 'Organization' : 'User',
+          },
+          ...repositoryStats(data, watchers, openIssues),
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  fetchRepositoryStats(repo) {
+    const apiUrl = repositoryApiUrl(repo);
+    return bestEffort(async () => {
+      const [response, watchers, openIssues] = await Promise.all([
+        rateLimitedFetch(apiUrl),
+        countList(`${apiUrl}/watchers`),
+        countOpenIssues(repo),
+      ]);
+      if (!response.ok) return null;
+      const data = (await response.json()) as BitbucketRepoResponse;
+      return repositoryStats(data, watchers, openIssues);
+    });
+  },
+
+  fetchDefaultBranch(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(repositoryApiUrl(repo));
+      if (!response.ok) return null;
+      const data = (await response.json()) as BitbucketRepoResponse;
+      return data.mainbranch?.name ?? 'main';
+    });
+  },
+
+  fetchLanguages(repo) {
+    // Bitbucket records a single, lowercase language chosen by the owner
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}?fields=language`);
+      if (!response.ok) return null;
+      const data = (await response.json()) as { language?: string };
+      return data.language ? [data.language] : [];
+    });
+  },
+
+  async resolveRef(repo, ref): Promise<ApiResponse<ResolvedRef>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/commit/${encodeURIComponent(ref)}?fields=hash`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return refNotFound(repo, ref);
+      }
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as Pick<BitbucketCommitResponse, 'hash'>;
+      return createSuccessResponse({ ref, sha: data.hash }, { source: apiUrl });
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchFile(repo, ref, path) {
+    const url = `${repositoryApiUrl(repo)}/src/${encodeURIComponent(ref)}/${encodePath(path)}`;
+
+    try {
+      return await readFileResponse(path, await fetchRawFile(url));
+    } catch (error) {
+      // Rate limits fail the whole call rather than degrading to a warning
+      if (error instanceof RateLimitError) throw error;
+      return fileError(path, error instanceof Error ? error.message : 'Unknown error');
+    }
+  },
+
+  async fetchTree(repo, sha): Promise<ApiResponse<RepoTree>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/src/${encodeURIComponent(sha)}/?max_depth=${MAX_TREE_DEPTH}&pagelen=100&fields=next,values.path,values.type,values.size`;
+
+    try {
+      const entries: TreeEntry[] = [];
+      let next: string | undefined = apiUrl;
+
+      for (let pages = 0; next && pages < MAX_TREE_PAGES; pages++) {
+        const response = await rateLimitedFetch(next);
+
+        if (!response.ok) {
+          return upstreamError(repo, response);
+        }
+
+        const page = (await response.json()) as BitbucketPage<BitbucketTreeEntry>;
+        for (const entry of page.values) {
+          entries.push(
+            entry.type === 'commit_directory'
+              ? { path: entry.path, type: 'dir', size: null }
+              : { path: entry.path, type: 'file', size: entry.size ?? null }
+          );
+        }
+        next = page.next;
+      }
+
+      return createSuccessResponse({ entries, truncated: next !== undefined }, { source: apiUrl });
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  fetchReleases(repo, page) {
+    return fetchTagPage(repo, page, ['Bitbucket has no releases; tags are listed instead']);
+  },
+
+  fetchTags(repo, page) {
+    return fetchTagPage(repo, page);
+  },
+
+  resolveTag(repo, tag) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/refs/tags/${encodeURIComponent(tag)}`);
+      if (!response.ok) return null;
+      return tagDetails((await response.json()) as BitbucketTagResponse);
+    });
+  },
+
+  fetchLatestCommit(repo) {
+    return bestEffort(async () => {
+      // The revision goes in the path; an unscoped listing covers every branch
+      const revision = repo.ref ? `/${encodeURIComponent(repo.ref)}` : '';
+      const response = await rateLimitedFetch(
+        `${repositoryApiUrl(repo)}/commits${revision}?pagelen=1${historyParams(repo)}`
+      );
+      if (!response.ok) return null;
+      const page = (await response.json()) as BitbucketPage<BitbucketCommitResponse>;
+      if (page.values.length === 0) return null;
+      return {
+        sha: page.values[0].hash,
+        date: page.values[0].date,
+        message: page.values[0].message,
+      };
+    });
+  },
+
+  async compareCommits(repo, base, head): Promise<ApiResponse<CommitComparison>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/commits?include=${encodeURIComponent(head)}&exclude=${encodeURIComponent(base)}&pagelen=100`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return comparisonNotFound(repo, base, head);
+      }
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      // Bitbucket lists newest first
+      const page = (await response.json()) as BitbucketPage<BitbucketCommitResponse>;
+      return createSuccessResponse(
+        {
+          commits: page.values
+            .map((commit) => ({
+              sha: commit.hash,
+              message: commit.message,
+              author: commit.author?.user?.display_name ?? commit.author?.raw ?? null,
+              date: commit.date,
+              html_url: commit.links?.html.href ?? null,
+            }))
+            .reverse(),
+          truncated: page.next !== undefined,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  countOpenChangeRequests(repo) {
+    return countList(`${repositoryApiUrl(repo)}/pullrequests?state=OPEN`);
+  },
+
+  // Bitbucket has no contributors endpoint
+  async countContributors() {
+    return null;
+  },
+};
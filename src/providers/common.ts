@@ -0,0 +1,171 @@
+import {
+  type ErrorResponse,
+  type FileContent,
+  type GitHubTreeResponse,
+  type ParsedRepoInfo,
+  type TreeEntry,
+  createErrorResponse,
+} from '../types.js';
+import { getConfig } from '../config.js';
+import { decodeFile } from '../file-content.js';
+import { RateLimitError, rateLimitedFetch } from '../upstream/index.js';
+
+/**
+ * Query parameters scoping a commit listing to the ref and path of a deep
+ * link. Without refParam the ref is left to the caller.
+ */
+export function historyParams(repo: ParsedRepoInfo, refParam?: string): string {
+  const params = new URLSearchParams();
+  if (repo.ref && refParam) params.set(refParam, repo.ref);
+  if (repo.path) params.set('path', repo.path);
+  const query = params.toString();
+  return query ? `&${query}` : '';
+}
+
+/**
+ * A ref as a URL path, keeping the slashes of branch names such as feature/x
+ */
+export function encodeRef(ref: string): string {
+  return ref.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * A file path as a URL path, each segment encoded
+ */
+export function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Error for a branch, tag or commit the repository does not have
+ */
+export function refNotFound(repo: ParsedRepoInfo, ref: string): ErrorResponse {
+  return createErrorResponse(
+    'INVALID_INPUT',
+    `No branch, tag or commit "${ref}" in ${repo.owner}/${repo.repo}`,
+    { ref }
+  );
+}
+
+export function comparisonNotFound(repo: ParsedRepoInfo, base: string, head: string): ErrorResponse {
+  return createErrorResponse(
+    'INVALID_INPUT',
+    `Cannot compare "${base}" with "${head}" in ${repo.owner}/${repo.repo}: no such branch, tag or commit`,
+    { base, head }
+  );
+}
+
+/**
+ * Pages read from forges that list trees page by page; larger trees are
+ * reported as truncated
+ */
+export const MAX_TREE_PAGES = 20;
+
+/**
+ * Entries of a git tree object as returned by GitHub and Gitea, without submodules
+ */
+export function gitTreeEntries(tree: GitHubTreeResponse['tree']): TreeEntry[] {
+  return tree
+    .filter((entry) => entry.type !== 'commit')
+    .map((entry) => ({
+      path: entry.path,
+      type: entry.type === 'tree' ? 'dir' : 'file',
+      size: entry.type === 'blob' ? (entry.size ?? null) : null,
+    }));
+}
+
+/**
+ * Language names of a breakdown by bytes or percentage, largest first
+ */
+export function languagesByShare(shares: Record<string, number>): string[] {
+  return Object.entries(shares)
+    .sort(([, a], [, b]) => b - a)
+    .map(([language]) => language);
+}
+
+/**
+ * Run a best-effort upstream read, turning failures into null. Rate limits
+ * fail the whole call rather than degrading to a warning.
+ */
+export async function bestEffort<T>(read: () => Promise<T | null>): Promise<T | null> {
+  try {
+    return await read();
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error;
+    return null;
+  }
+}
+
+/**
+ * Total number of items of a list requested with per_page=1, from the last
+ * page in its Link header, or from the page itself when there is only one
+ */
+export async function countFromLastPage(response: Response): Promise<number> {
+  const linkHeader = response.headers.get('link');
+  if (linkHeader) {
+    const lastMatch = linkHeader.match(/[?&]page=(\d+)[^>]*>; rel="last"/);
+    if (lastMatch) {
+      return parseInt(lastMatch[1], 10);
+    }
+  }
+
+  const data = (await response.json()) as unknown[];
+  return data.length;
+}
+
+/**
+ * A file that could not be read
+ */
+export function fileError(path: string, error: string): FileContent {
+  return {
+    path,
+    content: null,
+    size: null,
+    encoding: 'utf-8',
+    truncated: false,
+    is_binary: false,
+    sha: null,
+    error,
+  };
+}
+
+/**
+ * Bytes of a file read to return its part within the per-file limit, with
+ * room for a byte order mark and the end of a character
+ */
+function fileReadLimit(): number {
+  return getConfig().fileMaxBytes + 4;
+}
+
+/**
+ * Fetch a raw file for readFileResponse, downloading no more of it than
+ * that reads
+ */
+export function fetchRawFile(url: string): Promise<Response> {
+  return rateLimitedFetch(url, { maxBodyBytes: fileReadLimit() });
+}
+
+/**
+ * Read a raw file response, mapping 404 to "File not found". Content is cut
+ * at the configured per-file limit; the size of a longer file is the
+ * Content-Length the forge sends, if any.
+ */
+export async function readFileResponse(path: string, response: Response): Promise<FileContent> {
+  if (response.status === 404) {
+    return fileError(path, 'File not found');
+  }
+
+  if (!response.ok) {
+    return fileError(path, `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const limit = fileReadLimit();
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.length <= limit) {
+    return decodeFile(path, bytes, getConfig().fileMaxBytes);
+  }
+  const length = Number(response.headers.get('content-length'));
+  return decodeFile(path, bytes.subarray(0, limit), getConfig().fileMaxBytes, {
+    size: length > limit ? length : null,
+  });
+}
@@ -0,0 +1,390 @@
+import {
+  type ApiResponse,
+  type ErrorResponse,
+  type ParsedRepoInfo,
+  type GiteaRepoResponse,
+  type GiteaReleaseResponse,
+  type GiteaCommitResponse,
+  type GiteaCompareResponse,
+  type GiteaTagResponse,
+  type GiteaTreeResponse,
+  type TreeEntry,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import { hostForRepo } from '../hosts.js';
+import { RateLimitError, rateLimitedFetch } from '../upstream/index.js';
+import { toErrorResponse } from '../tools/errors.js';
+import {
+  bestEffort,
+  comparisonNotFound,
+  encodePath,
+  fetchRawFile,
+  fileError,
+  gitTreeEntries,
+  historyParams,
+  languagesByShare,
+  MAX_TREE_PAGES,
+  readFileResponse,
+  refNotFound,
+} from './common.js';
+import type {
+  CommitComparison,
+  ForgeProvider,
+  RepositoryMetadata,
+  RepositoryStats,
+  ReleasePage,
+  RepoTree,
+  ResolvedRef,
+  TagDetails,
+} from './types.js';
+
+function repositoryApiUrl(repo: ParsedRepoInfo): string {
+  return `${hostForRepo(repo).apiBase}/repos/${repo.owner}/${repo.repo}`;
+}
+
+function repositoryWebUrl(repo: ParsedRepoInfo): string {
+  return `${hostForRepo(repo).webBase}/${repo.owner}/${repo.repo}`;
+}
+
+/** Tags carry their commit's date; only the message is the annotation's */
+function tagDetails(tag: GiteaTagResponse): TagDetails {
+  return { published_at: tag.commit.created, body: tag.message.trim() || null };
+}
+
+function repositoryStats(data: GiteaRepoResponse): RepositoryStats {
+  return {
+    open_issues_count: data.open_issues_count,
+    watchers_count: data.watchers_count,
+    has_wiki: data.has_wiki,
+    has_discussions: false,
+  };
+}
+
+function upstreamError(repo: ParsedRepoInfo, response: Response): ErrorResponse {
+  if (response.status === 404) {
+    return createErrorResponse('UPSTREAM_ERROR', `Repository not found: ${repo.owner}/${repo.repo}`, {
+      status: 404,
+    });
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return createErrorResponse('UPSTREAM_ERROR', 'Access forbidden', { status: response.status });
+  }
+
+  return createErrorResponse(
+    'UPSTREAM_ERROR',
+    `Gitea API error: ${response.status} ${response.statusText}`,
+    { status: response.status }
+  );
+}
+
+/**
+ * Whether the owner is an organization. Gitea's user objects do not say, but
+ * only organizations resolve under /orgs.
+ */
+function isOrganization(repo: ParsedRepoInfo): Promise<boolean | null> {
+  return bestEffort(async () => {
+    const response = await rateLimitedFetch(`${hostForRepo(repo).apiBase}/orgs/${repo.owner}`);
+    return response.ok;
+  });
+}
+
+/**
+ * Gitea and Forgejo (including codeberg.org), through the REST API v1
+ */
+export const giteaProvider: ForgeProvider = {
+  name: 'gitea',
+  label: 'Gitea',
+  unsupported: {
+    activity: ['contributors_count', 'has_discussions'],
+  },
+  // The default of the server's MAX_RESPONSE_ITEMS setting
+  maxPageSize: 50,
+
+  repositoryApiUrl,
+
+  repositoryWebUrl,
+
+  fileWebUrl(repo, sha, path) {
+    return `${repositoryWebUrl(repo)}/src/commit/${sha}/${encodePath(path)}`;
+  },
+
+  fileRawUrl(repo, sha, path) {
+    return `${repositoryWebUrl(repo)}/raw/commit/${sha}/${encodePath(path)}`;
+  },
+
+  async fetchRepository(repo): Promise<ApiResponse<RepositoryMetadata>> {
+    const apiUrl = repositoryApiUrl(repo);
+
+    try {
+      const [response, organization] = await Promise.all([
+        rateLimitedFetch(apiUrl),
+        isOrganization(repo),
+      ]);
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GiteaRepoResponse;
+
+      return createSuccessResponse(
+        {
+          name: data.name,
+          full_name: data.full_name,
+          html_url: data.html_url,
+          // Gitea reports missing values as empty strings
+          description: data.description || null,
+          stars: data.stars_count,
+          forks: data.forks_count,
+          language: data.language || null,
+          topics: data.topics ?? [],
+          license: data.licenses?.[0] ?? null,
+          created_at: data.created_at,
+          updated_at: data.updated_at,
+          default_branch: data.default_branch,
+          homepage: data.website || null,
+          owner: {
+            login: data.owner.login,
+            avatar_url: data.owner.avatar_url,
+            type: organization ? 'Organization' : 'User',
+          },
+          ...repositoryStats(data),
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  fetchRepositoryStats(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(repositoryApiUrl(repo));
+      if (!response.ok) return null;
+      return repositoryStats((await response.json()) as GiteaRepoResponse);
+    });
+  },
+
+  fetchDefaultBranch(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(repositoryApiUrl(repo));
+      if (!response.ok) return null;
+      const data = (await response.json()) as { default_branch?: string };
+      return data.default_branch || 'main';
+    });
+  },
+
+  fetchLanguages(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/languages`);
+      if (!response.ok) return null;
+      return languagesByShare((await response.json()) as Record<string, number>);
+    });
+  },
+
+  async resolveRef(repo, ref): Promise<ApiResponse<ResolvedRef>> {
+    // Gitea only reads single commits by SHA; the listing also accepts branches and tags
+    const apiUrl = `${repositoryApiUrl(repo)}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&verification=false&files=false`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404 || response.status === 422) {
+        return refNotFound(repo, ref);
+      }
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GiteaCommitResponse[];
+      if (data.length === 0) {
+        return refNotFound(repo, ref);
+      }
+      return createSuccessResponse({ ref, sha: data[0].sha }, { source: apiUrl });
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchFile(repo, ref, path) {
+    const url = `${repositoryApiUrl(repo)}/raw/${encodePath(path)}?ref=${encodeURIComponent(ref)}`;
+
+    try {
+      return await readFileResponse(path, await fetchRawFile(url));
+    } catch (error) {
+      // Rate limits fail the whole call rather than degrading to a warning
+      if (error instanceof RateLimitError) throw error;
+      return fileError(path, error instanceof Error ? error.message : 'Unknown error');
+    }
+  },
+
+  async fetchTree(repo, sha): Promise<ApiResponse<RepoTree>> {
+    // Servers cap per_page at their MAX_RESPONSE_ITEMS setting; truncated marks further pages
+    const apiUrl = `${repositoryApiUrl(repo)}/git/trees/${sha}?recursive=true&per_page=1000`;
+
+    try {
+      const entries: TreeEntry[] = [];
+      let truncated = true;
+
+      for (let page = 1; truncated && page <= MAX_TREE_PAGES; page++) {
+        const response = await rateLimitedFetch(`${apiUrl}&page=${page}`);
+
+        if (!response.ok) {
+          return upstreamError(repo, response);
+        }
+
+        const data = (await response.json()) as GiteaTreeResponse;
+        entries.push(...gitTreeEntries(data.tree ?? []));
+        truncated = data.truncated;
+      }
+
+      return createSuccessResponse({ entries, truncated }, { source: apiUrl });
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchReleases(repo, { page, perPage }): Promise<ApiResponse<ReleasePage>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/releases?limit=${perPage}&page=${page}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GiteaReleaseResponse[];
+      const hasMore = response.headers.get('link')?.includes('rel="next"') ?? false;
+      const total = response.headers.get('x-total-count');
+
+      return createSuccessResponse(
+        {
+          releases: data.map((release) => ({
+            tag_name: release.tag_name,
+            name: release.name || null,
+            body: release.body || null,
+            published_at: release.published_at,
+            prerelease: release.prerelease,
+            draft: release.draft,
+            html_url: release.html_url,
+          })),
+          has_more: hasMore,
+          total_count: total ? parseInt(total, 10) : null,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchTags(repo, { page, perPage }): Promise<ApiResponse<ReleasePage>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/tags?limit=${perPage}&page=${page}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GiteaTagResponse[];
+      const total = response.headers.get('x-total-count');
+      const webUrl = repositoryWebUrl(repo);
+
+      return createSuccessResponse(
+        {
+          releases: data.map((tag) => ({
+            tag_name: tag.name,
+            name: tag.name,
+            ...tagDetails(tag),
+            prerelease: false,
+            draft: false,
+            html_url: `${webUrl}/src/tag/${encodePath(tag.name)}`,
+          })),
+          has_more: response.headers.get('link')?.includes('rel="next"') ?? false,
+          total_count: total ? parseInt(total, 10) : null,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  resolveTag(repo, tag) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/tags/${encodePath(tag)}`);
+      if (!response.ok) return null;
+      return tagDetails((await response.json()) as GiteaTagResponse);
+    });
+  },
+
+  fetchLatestCommit(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(
+        `${repositoryApiUrl(repo)}/commits?limit=1&stat=false&verification=false&files=false${historyParams(repo, 'sha')}`
+      );
+      if (!response.ok) return null;
+      const data = (await response.json()) as GiteaCommitResponse[];
+      if (data.length === 0) return null;
+      return {
+        sha: data[0].sha,
+        date: data[0].commit.author.date,
+        message: data[0].commit.message,
+      };
+    });
+  },
+
+  async compareCommits(repo, base, head): Promise<ApiResponse<CommitComparison>> {
+    // Available since Gitea 1.22 and Forgejo 8
+    const apiUrl = `${repositoryApiUrl(repo)}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return comparisonNotFound(repo, base, head);
+      }
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GiteaCompareResponse;
+      return createSuccessResponse(
+        {
+          commits: data.commits.map((commit) => ({
+            sha: commit.sha,
+            message: commit.commit.message,
+            author: commit.commit.author.name,
+            date: commit.commit.author.date,
+            html_url: commit.html_url,
+          })),
+          truncated: data.total_commits > data.commits.length,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  countOpenChangeRequests(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(repositoryApiUrl(repo));
+      if (!response.ok) return null;
+      const data = (await response.json()) as GiteaRepoResponse;
+      return data.open_pr_counter;
+    });
+  },
+
+  // Gitea has no contributors endpoint
+  async countContributors() {
+    return null;
+  },
+};
@@ -0,0 +1,410 @@
+import {
+  type ApiResponse,
+  type ParsedRepoInfo,
+  type GitHubRepoResponse,
+  type GitHubReleaseResponse,
+  type GitHubCommitResponse,
+  type GitHubGitCommitResponse,
+  type GitHubGitRefResponse,
+  type GitHubGitTagResponse,
+  type GitHubTagResponse,
+  type GitHubCompareResponse,
+  type GitHubTreeResponse,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import { hostForRepo } from '../hosts.js';
+import { RateLimitError, rateLimitedFetch } from '../upstream/index.js';
+import { toErrorResponse } from '../tools/errors.js';
+import {
+  bestEffort,
+  comparisonNotFound,
+  countFromLastPage,
+  encodePath,
+  encodeRef,
+  fetchRawFile,
+  fileError,
+  gitTreeEntries,
+  historyParams,
+  languagesByShare,
+  readFileResponse,
+  refNotFound,
+} from './common.js';
+import type {
+  CommitComparison,
+  ForgeProvider,
+  RepositoryMetadata,
+  ReleasePage,
+  RepoTree,
+  ResolvedRef,
+} from './types.js';
+
+function repositoryApiUrl(repo: ParsedRepoInfo): string {
+  return `${hostForRepo(repo).apiBase}/repos/${repo.owner}/${repo.repo}`;
+}
+
+/**
+ * Number of items of a list that carries no total: a one-per-page list
+ * numbers its last page by it
+ */
+function countList(repo: ParsedRepoInfo, list: string): Promise<number | null> {
+  return bestEffort(async () => {
+    const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/${list}?per_page=1`);
+    return response.ok ? countFromLastPage(response) : null;
+  });
+}
+
+function upstreamError(response: Response) {
+  return createErrorResponse(
+    'UPSTREAM_ERROR',
+    `GitHub API error: ${response.status} ${response.statusText}`,
+    { status: response.status }
+  );
+}
+
+/**
+ * github.com and GitHub Enterprise Server, through the REST API v3 and raw
+ * content host
+ */
+export const githubProvider: ForgeProvider = {
+  name: 'github',
+  label: 'GitHub',
+  unsupported: {},
+  maxPageSize: 100,
+
+  repositoryApiUrl,
+
+  repositoryWebUrl(repo) {
+    return `${hostForRepo(repo).webBase}/${repo.owner}/${repo.repo}`;
+  },
+
+  fileWebUrl(repo, sha, path) {
+    return `${hostForRepo(repo).webBase}/${repo.owner}/${repo.repo}/blob/${sha}/${encodePath(path)}`;
+  },
+
+  fileRawUrl(repo, sha, path) {
+    return `${hostForRepo(repo).rawBase}/${repo.owner}/${repo.repo}/${sha}/${encodePath(path)}`;
+  },
+
+  async fetchRepository(repo): Promise<ApiResponse<RepositoryMetadata>> {
+    const apiUrl = repositoryApiUrl(repo);
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return createErrorResponse(
+          'UPSTREAM_ERROR',
+          `Repository not found: ${repo.owner}/${repo.repo}`,
+          { status: 404 }
+        );
+      }
+
+      if (response.status === 403) {
+        return createErrorResponse('UPSTREAM_ERROR', 'Access forbidden', { status: 403 });
+      }
+
+      if (!response.ok) {
+        return upstreamError(response);
+      }
+
+      const data = (await response.json()) as GitHubRepoResponse;
+      return createSuccessResponse(
+        {
+          name: data.name,
+          full_name: data.full_name,
+          html_url: data.html_url,
+          description: data.description,
+          stars: data.stargazers_count,
+          forks: data.forks_count,
+          language: data.language,
+          topics: data.topics ?? [],
+          license: data.license?.spdx_id ?? null,
+          created_at: data.created_at,
+          updated_at: data.updated_at,
+          default_branch: data.default_branch,
+          homepage: data.homepage,
+          owner: {
+            login: data.owner.login,
+            avatar_url: data.owner.avatar_url,
+            type: data.owner.type,
+          },
+          open_issues_count: data.open_issues_count,
+          watchers_count: data.watchers_count,
+          has_wiki: data.has_wiki,
+          has_discussions: data.has_discussions,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  fetchRepositoryStats(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(repositoryApiUrl(repo));
+      if (!response.ok) return null;
+      const data = (await response.json()) as GitHubRepoResponse;
+      return {
+        open_issues_count: data.open_issues_count,
+        watchers_count: data.watchers_count,
+        has_wiki: data.has_wiki,
+        has_discussions: data.has_discussions,
+      };
+    });
+  },
+
+  fetchDefaultBranch(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(repositoryApiUrl(repo));
+      if (!response.ok) return null;
+      const data = (await response.json()) as { default_branch?: string };
+      return data.default_branch ?? 'main';
+    });
+  },
+
+  fetchLanguages(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/languages`);
+      if (!response.ok) return null;
+      return languagesByShare((await response.json()) as Record<string, number>);
+    });
+  },
+
+  async resolveRef(repo, ref): Promise<ApiResponse<ResolvedRef>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/commits/${encodeRef(ref)}`;
+
+    try {
+      // The sha media type answers with the bare SHA instead of the whole commit
+      const response = await rateLimitedFetch(apiUrl, {
+        headers: { Accept: 'application/vnd.github.sha' },
+      });
+
+      if (response.status === 404 || response.status === 422) {
+        return refNotFound(repo, ref);
+      }
+
+      if (!response.ok) {
+        return upstreamError(response);
+      }
+
+      return createSuccessResponse({ ref, sha: (await response.text()).trim() }, { source: apiUrl });
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchFile(repo, ref, path) {
+    const url = `${hostForRepo(repo).rawBase}/${repo.owner}/${repo.repo}/${encodeRef(ref)}/${encodePath(path)}`;
+
+    try {
+      return await readFileResponse(path, await fetchRawFile(url));
+    } catch (error) {
+      // Rate limits fail the whole call rather than degrading to a warning
+      if (error instanceof RateLimitError) throw error;
+      return fileError(path, error instanceof Error ? error.message : 'Unknown error');
+    }
+  },
+
+  async fetchTree(repo, sha): Promise<ApiResponse<RepoTree>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/git/trees/${sha}?recursive=1`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (!response.ok) {
+        return upstreamError(response);
+      }
+
+      // Trees over 100,000 entries or 7 MB come back truncated
+      const data = (await response.json()) as GitHubTreeResponse;
+      return createSuccessResponse(
+        { entries: gitTreeEntries(data.tree), truncated: data.truncated },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchReleases(repo, { page, perPage, count }): Promise<ApiResponse<ReleasePage>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/releases?per_page=${perPage}&page=${page}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return createErrorResponse(
+          'UPSTREAM_ERROR',
+          `Repository not found: ${repo.owner}/${repo.repo}`,
+          { status: 404 }
+        );
+      }
+
+      if (response.status === 403) {
+        return createErrorResponse('UPSTREAM_ERROR', 'Access forbidden', { status: 403 });
+      }
+
+      if (!response.ok) {
+        return upstreamError(response);
+      }
+
+      const data = (await response.json()) as GitHubReleaseResponse[];
+      const hasMore = response.headers.get('link')?.includes('rel="next"') ?? false;
+
+      const totalCount = hasMore && count ? await countList(repo, 'releases') : null;
+
+      return createSuccessResponse(
+        {
+          releases: data.map((release) => ({
+            tag_name: release.tag_name,
+            name: release.name,
+            body: release.body,
+            published_at: release.published_at,
+            prerelease: release.prerelease,
+            draft: release.draft,
+            html_url: release.html_url,
+          })),
+          has_more: hasMore,
+          total_count: totalCount,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchTags(repo, { page, perPage, count }): Promise<ApiResponse<ReleasePage>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/tags?per_page=${perPage}&page=${page}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return createErrorResponse(
+          'UPSTREAM_ERROR',
+          `Repository not found: ${repo.owner}/${repo.repo}`,
+          { status: 404 }
+        );
+      }
+
+      if (!response.ok) {
+        return upstreamError(response);
+      }
+
+      const data = (await response.json()) as GitHubTagResponse[];
+      const hasMore = response.headers.get('link')?.includes('rel="next"') ?? false;
+      const totalCount = hasMore && count ? await countList(repo, 'tags') : null;
+      const webUrl = `${hostForRepo(repo).webBase}/${repo.owner}/${repo.repo}`;
+
+      // Tag lists name only the commit; resolveTag reads dates and messages
+      return createSuccessResponse(
+        {
+          releases: data.map((tag) => ({
+            tag_name: tag.name,
+            name: tag.name,
+            body: null,
+            published_at: null,
+            prerelease: false,
+            draft: false,
+            html_url: `${webUrl}/releases/tag/${encodeRef(tag.name)}`,
+          })),
+          has_more: hasMore,
+          total_count: totalCount,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  resolveTag(repo, tag) {
+    return bestEffort(async () => {
+      const ref = await rateLimitedFetch(`${repositoryApiUrl(repo)}/git/ref/tags/${encodeRef(tag)}`);
+      if (!ref.ok) return null;
+      const { object } = (await ref.json()) as GitHubGitRefResponse;
+
+      if (object.type === 'tag') {
+        const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/git/tags/${object.sha}`);
+        if (!response.ok) return null;
+        const annotated = (await response.json()) as GitHubGitTagResponse;
+        return { published_at: annotated.tagger?.date ?? null, body: annotated.message.trim() || null };
+      }
+
+      const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/git/commits/${object.sha}`);
+      if (!response.ok) return null;
+      const commit = (await response.json()) as GitHubGitCommitResponse;
+      return { published_at: commit.committer.date, body: commit.message.trim() || null };
+    });
+  },
+
+  fetchLatestCommit(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/commits?per_page=1${historyParams(repo, 'sha')}`);
+      if (!response.ok) return null;
+      const data = (await response.json()) as GitHubCommitResponse[];
+      if (data.length === 0) return null;
+      return {
+        sha: data[0].sha,
+        date: data[0].commit.author.date,
+        message: data[0].commit.message,
+      };
+    });
+  },
+
+  async compareCommits(repo, base, head): Promise<ApiResponse<CommitComparison>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/compare/${encodeRef(base)}...${encodeRef(head)}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return comparisonNotFound(repo, base, head);
+      }
+
+      if (!response.ok) {
+        return upstreamError(response);
+      }
+
+      const data = (await response.json()) as GitHubCompareResponse;
+      return createSuccessResponse(
+        {
+          commits: data.commits.map((commit) => ({
+            sha: commit.sha,
+            message: commit.commit.message,
+            author: commit.commit.author.name,
+            date: commit.commit.author.date,
+            html_url: commit.html_url,
+          })),
+          truncated: data.total_commits > data.commits.length,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  countOpenChangeRequests(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(
+        `${repositoryApiUrl(repo)}/pulls?state=open&per_page=1`
+      );
+      if (!response.ok) return null;
+      return countFromLastPage(response);
+    });
+  },
+
+  countContributors(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(
+        `${repositoryApiUrl(repo)}/contributors?per_page=1&anon=true`
+      );
+      if (!response.ok) return null;
+      return countFromLastPage(response);
+    });
+  },
+};
@@ -0,0 +1,442 @@
+import {
+  type ApiResponse,
+  type ErrorResponse,
+  type ParsedRepoInfo,
+  type GitLabProjectResponse,
+  type GitLabReleaseResponse,
+  type GitLabCommitResponse,
+  type GitLabCompareResponse,
+  type GitLabTagResponse,
+  type GitLabTreeEntry,
+  type TreeEntry,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import { hostForRepo } from '../hosts.js';
+import { RateLimitError, rateLimitedFetch } from '../upstream/index.js';
+import { toErrorResponse } from '../tools/errors.js';
+import {
+  bestEffort,
+  comparisonNotFound,
+  countFromLastPage,
+  encodePath,
+  fetchRawFile,
+  fileError,
+  historyParams,
+  languagesByShare,
+  MAX_TREE_PAGES,
+  readFileResponse,
+  refNotFound,
+} from './common.js';
+import type {
+  CommitComparison,
+  ForgeProvider,
+  RepositoryMetadata,
+  RepositoryStats,
+  ReleasePage,
+  RepoTree,
+  ResolvedRef,
+  TagDetails,
+} from './types.js';
+
+/**
+ * SPDX identifiers of the license keys GitLab detects
+ */
+const SPDX_IDS: Record<string, string> = {
+  'agpl-3.0': 'AGPL-3.0',
+  'apache-2.0': 'Apache-2.0',
+  'bsd-2-clause': 'BSD-2-Clause',
+  'bsd-3-clause': 'BSD-3-Clause',
+  'bsl-1.0': 'BSL-1.0',
+  'cc0-1.0': 'CC0-1.0',
+  'epl-2.0': 'EPL-2.0',
+  'gpl-2.0': 'GPL-2.0',
+  'gpl-3.0': 'GPL-3.0',
+  'lgpl-2.1': 'LGPL-2.1',
+  'lgpl-3.0': 'LGPL-3.0',
+  mit: 'MIT',
+  'mpl-2.0': 'MPL-2.0',
+  unlicense: 'Unlicense',
+};
+
+/**
+ * API URL of a project. Projects are addressed by their URL-encoded path, so
+ * subgroups (owner "group/subgroup") need no lookup.
+ */
+function repositoryApiUrl(repo: ParsedRepoInfo): string {
+  return `${hostForRepo(repo).apiBase}/projects/${encodeURIComponent(`${repo.owner}/${repo.repo}`)}`;
+}
+
+function repositoryWebUrl(repo: ParsedRepoInfo): string {
+  return `${hostForRepo(repo).webBase}/${repo.owner}/${repo.repo}`;
+}
+
+/** Lightweight tags have no date or message of their own, so their commit's stand in */
+function tagDetails(tag: GitLabTagResponse): TagDetails {
+  return {
+    published_at: tag.created_at ?? tag.commit.committed_date,
+    body: (tag.message || tag.commit.message).trim() || null,
+  };
+}
+
+function projectStats(data: GitLabProjectResponse): RepositoryStats {
+  return {
+    open_issues_count: data.open_issues_count ?? 0,
+    // GitLab has no watchers; stars are the closest equivalent
+    watchers_count: data.star_count,
+    has_wiki: data.wiki_enabled ?? false,
+    has_discussions: false,
+  };
+}
+
+function upstreamError(repo: ParsedRepoInfo, response: Response): ErrorResponse {
+  if (response.status === 404) {
+    return createErrorResponse('UPSTREAM_ERROR', `Repository not found: ${repo.owner}/${repo.repo}`, {
+      status: 404,
+    });
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return createErrorResponse('UPSTREAM_ERROR', 'Access forbidden', { status: response.status });
+  }
+
+  return createErrorResponse(
+    'UPSTREAM_ERROR',
+    `GitLab API error: ${response.status} ${response.statusText}`,
+    { status: response.status }
+  );
+}
+
+/**
+ * Total number of items of a list requested with per_page=1. GitLab omits
+ * X-Total for very large lists, leaving only the Link header.
+ */
+async function countItems(response: Response): Promise<number> {
+  const total = response.headers.get('x-total');
+  return total ? parseInt(total, 10) : countFromLastPage(response);
+}
+
+/**
+ * The language with the largest share, from GitLab's percentage breakdown
+ */
+async function fetchTopLanguage(apiUrl: string): Promise<string | null> {
+  return bestEffort(async () => {
+    const response = await rateLimitedFetch(`${apiUrl}/languages`);
+    if (!response.ok) return null;
+    const languages = (await response.json()) as Record<string, number>;
+    const [top] = Object.entries(languages).sort(([, a], [, b]) => b - a);
+    return top?.[0] ?? null;
+  });
+}
+
+/**
+ * gitlab.com and self-hosted GitLab, through the REST API v4
+ */
+export const gitlabProvider: ForgeProvider = {
+  name: 'gitlab',
+  label: 'GitLab',
+  unsupported: {
+    overview: ['homepage'],
+    releases: ['draft'],
+    activity: ['has_discussions'],
+  },
+  maxPageSize: 100,
+
+  repositoryApiUrl,
+
+  repositoryWebUrl,
+
+  fileWebUrl(repo, sha, path) {
+    return `${repositoryWebUrl(repo)}/-/blob/${sha}/${encodePath(path)}`;
+  },
+
+  fileRawUrl(repo, sha, path) {
+    return `${repositoryWebUrl(repo)}/-/raw/${sha}/${encodePath(path)}`;
+  },
+
+  async fetchRepository(repo): Promise<ApiResponse<RepositoryMetadata>> {
+    const apiUrl = repositoryApiUrl(repo);
+
+    try {
+      const [response, language] = await Promise.all([
+        rateLimitedFetch(`${apiUrl}?license=true`),
+        fetchTopLanguage(apiUrl),
+      ]);
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GitLabProjectResponse;
+      const webBase = hostForRepo(repo).webBase;
+      const licenseKey = data.license?.key;
+
+      return createSuccessResponse(
+        {
+          name: data.path,
+          full_name: data.path_with_namespace,
+          html_url: data.web_url,
+          description: data.description || null,
+          stars: data.star_count,
+          forks: data.forks_count,
+          language,
+          topics: data.topics ?? data.tag_list ?? [],
+          license: licenseKey ? (SPDX_IDS[licenseKey] ?? 'NOASSERTION') : null,
+          created_at: data.created_at,
+          updated_at: data.updated_at ?? data.last_activity_at,
+          default_branch: data.default_branch,
+          homepage: null,
+          owner: {
+            login: data.namespace.full_path,
+            avatar_url: data.namespace.avatar_url
+              ? new URL(data.namespace.avatar_url, webBase).toString()
+              : '',
+            type: data.namespace.kind === 'group' ? 'Organization' : 'User',
+          },
+          ...projectStats(data),
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  fetchRepositoryStats(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(repositoryApiUrl(repo));
+      if (!response.ok) return null;
+      return projectStats((await response.json()) as GitLabProjectResponse);
+    });
+  },
+
+  fetchDefaultBranch(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(repositoryApiUrl(repo));
+      if (!response.ok) return null;
+      const data = (await response.json()) as { default_branch?: string | null };
+      return data.default_branch ?? 'main';
+    });
+  },
+
+  fetchLanguages(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(`${repositoryApiUrl(repo)}/languages`);
+      if (!response.ok) return null;
+      return languagesByShare((await response.json()) as Record<string, number>);
+    });
+  },
+
+  async resolveRef(repo, ref): Promise<ApiResponse<ResolvedRef>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/repository/commits/${encodeURIComponent(ref)}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return refNotFound(repo, ref);
+      }
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GitLabCommitResponse;
+      return createSuccessResponse({ ref, sha: data.id }, { source: apiUrl });
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchFile(repo, ref, path) {
+    const url = `${repositoryApiUrl(repo)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`;
+
+    try {
+      return await readFileResponse(path, await fetchRawFile(url));
+    } catch (error) {
+      // Rate limits fail the whole call rather than degrading to a warning
+      if (error instanceof RateLimitError) throw error;
+      return fileError(path, error instanceof Error ? error.message : 'Unknown error');
+    }
+  },
+
+  async fetchTree(repo, sha): Promise<ApiResponse<RepoTree>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/repository/tree?ref=${encodeURIComponent(sha)}&recursive=true&per_page=100`;
+
+    try {
+      const entries: TreeEntry[] = [];
+      let page: string | null = '1';
+
+      for (let pages = 0; page && pages < MAX_TREE_PAGES; pages++) {
+        const response = await rateLimitedFetch(`${apiUrl}&page=${page}`);
+
+        if (!response.ok) {
+          return upstreamError(repo, response);
+        }
+
+        const data = (await response.json()) as GitLabTreeEntry[];
+        for (const entry of data) {
+          if (entry.type === 'commit') continue;
+          // The tree listing carries no sizes
+          entries.push({ path: entry.path, type: entry.type === 'tree' ? 'dir' : 'file', size: null });
+        }
+        page = response.headers.get('x-next-page') || null;
+      }
+
+      return createSuccessResponse({ entries, truncated: page !== null }, { source: apiUrl });
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchReleases(repo, { page, perPage }): Promise<ApiResponse<ReleasePage>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/releases?per_page=${perPage}&page=${page}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GitLabReleaseResponse[];
+      const hasMore = Boolean(response.headers.get('x-next-page'));
+      const total = response.headers.get('x-total');
+      const webUrl = repositoryWebUrl(repo);
+
+      return createSuccessResponse(
+        {
+          releases: data.map((release) => ({
+            tag_name: release.tag_name,
+            name: release.name,
+            body: release.description,
+            published_at: release.released_at,
+            // Releases scheduled for the future are the closest thing GitLab has to prereleases
+            prerelease: release.upcoming_release ?? false,
+            draft: false,
+            html_url:
+              release._links?.self ?? `${webUrl}/-/releases/${encodeURIComponent(release.tag_name)}`,
+          })),
+          has_more: hasMore,
+          total_count: total ? parseInt(total, 10) : null,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  async fetchTags(repo, { page, perPage }): Promise<ApiResponse<ReleasePage>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/repository/tags?per_page=${perPage}&page=${page}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GitLabTagResponse[];
+      const total = response.headers.get('x-total');
+      const webUrl = repositoryWebUrl(repo);
+
+      return createSuccessResponse(
+        {
+          releases: data.map((tag) => ({
+            tag_name: tag.name,
+            name: tag.name,
+            ...tagDetails(tag),
+            prerelease: false,
+            draft: false,
+            html_url: `${webUrl}/-/tags/${encodeURIComponent(tag.name)}`,
+          })),
+          has_more: Boolean(response.headers.get('x-next-page')),
+          total_count: total ? parseInt(total, 10) : null,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  resolveTag(repo, tag) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(
+        `${repositoryApiUrl(repo)}/repository/tags/${encodeURIComponent(tag)}`
+      );
+      if (!response.ok) return null;
+      return tagDetails((await response.json()) as GitLabTagResponse);
+    });
+  },
+
+  fetchLatestCommit(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(
+        `${repositoryApiUrl(repo)}/repository/commits?per_page=1${historyParams(repo, 'ref_name')}`
+      );
+      if (!response.ok) return null;
+      const data = (await response.json()) as GitLabCommitResponse[];
+      if (data.length === 0) return null;
+      return {
+        sha: data[0].id,
+        date: data[0].committed_date,
+        message: data[0].message,
+      };
+    });
+  },
+
+  async compareCommits(repo, base, head): Promise<ApiResponse<CommitComparison>> {
+    const apiUrl = `${repositoryApiUrl(repo)}/repository/compare?from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}`;
+
+    try {
+      const response = await rateLimitedFetch(apiUrl);
+
+      if (response.status === 404) {
+        return comparisonNotFound(repo, base, head);
+      }
+
+      if (!response.ok) {
+        return upstreamError(repo, response);
+      }
+
+      const data = (await response.json()) as GitLabCompareResponse;
+      return createSuccessResponse(
+        {
+          commits: data.commits.map((commit) => ({
+            sha: commit.id,
+            message: commit.message,
+            author: commit.author_name,
+            date: commit.created_at,
+            html_url: commit.web_url,
+          })),
+          truncated: false,
+        },
+        { source: apiUrl }
+      );
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  },
+
+  countOpenChangeRequests(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(
+        `${repositoryApiUrl(repo)}/merge_requests?state=opened&per_page=1`
+      );
+      if (!response.ok) return null;
+      return countItems(response);
+    });
+  },
+
+  countContributors(repo) {
+    return bestEffort(async () => {
+      const response = await rateLimitedFetch(
+        `${repositoryApiUrl(repo)}/repository/contributors?per_page=1`
+      );
+      if (!response.ok) return null;
+      return countItems(response);
+    });
+  },
+};
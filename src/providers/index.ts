@@ -0,0 +1,53 @@
+import type { ProviderName } from '../config.js';
+import type { ParsedRepoInfo } from '../types.js';
+import { hostForRepo } from '../hosts.js';
+import { githubProvider } from './github.js';
+import { gitlabProvider } from './gitlab.js';
+import { giteaProvider } from './gitea.js';
+import { bitbucketProvider } from './bitbucket.js';
+import type { ForgeProvider, UnsupportedFields } from './types.js';
+
+export {
+  type ForgeProvider,
+  type RepositoryMetadata,
+  type RepositoryStats,
+  type CommitSummary,
+  type CommitComparison,
+  type ComparedCommit,
+  type ForgeRelease,
+  type TagDetails,
+  type PageRequest,
+  type ReleasePage,
+  type ResolvedRef,
+  type RepoTree,
+  type UnsupportedFields,
+} from './types.js';
+export { githubProvider } from './github.js';
+export { gitlabProvider } from './gitlab.js';
+export { giteaProvider } from './gitea.js';
+export { bitbucketProvider } from './bitbucket.js';
+
+const PROVIDERS: Record<ProviderName, ForgeProvider> = {
+  github: githubProvider,
+  gitlab: gitlabProvider,
+  gitea: giteaProvider,
+  bitbucket: bitbucketProvider,
+};
+
+/**
+ * The provider serving a parsed repository
+ */
+export function providerFor(repo: ParsedRepoInfo): ForgeProvider {
+  return PROVIDERS[repo.provider ?? hostForRepo(repo).provider];
+}
+
+/**
+ * Warning listing the fields of a tool's output the provider cannot supply
+ */
+export function unsupportedWarnings(
+  provider: ForgeProvider,
+  output: keyof UnsupportedFields
+): string[] {
+  const fields = provider.unsupported[output] ?? [];
+  return fields.length > 0 ? [`Not supported by ${provider.label}: ${fields.join(', ')}`] : [];
+}
@@ -0,0 +1,150 @@
+import type { ProviderName } from '../config.js';
+import type {
+  ActivitySnapshotData,
+  ApiResponse,
+  FileContent,
+  ParsedRepoInfo,
+  ReleaseData,
+  RepoOverviewData,
+  TreeEntry,
+  UpgradeCommit,
+} from '../types.js';
+
+/**
+ * Repository counters and feature flags reported alongside the metadata
+ */
+export interface RepositoryStats {
+  open_issues_count: number;
+  watchers_count: number;
+  has_wiki: boolean;
+  has_discussions: boolean;
+}
+
+/**
+ * Everything a forge reports about a repository in one metadata call
+ */
+export type RepositoryMetadata = RepoOverviewData & RepositoryStats;
+
+export interface CommitSummary {
+  sha: string;
+  date: string;
+  message: string;
+}
+
+/**
+ * A branch, tag or commit and the commit it points at
+ */
+export interface ResolvedRef {
+  ref: string;
+  sha: string;
+}
+
+/**
+ * Every file and directory of a repository at one commit
+ */
+export interface RepoTree {
+  entries: TreeEntry[];
+  /** Whether the forge returned only part of the tree */
+  truncated: boolean;
+}
+
+/**
+ * A page of a list to request from a forge, numbered from 1
+ */
+export interface PageRequest {
+  page: number;
+  perPage: number;
+  /** Whether to report the total where counting takes a request of its own */
+  count?: boolean;
+}
+
+/**
+ * A release as the forge lists it, before its tag is read as a version and
+ * its notes are sorted into kinds of change
+ */
+export type ForgeRelease = Omit<ReleaseData, 'version' | 'changes'>;
+
+/**
+ * Date and message of a tag: its annotation's, or else its commit's
+ */
+export type TagDetails = Pick<ForgeRelease, 'published_at' | 'body'>;
+
+/**
+ * A commit as the forge lists it, before its message is searched for breaking changes
+ */
+export type ComparedCommit = Omit<UpgradeCommit, 'breaking'>;
+
+/**
+ * Commits reachable from one ref but not from another, oldest first
+ */
+export interface CommitComparison {
+  commits: ComparedCommit[];
+  /** Whether the forge listed only part of them */
+  truncated: boolean;
+}
+
+/**
+ * One page of releases, newest first
+ */
+export interface ReleasePage {
+  releases: ForgeRelease[];
+  /** Whether the forge has pages after this one */
+  has_more: boolean;
+  /** Number of releases across all pages, when the forge reports it */
+  total_count: number | null;
+}
+
+/**
+ * Output fields a forge has no equivalent for. They are filled with a neutral
+ * value (0, false, null or []) and reported as warnings by the tools.
+ */
+export interface UnsupportedFields {
+  overview?: Array<keyof RepoOverviewData>;
+  releases?: Array<keyof ReleaseData>;
+  activity?: Array<keyof ActivitySnapshotData>;
+}
+
+/**
+ * Reads repositories from one kind of forge. Methods returning envelopes map
+ * upstream failures to errors; methods returning null are best effort and
+ * only let rate limits escape, so callers can degrade them into warnings.
+ */
+export interface ForgeProvider {
+  readonly name: ProviderName;
+  /** Display name used in messages */
+  readonly label: string;
+  readonly unsupported: UnsupportedFields;
+  /** Most items a list request returns per page */
+  readonly maxPageSize: number;
+  /** API URL of the repository itself, reported as the source of metadata */
+  repositoryApiUrl(repo: ParsedRepoInfo): string;
+  /** Web URL of the repository */
+  repositoryWebUrl(repo: ParsedRepoInfo): string;
+  /** Web page of a file or directory at a commit */
+  fileWebUrl(repo: ParsedRepoInfo, sha: string, path: string): string;
+  /** Raw content of a file at a commit, as linked from rendered documents */
+  fileRawUrl(repo: ParsedRepoInfo, sha: string, path: string): string;
+  fetchRepository(repo: ParsedRepoInfo): Promise<ApiResponse<RepositoryMetadata>>;
+  fetchRepositoryStats(repo: ParsedRepoInfo): Promise<RepositoryStats | null>;
+  fetchDefaultBranch(repo: ParsedRepoInfo): Promise<string | null>;
+  /** Languages of the repository, largest share of the code first */
+  fetchLanguages(repo: ParsedRepoInfo): Promise<string[] | null>;
+  /** Resolve a branch, tag or commit to a commit SHA; unknown refs are INVALID_INPUT */
+  resolveRef(repo: ParsedRepoInfo, ref: string): Promise<ApiResponse<ResolvedRef>>;
+  fetchFile(repo: ParsedRepoInfo, ref: string, path: string): Promise<FileContent>;
+  /** List the whole tree recursively, directories included */
+  fetchTree(repo: ParsedRepoInfo, sha: string): Promise<ApiResponse<RepoTree>>;
+  fetchReleases(repo: ParsedRepoInfo, page: PageRequest): Promise<ApiResponse<ReleasePage>>;
+  /**
+   * Tags as the forge orders them, with the date and message of each; where
+   * the forge lists them without, published_at is null until resolveTag reads them
+   */
+  fetchTags(repo: ParsedRepoInfo, page: PageRequest): Promise<ApiResponse<ReleasePage>>;
+  resolveTag(repo: ParsedRepoInfo, tag: string): Promise<TagDetails | null>;
+  fetchLatestCommit(repo: ParsedRepoInfo): Promise<CommitSummary | null>;
+  /** Commits in head but not in base; unknown refs are INVALID_INPUT */
+  compareCommits(repo: ParsedRepoInfo, base: string, head: string): Promise<ApiResponse<CommitComparison>>;
+  /** Open pull requests (merge requests on GitLab) */
+  countOpenChangeRequests(repo: ParsedRepoInfo): Promise<number | null>;
+  countContributors(repo: ParsedRepoInfo): Promise<number | null>;
+}
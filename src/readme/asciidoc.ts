@@ -0,0 +1,204 @@
+import {
+  type ReadmeDocument,
+  consumeBareUrls,
+  createScanner,
+  dedent,
+  documentLines,
+  plainText,
+} from './document.js';
+
+const ATTRIBUTE_ENTRY = /^:(\w[\w-]*):\s*(.*)$/;
+const SECTION_TITLE = /^(={1,6}|#{1,6})\s+(\S.*?)(?:\s+[=#]+)?\s*$/;
+const BLOCK_ATTRIBUTES = /^\[([^[\]]*)\]\s*$/;
+/** Delimiters of listing, literal, comment and passthrough blocks */
+const DELIMITER = /^(-{4,}|\.{4,}|\/{4,}|\+{4,})\s*$/;
+const BLOCK_IMAGE = /^image::([^\s[]+)\[(.*)\]\s*$/;
+const URL_MACRO = String.raw`(?:link:|xref:)[^\s[]+|(?:https?|mailto):[^\s[<>]+`;
+
+interface AttributeList {
+  positional: string[];
+  named: Map<string, string>;
+}
+
+/**
+ * Attributes of a block or macro, such as [source,bash] or [Build, link=https://...]
+ */
+function attributeList(text: string): AttributeList {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current.trim());
+
+  const list: AttributeList = { positional: [], named: new Map() };
+  for (const item of items) {
+    const named = /^([\w-]+)\s*=\s*(.*)$/.exec(item);
+    if (named) list.named.set(named[1], named[2]);
+    else list.positional.push(item);
+  }
+  return list;
+}
+
+function macroUrl(url: string): string {
+  return url.replace(/^(link|xref):/, '');
+}
+
+/** Text of a link macro; a trailing ^ asks for a new window */
+function linkText(attributes: string, url: string): string {
+  return inlineText(attributeList(attributes).positional[0]?.replace(/\^$/, '') ?? '') || url;
+}
+
+/**
+ * Text of a title or link without inline markup
+ */
+function inlineText(text: string): string {
+  return plainText(
+    text
+      .replace(/image:[^\s[]+\[[^\]]*\]/g, '')
+      .replace(new RegExp(String.raw`(?:${URL_MACRO})\[([^\]]*)\]`, 'g'), '$1')
+      .replace(/[`*]+/g, '')
+  );
+}
+
+/**
+ * Parse AsciiDoc: section titles, source, listing and literal blocks and
+ * paragraphs, block and inline images, link macros and bare URLs, with
+ * document attributes substituted
+ */
+export function parseAsciidoc(content: string): ReadmeDocument {
+  const attributes = new Map<string, string>();
+  const source = documentLines(content);
+  for (const line of source) {
+    const entry = ATTRIBUTE_ENTRY.exec(line);
+    if (entry) attributes.set(entry[1], entry[2].trim());
+  }
+
+  const substituted = source.map((line) =>
+    ATTRIBUTE_ENTRY.test(line)
+      ? ''
+      : line.replace(/\{([\w-]+)\}/g, (reference, name: string) => attributes.get(name) ?? reference)
+  );
+  const scanner = createScanner(substituted.join('\n'));
+  const lines = scanner.text.split('\n');
+  const document: ReadmeDocument = { headings: [], codeBlocks: [], links: [], images: [] };
+
+  let pending: AttributeList | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const blockAttributes: AttributeList | null = pending;
+    pending = null;
+
+    if (/^\/\/(?!\/)/.test(line) || /^\[\[[^\]]*\]\]\s*$/.test(line)) {
+      scanner.blankLines(i + 1, i + 1);
+      pending = blockAttributes;
+      continue;
+    }
+
+    const attributeLine = BLOCK_ATTRIBUTES.exec(line);
+    if (attributeLine) {
+      pending = attributeList(attributeLine[1]);
+      scanner.blankLines(i + 1, i + 1);
+      continue;
+    }
+
+    const [style, language] = blockAttributes?.positional ?? [];
+    const sourceLanguage =
+      style === 'source' || style === '' ? (language || attributes.get('source-language')) ?? null : null;
+
+    const delimiter = DELIMITER.exec(line);
+    if (delimiter) {
+      let end = i + 1;
+      while (end < lines.length && lines[end].trim() !== delimiter[1]) end++;
+      if (delimiter[1][0] === '-' || delimiter[1][0] === '.') {
+        document.codeBlocks.push({
+          language: sourceLanguage,
+          code: lines.slice(i + 1, end).join('\n'),
+          line: i + 1,
+        });
+      }
+      scanner.blankLines(i + 1, Math.min(end + 1, lines.length));
+      i = end;
+      continue;
+    }
+
+    const previousBlank = i === 0 || lines[i - 1].trim() === '';
+    // A paragraph marked as source, or indented to make it literal
+    if (line.trim() !== '' && (style === 'source' || (previousBlank && /^\s+\S/.test(line)))) {
+      let end = i;
+      while (end < lines.length && lines[end].trim() !== '') end++;
+      document.codeBlocks.push({
+        language: sourceLanguage,
+        code: dedent(lines.slice(i, end)),
+        line: i + 1,
+      });
+      scanner.blankLines(i + 1, end);
+      i = end - 1;
+      continue;
+    }
+
+    const title = SECTION_TITLE.exec(line);
+    if (title && previousBlank) {
+      document.headings.push({ title: inlineText(title[2]), level: title[1].length, line: i + 1 });
+      continue;
+    }
+
+    const image = BLOCK_IMAGE.exec(line);
+    if (image) {
+      const list = attributeList(image[2]);
+      document.images.push({
+        alt: list.named.get('alt') ?? list.positional[0] ?? '',
+        url: image[1],
+        link: list.named.get('link') ?? null,
+        line: i + 1,
+      });
+      scanner.blankLines(i + 1, i + 1);
+    }
+  }
+  document.headings = document.headings.filter((heading) => heading.title !== '');
+
+  // Cross references point within the document
+  scanner.consume(/<<[^>]*>>/g, () => {});
+
+  scanner.consume(
+    new RegExp(String.raw`(${URL_MACRO})\[\s*image:([^\s[]+)\[([^\]]*)\]\s*\]`, 'g'),
+    (match, line) => {
+      const list = attributeList(match[3]);
+      document.images.push({
+        alt: list.named.get('alt') ?? list.positional[0] ?? '',
+        url: match[2],
+        link: macroUrl(match[1]),
+        line,
+      });
+    }
+  );
+
+  scanner.consume(/image:([^\s[:][^\s[]*)\[([^\]]*)\]/g, (match, line) => {
+    const list = attributeList(match[2]);
+    document.images.push({
+      alt: list.named.get('alt') ?? list.positional[0] ?? '',
+      url: match[1],
+      link: list.named.get('link') ?? null,
+      line,
+    });
+  });
+
+  scanner.consume(new RegExp(String.raw`(${URL_MACRO})\[([^\]]*)\]`, 'g'), (match, line) => {
+    const url = macroUrl(match[1]);
+    document.links.push({ text: linkText(match[2], url), url, line });
+  });
+
+  consumeBareUrls(scanner, document.links);
+  return document;
+}
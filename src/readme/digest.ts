@@ -0,0 +1,232 @@
+import type {
+  BadgeKind,
+  ReadmeBadge,
+  ReadmeCodeBlock,
+  ReadmeDigestData,
+  ReadmeImage,
+  ReadmeLink,
+  ReadmeSection,
+} from '../types.js';
+import type { CodeBlock, Heading, ReadmeDocument } from './document.js';
+
+export type ReadmeDigest = Pick<ReadmeDigestData, 'sections' | 'install' | 'usage' | 'badges' | 'links' | 'images'>;
+
+/**
+ * Turns URLs as written in a README into absolute ones. Each method returns
+ * null for URLs that lead nowhere outside the document.
+ */
+export interface UrlResolver {
+  link(url: string): string | null;
+  image(url: string): string | null;
+  /** Whether an absolute URL leads outside the repository */
+  isExternal(url: string): boolean;
+}
+
+const INSTALL_HEADING = /\b(install(ation|ing)?|setup|set up|download(ing)?)\b/i;
+const USAGE_HEADING = /\b(usage|using|examples?|getting started|get started|quick ?start|how to|tutorial)\b/i;
+/** Sections about working on the project rather than using it */
+const CONTRIBUTOR_HEADING = /\b(contribut\w*|development|developing|hacking|running (the )?tests|testing)\b/i;
+
+/** Commands of package managers and installers, at the start of a line */
+const INSTALL_COMMAND = new RegExp(
+  String.raw`^\s*(?:[$>#]\s*)?(?:sudo\s+)?(?:` +
+    [
+      String.raw`npm\s+(?:i|install|add)\b`,
+      String.raw`yarn\s+(?:global\s+)?add\b`,
+      String.raw`pnpm\s+(?:add|i|install)\b`,
+      String.raw`bun\s+(?:add|install|i)\b`,
+      String.raw`deno\s+(?:add|install)\b`,
+      String.raw`(?:python3?\s+-m\s+)?pip3?\s+install\b`,
+      String.raw`pipx\s+install\b`,
+      String.raw`uv\s+(?:add|pip\s+install|tool\s+install)\b`,
+      String.raw`poetry\s+add\b`,
+      String.raw`conda\s+install\b`,
+      String.raw`cargo\s+(?:add|install)\b`,
+      String.raw`go\s+(?:get|install)\b`,
+      String.raw`gem\s+install\b`,
+      String.raw`bundle\s+add\b`,
+      String.raw`composer\s+(?:global\s+)?require\b`,
+      String.raw`dotnet\s+(?:add\s+(?:\S+\s+)?package|tool\s+install)\b`,
+      String.raw`Install-Package\b`,
+      String.raw`(?:brew|apt|apt-get|dnf|yum|snap|choco|scoop|winget|port)\s+install\b`,
+      String.raw`pacman\s+-S\b`,
+      String.raw`docker\s+pull\b`,
+      String.raw`helm\s+install\b`,
+    ].join('|') +
+    ')',
+  'im'
+);
+
+const BADGE_HOST =
+  /^https?:\/\/(?:[\w-]+\.)*(?:shields\.io|badgen\.net|badge\.fury\.io|codecov\.io|coveralls\.io|travis-ci\.(?:org|com)|circleci\.com|appveyor\.com|codeclimate\.com|sonarcloud\.io|snyk\.io|deps\.rs|pepy\.tech|goreportcard\.com|readthedocs\.(?:org|io)|bestpractices\.(?:dev|coreinfrastructure\.org)|fossa\.(?:com|io)|badges\.gitter\.im|securityscorecards\.dev)\//i;
+const BADGE_PATH = /\/badges?(?:[/?]|\.svg|$)|badge\.svg|\/(?:pipeline|coverage|build|status)\.svg/i;
+
+/**
+ * Kinds of badges, tried in order: by words of their alternative text, else
+ * by the paths of badge services, since URLs hold names (of a repository or
+ * package, say) that would mislead a search for words
+ */
+const BADGE_KINDS: Array<{ kind: BadgeKind; label: RegExp; url: RegExp }> = [
+  {
+    kind: 'coverage',
+    label: /\bcov(erage)?\b|codecov|coveralls/,
+    url: /codecov|coveralls|\/coverage\b|test_coverage/,
+  },
+  {
+    kind: 'ci',
+    label: /\bbuild|\bci\b|\bchecks?\b|\btests?\b|\bpipeline|\bworkflow|\bactions\b|travis|circleci|appveyor/,
+    url: /\/workflows?\/|travis-ci\.|\/travis\/|circleci|appveyor|dev\.azure\.com|buildkite|jenkins|cirrus-ci|\/pipeline|\/checks\/|\/build\b/,
+  },
+  { kind: 'license', label: /licen[cs]e/, url: /licen[cs]e|\/l\// },
+  { kind: 'downloads', label: /downloads?|installs/, url: /downloads|\/d[wmty]\/|pepy\.tech/ },
+  {
+    kind: 'docs',
+    label: /\bdocs?\b|documentation/,
+    url: /readthedocs|docs\.rs|godoc|pkg\.go\.dev|\/docs?\b/,
+  },
+  {
+    kind: 'version',
+    label: /\bversion\b|\brelease\b|\btag\b|\blatest\b/,
+    url: /\/v\/|\/tag\/|\/release\/|badge\.fury\.io|\/(npm|gem|pypi|crates?)\.svg|\/version\b/,
+  },
+];
+
+/**
+ * Headings as a tree: each heading holds the deeper headings after it, up
+ * to the next heading of its level or above
+ */
+function sectionTree(headings: Heading[]): ReadmeSection[] {
+  const roots: ReadmeSection[] = [];
+  const stack: ReadmeSection[] = [];
+  for (const heading of headings) {
+    const section: ReadmeSection = { ...heading, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(section);
+    stack.push(section);
+  }
+  return roots;
+}
+
+/**
+ * Headings enclosing a line, innermost first
+ */
+function enclosingHeadings(headings: Heading[], line: number): Heading[] {
+  const stack: Heading[] = [];
+  for (const heading of headings) {
+    if (heading.line > line) break;
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+    stack.push(heading);
+  }
+  return stack.reverse();
+}
+
+/**
+ * Install commands are install instructions wherever they are; other blocks
+ * count by their innermost section about installing, using or developing
+ */
+function blockPurpose(block: CodeBlock, headings: Heading[]): 'install' | 'usage' | null {
+  const purposes: Array<[RegExp, 'install' | 'usage' | null]> = [
+    [CONTRIBUTOR_HEADING, null],
+    [INSTALL_HEADING, 'install'],
+    [USAGE_HEADING, 'usage'],
+  ];
+  for (const heading of enclosingHeadings(headings, block.line)) {
+    const match = purposes.find(([pattern]) => pattern.test(heading.title));
+    if (!match) continue;
+    if (match[1] === null) return null;
+    return INSTALL_COMMAND.test(block.code) ? 'install' : match[1];
+  }
+  return INSTALL_COMMAND.test(block.code) ? 'install' : null;
+}
+
+function isBadge(url: string): boolean {
+  return BADGE_HOST.test(url) || BADGE_PATH.test(url.replace(/[?#].*$/, ''));
+}
+
+/**
+ * Kind of a badge, from what it says or else what service draws it
+ */
+export function badgeKind(imageUrl: string, alt: string): BadgeKind {
+  const label = alt.toLowerCase();
+  const url = imageUrl.toLowerCase();
+  return (
+    BADGE_KINDS.find((kind) => kind.label.test(label))?.kind ??
+    BADGE_KINDS.find((kind) => kind.url.test(url))?.kind ??
+    'other'
+  );
+}
+
+/**
+ * Label of a badge: its alternative text, else the label it is drawn with,
+ * else its kind or the name of its image
+ */
+function badgeLabel(imageUrl: string, alt: string, kind: BadgeKind): string {
+  if (alt.trim()) return alt.trim();
+  try {
+    const url = new URL(imageUrl);
+    const label = url.searchParams.get('label');
+    if (label) return label;
+    if (kind !== 'other') return kind;
+    return decodeURIComponent(url.pathname.split('/').pop() ?? '').replace(/\.\w+$/, '') || imageUrl;
+  } catch {
+    return kind !== 'other' ? kind : imageUrl;
+  }
+}
+
+/**
+ * Digest of a parsed README: its heading tree, install and usage code
+ * blocks, badges, links and images, with URLs resolved
+ */
+export function digestReadme(document: ReadmeDocument, resolver: UrlResolver): ReadmeDigest {
+  const { headings } = document;
+  const install: ReadmeCodeBlock[] = [];
+  const usage: ReadmeCodeBlock[] = [];
+
+  for (const block of document.codeBlocks) {
+    if (block.code.trim() === '') continue;
+    const purpose = blockPurpose(block, headings);
+    if (!purpose) continue;
+    const section = enclosingHeadings(headings, block.line)[0]?.title ?? null;
+    (purpose === 'install' ? install : usage).push({
+      section,
+      language: block.language,
+      code: block.code,
+      line: block.line,
+    });
+  }
+
+  const badges: ReadmeBadge[] = [];
+  const images: ReadmeImage[] = [];
+  const written: Array<{ text: string; url: string; line: number }> = [...document.links];
+
+  // Array.prototype.sort is stable, so items on one line keep their order
+  for (const image of [...document.images].sort((a, b) => a.line - b.line)) {
+    const imageUrl = resolver.image(image.url);
+    if (!imageUrl) continue;
+
+    if (isBadge(imageUrl)) {
+      const kind = badgeKind(imageUrl, image.alt);
+      badges.push({
+        kind,
+        label: badgeLabel(imageUrl, image.alt, kind),
+        image_url: imageUrl,
+        target_url: image.link ? resolver.link(image.link) : null,
+      });
+      continue;
+    }
+
+    images.push({ alt: image.alt, url: imageUrl });
+    if (image.link) written.push({ text: image.alt || image.link, url: image.link, line: image.line });
+  }
+
+  const links: ReadmeLink[] = [];
+  const seen = new Set<string>();
+  for (const link of written.sort((a, b) => a.line - b.line)) {
+    const url = resolver.link(link.url);
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+    links.push({ text: link.text, url, external: resolver.isExternal(url) });
+  }
+
+  return { sections: sectionTree(headings), install, usage, badges, links, images };
+}
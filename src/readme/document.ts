@@ -0,0 +1,164 @@
+import type { ReadmeFormat } from '../types.js';
+
+export interface Heading {
+  title: string;
+  level: number;
+  line: number;
+}
+
+export interface CodeBlock {
+  language: string | null;
+  code: string;
+  line: number;
+}
+
+/** A link as written, before its URL is resolved */
+export interface DocumentLink {
+  text: string;
+  url: string;
+  line: number;
+}
+
+/** An image as written, with the URL of the link around it if any */
+export interface DocumentImage {
+  alt: string;
+  url: string;
+  link: string | null;
+  line: number;
+}
+
+/**
+ * The parts of a README the digest is built from, whatever its markup
+ */
+export interface ReadmeDocument {
+  headings: Heading[];
+  codeBlocks: CodeBlock[];
+  links: DocumentLink[];
+  images: DocumentImage[];
+}
+
+export function readmeFormat(path: string): ReadmeFormat {
+  const extension = /\.([^./]+)$/.exec(path)?.[1].toLowerCase();
+  if (extension && ['md', 'markdown', 'mdown', 'mkd'].includes(extension)) return 'markdown';
+  if (extension && ['rst', 'rest'].includes(extension)) return 'rst';
+  if (extension && ['adoc', 'asciidoc', 'asc'].includes(extension)) return 'asciidoc';
+  return 'text';
+}
+
+/**
+ * Text of a document being taken apart. Consumed stretches are replaced by
+ * spaces, keeping line breaks, so later patterns neither match them again nor
+ * lose track of line numbers.
+ */
+export interface Scanner {
+  readonly text: string;
+  /** Line of an offset, from 1 */
+  lineAt(offset: number): number;
+  blank(start: number, end: number): void;
+  /** Blank whole lines, counted from 1 */
+  blankLines(first: number, last: number): void;
+  /** Call visit for each match of a global pattern, then blank the matches */
+  consume(pattern: RegExp, visit: (match: RegExpMatchArray, line: number) => void): void;
+}
+
+export function createScanner(content: string): Scanner {
+  let text = content;
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+
+  const lineAt = (offset: number) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (starts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low + 1;
+  };
+
+  const blank = (start: number, end: number) => {
+    text = text.slice(0, start) + text.slice(start, end).replace(/[^\n]/g, ' ') + text.slice(end);
+  };
+
+  return {
+    get text() {
+      return text;
+    },
+    lineAt,
+    blank,
+    blankLines(first, last) {
+      blank(starts[first - 1], last < starts.length ? starts[last] - 1 : text.length);
+    },
+    consume(pattern, visit) {
+      for (const match of text.matchAll(pattern)) visit(match, lineAt(match.index!));
+      text = text.replace(pattern, (match) => match.replace(/[^\n]/g, ' '));
+    },
+  };
+}
+
+/** Line breaks normalised to \n */
+export function documentLines(content: string): string[] {
+  return content.replace(/\r\n?/g, '\n').split('\n');
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Text without HTML tags and entities, on one line
+ */
+export function plainText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(#\d+|#x[\da-f]+|\w+);/gi, (entity, name: string) => {
+      if (name[0] !== '#') return ENTITIES[name.toLowerCase()] ?? entity;
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Attributes of an HTML tag, names lowercased
+ */
+export function htmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = plainText(match[2] ?? match[3] ?? match[4]);
+  }
+  return attributes;
+}
+
+/**
+ * Lines with the indentation they share removed
+ */
+export function dedent(lines: string[]): string {
+  const indents = lines.filter((line) => line.trim() !== '').map((line) => /^\s*/.exec(line)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(indent)).join('\n');
+}
+
+/** Blank lines at the start and end of a block dropped */
+export function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+/**
+ * URLs written out in running text, which Markdown, reStructuredText and
+ * AsciiDoc all turn into links. Trailing punctuation belongs to the sentence.
+ */
+export function consumeBareUrls(scanner: Scanner, links: DocumentLink[]): void {
+  scanner.consume(/\bhttps?:\/\/[^\s<>"'`\]]+/g, (match, line) => {
+    let url = match[0].replace(/[.,;:!?*]+$/, '');
+    // Keep balanced parentheses, as in Wikipedia URLs, but not one closing the sentence
+    while (url.endsWith(')') && url.split('(').length < url.split(')').length) url = url.slice(0, -1);
+    links.push({ text: url, url, line });
+  });
+}
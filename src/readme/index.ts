@@ -0,0 +1,40 @@
+import type { ReadmeFormat } from '../types.js';
+import type { ReadmeDocument } from './document.js';
+import { consumeBareUrls, createScanner, documentLines } from './document.js';
+import { parseAsciidoc } from './asciidoc.js';
+import { parseMarkdown } from './markdown.js';
+import { parseRst } from './rst.js';
+
+export {
+  type CodeBlock,
+  type DocumentImage,
+  type DocumentLink,
+  type Heading,
+  type ReadmeDocument,
+  readmeFormat,
+} from './document.js';
+export { type ReadmeDigest, type UrlResolver, badgeKind, digestReadme } from './digest.js';
+export { parseAsciidoc } from './asciidoc.js';
+export { parseMarkdown } from './markdown.js';
+export { parseRst } from './rst.js';
+export { resolveReadmeUrl } from './resolve.js';
+
+/**
+ * Parse a README in its format. Plain text has no headings or code blocks
+ * to tell apart, only the URLs written in it.
+ */
+export function parseReadme(content: string, format: ReadmeFormat): ReadmeDocument {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(content);
+    case 'rst':
+      return parseRst(content);
+    case 'asciidoc':
+      return parseAsciidoc(content);
+    case 'text': {
+      const document: ReadmeDocument = { headings: [], codeBlocks: [], links: [], images: [] };
+      consumeBareUrls(createScanner(documentLines(content).join('\n')), document.links);
+      return document;
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  type ReadmeDocument,
+  consumeBareUrls,
+  createScanner,
+  documentLines,
+  htmlAttributes,
+  plainText,
+} from './document.js';
+
+const FENCE = /^(\s*)(`{3,}|~{3,})(.*)$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-{2,})\s*$/;
+/** Lines that open a block other than a paragraph, so cannot be a setext heading's text */
+const NOT_PARAGRAPH = /^(?: {4}|\s*(?:#|>|[-*+]\s|\d+[.)]\s|\||<|$))/;
+const DEFINITION = /^ {0,3}\[([^\]^][^\]]*)\]:\s*<?([^\s>]+)>?(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*$/;
+
+const DESTINATION = String.raw`\(([^)\n]*)\)`;
+const REFERENCE = String.raw`\[([^\]\n]*)\]`;
+const IMAGE = String.raw`!\[([^\]\n]*)\](?:${DESTINATION}|${REFERENCE})?`;
+
+/** Characters a backslash makes literal */
+const ESCAPED = /\\([!-/:-@[-`{-~])/g;
+/** Private-use characters escaped characters stand in for while markup is parsed */
+const HIDDEN = /[\ue000-\ue07f]/g;
+
+function hideEscapes(text: string): string {
+  return text.replace(ESCAPED, (_escape, char: string) => String.fromCharCode(0xe000 + char.charCodeAt(0)));
+}
+
+function restoreEscapes(text: string): string {
+  return text.replace(HIDDEN, (char) => String.fromCharCode(char.charCodeAt(0) - 0xe000));
+}
+
+function fenceLanguage(info: string): string | null {
+  return /^\s*\{?\.?([^\s,{}]+)/.exec(info)?.[1] ?? null;
+}
+
+function referenceLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Text of a heading or link without inline markup
+ */
+function inlineText(text: string): string {
+  return restoreEscapes(
+    plainText(
+      text
+        .replace(new RegExp(IMAGE, 'g'), '')
+        .replace(new RegExp(String.raw`\[([^\]]*)\](?:${DESTINATION}|${REFERENCE})`, 'g'), '$1')
+        .replace(/`+|\*\*|__/g, '')
+    )
+  );
+}
+
+/**
+ * Parse Markdown as GitHub renders it: fenced code blocks, ATX, setext and
+ * HTML headings, inline and reference links and images, HTML links and
+ * images, autolinks and bare URLs. Indented code blocks are not told apart
+ * from indented list content and are read as text.
+ */
+export function parseMarkdown(content: string): ReadmeDocument {
+  const lines = documentLines(content);
+  const document: ReadmeDocument = { headings: [], codeBlocks: [], links: [], images: [] };
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = FENCE.exec(lines[i]);
+    if (!fence || (fence[2][0] === '`' && fence[3].includes('`'))) continue;
+
+    const [, indent, marker, info] = fence;
+    const closing = new RegExp(String.raw`^\s*${marker[0]}{${marker.length},}\s*$`);
+    let end = i + 1;
+    while (end < lines.length && !closing.test(lines[end])) end++;
+
+    const code = lines
+      .slice(i + 1, end)
+      .map((line) => (line.startsWith(indent) ? line.slice(indent.length) : line.trimStart()));
+    document.codeBlocks.push({ language: fenceLanguage(info), code: code.join('\n'), line: i + 1 });
+    lines.fill('', i, Math.min(end + 1, lines.length));
+    i = end;
+  }
+
+  // Outside code blocks, backslashes make markup characters literal
+  const scanner = createScanner(hideEscapes(lines.join('\n')));
+
+  // Comments hide what they hold; inside code blocks they are code
+  scanner.consume(/<!--[\s\S]*?-->/g, () => {});
+
+  const definitions = new Map<string, string>();
+  const text = scanner.text.split('\n');
+  for (let i = 0; i < text.length; i++) {
+    const line = text[i];
+    const atx = ATX_HEADING.exec(line);
+    const definition = DEFINITION.exec(line);
+
+    if (atx) {
+      document.headings.push({ title: inlineText(atx[2]), level: atx[1].length, line: i + 1 });
+    } else if (i > 0 && SETEXT_UNDERLINE.test(line) && !NOT_PARAGRAPH.test(text[i - 1])) {
+      const level = line.trim()[0] === '=' ? 1 : 2;
+      document.headings.push({ title: inlineText(text[i - 1]), level, line: i });
+    } else if (definition) {
+      const label = referenceLabel(definition[1]);
+      if (!definitions.has(label)) definitions.set(label, definition[2]);
+      scanner.blankLines(i + 1, i + 1);
+    }
+  }
+  for (const match of scanner.text.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi)) {
+    document.headings.push({
+      title: inlineText(match[2]),
+      level: Number(match[1]),
+      line: scanner.lineAt(match.index!),
+    });
+  }
+  document.headings = document.headings
+    .filter((heading) => heading.title !== '')
+    .sort((a, b) => a.line - b.line);
+
+  const target = (destination: string | undefined, reference: string | undefined, text: string) => {
+    if (destination !== undefined) {
+      const trimmed = destination.trim();
+      return trimmed.startsWith('<') ? trimmed.slice(1, trimmed.indexOf('>')) : trimmed.split(/\s+/)[0];
+    }
+    return definitions.get(referenceLabel(reference || text)) ?? null;
+  };
+
+  const imagesIn = (html: string) => [
+    ...[...html.matchAll(/<img\b[^>]*>/gi)].map((match) => {
+      const attributes = htmlAttributes(match[0]);
+      return { alt: attributes.alt ?? '', url: attributes.src ?? null };
+    }),
+    ...[...html.matchAll(new RegExp(IMAGE, 'g'))].map((match) => ({
+      alt: inlineText(match[1]),
+      url: target(match[2], match[3], match[1]),
+    })),
+  ];
+
+  // Code spans show markup as written
+  scanner.consume(/(`+)(?:[^`\n]|\n(?!\s*\n))+?\1/g, () => {});
+
+  scanner.consume(/<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi, (match, line) => {
+    const href = htmlAttributes(match[1]).href ?? null;
+    const images = imagesIn(match[2]);
+    for (const image of images) {
+      if (image.url) document.images.push({ alt: image.alt, url: image.url, link: href, line });
+    }
+    if (images.length === 0 && href) {
+      document.links.push({ text: inlineText(match[2]) || href, url: href, line });
+    }
+  });
+
+  scanner.consume(/<img\b[^>]*>/gi, (match, line) => {
+    const attributes = htmlAttributes(match[0]);
+    if (attributes.src) {
+      document.images.push({ alt: attributes.alt ?? '', url: attributes.src, link: null, line });
+    }
+  });
+
+  scanner.consume(
+    new RegExp(String.raw`\[\s*${IMAGE}\s*\](?:${DESTINATION}|${REFERENCE})`, 'g'),
+    (match, line) => {
+      const url = target(match[2], match[3], match[1]);
+      if (url) {
+        const link = target(match[4], match[5], '');
+        document.images.push({ alt: inlineText(match[1]), url, link, line });
+      }
+    }
+  );
+
+  scanner.consume(new RegExp(IMAGE, 'g'), (match, line) => {
+    const url = target(match[2], match[3], match[1]);
+    if (url) document.images.push({ alt: inlineText(match[1]), url, link: null, line });
+  });
+
+  scanner.consume(new RegExp(String.raw`\[([^\]\n]*)\](?:${DESTINATION}|${REFERENCE})?`, 'g'), (match, line) => {
+    const url = target(match[2], match[3], match[1]);
+    if (url) document.links.push({ text: inlineText(match[1]) || url, url, line });
+  });
+
+  scanner.consume(/<((?:https?|mailto):[^>\s]+)>/gi, (match, line) => {
+    document.links.push({ text: match[1], url: match[1], line });
+  });
+
+  consumeBareUrls(scanner, document.links);
+  for (const link of document.links) link.url = restoreEscapes(link.url);
+  for (const image of document.images) {
+    image.url = restoreEscapes(image.url);
+    if (image.link) image.link = restoreEscapes(image.link);
+  }
+  return document;
+}
@@ -0,0 +1,41 @@
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Absolute URL of a link or image in a README. http and https URLs are kept
+ * as written and protocol-relative ones get https; paths are taken from the
+ * README's directory, or the repository root when they start with a slash,
+ * and turned into a URL of that file by fileUrl. Returns null for in-page
+ * anchors and other schemes such as mailto.
+ */
+export function resolveReadmeUrl(
+  url: string,
+  readmePath: string,
+  fileUrl: (path: string) => string
+): string | null {
+  const trimmed = url.trim();
+  if (trimmed === '' || trimmed.startsWith('#')) return null;
+  if (trimmed.startsWith('//')) return `https:${trimmed}`;
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(trimmed);
+  if (scheme) return /^https?$/i.test(scheme[1]) ? trimmed : null;
+
+  const [, path, suffix] = /^([^?#]*)(.*)$/s.exec(trimmed)!;
+  const segments = path.startsWith('/') ? [] : readmePath.split('/').slice(0, -1);
+  for (const segment of decodePath(path).split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment !== '..') {
+      segments.push(segment);
+    } else if (segments.length > 0) {
+      segments.pop();
+    } else {
+      // Above the root are other pages of the forge, such as the wiki, as browsers resolve them
+      return new URL(trimmed, fileUrl(readmePath)).href;
+    }
+  }
+  return fileUrl(segments.join('/')) + suffix;
+}
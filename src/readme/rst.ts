@@ -0,0 +1,208 @@
+import { escapeRegExp } from '../glob.js';
+import {
+  type ReadmeDocument,
+  consumeBareUrls,
+  createScanner,
+  dedent,
+  documentLines,
+  plainText,
+  trimBlankLines,
+} from './document.js';
+
+/** A line of one repeated punctuation character, under (and maybe over) a section title */
+const ADORNMENT = /^([!-/:-@[-`{-~])\1{2,}\s*$/;
+const CODE_DIRECTIVE = /^(\s*)\.\.\s+(?:code-block|code|sourcecode)::\s*(\S*)/;
+const IMAGE_DIRECTIVE = /^(\s*)\.\.\s+(?:\|([^|]+)\|\s+)?(?:image|figure)::\s*(\S+)/;
+const TARGET = /^\s*\.\.\s+_(`[^`]+`|[^:]+):\s*(\S*)\s*$/;
+const EXPLICIT_MARKUP = /^(\s*)\.\.(\s|$)/;
+
+function indentOf(line: string): number {
+  return /^\s*/.exec(line)![0].length;
+}
+
+function targetName(name: string): string {
+  return name.replace(/^`|`$/g, '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Text of a title or reference without inline markup
+ */
+function inlineText(text: string): string {
+  return plainText(
+    text
+      .replace(/`([^`<]*?)\s*<[^>]*>`_{1,2}/g, '$1')
+      .replace(/\|[^|]+\|_{0,2}/g, '')
+      .replace(/`([^`]+)`_{1,2}/g, '$1')
+      .replace(/``|\*\*|[`*]/g, '')
+  );
+}
+
+/**
+ * Index of the first line after the indented body of a directive or literal
+ * block starting at line start, the blank lines that close it excluded
+ */
+function blockEnd(lines: string[], start: number, indent: number): number {
+  let end = start;
+  for (let i = start; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    if (indentOf(lines[i]) <= indent) break;
+    end = i + 1;
+  }
+  return end;
+}
+
+/**
+ * Parse reStructuredText: section titles, code and literal blocks, doctest
+ * blocks, image directives (as substitutions too), hyperlink references with
+ * embedded or named targets, and standalone URLs
+ */
+export function parseRst(content: string): ReadmeDocument {
+  const scanner = createScanner(documentLines(content).join('\n'));
+  const lines = scanner.text.split('\n');
+  const document: ReadmeDocument = { headings: [], codeBlocks: [], links: [], images: [] };
+
+  const styles: string[] = [];
+  const targets = new Map<string, string>();
+  const substitutions = new Map<string, { alt: string; url: string; target: string | null }>();
+  const level = (style: string) => {
+    if (!styles.includes(style)) styles.push(style);
+    return styles.indexOf(style) + 1;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const previousBlank = i === 0 || lines[i - 1].trim() === '';
+
+    // Title between an overline and an underline of the same style
+    if (ADORNMENT.test(line) && previousBlank && lines[i + 2]?.trim() === line.trim() && lines[i + 1]?.trim()) {
+      document.headings.push({ title: inlineText(lines[i + 1]), level: level(`${line[0]}o`), line: i + 2 });
+      scanner.blankLines(i + 1, i + 3);
+      i += 2;
+      continue;
+    }
+    // Title above an underline
+    if (
+      previousBlank &&
+      line.trim() !== '' &&
+      indentOf(line) === 0 &&
+      !ADORNMENT.test(line) &&
+      !EXPLICIT_MARKUP.test(line) &&
+      ADORNMENT.test(lines[i + 1] ?? '') &&
+      lines[i + 1].trim().length >= Math.min(line.trim().length, 4)
+    ) {
+      document.headings.push({ title: inlineText(line), level: level(lines[i + 1][0]), line: i + 1 });
+      scanner.blankLines(i + 2, i + 2);
+      i += 1;
+      continue;
+    }
+
+    const code = CODE_DIRECTIVE.exec(line);
+    if (code) {
+      const end = blockEnd(lines, i + 1, code[1].length);
+      const body = lines.slice(i + 1, end);
+      // Options such as :linenos: come straight after the directive
+      while (body.length > 0 && /^\s+:[\w-]+:/.test(body[0])) body.shift();
+      document.codeBlocks.push({ language: code[2] || null, code: dedent(trimBlankLines(body)), line: i + 1 });
+      scanner.blankLines(i + 1, Math.max(end, i + 1));
+      i = Math.max(end, i + 1) - 1;
+      continue;
+    }
+
+    const image = IMAGE_DIRECTIVE.exec(line);
+    if (image) {
+      const end = blockEnd(lines, i + 1, image[1].length);
+      const options = new Map(
+        lines
+          .slice(i + 1, end)
+          .map((option) => /^\s+:([\w-]+):\s*(.*)$/.exec(option))
+          .filter((match): match is RegExpExecArray => match !== null)
+          .map((match) => [match[1], match[2].trim()])
+      );
+      const found = { alt: options.get('alt') ?? '', url: image[3], target: options.get('target') ?? null };
+      if (image[2]) {
+        substitutions.set(image[2].trim(), { ...found, alt: found.alt || image[2].trim() });
+      } else {
+        document.images.push({ alt: found.alt, url: found.url, link: found.target, line: i + 1 });
+      }
+      scanner.blankLines(i + 1, Math.max(end, i + 1));
+      i = Math.max(end, i + 1) - 1;
+      continue;
+    }
+
+    const target = TARGET.exec(line);
+    if (target) {
+      if (target[2]) targets.set(targetName(target[1]), target[2]);
+      scanner.blankLines(i + 1, i + 1);
+      continue;
+    }
+
+    // Comments and other directives: the marker line is dropped, a comment's body too
+    const markup = EXPLICIT_MARKUP.exec(line);
+    if (markup) {
+      const isComment = !/^\s*\.\.\s+(\S+::|\|)/.test(line);
+      const end = isComment ? blockEnd(lines, i + 1, markup[1].length) : i + 1;
+      scanner.blankLines(i + 1, Math.max(end, i + 1));
+      i = Math.max(end, i + 1) - 1;
+      continue;
+    }
+
+    // Doctest blocks: Python sessions as paragraphs of their own
+    if (previousBlank && /^\s*>>>\s/.test(line)) {
+      let end = i;
+      while (end < lines.length && lines[end].trim() !== '') end++;
+      document.codeBlocks.push({ language: 'pycon', code: dedent(lines.slice(i, end)), line: i + 1 });
+      scanner.blankLines(i + 1, end);
+      i = end - 1;
+      continue;
+    }
+
+    // A paragraph ending in :: introduces the indented literal block after it
+    if (line.trimEnd().endsWith('::') && lines[i + 1]?.trim() === '') {
+      const end = blockEnd(lines, i + 1, indentOf(line));
+      const body = trimBlankLines(lines.slice(i + 1, end));
+      if (body.length > 0) {
+        document.codeBlocks.push({ language: null, code: dedent(body), line: i + 1 });
+        scanner.blankLines(i + 2, end);
+        i = end - 1;
+      }
+    }
+  }
+  document.headings = document.headings.filter((heading) => heading.title !== '');
+
+  const resolve = (name: string) => {
+    let url = targets.get(targetName(name));
+    // Indirect targets name another target
+    if (url?.endsWith('_')) url = targets.get(targetName(url.slice(0, -1)));
+    return url ?? null;
+  };
+
+  // Inline literals show markup as written
+  scanner.consume(/``[\s\S]+?``/g, () => {});
+
+  scanner.consume(/`([^`<]*?)\s*<([^>`]+)>`_{1,2}/g, (match, line) => {
+    const url = match[2].endsWith('_') ? resolve(match[2].slice(0, -1)) : match[2].replace(/\s+/g, '');
+    if (url) document.links.push({ text: inlineText(match[1]) || url, url, line });
+  });
+
+  if (substitutions.size > 0) {
+    const names = [...substitutions.keys()].map(escapeRegExp).join('|');
+    scanner.consume(new RegExp(String.raw`\|(${names})\|(_{0,2})`, 'g'), (match, line) => {
+      const substitution = substitutions.get(match[1])!;
+      const link = match[2] ? resolve(match[1]) : substitution.target;
+      document.images.push({ alt: substitution.alt, url: substitution.url, link, line });
+    });
+  }
+
+  scanner.consume(/`([^`]+)`_(?!\w)/g, (match, line) => {
+    const url = resolve(match[1]);
+    if (url) document.links.push({ text: inlineText(match[1]), url, line });
+  });
+
+  scanner.consume(/(?<![\w`|])([A-Za-z0-9](?:[\w.+-]*[A-Za-z0-9])?)_(?!\w)/g, (match, line) => {
+    const url = resolve(match[1]);
+    if (url) document.links.push({ text: match[1], url, line });
+  });
+
+  consumeBareUrls(scanner, document.links);
+  return document;
+}
@@ -0,0 +1,468 @@
+import type {
+  ApiResponse,
+  ActivitySnapshotData,
+  DependenciesData,
+  LicenseReportData,
+  ReadmeDigestData,
+  ReadmeSection,
+  ExtractKeyFilesData,
+  ListTreeData,
+  RateLimitResourceStatus,
+  RateLimitStatusData,
+  ReleaseNotesData,
+  RepoBriefData,
+  RepoOverviewData,
+  UpgradeNotesData,
+} from '../types.js';
+import {
+  type Block,
+  type Inline,
+  demote,
+  fieldTable,
+  heading,
+  link,
+  paragraph,
+} from './document.js';
+
+const CODE_LANGUAGES: Record<string, string> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  json: 'json',
+  toml: 'toml',
+  yml: 'yaml',
+  yaml: 'yaml',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  go: 'go',
+  java: 'java',
+  xml: 'xml',
+  gradle: 'groovy',
+  sh: 'bash',
+  cfg: 'ini',
+  ini: 'ini',
+  txt: 'text',
+};
+
+function languageFor(path: string): string | undefined {
+  const extension = path.split('/').pop()!.split('.').slice(1).pop()?.toLowerCase();
+  return extension ? CODE_LANGUAGES[extension] : undefined;
+}
+
+function formatDate(value: string | null): string | null {
+  return value ? value.replace('T', ' ').replace(/\.\d+Z$|Z$/, ' UTC') : null;
+}
+
+export function overviewBlocks(data: RepoOverviewData): Block[] {
+  const repoUrl = data.html_url ?? `https://github.com/${data.full_name}`;
+  return [
+    heading(1, link(data.full_name, repoUrl)),
+    ...(data.description ? [paragraph(data.description)] : []),
+    fieldTable([
+      ['Stars', data.stars],
+      ['Forks', data.forks],
+      ['Language', data.language],
+      ['License', data.license],
+      ['Topics', data.topics.length > 0 ? data.topics.join(', ') : null],
+      ['Default branch', data.default_branch],
+      ['Homepage', data.homepage ? link(data.homepage, data.homepage) : null],
+      ['Owner', link(`${data.owner.login} (${data.owner.type})`, `${new URL(repoUrl).origin}/${data.owner.login}`)],
+      ['Created', formatDate(data.created_at)],
+      ['Updated', formatDate(data.updated_at)],
+    ]),
+  ];
+}
+
+export function keyFilesBlocks(data: ExtractKeyFilesData): Block[] {
+  const blocks: Block[] = [
+    heading(1, 'Key files'),
+    {
+      type: 'table',
+      headers: ['Path', 'Size', 'Status', 'Reason'],
+      rows: data.files.map((file) => [
+        file.path,
+        file.size === null ? '-' : `${file.size} B`,
+        file.error ?? ([file.is_binary && 'binary', file.truncated && 'truncated'].filter(Boolean).join(', ') || 'ok'),
+        file.reason ?? '',
+      ]),
+    },
+    paragraph(
+      data.ref === data.default_branch
+        ? `Read from branch ${data.default_branch} at commit ${data.sha}.`
+        : `Read at ${data.ref}, commit ${data.sha} (default branch ${data.default_branch}).`
+    ),
+  ];
+
+  for (const file of data.files) {
+    // Binary content is base64 and not worth showing
+    if (file.content === null || file.is_binary) continue;
+    blocks.push(heading(2, file.path));
+    blocks.push({ type: 'code', language: languageFor(file.path), text: file.content });
+  }
+
+  return blocks;
+}
+
+export function treeBlocks(data: ListTreeData): Block[] {
+  const prefix = data.path === '' ? '' : `${data.path}/`;
+  return [
+    heading(1, `Tree of ${data.path === '' ? '/' : data.path}`),
+    {
+      type: 'table',
+      headers: ['Path', 'Type', 'Size'],
+      rows: data.entries.map((entry) => [
+        entry.type === 'dir' ? `${entry.path.slice(prefix.length)}/` : entry.path.slice(prefix.length),
+        entry.type,
+        entry.size === null ? '-' : `${entry.size} B`,
+      ]),
+    },
+    paragraph(
+      `Read at ${data.ref}, commit ${data.sha}, to depth ${data.depth}${data.truncated ? ' (truncated)' : ''}.`
+    ),
+  ];
+}
+
+export function dependenciesBlocks(data: DependenciesData): Block[] {
+  const blocks: Block[] = [
+    heading(1, 'Dependencies'),
+    {
+      type: 'table',
+      headers: ['Manifest', 'Ecosystem', 'Dependencies', 'Status'],
+      rows: data.manifests.map((manifest) => [
+        manifest.path,
+        manifest.ecosystem ?? '-',
+        String(manifest.dependency_count),
+        manifest.error ? `${manifest.error.code}: ${manifest.error.message}` : 'ok',
+      ]),
+    },
+  ];
+
+  if (data.dependencies.length > 0) {
+    blocks.push({
+      type: 'table',
+      headers: ['Name', 'Version', 'Scope', 'Ecosystem', 'Manifest'],
+      rows: data.dependencies.map((dependency) => [
+        dependency.name,
+        dependency.version_spec ?? '-',
+        dependency.scope,
+        dependency.ecosystem,
+        dependency.manifest,
+      ]),
+    });
+  }
+
+  blocks.push(paragraph(`Read at ${data.ref}, commit ${data.sha}.`));
+  return blocks;
+}
+
+export function licenseBlocks(data: LicenseReportData): Block[] {
+  const blocks: Block[] = [
+    heading(1, 'Licenses'),
+    paragraph(`Overall category: ${data.category}.`),
+    {
+      type: 'table',
+      headers: ['Package', 'Licenses', 'Category', 'Source'],
+      rows: data.packages.map((pkg) => [
+        pkg.path || '(root)',
+        pkg.spdx_ids.length > 0 ? pkg.spdx_ids.join(', ') : '-',
+        pkg.category,
+        pkg.inherited
+          ? 'inherited from the root'
+          : [
+              ...pkg.declared.map((license) => `${license.manifest}: ${license.expression}`),
+              ...pkg.files.map((file) => file.path),
+            ].join('; ') || '-',
+      ]),
+    },
+  ];
+
+  const files = data.packages.flatMap((pkg) => pkg.files);
+  if (files.length > 0) {
+    blocks.push({
+      type: 'table',
+      headers: ['File', 'License', 'Confidence'],
+      rows: files.map((file) => [
+        file.path,
+        file.error
+          ? `${file.error.code}: ${file.error.message}`
+          : file.licenses.map((match) => match.spdx_id).join(', ') || 'not recognised',
+        file.licenses.map((match) => match.confidence.toFixed(2)).join(', ') || '-',
+      ]),
+    });
+  }
+
+  blocks.push(paragraph(`Read at ${data.ref}, commit ${data.sha}.`));
+  return blocks;
+}
+
+const README_FORMATS: Record<ReadmeDigestData['format'], string> = {
+  markdown: 'Markdown',
+  rst: 'reStructuredText',
+  asciidoc: 'AsciiDoc',
+  text: 'plain text',
+};
+
+/**
+ * Section titles numbered by their place in the heading tree, such as 2.1
+ */
+function outline(sections: ReadmeSection[], prefix = ''): Inline[][] {
+  return sections.flatMap((section, index) => {
+    const number = `${prefix}${index + 1}`;
+    return [[`${number} ${section.title}`], ...outline(section.children, `${number}.`)];
+  });
+}
+
+export function readmeBlocks(data: ReadmeDigestData): Block[] {
+  const blocks: Block[] = [heading(1, 'README'), paragraph(`${data.path}, read as ${README_FORMATS[data.format]}.`)];
+
+  if (data.sections.length > 0) {
+    blocks.push(heading(2, 'Sections'), { type: 'list', items: outline(data.sections) });
+  }
+
+  for (const [title, codeBlocks] of [
+    ['Installation', data.install],
+    ['Usage', data.usage],
+  ] as const) {
+    if (codeBlocks.length === 0) continue;
+    blocks.push(heading(2, title));
+    for (const block of codeBlocks) {
+      blocks.push({ type: 'code', language: block.language ?? undefined, text: block.code });
+    }
+  }
+
+  if (data.badges.length > 0) {
+    blocks.push(heading(2, 'Badges'), {
+      type: 'table',
+      headers: ['Kind', 'Label', 'Image'],
+      rows: data.badges.map((badge) => [badge.kind, link(badge.label, badge.target_url), badge.image_url]),
+    });
+  }
+
+  if (data.links.length > 0) {
+    blocks.push(heading(2, 'Links'), {
+      type: 'table',
+      headers: ['Link', 'Leads to'],
+      rows: data.links.map((item) => [link(item.text, item.url), item.external ? 'elsewhere' : 'this repository']),
+    });
+  }
+
+  if (data.images.length > 0) {
+    blocks.push(heading(2, 'Images'), {
+      type: 'table',
+      headers: ['Image', 'Alternative text'],
+      rows: data.images.map((image) => [link(image.url, image.url), image.alt || '-']),
+    });
+  }
+
+  blocks.push(paragraph(`Read at ${data.ref}, commit ${data.sha}.`));
+  return blocks;
+}
+
+export function releasesBlocks(data: ReleaseNotesData): Block[] {
+  const blocks: Block[] = [heading(1, 'Releases')];
+
+  if (data.releases.length === 0) {
+    blocks.push(paragraph('No releases found.'));
+    return blocks;
+  }
+
+  blocks.push({
+    type: 'table',
+    headers: ['Tag', 'Name', 'Published', 'Flags'],
+    rows: data.releases.map((release) => [
+      link(release.tag_name, release.html_url),
+      release.name ?? '',
+      formatDate(release.published_at) ?? 'unpublished',
+      [release.prerelease && 'prerelease', release.draft && 'draft'].filter(Boolean).join(', '),
+    ]),
+  });
+
+  if (data.total_count !== null && data.total_count > data.releases.length) {
+    blocks.push(paragraph(`${data.releases.length} of ${data.total_count} releases.`));
+  }
+
+  for (const release of data.releases) {
+    const title = release.name && release.name !== release.tag_name
+      ? `${release.tag_name}: ${release.name}`
+      : release.tag_name;
+    blocks.push(heading(2, link(title, release.html_url)));
+    if (release.body && release.body.trim() !== '') {
+      blocks.push({ type: 'markdown', text: release.body });
+    } else {
+      blocks.push(paragraph('No release notes.'));
+    }
+  }
+
+  return blocks;
+}
+
+export function upgradeBlocks(data: UpgradeNotesData): Block[] {
+  const blocks: Block[] = [heading(1, `Upgrading from ${data.from} to ${data.to}`)];
+
+  if (data.versions.length === 0) {
+    blocks.push(paragraph('No changes found.'));
+    return blocks;
+  }
+
+  if (data.breaking.length > 0) {
+    blocks.push(heading(2, 'Breaking changes'), {
+      type: 'list',
+      items: data.breaking.map((change) => [`${change.tag_name}: ${change.text}`]),
+    });
+  }
+
+  for (const version of data.versions) {
+    const title = version.name && version.name !== version.tag_name
+      ? `${version.tag_name}: ${version.name}`
+      : version.tag_name;
+    blocks.push(heading(2, link(title, version.html_url)));
+    if (version.source === 'commits') {
+      blocks.push(
+        paragraph('No release; commits since the previous version:'),
+        {
+          type: 'list',
+          items: version.commits.map((commit) => [
+            link(commit.sha.slice(0, 7), commit.html_url),
+            ` ${commit.message.split('\n')[0]}${commit.breaking ? ' (breaking)' : ''}`,
+          ]),
+        }
+      );
+    } else if (version.body && version.body.trim() !== '') {
+      blocks.push({ type: 'markdown', text: version.body });
+    } else {
+      blocks.push(paragraph('No release notes.'));
+    }
+  }
+
+  return blocks;
+}
+
+export function activityBlocks(data: ActivitySnapshotData): Block[] {
+  return [
+    heading(1, 'Activity'),
+    fieldTable([
+      ['Ref', data.ref && `${data.ref} (${data.sha})`],
+      ['Last commit', formatDate(data.last_commit_date)],
+      ['Last commit message', data.last_commit_message?.split('\n')[0] ?? null],
+      ['Open issues', data.open_issues_count],
+      ['Open pull requests', data.open_prs_count],
+      ['Contributors', data.contributors_count],
+      ['Watchers', data.watchers_count],
+      ['Wiki', data.has_wiki ? 'enabled' : 'disabled'],
+      ['Discussions', data.has_discussions ? 'enabled' : 'disabled'],
+    ]),
+  ];
+}
+
+export function briefBlocks(data: RepoBriefData): Block[] {
+  const blocks: Block[] = data.overview
+    ? overviewBlocks(data.overview)
+    : [heading(1, link(`${data.owner}/${data.repo}`, data.html_url ?? `https://github.com/${data.owner}/${data.repo}`))];
+
+  const failed = Object.entries(data.sections).filter(([, s]) => s.status === 'error');
+  if (failed.length > 0) {
+    blocks.push({
+      type: 'list',
+      items: failed.map(([name, s]) => [`${name} unavailable: ${s.error?.message ?? 'unknown error'}`]),
+    });
+  }
+
+  if (data.activity) blocks.push(...demote(activityBlocks(data.activity), 1));
+  if (data.releases) blocks.push(...demote(releasesBlocks(data.releases), 1));
+  if (data.key_files) blocks.push(...demote(keyFilesBlocks(data.key_files), 1));
+
+  return blocks;
+}
+
+/**
+ * Converters from each tool's data payload to document blocks
+ */
+function rateLimitTable(resources: RateLimitResourceStatus[]): Block {
+  return {
+    type: 'table',
+    headers: ['Resource', 'Remaining', 'Limit', 'Resets', 'Blocked until'],
+    rows: resources.map((r) => [
+      r.resource,
+      r.remaining === null ? '-' : String(r.remaining),
+      r.limit === null ? '-' : String(r.limit),
+      formatDate(r.reset_at) ?? '-',
+      formatDate(r.blocked_until) ?? '',
+    ]),
+  };
+}
+
+export function rateLimitBlocks(data: RateLimitStatusData): Block[] {
+  const blocks: Block[] = [
+    heading(1, 'Rate limits'),
+    rateLimitTable(data.resources),
+    paragraph(
+      data.tokens.length > 1
+        ? `Combined budget of ${data.tokens.length} pooled tokens.`
+        : data.authenticated
+          ? 'Authenticated with a token.'
+          : 'Unauthenticated.'
+    ),
+  ];
+
+  if (data.tokens.length > 1) {
+    for (const token of data.tokens) {
+      blocks.push(heading(2, `Token slot ${token.slot}`));
+      blocks.push(token.disabled ? paragraph('Disabled: rejected by GitHub.') : rateLimitTable(token.resources));
+    }
+  }
+
+  return blocks;
+}
+
+export const DATA_BLOCKS: Record<string, (data: never) => Block[]> = {
+  repo_overview: overviewBlocks,
+  extract_key_files: keyFilesBlocks,
+  list_tree: treeBlocks,
+  dependencies: dependenciesBlocks,
+  license_report: licenseBlocks,
+  readme_digest: readmeBlocks,
+  release_notes: releasesBlocks,
+  upgrade_notes: upgradeBlocks,
+  activity_snapshot: activityBlocks,
+  repo_brief: briefBlocks,
+  rate_limit_status: rateLimitBlocks,
+};
+
+/**
+ * Convert a tool envelope (success or error) to blocks, including meta information
+ */
+export function envelopeBlocks(tool: string, result: ApiResponse<unknown>): Block[] {
+  if (!result.ok) {
+    return [
+      heading(1, `Error: ${result.error.code}`),
+      paragraph(result.error.message),
+      ...(Object.keys(result.error.details).length > 0
+        ? [{ type: 'code', language: 'json', text: JSON.stringify(result.error.details, null, 2) } as Block]
+        : []),
+      paragraph(`Retrieved at ${formatDate(result.meta.retrieved_at)}.`),
+    ];
+  }
+
+  const toBlocks = DATA_BLOCKS[tool] as ((data: unknown) => Block[]) | undefined;
+  const blocks: Block[] = toBlocks
+    ? toBlocks(result.data)
+    : [{ type: 'code', language: 'json', text: JSON.stringify(result.data, null, 2) }];
+
+  if (result.meta.warnings.length > 0) {
+    blocks.push(heading(2, 'Warnings'));
+    blocks.push({ type: 'list', items: result.meta.warnings.map((w) => [w]) });
+  }
+
+  const footer: Inline[] = [`Retrieved at ${formatDate(result.meta.retrieved_at)}`];
+  if (result.meta.source) {
+    footer.push(' from ', link(result.meta.source, result.meta.source));
+  }
+  footer.push('.');
+  blocks.push(paragraph(...footer));
+
+  return blocks;
+}
@@ -0,0 +1,57 @@
+/**
+ * A minimal document model shared by the Markdown and HTML renderers. Tool
+ * results are converted to blocks once, then serialized per format.
+ */
+
+/**
+ * Inline content: plain text or a hyperlink
+ */
+export type Inline = string | { text: string; href: string };
+
+export type Block =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4; text: Inline }
+  | { type: 'paragraph'; content: Inline[] }
+  | { type: 'table'; headers: string[]; rows: Inline[][] }
+  | { type: 'list'; items: Inline[][] }
+  | { type: 'code'; language?: string; text: string }
+  /** Markdown authored upstream (e.g. release bodies), passed through as-is where possible */
+  | { type: 'markdown'; text: string };
+
+export function link(text: string, href: string | null | undefined): Inline {
+  return href ? { text, href } : text;
+}
+
+export function heading(level: 1 | 2 | 3 | 4, text: Inline): Block {
+  return { type: 'heading', level, text };
+}
+
+export function paragraph(...content: Inline[]): Block {
+  return { type: 'paragraph', content };
+}
+
+/**
+ * Two-column table of labelled values, skipping rows whose value is absent
+ */
+export function fieldTable(fields: Array<[string, Inline | number | boolean | null]>): Block {
+  return {
+    type: 'table',
+    headers: ['Field', 'Value'],
+    rows: fields
+      .filter(([, value]) => value !== null && value !== '')
+      .map(([label, value]) => [
+        label,
+        typeof value === 'number' || typeof value === 'boolean' ? String(value) : value!,
+      ]),
+  };
+}
+
+/**
+ * Shift heading levels so a document can be nested under another heading
+ */
+export function demote(blocks: Block[], by: number): Block[] {
+  return blocks.map((block) =>
+    block.type === 'heading'
+      ? { ...block, level: Math.min(4, block.level + by) as 1 | 2 | 3 | 4 }
+      : block
+  );
+}
@@ -0,0 +1,62 @@
+import type { Block, Inline } from './document.js';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Only http(s) links are emitted as anchors; anything else is shown as text
+ */
+function isSafeHref(href: string): boolean {
+  return /^https?:\/\//i.test(href);
+}
+
+function renderInline(inline: Inline): string {
+  if (typeof inline === 'string') return escapeHtml(inline);
+  if (!isSafeHref(inline.href)) return escapeHtml(inline.text);
+  return `<a href="${escapeHtml(inline.href)}">${escapeHtml(inline.text)}</a>`;
+}
+
+function renderBlock(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${renderInline(block.text)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${block.content.map(renderInline).join('')}</p>`;
+    case 'table': {
+      if (block.rows.length === 0) return '';
+      const head = block.headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+      const rows = block.rows
+        .map((row) => `<tr>${row.map((cell) => `<td>${renderInline(cell)}</td>`).join('')}</tr>`)
+        .join('\n');
+      return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+    }
+    case 'list':
+      return `<ul>\n${block.items
+        .map((item) => `<li>${item.map(renderInline).join('')}</li>`)
+        .join('\n')}\n</ul>`;
+    case 'code': {
+      const cls = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+      return `<pre><code${cls}>${escapeHtml(block.text)}</code></pre>`;
+    }
+    case 'markdown':
+      // Upstream Markdown is not interpreted; keep it readable and inert
+      return `<pre class="markdown">${escapeHtml(block.text.trim())}</pre>`;
+  }
+}
+
+/**
+ * Render blocks as an HTML fragment suitable for pasting into documents
+ */
+export function renderHtml(blocks: Block[]): string {
+  const body = blocks
+    .map(renderBlock)
+    .filter((chunk) => chunk !== '')
+    .join('\n');
+  return `<article>\n${body}\n</article>\n`;
+}
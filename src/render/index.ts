@@ -0,0 +1,31 @@
+import type { ApiResponse, OutputFormat } from '../types.js';
+import { envelopeBlocks } from './briefs.js';
+import { renderHtml } from './html.js';
+import { renderMarkdown } from './markdown.js';
+import { renderYaml } from './yaml.js';
+
+export { renderMarkdown } from './markdown.js';
+export { renderHtml, escapeHtml } from './html.js';
+export { renderYaml } from './yaml.js';
+export { envelopeBlocks } from './briefs.js';
+export type { Block, Inline } from './document.js';
+
+/**
+ * Render a tool result envelope in the requested output format
+ */
+export function renderResult(
+  tool: string,
+  result: ApiResponse<unknown>,
+  format: OutputFormat
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2);
+    case 'yaml':
+      return renderYaml(result);
+    case 'markdown':
+      return renderMarkdown(envelopeBlocks(tool, result));
+    case 'html':
+      return renderHtml(envelopeBlocks(tool, result));
+  }
+}
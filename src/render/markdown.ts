@@ -0,0 +1,56 @@
+import type { Block, Inline } from './document.js';
+
+function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+function renderInline(inline: Inline): string {
+  if (typeof inline === 'string') return escapeText(inline);
+  const href = inline.href.replace(/\(/g, '%28').replace(/\)/g, '%29').replace(/\s/g, '%20');
+  return `[${escapeText(inline.text)}](${href})`;
+}
+
+function renderCell(inline: Inline): string {
+  return renderInline(inline).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Choose a fence longer than any backtick run in the content
+ */
+function fenceFor(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function renderBlock(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${renderInline(block.text)}`;
+    case 'paragraph':
+      return block.content.map(renderInline).join('');
+    case 'table': {
+      if (block.rows.length === 0) return '';
+      const header = `| ${block.headers.map(escapeText).join(' | ')} |`;
+      const divider = `| ${block.headers.map(() => '---').join(' | ')} |`;
+      const rows = block.rows.map((row) => `| ${row.map(renderCell).join(' | ')} |`);
+      return [header, divider, ...rows].join('\n');
+    }
+    case 'list':
+      return block.items.map((item) => `- ${item.map(renderInline).join('')}`).join('\n');
+    case 'code': {
+      const fence = fenceFor(block.text);
+      return `${fence}${block.language ?? ''}\n${block.text.replace(/\n$/, '')}\n${fence}`;
+    }
+    case 'markdown':
+      return block.text.trim();
+  }
+}
+
+export function renderMarkdown(blocks: Block[]): string {
+  return (
+    blocks
+      .map(renderBlock)
+      .filter((chunk) => chunk !== '')
+      .join('\n\n') + '\n'
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Serialize JSON-compatible values as YAML. Covers what tool envelopes contain
+ * (objects, arrays, strings, numbers, booleans, null); undefined values are omitted.
+ */
+
+const RESERVED_SCALARS = /^(?:~|null|true|false|yes|no|on|off|y|n)$/i;
+// Characters that cannot appear unescaped in plain or block scalars (tab is allowed)
+const CONTROL_CHARS = /[\u0000-\u0008\u000b-\u001f\u007f]/;
+const NUMERIC = /^[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?$|^0x[\da-f]+$|^[-+]?\.(?:inf|nan)$/i;
+
+function needsQuotes(value: string): boolean {
+  return (
+    value === '' ||
+    RESERVED_SCALARS.test(value) ||
+    NUMERIC.test(value) ||
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /\s$/.test(value) ||
+    /: |:$| #|\t/.test(value) ||
+    CONTROL_CHARS.test(value)
+  );
+}
+
+function renderString(value: string, indent: string): string {
+  const blockable = /\S/.test(value) && !/^[ \t]/.test(value) && !CONTROL_CHARS.test(value);
+  if (value.includes('\n') && blockable) {
+    // Block scalar; the chomping indicator preserves trailing newlines exactly
+    const trailing = value.match(/\n*$/)![0].length;
+    const chomp = trailing === 0 ? '-' : trailing === 1 ? '' : '+';
+    const body = value.replace(/\n+$/, '').split('\n');
+    const lines = body.map((line) => (line === '' ? '' : indent + '  ' + line));
+    const extra = trailing > 1 ? '\n'.repeat(trailing - 1) : '';
+    return `|${chomp}\n${lines.join('\n')}${extra}`;
+  }
+  // JSON strings are valid YAML double-quoted scalars
+  return needsQuotes(value) || value.includes('\n') ? JSON.stringify(value) : value;
+}
+
+function renderScalar(value: unknown, indent: string): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return renderString(value, indent);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return String(value);
+  return JSON.stringify(value) ?? 'null';
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function isEmptyContainer(value: Record<string, unknown> | unknown[]): boolean {
+  return Array.isArray(value)
+    ? value.length === 0
+    : Object.values(value).every((v) => v === undefined);
+}
+
+function renderKey(key: string): string {
+  return needsQuotes(key) || /[\n:#]/.test(key) ? JSON.stringify(key) : key;
+}
+
+function renderNode(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (isContainer(item) && !isEmptyContainer(item)) {
+        const [first, ...rest] = renderNode(item, indent + '  ');
+        return [`${indent}- ${first.trimStart()}`, ...rest];
+      }
+      return [`${indent}- ${renderValue(item, indent + '  ')}`];
+    });
+  }
+
+  const lines: string[] = [];
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (item === undefined) continue;
+    if (isContainer(item) && !isEmptyContainer(item)) {
+      lines.push(`${indent}${renderKey(key)}:`);
+      lines.push(...renderNode(item, Array.isArray(item) ? indent : indent + '  '));
+    } else {
+      lines.push(`${indent}${renderKey(key)}: ${renderValue(item, indent)}`);
+    }
+  }
+  return lines;
+}
+
+function renderValue(value: unknown, indent: string): string {
+  if (isContainer(value)) {
+    return Array.isArray(value) ? '[]' : '{}';
+  }
+  return renderScalar(value, indent);
+}
+
+export function renderYaml(value: unknown): string {
+  if (!isContainer(value) || isEmptyContainer(value)) {
+    return renderValue(value, '') + '\n';
+  }
+  return renderNode(value, '').join('\n') + '\n';
+}
@@ -0,0 +1,241 @@
+import { type ForgeHost, findHost, getForgeHosts, GITHUB_COM } from './hosts.js';
+import type { ParsedRepoInfo } from './types.js';
+
+export type RepoUrlParseResult =
+  | { ok: true; repo: ParsedRepoInfo }
+  | { ok: false; reason: string };
+
+/**
+ * Forms accepted for a repository, listed in INVALID_INPUT details
+ */
+export const REPO_URL_FORMATS = [
+  'https://github.com/owner/repo',
+  'https://github.com/owner/repo/tree/<ref>/<path>',
+  'git@github.com:owner/repo.git',
+  'ssh://git@github.com/owner/repo.git',
+  'github.com/owner/repo',
+  'owner/repo (GitHub)',
+  'github:owner/repo, gitlab:group/project, bitbucket:workspace/repo, codeberg:owner/repo',
+];
+
+/**
+ * Hosts of `<prefix>:owner/repo` shorthands
+ */
+const SHORTHAND_HOSTS: Record<string, string> = {
+  github: GITHUB_COM,
+  gitlab: 'gitlab.com',
+  bitbucket: 'bitbucket.org',
+  codeberg: 'codeberg.org',
+};
+
+const WEB_SCHEMES = ['http:', 'https:'];
+const SSH_SCHEMES = ['ssh:', 'git:', 'git+ssh:', 'ssh+git:'];
+
+// Owner, group and repository names
+const NAME = /^[\w.-]+$/;
+
+function fail(reason: string): RepoUrlParseResult {
+  return { ok: false, reason };
+}
+
+/**
+ * Find a host by hostname alone. SSH URLs name the SSH port, which is not
+ * the port of the web host.
+ */
+function findHostByName(hostname: string): ForgeHost | undefined {
+  const normalized = hostname.toLowerCase().replace(/^www\./, '');
+  return (
+    findHost(normalized) ??
+    getForgeHosts().find((h) => new URL(h.webBase).hostname.toLowerCase() === normalized)
+  );
+}
+
+function unknownHost(host: string): RepoUrlParseResult {
+  return fail(
+    `Unknown host "${host}". Supported: ${getForgeHosts()
+      .map((h) => h.host)
+      .join(', ')}`
+  );
+}
+
+/**
+ * Where a deep link points inside a repository
+ */
+interface DeepLink {
+  ref?: string;
+  path?: string;
+  pathType?: 'dir' | 'file';
+}
+
+function treeLink(kind: 'dir' | 'file' | undefined, [ref, ...path]: string[]): DeepLink {
+  if (!ref) return {};
+  if (path.length === 0) return { ref };
+  return { ref, path: path.join('/'), ...(kind && { pathType: kind }) };
+}
+
+/**
+ * Read the ref and sub-path from the segments after owner/repo. A ref
+ * containing slashes cannot be told apart from a path, so the first segment
+ * is taken as the ref.
+ */
+function parseDeepLink(host: ForgeHost, segments: string[]): DeepLink {
+  const [kind, ...rest] = segments;
+
+  switch (host.provider) {
+    case 'github':
+    case 'gitlab':
+      if (kind === 'tree') return treeLink('dir', rest);
+      if (kind === 'blob' || kind === 'raw') return treeLink('file', rest);
+      if (kind === 'commit' || kind === 'tags') return treeLink(undefined, rest.slice(0, 1));
+      if (kind === 'releases' && rest[0] === 'tag') return treeLink(undefined, rest.slice(1, 2));
+      return {};
+    case 'gitea':
+      // /src/branch/<ref>/<path>; src links serve files and directories alike
+      if ((kind === 'src' || kind === 'raw') && ['branch', 'tag', 'commit'].includes(rest[0])) {
+        return treeLink(kind === 'raw' ? 'file' : undefined, rest.slice(1));
+      }
+      if (kind === 'commit') return treeLink(undefined, rest.slice(0, 1));
+      if (kind === 'releases' && rest[0] === 'tag') return treeLink(undefined, rest.slice(1, 2));
+      return {};
+    case 'bitbucket':
+      if (kind === 'src') return treeLink(undefined, rest);
+      if (kind === 'raw') return treeLink('file', rest);
+      if (kind === 'commits') return treeLink(undefined, rest.slice(0, 1));
+      return {};
+  }
+}
+
+/**
+ * Split the path of a repository on a known host into owner, repo and deep link
+ */
+function parsePath(host: ForgeHost, pathname: string, fragmentRef?: string): RepoUrlParseResult {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return fail('The repository path is not validly encoded');
+  }
+
+  let repoSegments: string[];
+  let linkSegments: string[];
+  if (host.provider === 'gitlab') {
+    // Projects nest under any number of groups; pages of a project follow /-/
+    const separator = segments.indexOf('-');
+    repoSegments = separator === -1 ? segments : segments.slice(0, separator);
+    linkSegments = separator === -1 ? [] : segments.slice(separator + 1);
+  } else {
+    repoSegments = segments.slice(0, 2);
+    linkSegments = segments.slice(2);
+  }
+
+  if (repoSegments.length < 2) {
+    return fail(`Expected an owner and a repository name after ${host.host}`);
+  }
+
+  const repo = (repoSegments.pop() as string).replace(/\.git$/, '');
+  const invalid = [...repoSegments, repo].find((name) => !NAME.test(name));
+  if (invalid !== undefined) {
+    return fail(`"${invalid}" is not a valid owner or repository name`);
+  }
+
+  const link = parseDeepLink(host, linkSegments);
+  const ref = fragmentRef ?? link.ref;
+
+  return {
+    ok: true,
+    repo: {
+      owner: repoSegments.join('/'),
+      repo,
+      ...(host.host !== GITHUB_COM && { host: host.host }),
+      ...(host.provider !== 'github' && { provider: host.provider }),
+      ...(ref && { ref }),
+      ...(link.path && { path: link.path }),
+      ...(link.pathType && { pathType: link.pathType }),
+    },
+  };
+}
+
+/**
+ * Parse any of the accepted repository forms: web URLs with optional
+ * /tree/<ref>/<path> or /blob/<ref>/<path> deep links, SSH clone URLs
+ * (scp-style or ssh://), host/owner/repo without a scheme, owner/repo
+ * shorthand for GitHub, and provider-prefixed shorthand such as
+ * gitlab:group/project. Shorthands may end in #<ref>.
+ */
+export function parseRepoReference(input: string): RepoUrlParseResult {
+  const value = input.trim();
+  if (value === '') {
+    return fail('The repository URL is empty');
+  }
+
+  // scp-style SSH: git@github.com:owner/repo.git
+  const scp = value.match(/^[\w.-]+@([\w.-]+):(?!\/\/)(.+)$/);
+  if (scp) {
+    const host = findHostByName(scp[1]);
+    return host ? parsePath(host, scp[2]) : unknownHost(scp[1]);
+  }
+
+  // Prefixed shorthand: github:owner/repo#ref
+  const prefixed = value.match(/^([a-z]+):(?!\/\/)([^#]+)(?:#(.+))?$/);
+  if (prefixed) {
+    const hostName = SHORTHAND_HOSTS[prefixed[1]];
+    if (!hostName) {
+      return fail(
+        `Unknown prefix "${prefixed[1]}:". Supported: ${Object.keys(SHORTHAND_HOSTS)
+          .map((p) => `${p}:`)
+          .join(', ')}`
+      );
+    }
+    return parsePath(findHost(hostName) as ForgeHost, prefixed[2], prefixed[3]);
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return fail('The repository URL could not be parsed');
+    }
+
+    if (SSH_SCHEMES.includes(url.protocol)) {
+      const host = findHostByName(url.hostname);
+      return host ? parsePath(host, url.pathname) : unknownHost(url.hostname);
+    }
+    if (!WEB_SCHEMES.includes(url.protocol)) {
+      return fail(`Unsupported scheme "${url.protocol}"; use https, ssh or a shorthand`);
+    }
+
+    const host = findHost(url.host);
+    return host ? parsePath(host, url.pathname) : unknownHost(url.host);
+  }
+
+  // host/owner/repo without a scheme, or owner/repo#ref shorthand for GitHub
+  const [path, fragmentRef] = value.split('#', 2);
+  const [first] = path.split('/');
+  const bareHost = first.includes('.') ? findHost(first) : undefined;
+  if (bareHost) {
+    return parsePath(bareHost, path.slice(first.length));
+  }
+
+  if (path.split('/').filter(Boolean).length !== 2) {
+    return fail('Expected a repository URL or owner/repo shorthand');
+  }
+  return parsePath(findHost(GITHUB_COM) as ForgeHost, path, fragmentRef || undefined);
+}
+
+/**
+ * Parse a repository reference, or return null when it is not one
+ */
+export function parseRepoUrl(url: string): ParsedRepoInfo | null {
+  const result = parseRepoReference(url);
+  return result.ok ? result.repo : null;
+}
+
+/**
+ * Directory a deep link points at, or that contains the linked file; empty
+ * for the repository root
+ */
+export function linkedDirectory(repo: ParsedRepoInfo): string {
+  const path = repo.pathType === 'file' ? repo.path?.split('/').slice(0, -1).join('/') : repo.path;
+  return path ?? '';
+}
@@ -0,0 +1,180 @@
+import type { ReleaseVersion } from './types.js';
+
+/**
+ * A tag naming a version: an optional package (pkg@, @scope/pkg@, pkg-v or
+ * pkg/v as monorepos tag them), an optional v, then major, minor and patch,
+ * missing parts read as 0, with prerelease and build suffixes
+ */
+const VERSION_TAG =
+  /^(?:((?:@[\w.-]+\/)?[A-Za-z][\w./-]*?)(?:@|[-/](?=v?\d)))?[vV]?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+([0-9A-Za-z.-]+))?$/;
+
+/** A version in a range, where x, X and * (or missing parts) stand for any number */
+const PARTIAL = /^[vV]?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: ReleaseVersion;
+}
+
+/** Versions in any of the sets, each a list of comparators all must satisfy */
+export type VersionRange = Comparator[][];
+
+/**
+ * Parse a tag name into its version, or null when it names none
+ */
+export function parseVersion(tag: string): ReleaseVersion | null {
+  const match = VERSION_TAG.exec(tag.trim());
+  if (!match) return null;
+  const [, pkg, major, minor, patch, prerelease, build] = match;
+  return {
+    package: pkg ?? null,
+    major: Number(major),
+    minor: Number(minor ?? 0),
+    patch: Number(patch ?? 0),
+    prerelease: prerelease ?? null,
+    build: build ?? null,
+  };
+}
+
+function comparePrerelease(a: string | null, b: string | null): number {
+  // A version without a prerelease comes after its prereleases
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  const left = a.split('.');
+  const right = b.split('.');
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    if (left[i] === undefined) return -1;
+    if (right[i] === undefined) return 1;
+    const leftNumeric = /^\d+$/.test(left[i]);
+    const rightNumeric = /^\d+$/.test(right[i]);
+    if (leftNumeric && rightNumeric) {
+      const difference = Number(left[i]) - Number(right[i]);
+      if (difference !== 0) return Math.sign(difference);
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    } else if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Order two versions by precedence; packages and build metadata are ignored
+ */
+export function compareVersions(a: ReleaseVersion, b: ReleaseVersion): number {
+  return (
+    Math.sign(a.major - b.major) ||
+    Math.sign(a.minor - b.minor) ||
+    Math.sign(a.patch - b.patch) ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string | null = null): ReleaseVersion {
+  return { package: null, major, minor, patch, prerelease, build: null };
+}
+
+/**
+ * The comparators of one term of a range, such as ^1.2, ~1.2.3, >=2, 1.x or 3
+ */
+function comparators(term: string): Comparator[] | null {
+  const match = /^(\^|~>?|[<>]=?|=)?\s*(.+)$/.exec(term);
+  if (!match) return null;
+  const operator = match[1] ?? '';
+  const partial = PARTIAL.exec(match[2]);
+  if (!partial) return null;
+
+  const parts = partial.slice(1, 4).map((part) => (part === undefined || /^[xX*]$/.test(part) ? null : Number(part)));
+  const [major, minor, patch] = parts;
+  const prerelease = partial[4] ?? null;
+  const floor = version(major ?? 0, minor ?? 0, patch ?? 0, prerelease);
+  // Upper bounds exclude the prereleases of the version they stop at, so <3 excludes 3.0.0-rc.1
+  const below = (upper: ReleaseVersion): Comparator => ({ operator: '<', version: { ...upper, prerelease: '0' } });
+
+  if (major === null) return operator === '<' || operator === '>' ? [{ operator: '<', version: version(0, 0, 0, '0') }] : [];
+
+  switch (operator) {
+    case '^': {
+      const upper =
+        major > 0 || minor === null
+          ? version(major + 1, 0, 0)
+          : minor > 0 || patch === null
+            ? version(0, minor + 1, 0)
+            : version(0, 0, patch + 1);
+      return [{ operator: '>=', version: floor }, below(upper)];
+    }
+    case '~':
+    case '~>': {
+      const upper = minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+      return [{ operator: '>=', version: floor }, below(upper)];
+    }
+    case '>':
+      // >1.2 is above every 1.2.x
+      if (minor === null) return [{ operator: '>=', version: version(major + 1, 0, 0) }];
+      if (patch === null) return [{ operator: '>=', version: version(major, minor + 1, 0) }];
+      return [{ operator: '>', version: floor }];
+    case '<=':
+      if (minor === null) return [below(version(major + 1, 0, 0))];
+      if (patch === null) return [below(version(major, minor + 1, 0))];
+      return [{ operator: '<=', version: floor }];
+    case '<':
+      return [patch === null ? below(floor) : { operator: '<', version: floor }];
+    case '>=':
+      return [{ operator: '>=', version: floor }];
+    default:
+      // A bare or = version: exact when complete, else every version it leaves open
+      if (minor === null) return [{ operator: '>=', version: floor }, below(version(major + 1, 0, 0))];
+      if (patch === null) return [{ operator: '>=', version: floor }, below(version(major, minor + 1, 0))];
+      return [{ operator: '=', version: floor }];
+  }
+}
+
+/**
+ * Parse a range as npm writes them: comparators separated by spaces must all
+ * hold, sets separated by || are alternatives, and a - b spans a to b.
+ * Returns null when the range cannot be read.
+ */
+export function parseRange(range: string): VersionRange | null {
+  const sets = range.split('||').map((set) => set.trim());
+  const parsed: VersionRange = [];
+  for (const set of sets) {
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(set);
+    const terms = hyphen
+      ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+      : set.replace(/([<>]=?|=|\^|~>?)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    const list: Comparator[] = [];
+    for (const term of terms.length > 0 ? terms : ['*']) {
+      const found = comparators(term);
+      if (!found) return null;
+      list.push(...found);
+    }
+    parsed.push(list);
+  }
+  return parsed;
+}
+
+function holds({ operator, version: bound }: Comparator, candidate: ReleaseVersion): boolean {
+  const order = compareVersions(candidate, bound);
+  switch (operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '=':
+      return order === 0;
+  }
+}
+
+/**
+ * Whether a version is in a range. Prereleases are ordered below their
+ * release, so >=2.0.0 leaves out 2.0.0-rc.1
+ */
+export function satisfies(candidate: ReleaseVersion, range: VersionRange): boolean {
+  return range.some((set) => set.every((comparator) => holds(comparator, candidate)));
+}
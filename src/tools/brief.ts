@@ -0,0 +1,226 @@
+import {
+  type ApiResponse,
+  type BriefSection,
+  type BriefSectionStatus,
+  type ProgressReporter,
+  type RepoBriefData,
+  BRIEF_SECTIONS,
+  createSuccessResponse,
+} from '../types.js';
+import { hostForRepo } from '../hosts.js';
+import { type RepositoryMetadata, type ResolvedRef, providerFor } from '../providers/index.js';
+import { readComputed, writeComputed } from '../upstream/index.js';
+import { parseRepoReference } from '../repo-url.js';
+import { invalidRepoUrl } from './errors.js';
+import { fetchRepoMetadata, repoOverview } from './overview.js';
+import { extractKeyFiles } from './files.js';
+import { releaseNotes } from './releases.js';
+import { activitySnapshot } from './activity.js';
+
+export interface RepoBriefOptions {
+  sections?: BriefSection[];
+  paths?: string[];
+  /** Branch, tag or commit for the key_files and activity sections */
+  ref?: string;
+  releaseLimit?: number;
+  onProgress?: ProgressReporter;
+}
+
+/**
+ * Sections that are derived from the repository metadata payload
+ */
+const METADATA_SECTIONS: BriefSection[] = ['overview', 'key_files', 'activity'];
+
+/**
+ * Sections that read the repository at a ref
+ */
+const REF_SECTIONS: BriefSection[] = ['key_files', 'activity'];
+
+/**
+ * A section and the result of the tool behind it
+ */
+type SectionResult = {
+  [S in BriefSection]: { section: S; result: ApiResponse<NonNullable<RepoBriefData[S]>> };
+}[BriefSection];
+
+async function runSection(
+  section: BriefSection,
+  repoUrl: string,
+  repoData: RepositoryMetadata | undefined,
+  resolvedRef: ResolvedRef | undefined,
+  options: RepoBriefOptions
+): Promise<SectionResult> {
+  switch (section) {
+    case 'overview':
+      return { section, result: await repoOverview(repoUrl, { repoData }) };
+    case 'key_files':
+      return {
+        section,
+        result: await extractKeyFiles(repoUrl, options.paths, {
+          repoData,
+          ref: options.ref,
+          resolvedRef,
+        }),
+      };
+    case 'releases':
+      // Only the forge's releases: finding a changelog costs requests the brief saves
+      return {
+        section,
+        result: await releaseNotes(repoUrl, options.releaseLimit ?? 5, { source: 'releases' }),
+      };
+    case 'activity':
+      return {
+        section,
+        result: await activitySnapshot(repoUrl, {
+          repoData,
+          ref: options.ref,
+          resolvedRef,
+        }),
+      };
+  }
+}
+
+function dataOf<T>(result: ApiResponse<T>): T | null {
+  return result.ok ? result.data : null;
+}
+
+/**
+ * Put the data of a section's result into the brief
+ */
+function setSectionData(data: RepoBriefData, outcome: SectionResult): void {
+  switch (outcome.section) {
+    case 'overview':
+      data.overview = dataOf(outcome.result);
+      break;
+    case 'key_files':
+      data.key_files = dataOf(outcome.result);
+      break;
+    case 'releases':
+      data.releases = dataOf(outcome.result);
+      break;
+    case 'activity':
+      data.activity = dataOf(outcome.result);
+      break;
+  }
+}
+
+export async function repoBrief(
+  repoUrl: string,
+  options: RepoBriefOptions = {}
+): Promise<ApiResponse<RepoBriefData>> {
+  const parsed = parseRepoReference(repoUrl);
+
+  if (!parsed.ok) {
+    return invalidRepoUrl(repoUrl, parsed.reason);
+  }
+
+  const repoInfo = options.ref ? { ...parsed.repo, ref: options.ref } : parsed.repo;
+
+  const requested = new Set<BriefSection>(
+    options.sections && options.sections.length > 0 ? options.sections : BRIEF_SECTIONS
+  );
+  const report = options.onProgress ?? (() => {});
+  const total = requested.size + 1;
+  let completed = 0;
+  const host = hostForRepo(repoInfo);
+  const htmlUrl = providerFor(repoInfo).repositoryWebUrl(repoInfo);
+
+  const briefKey = [
+    `brief:${host.host}/${repoInfo.owner}/${repoInfo.repo}`,
+    `ref=${repoInfo.ref ?? ''}`,
+    `path=${repoInfo.path ?? ''}`,
+    `sections=${BRIEF_SECTIONS.filter((s) => requested.has(s)).join(',')}`,
+    `paths=${(options.paths ?? []).join(',')}`,
+    `releases=${options.releaseLimit ?? 5}`,
+  ].join('|');
+
+  const cachedBrief = await readComputed<ApiResponse<RepoBriefData>>(briefKey, host);
+  if (cachedBrief) {
+    report(total, total, 'Served from cache');
+    return cachedBrief;
+  }
+
+  // Fetch the metadata once and hand it to every section that needs it. If the
+  // repository itself cannot be read there is nothing to brief.
+  let repoData: RepositoryMetadata | undefined;
+  if (METADATA_SECTIONS.some((section) => requested.has(section))) {
+    const metadata = await fetchRepoMetadata(repoInfo);
+    if (!metadata.ok) {
+      return metadata;
+    }
+    repoData = metadata.data;
+  }
+
+  // A requested ref is resolved once for all sections; one that does not exist
+  // fails the brief rather than every section reading at it
+  let resolvedRef: ResolvedRef | undefined;
+  if (repoInfo.ref && REF_SECTIONS.some((section) => requested.has(section))) {
+    const resolution = await providerFor(repoInfo).resolveRef(repoInfo, repoInfo.ref);
+    if (!resolution.ok) {
+      return resolution;
+    }
+    resolvedRef = resolution.data;
+  }
+  report(++completed, total, 'Fetched repository metadata');
+
+  const data: RepoBriefData = {
+    owner: repoInfo.owner,
+    repo: repoInfo.repo,
+    html_url: htmlUrl,
+    overview: null,
+    key_files: null,
+    releases: null,
+    activity: null,
+    sections: {
+      overview: { status: 'skipped', warnings: [] },
+      key_files: { status: 'skipped', warnings: [] },
+      releases: { status: 'skipped', warnings: [] },
+      activity: { status: 'skipped', warnings: [] },
+    },
+  };
+  const warnings: string[] = [];
+
+  const sections = BRIEF_SECTIONS.filter((section) => requested.has(section));
+  const outcomes = await Promise.all(
+    sections.map(async (section) => {
+      const outcome = await runSection(section, repoUrl, repoData, resolvedRef, options);
+      report(++completed, total, `Finished ${section}`);
+      return outcome;
+    })
+  );
+
+  // Assemble in a fixed order so warnings are stable regardless of completion order
+  sections.forEach((section, index) => {
+    const outcome = outcomes[index];
+    const result = outcome.result;
+    let status: BriefSectionStatus;
+
+    if (result.ok) {
+      setSectionData(data, outcome);
+      status = { status: 'ok', warnings: result.meta.warnings };
+      warnings.push(...result.meta.warnings.map((w) => `${section}: ${w}`));
+    } else {
+      // A failed section degrades into a warning instead of failing the brief
+      status = {
+        status: 'error',
+        error: { code: result.error.code, message: result.error.message },
+        warnings: [],
+      };
+      warnings.push(`${section}: ${result.error.message}`);
+    }
+
+    data.sections[section] = status;
+  });
+
+  const brief = createSuccessResponse(data, {
+    source: htmlUrl,
+    warnings,
+  });
+
+  // Only complete briefs are worth reusing; partial ones should be retried
+  if (sections.every((section) => data.sections[section].status === 'ok')) {
+    await writeComputed(briefKey, brief, host);
+  }
+
+  return brief;
+}
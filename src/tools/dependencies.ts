@@ -0,0 +1,160 @@
+import { getConfig } from '../config.js';
+import {
+  type ApiResponse,
+  type DependenciesData,
+  type Dependency,
+  type ErrorCode,
+  type FileContent,
+  type ManifestStatus,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import { manifestFormat, parseManifest } from '../manifests/index.js';
+import { providerFor } from '../providers/index.js';
+import { linkedDirectory, parseRepoReference } from '../repo-url.js';
+import { invalidRepoUrl, toErrorResponse } from './errors.js';
+import { type RefOptions } from './overview.js';
+
+export interface DependenciesOptions extends RefOptions {
+  /** Manifests to read, relative to the directory of a deep link (default: the manifests in it) */
+  paths?: string[];
+}
+
+/**
+ * Dependencies of one fetched manifest, or why they could not be read
+ */
+function readManifest(file: FileContent): { status: ManifestStatus; dependencies: Dependency[] } {
+  const format = manifestFormat(file.path);
+  const failed = (code: ErrorCode, message: string) => ({
+    status: {
+      path: file.path,
+      ecosystem: format?.ecosystem ?? null,
+      status: 'error' as const,
+      dependency_count: 0,
+      error: { code, message },
+    },
+    dependencies: [],
+  });
+
+  if (!format) {
+    return failed('INVALID_INPUT', 'Not a supported manifest');
+  }
+  if (file.error) {
+    return failed('UPSTREAM_ERROR', file.error);
+  }
+  if (file.is_binary) {
+    return failed('PARSE_ERROR', 'Manifest is not a text file');
+  }
+  if (file.truncated) {
+    return failed('PARSE_ERROR', `Manifest is larger than ${getConfig().fileMaxBytes} bytes`);
+  }
+
+  try {
+    const dependencies = parseManifest(file.path, file.content ?? '');
+    return {
+      status: {
+        path: file.path,
+        ecosystem: format.ecosystem,
+        status: 'ok',
+        dependency_count: dependencies.length,
+      },
+      dependencies,
+    };
+  } catch (error) {
+    return failed('PARSE_ERROR', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+export async function listDependencies(
+  repoUrl: string,
+  options: DependenciesOptions = {}
+): Promise<ApiResponse<DependenciesData>> {
+  const parsed = parseRepoReference(repoUrl);
+
+  if (!parsed.ok) {
+    return invalidRepoUrl(repoUrl, parsed.reason);
+  }
+
+  const repoInfo = options.ref ? { ...parsed.repo, ref: options.ref } : parsed.repo;
+  const base = linkedDirectory(repoInfo);
+  const provider = providerFor(repoInfo);
+
+  try {
+    let resolved = options.resolvedRef;
+    if (!resolved) {
+      const ref = repoInfo.ref ?? (await provider.fetchDefaultBranch(repoInfo));
+      if (!ref) {
+        return createErrorResponse(
+          'UPSTREAM_ERROR',
+          `Could not determine default branch for ${repoInfo.owner}/${repoInfo.repo}. Repository may not exist or be private.`,
+          { owner: repoInfo.owner, repo: repoInfo.repo }
+        );
+      }
+
+      const resolution = await provider.resolveRef(repoInfo, ref);
+      if (!resolution.ok) {
+        return resolution;
+      }
+      resolved = resolution.data;
+    }
+
+    const warnings: string[] = [];
+    const prefix = base ? `${base}/` : '';
+    let paths: string[];
+
+    if (options.paths && options.paths.length > 0) {
+      paths = options.paths.map((path) => `${prefix}${path.replace(/^\/+/, '')}`);
+    } else {
+      const listing = await provider.fetchTree(repoInfo, resolved.sha);
+      if (!listing.ok) {
+        return listing;
+      }
+      if (listing.data.truncated) {
+        warnings.push(`${provider.label} returned a truncated tree; manifests may be missed`);
+      }
+
+      paths = listing.data.entries
+        .filter(
+          (entry) =>
+            entry.type === 'file' &&
+            entry.path.startsWith(prefix) &&
+            !entry.path.slice(prefix.length).includes('/') &&
+            manifestFormat(entry.path) !== undefined
+        )
+        .map((entry) => entry.path)
+        .sort();
+      if (paths.length === 0) {
+        warnings.push(`No supported manifest in ${base ? base : 'the root directory'}`);
+      }
+    }
+
+    const sha = resolved.sha;
+    const files = await Promise.all(paths.map((path) => provider.fetchFile(repoInfo, sha, path)));
+
+    const manifests: ManifestStatus[] = [];
+    const declared: Dependency[] = [];
+    for (const file of files) {
+      const { status, dependencies } = readManifest(file);
+      manifests.push(status);
+      declared.push(...dependencies);
+      if (status.error) {
+        warnings.push(`${status.path}: ${status.error.message}`);
+      }
+    }
+
+    return createSuccessResponse(
+      {
+        manifests,
+        dependencies: declared,
+        ref: resolved.ref,
+        sha,
+      },
+      {
+        source: provider.repositoryWebUrl(repoInfo),
+        warnings,
+      }
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
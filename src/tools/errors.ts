@@ -0,0 +1,35 @@
+import { getConfig } from '../config.js';
+import { type ErrorResponse, createErrorResponse } from '../types.js';
+import { RateLimitError } from '../upstream/index.js';
+import { REPO_URL_FORMATS } from '../repo-url.js';
+
+/**
+ * Map an error thrown while talking to upstream to an error envelope
+ */
+export function toErrorResponse(error: unknown): ErrorResponse {
+  if (error instanceof RateLimitError) {
+    return createErrorResponse('RATE_LIMITED', error.message, { ...error.details });
+  }
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return createErrorResponse('TIMEOUT', 'Request timed out', {
+        timeout_ms: getConfig().requestTimeoutMs,
+      });
+    }
+    return createErrorResponse('INTERNAL_ERROR', error.message, {
+      error_name: error.name,
+    });
+  }
+  return createErrorResponse('INTERNAL_ERROR', 'An unexpected error occurred');
+}
+
+/**
+ * Error envelope for a repository reference that could not be parsed
+ */
+export function invalidRepoUrl(providedUrl: string, reason: string): ErrorResponse {
+  return createErrorResponse('INVALID_INPUT', `Invalid repository URL: ${reason}`, {
+    provided_url: providedUrl,
+    reason,
+    accepted_formats: REPO_URL_FORMATS,
+  });
+}
@@ -1,117 +1,252 @@
-import { getConfig } from '../config.js';
 import {
   type ApiResponse,
   type ExtractKeyFilesData,
-  type FileContent,
+  type ParsedRepoInfo,
   createSuccessResponse,
   createErrorResponse,
 } from '../types.js';
-import { parseRepoUrl, rateLimitedFetch } from './overview.js';
+import { getConfig } from '../config.js';
+import { type RepoTree, providerFor } from '../providers/index.js';
+import { chooseKeyFiles, guessKeyFiles } from '../ecosystems.js';
+import { truncateFile } from '../file-content.js';
+import { globToRegExp, isGlob } from '../glob.js';
+import { linkedDirectory, parseRepoReference } from '../repo-url.js';
+import { invalidRepoUrl, toErrorResponse } from './errors.js';
+import { type RefOptions } from './overview.js';
 
-const DEFAULT_PATHS = ['README.md', 'LICENSE', 'package.json', 'pyproject.toml'];
+export const DEFAULT_MAX_FILES = 50;
 
-async function fetchRawFile(
-  owner: string,
-  repo: string,
-  branch: string,
-  path: string
-): Promise<FileContent> {
-  const url = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}`;
+/** Paths named in a warning before the rest are only counted */
+const MAX_LISTED_PATHS = 10;
 
-  try {
-    const response = await rateLimitedFetch(url);
+export interface KeyFilesOptions extends RefOptions {
+  /** Files read at most, after globs are expanded */
+  maxFiles?: number;
+  /** Total size of the files read at most (default: the configured callMaxBytes) */
+  maxBytes?: number;
+}
 
-    if (response.status === 404) {
-      return {
-        path,
-        content: null,
-        size: null,
-        encoding: 'utf-8',
-        error: 'File not found',
-      };
+/**
+ * A file to read, with its size when the tree listing reports it
+ */
+interface Candidate {
+  path: string;
+  size: number | null;
+  reason: string;
+}
+
+function listPaths(paths: string[]): string {
+  const listed = paths.slice(0, MAX_LISTED_PATHS).join(', ');
+  return paths.length > MAX_LISTED_PATHS
+    ? `${listed} and ${paths.length - MAX_LISTED_PATHS} more`
+    : listed;
+}
+
+/**
+ * Expand globs against the repository tree in the order the patterns were
+ * given, keeping literal paths as they are. Brackets, braces and question
+ * marks occur in real paths, such as app/[slug]/page.tsx: a pattern naming a
+ * file of the tree, or matching nothing without a *, is read as a path.
+ */
+function expandPatterns(patterns: string[], tree: RepoTree | null, warnings: string[]): Candidate[] {
+  const files = (tree?.entries ?? []).filter((entry) => entry.type === 'file');
+  const sizes = new Map(files.map((entry) => [entry.path, entry.size]));
+  const seen = new Set<string>();
+  const candidates: Candidate[] = [];
+
+  for (const pattern of patterns) {
+    let matches = [pattern];
+    if (isGlob(pattern) && !sizes.has(pattern)) {
+      const regex = globToRegExp(pattern);
+      matches = files
+        .map((entry) => entry.path)
+        .filter((path) => regex.test(path))
+        .sort();
+      if (matches.length === 0 && !pattern.includes('*')) {
+        matches = [pattern];
+      } else if (matches.length === 0) {
+        warnings.push(`No files match ${pattern}`);
+      }
     }
 
-    if (!response.ok) {
-      return {
+    for (const path of matches) {
+      if (seen.has(path)) continue;
+      seen.add(path);
+      candidates.push({
         path,
-        content: null,
-        size: null,
-        encoding: 'utf-8',
-        error: `HTTP ${response.status}: ${response.statusText}`,
-      };
+        size: sizes.get(path) ?? null,
+        reason: path === pattern ? 'Requested' : `Matches ${pattern}`,
+      });
     }
-
-    const content = await response.text();
-    return {
-      path,
-      content,
-      size: content.length,
-      encoding: 'utf-8',
-    };
-  } catch (error) {
-    return {
-      path,
-      content: null,
-      size: null,
-      encoding: 'utf-8',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
   }
+
+  return candidates;
 }
 
-async function getDefaultBranch(owner: string, repo: string): Promise<string | null> {
-  const apiUrl = `https://api.github.com/repos/${owner}/${repo}`;
+/**
+ * Key files of the base directory, chosen from its listing and the
+ * repository's languages, or guessed from conventions without a listing
+ */
+function defaultCandidates(tree: RepoTree | null, base: string, languages: string[]): Candidate[] {
+  const prefix = base ? `${base}/` : '';
 
-  try {
-    const response = await rateLimitedFetch(apiUrl);
+  if (!tree) {
+    return guessKeyFiles(languages).map(({ name, reason }) => ({
+      path: `${prefix}${name}`,
+      size: null,
+      reason,
+    }));
+  }
 
-    if (!response.ok) {
-      return null;
-    }
+  const sizes = new Map(
+    tree.entries
+      .filter(
+        (entry) =>
+          entry.type === 'file' &&
+          entry.path.startsWith(prefix) &&
+          !entry.path.slice(prefix.length).includes('/')
+      )
+      .map((entry) => [entry.path.slice(prefix.length), entry.size])
+  );
+
+  return chooseKeyFiles([...sizes.keys()], languages).map(({ name, reason }) => ({
+    path: `${prefix}${name}`,
+    size: sizes.get(name) ?? null,
+    reason,
+  }));
+}
 
-    const data = (await response.json()) as { default_branch?: string };
-    return data.default_branch ?? 'main';
-  } catch {
-    return null;
+/**
+ * Paths to fetch, relative to the base directory, or null when key files
+ * should be chosen. A link to a single file fetches that file unless paths
+ * are given.
+ */
+function resolvePaths(repoInfo: ParsedRepoInfo, paths?: string[]): string[] | null {
+  if (paths && paths.length > 0) {
+    const base = linkedDirectory(repoInfo);
+    return base ? paths.map((path) => `${base}/${path.replace(/^\/+/, '')}`) : paths;
   }
+
+  return repoInfo.path && repoInfo.pathType === 'file' ? [repoInfo.path] : null;
 }
 
 export async function extractKeyFiles(
   repoUrl: string,
-  paths?: string[]
+  paths?: string[],
+  options: KeyFilesOptions = {}
 ): Promise<ApiResponse<ExtractKeyFilesData>> {
-  const repoInfo = parseRepoUrl(repoUrl);
+  const parsed = parseRepoReference(repoUrl);
 
-  if (!repoInfo) {
-    return createErrorResponse(
-      'INVALID_INPUT',
-      'Invalid GitHub repository URL. Expected format: https://github.com/owner/repo',
-      { provided_url: repoUrl }
-    );
+  if (!parsed.ok) {
+    return invalidRepoUrl(repoUrl, parsed.reason);
   }
 
-  const filePaths = paths && paths.length > 0 ? paths : DEFAULT_PATHS;
-
-  // Get the default branch first
-  const defaultBranch = await getDefaultBranch(repoInfo.owner, repoInfo.repo);
+  const repoInfo = options.ref ? { ...parsed.repo, ref: options.ref } : parsed.repo;
 
-  if (!defaultBranch) {
-    return createErrorResponse(
-      'UPSTREAM_ERROR',
-      `Could not determine default branch for ${repoInfo.owner}/${repoInfo.repo}. Repository may not exist or be private.`,
-      { owner: repoInfo.owner, repo: repoInfo.repo }
-    );
-  }
-
-  // Fetch all files in parallel
-  const filePromises = filePaths.map((path) =>
-    fetchRawFile(repoInfo.owner, repoInfo.repo, defaultBranch, path)
-  );
+  const patterns = resolvePaths(repoInfo, paths);
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const { fileMaxBytes, callMaxBytes } = getConfig();
+  const maxBytes = options.maxBytes ?? callMaxBytes;
+  const provider = providerFor(repoInfo);
 
   try {
-    const files = await Promise.all(filePromises);
+    // Get the default branch first
+    const defaultBranch = options.repoData
+      ? options.repoData.default_branch
+      : await provider.fetchDefaultBranch(repoInfo);
 
+    if (!defaultBranch) {
+      return createErrorResponse(
+        'UPSTREAM_ERROR',
+        `Could not determine default branch for ${repoInfo.owner}/${repoInfo.repo}. Repository may not exist or be private.`,
+        { owner: repoInfo.owner, repo: repoInfo.repo }
+      );
+    }
+
+    // Read every file at the same commit, so the result reflects one state of the repository
+    let resolved = options.resolvedRef;
+    if (!resolved) {
+      const resolution = await provider.resolveRef(repoInfo, repoInfo.ref ?? defaultBranch);
+      if (!resolution.ok) {
+        return resolution;
+      }
+      resolved = resolution.data;
+    }
+    const sha = resolved.sha;
     const warnings: string[] = [];
+
+    // Globs and key files are found in the recursive tree, which also reports file sizes
+    let tree: RepoTree | null = null;
+    if (patterns === null || patterns.some(isGlob)) {
+      const listing = await provider.fetchTree(repoInfo, sha);
+      if (listing.ok) {
+        tree = listing.data;
+        if (tree.truncated) {
+          const effect = patterns === null ? 'key files may be missed' : 'glob matches may be incomplete';
+          warnings.push(`${provider.label} returned a truncated tree; ${effect}`);
+        }
+      } else if (patterns !== null) {
+        return listing;
+      } else {
+        warnings.push(
+          `Could not list the repository tree (${listing.error.message}); reading conventional key file names`
+        );
+      }
+    }
+
+    let candidates: Candidate[];
+    if (patterns === null) {
+      const languages =
+        (await provider.fetchLanguages(repoInfo)) ??
+        (options.repoData?.language ? [options.repoData.language] : []);
+      const base = linkedDirectory(repoInfo);
+      candidates = defaultCandidates(tree, base, languages);
+      if (candidates.length === 0) {
+        warnings.push(`No README, license or manifest in ${base ? base : 'the root directory'}`);
+      }
+    } else {
+      candidates = expandPatterns(patterns, tree, warnings);
+    }
+
+    const selected: Candidate[] = [];
+    const overFileLimit: string[] = [];
+    const overByteLimit: string[] = [];
+    // Files count against max_bytes with the part of them that is returned
+    const returnedBytes = (size: number) => Math.min(size, fileMaxBytes);
+    let plannedBytes = 0;
+    for (const candidate of candidates) {
+      if (selected.length >= maxFiles) {
+        overFileLimit.push(candidate.path);
+      } else if (candidate.size !== null && plannedBytes + returnedBytes(candidate.size) > maxBytes) {
+        overByteLimit.push(candidate.path);
+      } else {
+        selected.push(candidate);
+        plannedBytes += candidate.size === null ? 0 : returnedBytes(candidate.size);
+      }
+    }
+
+    // Fetch all files in parallel
+    const filePromises = selected.map(async ({ path, reason }) => ({
+      ...(await provider.fetchFile(repoInfo, sha, path)),
+      reason,
+    }));
+
+    // Sizes the tree did not report are only known once the file is read; a
+    // file that turns out not to fit is cut to what is left of max_bytes
+    const cutToFit: string[] = [];
+    let totalBytes = 0;
+    const files = (await Promise.all(filePromises)).map((file) => {
+      if (file.size === null) return file;
+      if (totalBytes + returnedBytes(file.size) > maxBytes) {
+        cutToFit.push(file.path);
+        const remaining = maxBytes - totalBytes;
+        totalBytes = maxBytes;
+        return truncateFile(file, remaining);
+      }
+      totalBytes += returnedBytes(file.size);
+      return file;
+    });
+
     const filesNotFound = files.filter((f) => f.error === 'File not found');
     if (filesNotFound.length > 0) {
       warnings.push(
@@ -126,27 +261,38 @@ export async function extractKeyFiles(
       );
     }
 
+    const truncated = files.filter((f) => f.truncated && !cutToFit.includes(f.path));
+    if (truncated.length > 0) {
+      warnings.push(
+        `Files larger than ${fileMaxBytes} bytes were truncated: ${listPaths(truncated.map((f) => f.path))}`
+      );
+    }
+
+    if (overFileLimit.length > 0) {
+      warnings.push(`Reached max_files (${maxFiles}); not read: ${listPaths(overFileLimit)}`);
+    }
+
+    if (overByteLimit.length > 0) {
+      warnings.push(`Reached max_bytes (${maxBytes}); not read: ${listPaths(overByteLimit)}`);
+    }
+
+    if (cutToFit.length > 0) {
+      warnings.push(`Reached max_bytes (${maxBytes}); truncated to fit: ${listPaths(cutToFit)}`);
+    }
+
     return createSuccessResponse(
       {
         files,
         default_branch: defaultBranch,
+        ref: resolved.ref,
+        sha,
       },
       {
-        source: `https://github.com/${repoInfo.owner}/${repoInfo.repo}`,
+        source: provider.repositoryWebUrl(repoInfo),
         warnings,
       }
     );
   } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return createErrorResponse('TIMEOUT', 'Request timed out', {
-          timeout_ms: getConfig().requestTimeoutMs,
-        });
-      }
-      return createErrorResponse('INTERNAL_ERROR', error.message, {
-        error_name: error.name,
-      });
-    }
-    return createErrorResponse('INTERNAL_ERROR', 'An unexpected error occurred');
+    return toErrorResponse(error);
   }
 }
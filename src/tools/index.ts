@@ -1,4 +1,18 @@
-export { repoOverview, parseRepoUrl, rateLimitedFetch } from './overview.js';
-export { extractKeyFiles } from './files.js';
+export {
+  repoOverview,
+  parseRepoUrl,
+  rateLimitedFetch,
+  fetchRepoMetadata,
+  type RepoMetadataOptions,
+  type RefOptions,
+} from './overview.js';
+export { extractKeyFiles, type KeyFilesOptions } from './files.js';
+export { listTree, type ListTreeOptions } from './tree.js';
+export { listDependencies, type DependenciesOptions } from './dependencies.js';
+export { licenseReport } from './licenses.js';
+export { readmeDigest } from './readme.js';
 export { releaseNotes } from './releases.js';
+export { upgradeNotes, type UpgradeNotesOptions } from './upgrade.js';
 export { activitySnapshot } from './activity.js';
+export { repoBrief, type RepoBriefOptions } from './brief.js';
+export { rateLimitStatus } from './rate-limit.js';
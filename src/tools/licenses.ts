@@ -0,0 +1,281 @@
+import {
+  type ApiResponse,
+  type DeclaredLicense,
+  type FileContent,
+  type LicenseCategory,
+  type LicenseFileReport,
+  type LicenseReportData,
+  type PackageLicense,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import {
+  allOfCategories,
+  baseLicenseId,
+  classifyDeclaredLicense,
+  licenseCategory,
+  matchLicenseText,
+} from '../licenses/index.js';
+import { manifestFormat } from '../manifests/index.js';
+import { providerFor } from '../providers/index.js';
+import { linkedDirectory, parseRepoReference } from '../repo-url.js';
+import { invalidRepoUrl, toErrorResponse } from './errors.js';
+import { type RefOptions } from './overview.js';
+
+/** Packages reported besides the root, in path order */
+const MAX_PACKAGES = 20;
+
+/** LICENSE, COPYING and COPYRIGHT files, with an optional suffix such as -MIT or .md */
+const LICENSE_FILE = /^(?:(?:un)?licen[cs]e|copying|copyright)(?:[-._][\w.-]+)?$/i;
+
+/** Source and data files named like license files, such as license.ts */
+const NOT_LICENSE_TEXT = /\.(?:[cm]?[jt]sx?|py|go|rb|rs|java|kt|php|cs|swift|c|h|json|ya?ml|toml|xml|html?|css)$/i;
+
+/** Directories whose manifests describe vendored, test or example code rather than packages */
+const SKIPPED_DIRECTORY = /(^|\/)(node_modules|vendor|third[_-]party|tests?|testdata|fixtures|__fixtures__|examples?)(\/|$)/;
+
+function directoryOf(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+function isLicenseFile(path: string): boolean {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return LICENSE_FILE.test(name) && !NOT_LICENSE_TEXT.test(name);
+}
+
+function readLicenseFile(file: FileContent): LicenseFileReport {
+  if (file.error) {
+    return { path: file.path, licenses: [], error: { code: 'UPSTREAM_ERROR', message: file.error } };
+  }
+  if (file.is_binary) {
+    return {
+      path: file.path,
+      licenses: [],
+      error: { code: 'PARSE_ERROR', message: 'License file is not a text file' },
+    };
+  }
+  // A truncated file still holds the opening sections licenses are recognised by
+  return { path: file.path, licenses: matchLicenseText(file.content ?? '') };
+}
+
+function readDeclaredLicense(file: FileContent, warnings: string[]): DeclaredLicense | null {
+  const format = manifestFormat(file.path);
+  if (!format?.license) return null;
+  if (file.error || file.is_binary || file.truncated) {
+    warnings.push(`${file.path}: ${file.error ?? 'Manifest could not be read'}`);
+    return null;
+  }
+
+  try {
+    const expression = format.license(file.content ?? '');
+    if (expression === null) return null;
+    return { manifest: file.path, expression, ...classifyDeclaredLicense(expression) };
+  } catch (error) {
+    warnings.push(`${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+}
+
+/**
+ * Licenses of one package from its manifests and license files. Declared
+ * licenses decide the category; licenses found only in files add to it, since
+ * their text applies whatever the manifest says.
+ */
+function describePackage(
+  path: string,
+  declared: DeclaredLicense[],
+  files: LicenseFileReport[],
+  warnings: string[]
+): PackageLicense {
+  const declaredIds = [...new Set(declared.flatMap((license) => license.spdx_ids))];
+  const declaredBases = new Set(declaredIds.map(baseLicenseId));
+  // LGPL-3.0 is a set of permissions on top of GPL-3.0, whose text ships next to it
+  const lesser =
+    declaredBases.has('LGPL-3.0') ||
+    files.some((file) => file.licenses.some((match) => match.spdx_id === 'LGPL-3.0'));
+
+  const foundIds: string[] = [];
+  for (const file of files) {
+    if (file.error) {
+      warnings.push(`${file.path}: ${file.error.message}`);
+      continue;
+    }
+    if (file.licenses.length === 0) {
+      warnings.push(`${file.path}: No known license text recognised`);
+    }
+    for (const match of file.licenses) {
+      if (match.confidence < 1) {
+        warnings.push(
+          `${file.path} differs from the ${match.name} text (confidence ${match.confidence}); review the changes`
+        );
+      }
+      if (!(lesser && match.spdx_id === 'GPL-3.0') && !foundIds.includes(match.spdx_id)) {
+        foundIds.push(match.spdx_id);
+      }
+    }
+  }
+
+  const undeclared = foundIds.filter((id) => !declaredBases.has(id));
+  const categories: LicenseCategory[] = [];
+
+  if (declared.length > 0) {
+    categories.push(...declared.map((license) => license.category), ...undeclared.map(licenseCategory));
+    if (undeclared.length > 0) {
+      const expressions = declared.map((license) => `${license.manifest} (${license.expression})`).join(', ');
+      warnings.push(
+        `${path || 'Repository root'}: license files contain ${undeclared.join(', ')}, not declared in ${expressions}`
+      );
+    }
+  } else {
+    categories.push(...foundIds.map(licenseCategory));
+    if (files.some((file) => file.error || file.licenses.length === 0)) categories.push('unknown');
+    if (foundIds.length > 1) {
+      warnings.push(
+        `${path || 'Repository root'}: ${foundIds.join(', ')} found without a declared expression; review whether they apply together or as alternatives`
+      );
+    }
+  }
+
+  const spdxIds = [...declaredIds, ...undeclared];
+  return {
+    path,
+    declared,
+    files,
+    spdx_ids: spdxIds,
+    category: allOfCategories(categories),
+    multi_licensed: spdxIds.length > 1,
+    inherited: false,
+  };
+}
+
+export async function licenseReport(
+  repoUrl: string,
+  options: RefOptions = {}
+): Promise<ApiResponse<LicenseReportData>> {
+  const parsed = parseRepoReference(repoUrl);
+
+  if (!parsed.ok) {
+    return invalidRepoUrl(repoUrl, parsed.reason);
+  }
+
+  const repoInfo = options.ref ? { ...parsed.repo, ref: options.ref } : parsed.repo;
+  const base = linkedDirectory(repoInfo);
+  const provider = providerFor(repoInfo);
+
+  try {
+    let resolved = options.resolvedRef;
+    if (!resolved) {
+      const ref = repoInfo.ref ?? (await provider.fetchDefaultBranch(repoInfo));
+      if (!ref) {
+        return createErrorResponse(
+          'UPSTREAM_ERROR',
+          `Could not determine default branch for ${repoInfo.owner}/${repoInfo.repo}. Repository may not exist or be private.`,
+          { owner: repoInfo.owner, repo: repoInfo.repo }
+        );
+      }
+
+      const resolution = await provider.resolveRef(repoInfo, ref);
+      if (!resolution.ok) {
+        return resolution;
+      }
+      resolved = resolution.data;
+    }
+
+    const sha = resolved.sha;
+    const listing = await provider.fetchTree(repoInfo, sha);
+    if (!listing.ok) {
+      return listing;
+    }
+
+    const warnings: string[] = [];
+    if (listing.data.truncated) {
+      warnings.push(`${provider.label} returned a truncated tree; packages and license files may be missed`);
+    }
+
+    // Packages are the linked directory and the directories below it holding a manifest
+    const prefix = base ? `${base}/` : '';
+    const contents = new Map<string, { manifests: string[]; licenses: string[] }>([
+      [base, { manifests: [], licenses: [] }],
+    ]);
+    for (const entry of listing.data.entries) {
+      if (entry.type !== 'file' || !entry.path.startsWith(prefix)) continue;
+      const directory = directoryOf(entry.path);
+      if (directory !== base && SKIPPED_DIRECTORY.test(directory.slice(prefix.length))) continue;
+
+      if (manifestFormat(entry.path)) {
+        if (!contents.has(directory)) contents.set(directory, { manifests: [], licenses: [] });
+        contents.get(directory)!.manifests.push(entry.path);
+      }
+    }
+    for (const entry of listing.data.entries) {
+      if (entry.type !== 'file') continue;
+      // REUSE keeps the license texts of a package in its LICENSES directory, named by SPDX id
+      const directory = directoryOf(entry.path);
+      const owner = /(^|\/)LICENSES$/.test(directory)
+        ? directoryOf(directory)
+        : isLicenseFile(entry.path)
+          ? directory
+          : null;
+      if (owner !== null) contents.get(owner)?.licenses.push(entry.path);
+    }
+
+    const directories = [...contents.keys()].filter((directory) => directory !== base).sort();
+    if (directories.length > MAX_PACKAGES) {
+      warnings.push(`Only the first ${MAX_PACKAGES} of ${directories.length} packages below the root are reported`);
+    }
+    const packagePaths = [base, ...directories.slice(0, MAX_PACKAGES)];
+
+    const paths = packagePaths.flatMap((path) => {
+      const { manifests, licenses } = contents.get(path)!;
+      return [...manifests.filter((manifest) => manifestFormat(manifest)?.license), ...licenses];
+    });
+    const files = new Map(
+      (await Promise.all(paths.map((path) => provider.fetchFile(repoInfo, sha, path)))).map((file, index) => [
+        paths[index],
+        file,
+      ])
+    );
+
+    const packages = packagePaths.map((path) => {
+      const { manifests, licenses } = contents.get(path)!;
+      const declared = manifests
+        .filter((manifest) => files.has(manifest))
+        .map((manifest) => readDeclaredLicense(files.get(manifest)!, warnings))
+        .filter((license): license is DeclaredLicense => license !== null);
+      const licenseFiles = licenses.sort().map((license) => readLicenseFile(files.get(license)!));
+      return describePackage(path, declared, licenseFiles, warnings);
+    });
+
+    // Packages without a license of their own fall under the root's
+    const [root, ...members] = packages;
+    for (const member of members) {
+      if (member.declared.length === 0 && member.files.length === 0) {
+        Object.assign(member, {
+          spdx_ids: root.spdx_ids,
+          category: root.category,
+          multi_licensed: root.multi_licensed,
+          inherited: true,
+        });
+      }
+    }
+    if (root.declared.length === 0 && root.files.length === 0) {
+      warnings.push(`No license declared or found in ${base ? base : 'the root directory'}`);
+    }
+
+    return createSuccessResponse(
+      {
+        packages,
+        category: allOfCategories(packages.map((pkg) => pkg.category)),
+        ref: resolved.ref,
+        sha,
+      },
+      {
+        source: provider.repositoryWebUrl(repoInfo),
+        warnings,
+      }
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
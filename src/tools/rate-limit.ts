@@ -0,0 +1,180 @@
+import { type ForgeHost, findHost, hostForRepo } from '../hosts.js';
+import {
+  type ApiResponse,
+  type ErrorResponse,
+  type GitHubRateLimitResponse,
+  type RateLimitResourceStatus,
+  type RateLimitStatusData,
+  type RateLimitTokenStatus,
+  RATE_LIMIT_RESOURCES,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import {
+  type RateLimitBudget,
+  type TokenSlot,
+  anonymousIdentity,
+  getRateLimitBudgets,
+  getTokenPool,
+  isTokenDisabled,
+  setRateLimitBudget,
+} from '../upstream/index.js';
+import { toErrorResponse } from './errors.js';
+import { rateLimitedFetch } from './overview.js';
+
+function toStatus(budget: RateLimitBudget): RateLimitResourceStatus {
+  const now = Date.now();
+  return {
+    resource: budget.resource,
+    limit: budget.limit,
+    remaining: budget.remaining,
+    used: budget.used,
+    reset_at: budget.resetAt !== null ? new Date(budget.resetAt).toISOString() : null,
+    blocked_until:
+      budget.blockedUntil !== null && budget.blockedUntil > now
+        ? new Date(budget.blockedUntil).toISOString()
+        : null,
+  };
+}
+
+/**
+ * Fetch the budgets of one token (or of anonymous access) and record them
+ */
+async function fetchBudgets(
+  host: ForgeHost,
+  token: TokenSlot | undefined
+): Promise<ApiResponse<RateLimitResourceStatus[]>> {
+  const identity = token?.identity ?? anonymousIdentity(host);
+  const apiUrl = `${host.apiBase}/rate_limit`;
+
+  try {
+    const response = await rateLimitedFetch(apiUrl, {
+      cache: 'no-store',
+      tokenSlot: token?.slot,
+    });
+
+    if (!response.ok) {
+      return createErrorResponse(
+        'UPSTREAM_ERROR',
+        `GitHub API error: ${response.status} ${response.statusText}`,
+        { status: response.status, ...(token && { token_slot: token.slot }) }
+      );
+    }
+
+    const data = (await response.json()) as GitHubRateLimitResponse;
+    const now = Date.now();
+    for (const [resource, budget] of Object.entries(data.resources ?? {})) {
+      setRateLimitBudget(identity, {
+        resource,
+        limit: budget.limit,
+        remaining: budget.remaining,
+        used: budget.used,
+        resetAt: budget.reset * 1000,
+        blockedUntil: null,
+        updatedAt: now,
+      });
+    }
+
+    const tracked = new Map(getRateLimitBudgets(identity).map((b) => [b.resource, b]));
+    const resources = RATE_LIMIT_RESOURCES.flatMap((resource) => {
+      const budget = tracked.get(resource);
+      return budget ? [toStatus(budget)] : [];
+    });
+    return createSuccessResponse(resources, { source: apiUrl });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * Combine per-token budgets into the budget of the pool: counts add up, the
+ * pool resets when its first token does, and it is only blocked while every
+ * token is
+ */
+function poolStatus(tokens: RateLimitTokenStatus[]): RateLimitResourceStatus[] {
+  const sum = (values: Array<number | null>) =>
+    values.some((v) => v === null) ? null : values.reduce<number>((a, b) => a + (b ?? 0), 0);
+  const earliest = (values: Array<string | null>) =>
+    values.filter((v): v is string => v !== null).sort()[0] ?? null;
+
+  return RATE_LIMIT_RESOURCES.flatMap((resource) => {
+    const statuses = tokens.flatMap((t) => t.resources.filter((r) => r.resource === resource));
+    if (statuses.length === 0) return [];
+    return [
+      {
+        resource,
+        limit: sum(statuses.map((s) => s.limit)),
+        remaining: sum(statuses.map((s) => s.remaining)),
+        used: sum(statuses.map((s) => s.used)),
+        reset_at: earliest(statuses.map((s) => s.reset_at)),
+        blocked_until: statuses.every((s) => s.blocked_until !== null)
+          ? earliest(statuses.map((s) => s.blocked_until))
+          : null,
+      },
+    ];
+  });
+}
+
+/**
+ * Report the remaining GitHub API budget per resource, for each pooled token
+ * and for the pool as a whole, on github.com or a configured enterprise host.
+ * The /rate_limit endpoint does not count against any budget, so this is
+ * always fetched live.
+ */
+export async function rateLimitStatus(webHost?: string): Promise<ApiResponse<RateLimitStatusData>> {
+  const host = webHost ? findHost(webHost) : hostForRepo({});
+  if (!host) {
+    return createErrorResponse('INVALID_INPUT', `Unknown GitHub host: ${webHost}`, {
+      provided_host: webHost,
+    });
+  }
+  if (host.provider !== 'github') {
+    return createErrorResponse(
+      'INVALID_INPUT',
+      `Rate-limit status is only available for GitHub hosts; ${host.host} is a ${host.provider} host`,
+      { provided_host: webHost, provider: host.provider }
+    );
+  }
+
+  const source = `${host.apiBase}/rate_limit`;
+  const pool = getTokenPool(host);
+
+  if (pool.length === 0) {
+    const anonymous = await fetchBudgets(host, undefined);
+    if (!anonymous.ok) return anonymous;
+    return createSuccessResponse(
+      { authenticated: false, resources: anonymous.data, tokens: [] },
+      { source }
+    );
+  }
+
+  const tokens: RateLimitTokenStatus[] = [];
+  const warnings: string[] = [];
+  let firstError: ErrorResponse | undefined;
+
+  for (const token of pool) {
+    if (isTokenDisabled(token)) {
+      tokens.push({ slot: token.slot, disabled: true, resources: [] });
+      warnings.push(`Token slot ${token.slot} is disabled after being rejected by GitHub`);
+      continue;
+    }
+
+    const budgets = await fetchBudgets(host, token);
+    if (!budgets.ok) {
+      firstError ??= budgets;
+      tokens.push({ slot: token.slot, disabled: isTokenDisabled(token), resources: [] });
+      warnings.push(`Token slot ${token.slot}: ${budgets.error.message}`);
+      continue;
+    }
+    tokens.push({ slot: token.slot, disabled: false, resources: budgets.data });
+  }
+
+  if (firstError && tokens.every((t) => t.resources.length === 0)) {
+    return firstError;
+  }
+
+  return createSuccessResponse(
+    { authenticated: true, resources: poolStatus(tokens), tokens },
+    { source, warnings }
+  );
+}
@@ -0,0 +1,118 @@
+import { type ApiResponse, type ReadmeDigestData, createSuccessResponse, createErrorResponse } from '../types.js';
+import { getConfig } from '../config.js';
+import { chooseReadme } from '../ecosystems.js';
+import { providerFor } from '../providers/index.js';
+import { digestReadme, parseReadme, readmeFormat, resolveReadmeUrl } from '../readme/index.js';
+import { linkedDirectory, parseRepoReference } from '../repo-url.js';
+import { invalidRepoUrl, toErrorResponse } from './errors.js';
+import { type RefOptions } from './overview.js';
+
+export async function readmeDigest(
+  repoUrl: string,
+  options: RefOptions = {}
+): Promise<ApiResponse<ReadmeDigestData>> {
+  const parsed = parseRepoReference(repoUrl);
+
+  if (!parsed.ok) {
+    return invalidRepoUrl(repoUrl, parsed.reason);
+  }
+
+  const repoInfo = options.ref ? { ...parsed.repo, ref: options.ref } : parsed.repo;
+  const base = linkedDirectory(repoInfo);
+  const provider = providerFor(repoInfo);
+
+  try {
+    let resolved = options.resolvedRef;
+    if (!resolved) {
+      const ref = repoInfo.ref ?? (await provider.fetchDefaultBranch(repoInfo));
+      if (!ref) {
+        return createErrorResponse(
+          'UPSTREAM_ERROR',
+          `Could not determine default branch for ${repoInfo.owner}/${repoInfo.repo}. Repository may not exist or be private.`,
+          { owner: repoInfo.owner, repo: repoInfo.repo }
+        );
+      }
+
+      const resolution = await provider.resolveRef(repoInfo, ref);
+      if (!resolution.ok) {
+        return resolution;
+      }
+      resolved = resolution.data;
+    }
+
+    const sha = resolved.sha;
+    const warnings: string[] = [];
+
+    // A deep link to a README reads that one; otherwise the linked directory's is chosen
+    let path: string | undefined;
+    const linkedName = repoInfo.pathType === 'file' ? repoInfo.path?.split('/').pop() : undefined;
+    if (linkedName && chooseReadme([linkedName])) {
+      path = repoInfo.path;
+    } else {
+      const listing = await provider.fetchTree(repoInfo, sha);
+      if (!listing.ok) {
+        return listing;
+      }
+      if (listing.data.truncated) {
+        warnings.push(`${provider.label} returned a truncated tree; the README may be missed`);
+      }
+
+      const prefix = base ? `${base}/` : '';
+      const names = listing.data.entries
+        .filter((entry) => entry.type === 'file' && entry.path.startsWith(prefix))
+        .map((entry) => entry.path.slice(prefix.length))
+        .filter((name) => !name.includes('/'));
+      const name = chooseReadme(names);
+      path = name && `${prefix}${name}`;
+    }
+
+    if (!path) {
+      return createErrorResponse(
+        'INVALID_INPUT',
+        `No README in ${base ? `"${base}"` : 'the root directory'} at ${resolved.ref} in ${repoInfo.owner}/${repoInfo.repo}`,
+        { path: base, ref: resolved.ref }
+      );
+    }
+
+    const file = await provider.fetchFile(repoInfo, sha, path);
+    if (file.error) {
+      return createErrorResponse('UPSTREAM_ERROR', `${path}: ${file.error}`, { path });
+    }
+    if (file.is_binary) {
+      return createErrorResponse('PARSE_ERROR', `${path} is not a text file`, { path });
+    }
+    if (file.truncated) {
+      warnings.push(`${path} is larger than ${getConfig().fileMaxBytes} bytes; only its start is digested`);
+    }
+
+    const format = readmeFormat(path);
+    if (format === 'text') {
+      warnings.push(`${path} is not Markdown, reStructuredText or AsciiDoc; only the URLs in it are listed`);
+    }
+
+    const readmePath = path;
+    const webUrl = provider.repositoryWebUrl(repoInfo);
+    const rawPrefix = provider.fileRawUrl(repoInfo, sha, '');
+    const digest = digestReadme(parseReadme(file.content ?? '', format), {
+      link: (url) => resolveReadmeUrl(url, readmePath, (target) => provider.fileWebUrl(repoInfo, sha, target)),
+      image: (url) => resolveReadmeUrl(url, readmePath, (target) => provider.fileRawUrl(repoInfo, sha, target)),
+      isExternal: (url) => url !== webUrl && !url.startsWith(`${webUrl}/`) && !url.startsWith(rawPrefix),
+    });
+
+    return createSuccessResponse(
+      {
+        path,
+        format,
+        ...digest,
+        ref: resolved.ref,
+        sha,
+      },
+      {
+        source: provider.repositoryWebUrl(repoInfo),
+        warnings,
+      }
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
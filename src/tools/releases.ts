@@ -1,27 +1,541 @@
-import { getConfig } from '../config.js';
 import {
   type ApiResponse,
-  type ReleaseNotesData,
+  type ParsedRepoInfo,
   type ReleaseData,
-  type GitHubReleaseResponse,
+  type ReleaseNotesData,
+  type ReleaseSort,
+  type ReleaseSource,
+  type SuccessResponse,
+  RELEASE_SOURCES,
   createSuccessResponse,
   createErrorResponse,
 } from '../types.js';
-import { parseRepoUrl, rateLimitedFetch } from './overview.js';
+import { releaseChanges, parseChangelog } from '../changelog/index.js';
+import { getConfig } from '../config.js';
+import { chooseChangelog } from '../ecosystems.js';
+import {
+  type CursorResult,
+  type PageOptions,
+  decodeCursor,
+  encodeCursor,
+  invalidCursor,
+  pageWindow,
+} from '../pagination.js';
+import {
+  type ForgeProvider,
+  type ForgeRelease,
+  type PageRequest,
+  type ReleasePage,
+  type TagDetails,
+  providerFor,
+  unsupportedWarnings,
+} from '../providers/index.js';
+import { readmeFormat } from '../readme/index.js';
+import { linkedDirectory, parseRepoReference } from '../repo-url.js';
+import { compareVersions, parseRange, parseVersion, satisfies } from '../semver.js';
+import { invalidRepoUrl, toErrorResponse } from './errors.js';
 
-export async function releaseNotes(
-  repoUrl: string,
-  limit: number = 5
-): Promise<ApiResponse<ReleaseNotesData>> {
-  const repoInfo = parseRepoUrl(repoUrl);
+export interface ReleaseNotesOptions extends PageOptions {
+  /** Include prereleases, flagged by the forge or named by a prerelease version (default: true) */
+  includePrereleases?: boolean;
+  /** Include drafts (default: true) */
+  includeDrafts?: boolean;
+  /** Only releases published at or after this date */
+  since?: string;
+  /** Only releases whose tag names a version in this semver range, such as >=2.0.0 <3 */
+  versionRange?: string;
+  /** Order by version or publication date, highest or newest first, rather than as the forge lists them */
+  sort?: ReleaseSort;
+  /**
+   * Read only this source; by default the changelog is read when the forge
+   * has no releases, and the tags when there is no changelog either
+   */
+  source?: ReleaseSource;
+}
+
+/** Most releases one call reads to filter or sort */
+const MAX_SCANNED = 1000;
+
+/** Most releases one call reads the dates of, where each takes requests of its own */
+const MAX_RESOLVED = 20;
 
-  if (!repoInfo) {
+/** Page size of listings read whole, such as a changelog */
+const IN_MEMORY_PAGE_SIZE = 100;
+
+/**
+ * Releases of one source, read a page at a time
+ */
+interface ReleaseListing {
+  source: ReleaseSource;
+  /** Most releases one page holds */
+  maxPageSize: number;
+  fetchPage(page: PageRequest): Promise<ApiResponse<ReleasePage>>;
+  /** Warning for a listing holding no releases */
+  empty: string;
+  /** Whether the listing runs newest first, so a page published wholly before since ends a search */
+  newestFirst: boolean;
+  /** Order of the releases when none is asked for, rather than the listing's own */
+  defaultSort?: ReleaseSort;
+  /** Date and notes of a release listed without them, read only for the releases used */
+  resolve?(release: ForgeRelease): Promise<TagDetails | null>;
+}
+
+interface ScannedRelease {
+  release: ReleaseData;
+  /** Position in the listing */
+  offset: number;
+}
+
+interface Scan {
+  releases: ScannedRelease[];
+  /** Whether the listing has no releases after the last one read */
+  exhausted: boolean;
+  totalCount: number | null;
+}
+
+/**
+ * Which releases a call asks for: where to start, how many, and how to
+ * filter and order them
+ */
+interface ReleaseQuery {
+  offset: number;
+  limit: number;
+  sort?: ReleaseSort;
+  filtered: boolean;
+  /** Whether matching reads publication dates */
+  dated: boolean;
+  matches(entry: ScannedRelease): boolean;
+  /** Whether a release matches all but the publication date */
+  matchesUndated(entry: ScannedRelease): boolean;
+  /** Whether a page was published wholly before since */
+  pastSince(page: ScannedRelease[]): boolean;
+}
+
+/**
+ * A page of releases and where the next one starts
+ */
+interface ReleaseWindow {
+  releases: ReleaseData[];
+  nextOffset: number | null;
+  totalCount: number | null;
+  /** Whether the listing holds no releases at all */
+  empty: boolean;
+}
+
+function forgeListing(provider: ForgeProvider, repo: ParsedRepoInfo): ApiResponse<ReleaseListing> {
+  return createSuccessResponse(
+    {
+      source: 'releases',
+      maxPageSize: provider.maxPageSize,
+      fetchPage: (page) => provider.fetchReleases(repo, page),
+      empty: 'No releases found for this repository',
+      newestFirst: true,
+    },
+    { warnings: unsupportedWarnings(provider, 'releases') }
+  );
+}
+
+/**
+ * Pages of releases already read in full
+ */
+function inMemoryPages(releases: ForgeRelease[], source: string): ReleaseListing['fetchPage'] {
+  return async ({ page, perPage }) =>
+    createSuccessResponse(
+      {
+        releases: releases.slice((page - 1) * perPage, page * perPage),
+        has_more: page * perPage < releases.length,
+        total_count: releases.length,
+      },
+      { source }
+    );
+}
+
+/**
+ * The versions of the changelog in the linked directory (or the root, or the
+ * changelog linked to), newest first as changelogs are written
+ */
+async function changelogListing(provider: ForgeProvider, repo: ParsedRepoInfo): Promise<ApiResponse<ReleaseListing>> {
+  const ref = repo.ref ?? (await provider.fetchDefaultBranch(repo));
+  if (!ref) {
+    return createErrorResponse(
+      'UPSTREAM_ERROR',
+      `Could not determine default branch for ${repo.owner}/${repo.repo}. Repository may not exist or be private.`,
+      { owner: repo.owner, repo: repo.repo }
+    );
+  }
+
+  const resolution = await provider.resolveRef(repo, ref);
+  if (!resolution.ok) {
+    return resolution;
+  }
+  const sha = resolution.data.sha;
+  const warnings: string[] = [];
+
+  const base = linkedDirectory(repo);
+  let path: string | undefined;
+  const linkedName = repo.pathType === 'file' ? repo.path?.split('/').pop() : undefined;
+  if (linkedName && chooseChangelog([linkedName])) {
+    path = repo.path;
+  } else {
+    const listing = await provider.fetchTree(repo, sha);
+    if (!listing.ok) {
+      return listing;
+    }
+    if (listing.data.truncated) {
+      warnings.push(`${provider.label} returned a truncated tree; the changelog may be missed`);
+    }
+
+    const prefix = base ? `${base}/` : '';
+    const names = listing.data.entries
+      .filter((entry) => entry.type === 'file' && entry.path.startsWith(prefix))
+      .map((entry) => entry.path.slice(prefix.length))
+      .filter((name) => !name.includes('/'));
+    const name = chooseChangelog(names);
+    path = name && `${prefix}${name}`;
+  }
+
+  if (!path) {
+    return createSuccessResponse(
+      {
+        source: 'changelog',
+        maxPageSize: IN_MEMORY_PAGE_SIZE,
+        fetchPage: inMemoryPages([], provider.repositoryWebUrl(repo)),
+        empty: `No CHANGELOG, CHANGES, HISTORY or NEWS file in ${base ? `"${base}"` : 'the root directory'}`,
+        newestFirst: true,
+      },
+      { warnings }
+    );
+  }
+
+  const file = await provider.fetchFile(repo, sha, path);
+  if (file.error) {
+    return createErrorResponse('UPSTREAM_ERROR', `${path}: ${file.error}`, { path });
+  }
+  if (file.is_binary) {
+    return createErrorResponse('PARSE_ERROR', `${path} is not a text file`, { path });
+  }
+  if (file.truncated) {
+    warnings.push(`${path} is larger than ${getConfig().fileMaxBytes} bytes; only the versions at its start are listed`);
+  }
+
+  const fileUrl = provider.fileWebUrl(repo, sha, path);
+  const releases = parseChangelog(file.content ?? '', readmeFormat(path)).map(
+    (entry): ForgeRelease => ({
+      tag_name: entry.tag,
+      name: entry.title,
+      body: entry.body,
+      published_at: entry.unreleased ? null : entry.date,
+      prerelease: false,
+      draft: entry.unreleased,
+      html_url: entry.link ?? fileUrl,
+    })
+  );
+
+  return createSuccessResponse(
+    {
+      source: 'changelog',
+      maxPageSize: IN_MEMORY_PAGE_SIZE,
+      fetchPage: inMemoryPages(releases, fileUrl),
+      empty: `No versions found in ${path}`,
+      newestFirst: true,
+    },
+    { warnings }
+  );
+}
+
+/**
+ * The repository's tags, highest version first. Forges list tags by name or
+ * by date, and some without the date and message of the commit or annotation
+ * they point to; those are read for the tags used.
+ */
+function tagListing(provider: ForgeProvider, repo: ParsedRepoInfo): ApiResponse<ReleaseListing> {
+  return createSuccessResponse({
+    source: 'tags',
+    maxPageSize: provider.maxPageSize,
+    fetchPage: (page) => provider.fetchTags(repo, page),
+    empty: 'No tags found for this repository',
+    newestFirst: false,
+    defaultSort: 'version',
+    resolve: (release) => provider.resolveTag(repo, release.tag_name),
+  });
+}
+
+async function openListing(
+  source: ReleaseSource,
+  provider: ForgeProvider,
+  repo: ParsedRepoInfo
+): Promise<ApiResponse<ReleaseListing>> {
+  switch (source) {
+    case 'releases':
+      return forgeListing(provider, repo);
+    case 'changelog':
+      return changelogListing(provider, repo);
+    case 'tags':
+      return tagListing(provider, repo);
+  }
+}
+
+function readRelease(release: ForgeRelease): ReleaseData {
+  return {
+    ...release,
+    version: parseVersion(release.tag_name),
+    changes: release.body ? releaseChanges(release.body) : null,
+  };
+}
+
+/**
+ * Fill in the releases a listing left without a date and notes
+ */
+async function resolveReleases(listing: ReleaseListing, releases: ReleaseData[]): Promise<ReleaseData[]> {
+  const { resolve } = listing;
+  if (!resolve) return releases;
+  return Promise.all(
+    releases.map(async (release) => {
+      if (release.published_at !== null) return release;
+      const details = await resolve(release);
+      return details ? readRelease({ ...release, ...details }) : release;
+    })
+  );
+}
+
+/**
+ * Read releases from an offset on, a page at a time, until the listing runs
+ * out or done says the releases read are enough
+ */
+async function scanReleases(
+  listing: ReleaseListing,
+  start: number,
+  pageSize: number,
+  done: (scan: Scan, page: ScannedRelease[]) => boolean
+): Promise<ApiResponse<Scan>> {
+  const scan: Scan = { releases: [], exhausted: false, totalCount: null };
+  const warnings: string[] = [];
+  let source: string | undefined;
+
+  const { firstPage } = pageWindow(start, pageSize);
+  for (let page = firstPage; ; page++) {
+    // Only the first page's total is used
+    const result = await listing.fetchPage({ page, perPage: pageSize, count: page === firstPage });
+    if (!result.ok) {
+      return result;
+    }
+
+    source ??= result.meta.source;
+    for (const warning of result.meta.warnings) {
+      if (!warnings.includes(warning)) warnings.push(warning);
+    }
+
+    const read = result.data.releases
+      .map((release, index) => ({ release: readRelease(release), offset: (page - 1) * pageSize + index }))
+      .filter((entry) => entry.offset >= start);
+    scan.releases.push(...read);
+    scan.exhausted = !result.data.has_more;
+    scan.totalCount ??= result.data.total_count;
+    // The last page tells the total by where it ends
+    if (scan.exhausted) scan.totalCount ??= (page - 1) * pageSize + result.data.releases.length;
+
+    if (scan.exhausted || done(scan, read)) {
+      return createSuccessResponse(scan, { source, warnings });
+    }
+  }
+}
+
+/**
+ * The page of releases a date filter asks for from a listing leaving dates
+ * out. Dating a release takes requests of its own, so the releases matching
+ * all else are sorted by version and dated in that order only until the page
+ * is filled, or MAX_RESOLVED are dated; the offset counts them.
+ */
+async function readResolving(listing: ReleaseListing, query: ReleaseQuery): Promise<ApiResponse<ReleaseWindow>> {
+  const { offset, limit, matches } = query;
+  const warnings: string[] = [];
+
+  const scan = await scanReleases(listing, 0, listing.maxPageSize, (read) => read.releases.length >= MAX_SCANNED);
+  if (!scan.ok) {
+    return scan;
+  }
+  if (!scan.data.exhausted) {
+    warnings.push(`Only the ${scan.data.releases.length} most recent releases were sorted`);
+  }
+
+  const candidates = scan.data.releases.filter(query.matchesUndated).map((entry) => entry.release);
+  candidates.sort(byVersion);
+
+  const releases: ReleaseData[] = [];
+  let position = offset;
+  let resolved = 0;
+  while (releases.length < limit && position < candidates.length && resolved < MAX_RESOLVED) {
+    const batch = candidates.slice(position, position + Math.min(limit - releases.length, MAX_RESOLVED - resolved));
+    position += batch.length;
+    resolved += batch.filter((release) => release.published_at === null).length;
+    for (const release of await resolveReleases(listing, batch)) {
+      if (matches({ release, offset: position })) releases.push(release);
+    }
+  }
+
+  const ended = position >= candidates.length;
+  if (!ended && releases.length < limit) {
+    warnings.push(`Dated ${resolved} releases without filling the page; continue with meta.pagination.next_cursor`);
+  }
+
+  return createSuccessResponse(
+    {
+      releases,
+      nextOffset: ended ? null : position,
+      totalCount: offset === 0 && ended && scan.data.exhausted ? releases.length : null,
+      empty: offset === 0 && scan.data.exhausted && scan.data.releases.length === 0,
+    },
+    { source: scan.meta.source, warnings: [...scan.meta.warnings, ...warnings] }
+  );
+}
+
+/**
+ * The page of releases a query asks for from a listing
+ */
+async function readReleases(listing: ReleaseListing, query: ReleaseQuery): Promise<ApiResponse<ReleaseWindow>> {
+  const { offset, limit, matches } = query;
+  const sort = query.sort ?? listing.defaultSort;
+
+  if (listing.resolve && sort === 'date') {
     return createErrorResponse(
       'INVALID_INPUT',
-      'Invalid GitHub repository URL. Expected format: https://github.com/owner/repo',
-      { provided_url: repoUrl }
+      `The ${listing.source} cannot be sorted by date, which takes requests of its own for each; sort by version`,
+      { source: listing.source, sort }
     );
   }
+  if (listing.resolve && query.dated) {
+    return readResolving(listing, query);
+  }
+
+  const pastSince = listing.newestFirst ? query.pastSince : () => false;
+  const warnings: string[] = [];
+  let releases: ReleaseData[];
+  let nextOffset: number | null;
+  let totalCount: number | null;
+  let scan: ApiResponse<Scan>;
+
+  if (sort) {
+    // Sorting needs every release, so the offset counts sorted matches
+    let ended = false;
+    scan = await scanReleases(listing, 0, listing.maxPageSize, (read, page) => {
+      ended = pastSince(page);
+      return ended || read.releases.length >= MAX_SCANNED;
+    });
+    if (!scan.ok) {
+      return scan;
+    }
+    ended ||= scan.data.exhausted;
+
+    const sorted = scan.data.releases.filter(matches).map((entry) => entry.release);
+    sorted.sort(sort === 'version' ? byVersion : byDate);
+    releases = sorted.slice(offset, offset + limit);
+    nextOffset = offset + limit < sorted.length ? offset + limit : null;
+    totalCount = ended ? sorted.length : null;
+    if (!ended) {
+      warnings.push(`Only the ${scan.data.releases.length} most recent releases were sorted`);
+    }
+  } else if (query.filtered) {
+    // The offset counts releases as the listing holds them, matching or not
+    let ended = false;
+    scan = await scanReleases(listing, offset, listing.maxPageSize, (read, page) => {
+      ended = pastSince(page);
+      return ended || read.releases.filter(matches).length >= limit || read.releases.length >= MAX_SCANNED;
+    });
+    if (!scan.ok) {
+      return scan;
+    }
+    ended ||= scan.data.exhausted;
+
+    const found = scan.data.releases.filter(matches);
+    const page = found.slice(0, limit);
+    releases = page.map((entry) => entry.release);
+    if (page.length === limit) {
+      const after = page[page.length - 1].offset + 1;
+      nextOffset = !ended || found.length > limit ? after : null;
+    } else {
+      nextOffset = ended ? null : offset + scan.data.releases.length;
+      if (!ended) {
+        warnings.push(
+          `Read ${scan.data.releases.length} releases without filling the page; continue with meta.pagination.next_cursor`
+        );
+      }
+    }
+    totalCount = offset === 0 && ended ? found.length : null;
+  } else {
+    // Pages hold the page size asked for, so one page covers a request
+    // unless the limit is larger than the listing serves
+    scan = await scanReleases(
+      listing,
+      offset,
+      Math.min(limit, listing.maxPageSize),
+      (read) => read.releases.length >= limit
+    );
+    if (!scan.ok) {
+      return scan;
+    }
+
+    releases = scan.data.releases.slice(0, limit).map((entry) => entry.release);
+    const more = !scan.data.exhausted || scan.data.releases.length > limit;
+    nextOffset = more ? offset + releases.length : null;
+    totalCount = scan.data.totalCount;
+  }
+
+  // Dates the listing left out are read for the page alone
+  releases = await resolveReleases(listing, releases);
+
+  return createSuccessResponse(
+    {
+      releases,
+      nextOffset,
+      totalCount,
+      empty: offset === 0 && scan.data.exhausted && scan.data.releases.length === 0,
+    },
+    { source: scan.meta.source, warnings: [...scan.meta.warnings, ...warnings] }
+  );
+}
+
+/**
+ * The page of releases a query asks for from one source
+ */
+async function readSource(
+  source: ReleaseSource,
+  provider: ForgeProvider,
+  repo: ParsedRepoInfo,
+  query: ReleaseQuery
+): Promise<ApiResponse<ReleaseWindow & { listing: ReleaseListing }>> {
+  const listing = await openListing(source, provider, repo);
+  if (!listing.ok) {
+    return listing;
+  }
+  const window = await readReleases(listing.data, query);
+  if (!window.ok) {
+    return window;
+  }
+  return createSuccessResponse(
+    { ...window.data, listing: listing.data },
+    { source: window.meta.source, warnings: [...window.meta.warnings, ...listing.meta.warnings] }
+  );
+}
+
+/**
+ * List releases a page at a time, as the forge orders them (newest first)
+ * or sorted by version or date, optionally filtered. Releases come from the
+ * forge, from the changelog file when the forge has none, or from the tags
+ * when there is no changelog either. A cursor resumes with the source,
+ * limit and filters of the page it came from.
+ */
+export async function releaseNotes(
+  repoUrl: string,
+  limit: number = 5,
+  options: ReleaseNotesOptions = {}
+): Promise<ApiResponse<ReleaseNotesData>> {
+  const parsed = parseRepoReference(repoUrl);
+
+  if (!parsed.ok) {
+    return invalidRepoUrl(repoUrl, parsed.reason);
+  }
+
+  const repoInfo = parsed.repo;
 
   // Validate limit
   if (limit < 1 || limit > 100) {
@@ -32,87 +546,131 @@ export async function releaseNotes(
     );
   }
 
-  const apiUrl = `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}/releases?per_page=${limit}`;
+  const range = options.versionRange ? parseRange(options.versionRange) : null;
+  if (options.versionRange && !range) {
+    return createErrorResponse('INVALID_INPUT', `Invalid version range: ${options.versionRange}`, {
+      version_range: options.versionRange,
+    });
+  }
+  const since = options.since ? Date.parse(options.since) : null;
+  if (since !== null && isNaN(since)) {
+    return createErrorResponse('INVALID_INPUT', `Invalid date: ${options.since}`, { since: options.since });
+  }
 
-  try {
-    const response = await rateLimitedFetch(apiUrl);
-
-    if (response.status === 404) {
-      return createErrorResponse(
-        'UPSTREAM_ERROR',
-        `Repository not found: ${repoInfo.owner}/${repoInfo.repo}`,
-        { status: 404 }
-      );
-    }
+  const includePrereleases = options.includePrereleases ?? true;
+  const includeDrafts = options.includeDrafts ?? true;
+  const filtered = !includePrereleases || !includeDrafts || since !== null || range !== null;
+  const matchesUndated = ({ release }: ScannedRelease) =>
+    (includePrereleases || (!release.prerelease && !release.version?.prerelease)) &&
+    (includeDrafts || !release.draft) &&
+    (range === null || (release.version !== null && satisfies(release.version, range)));
+  const matches = (entry: ScannedRelease) =>
+    matchesUndated(entry) &&
+    (since === null || (entry.release.published_at !== null && Date.parse(entry.release.published_at) >= since));
 
-    if (response.status === 403) {
-      const rateLimitRemaining = response.headers.get('x-ratelimit-remaining');
-      if (rateLimitRemaining === '0') {
-        const resetTime = response.headers.get('x-ratelimit-reset');
-        return createErrorResponse(
-          'RATE_LIMITED',
-          'GitHub API rate limit exceeded',
-          {
-            reset_at: resetTime ? new Date(parseInt(resetTime) * 1000).toISOString() : null,
-          }
-        );
+  // Listings run newest first, so a page published wholly before since ends the search
+  const pastSince = (page: ScannedRelease[]) =>
+    since !== null &&
+    page.length > 0 &&
+    page.every(({ release }) => release.published_at !== null && Date.parse(release.published_at) < since);
+
+  const provider = providerFor(repoInfo);
+  const scopeOf = (source: ReleaseSource) =>
+    `release_notes ${provider.repositoryWebUrl(repoInfo)} ${JSON.stringify({
+      source,
+      // A changelog is read at the ref and in the directory of a deep link
+      ref: repoInfo.ref ?? null,
+      path: repoInfo.path ?? null,
+      includePrereleases,
+      includeDrafts,
+      since: options.since ?? null,
+      range: options.versionRange ?? null,
+      sort: options.sort ?? null,
+    })}`;
+
+  // Sources in the order they are tried: each only when those before it hold no releases
+  let sources: ReleaseSource[] = options.source ? [options.source] : [...RELEASE_SOURCES];
+  let offset = 0;
+  let pageLimit = limit;
+  if (options.cursor) {
+    let cursor: CursorResult = { ok: false, reason: 'Cursor is malformed' };
+    for (const source of sources) {
+      cursor = decodeCursor(options.cursor, scopeOf(source));
+      if (cursor.ok) {
+        sources = [source];
+        break;
       }
-      return createErrorResponse('UPSTREAM_ERROR', 'Access forbidden', { status: 403 });
     }
-
-    if (!response.ok) {
-      return createErrorResponse(
-        'UPSTREAM_ERROR',
-        `GitHub API error: ${response.status} ${response.statusText}`,
-        { status: response.status }
-      );
+    if (!cursor.ok) {
+      return invalidCursor(cursor.reason);
     }
+    offset = cursor.position.offset;
+    pageLimit = cursor.position.limit;
+  }
 
-    const data = (await response.json()) as GitHubReleaseResponse[];
-
-    const releases: ReleaseData[] = data.map((release) => ({
-      tag_name: release.tag_name,
-      name: release.name,
-      body: release.body,
-      published_at: release.published_at,
-      prerelease: release.prerelease,
-      draft: release.draft,
-      html_url: release.html_url,
-    }));
-
-    // Check for pagination
-    const linkHeader = response.headers.get('link');
-    let nextCursor: string | null = null;
-    if (linkHeader && linkHeader.includes('rel="next"')) {
-      // Extract page number from link header for pagination info
-      const match = linkHeader.match(/page=(\d+)>; rel="next"/);
-      if (match) {
-        nextCursor = match[1];
+  const query: ReleaseQuery = {
+    offset,
+    limit: pageLimit,
+    sort: options.sort,
+    filtered,
+    dated: since !== null,
+    matches,
+    matchesUndated,
+    pastSince,
+  };
+
+  try {
+    const fallbackWarnings: string[] = [];
+    let chosen: SuccessResponse<ReleaseWindow & { listing: ReleaseListing }> | null = null;
+
+    for (const [index, source] of sources.entries()) {
+      const result = await readSource(source, provider, repoInfo, query);
+      if (!result.ok) {
+        // The first source fails the call; the others could only have filled in for it
+        if (index === 0) {
+          return result;
+        }
+        fallbackWarnings.push(`Could not read the ${source}: ${result.error.message}`);
+        continue;
+      }
+      if (!chosen || !result.data.empty) {
+        chosen = result;
       }
+      if (!result.data.empty) break;
     }
 
+    // The first source either failed the call or was chosen
+    const page = chosen!;
+    const { releases, nextOffset, totalCount, listing } = page.data;
+    const empty =
+      releases.length === 0 && offset === 0 ? [filtered ? 'No releases match the filters' : listing.empty] : [];
+
     return createSuccessResponse(
       {
         releases,
-        total_count: releases.length,
+        total_count: totalCount,
       },
       {
-        source: apiUrl,
-        next_cursor: nextCursor,
-        warnings: releases.length === 0 ? ['No releases found for this repository'] : [],
+        source: page.meta.source,
+        source_type: listing.source,
+        next_cursor:
+          nextOffset === null ? null : encodeCursor(scopeOf(listing.source), { offset: nextOffset, limit: pageLimit }),
+        warnings: [...page.meta.warnings, ...fallbackWarnings, ...empty],
       }
     );
   } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return createErrorResponse('TIMEOUT', 'Request timed out', {
-          timeout_ms: getConfig().requestTimeoutMs,
-        });
-      }
-      return createErrorResponse('INTERNAL_ERROR', error.message, {
-        error_name: error.name,
-      });
-    }
-    return createErrorResponse('INTERNAL_ERROR', 'An unexpected error occurred');
+    return toErrorResponse(error);
   }
 }
+
+/** Highest version first; tags naming no version last */
+function byVersion(a: ReleaseData, b: ReleaseData): number {
+  if (!a.version || !b.version) return a.version ? -1 : b.version ? 1 : byDate(a, b);
+  return compareVersions(b.version, a.version) || byDate(a, b);
+}
+
+/** Newest first; unpublished drafts last */
+function byDate(a: ReleaseData, b: ReleaseData): number {
+  if (!a.published_at || !b.published_at) return a.published_at ? -1 : b.published_at ? 1 : 0;
+  return Date.parse(b.published_at) - Date.parse(a.published_at);
+}
@@ -0,0 +1,138 @@
+import {
+  type ApiResponse,
+  type ListTreeData,
+  type TreeEntry,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import { providerFor } from '../providers/index.js';
+import { linkedDirectory, parseRepoReference } from '../repo-url.js';
+import { invalidRepoUrl, toErrorResponse } from './errors.js';
+import { type RefOptions } from './overview.js';
+
+export interface ListTreeOptions extends RefOptions {
+  /** Directory to list (default: the directory of a deep link, else the root) */
+  path?: string;
+  /** Directory levels below path to include (default: 2) */
+  depth?: number;
+}
+
+/**
+ * Total size of the files below each directory, or null when a size is unknown
+ */
+function directorySizes(entries: TreeEntry[]): Map<string, number | null> {
+  const sizes = new Map<string, number | null>();
+
+  for (const entry of entries) {
+    if (entry.type !== 'file') continue;
+    const segments = entry.path.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const dir = segments.slice(0, i).join('/');
+      const total = sizes.has(dir) ? sizes.get(dir)! : 0;
+      sizes.set(dir, total === null || entry.size === null ? null : total + entry.size);
+    }
+  }
+
+  return sizes;
+}
+
+export async function listTree(
+  repoUrl: string,
+  options: ListTreeOptions = {}
+): Promise<ApiResponse<ListTreeData>> {
+  const parsed = parseRepoReference(repoUrl);
+
+  if (!parsed.ok) {
+    return invalidRepoUrl(repoUrl, parsed.reason);
+  }
+
+  const repoInfo = options.ref ? { ...parsed.repo, ref: options.ref } : parsed.repo;
+
+  const depth = options.depth ?? 2;
+  if (!Number.isInteger(depth) || depth < 1 || depth > 20) {
+    return createErrorResponse('INVALID_INPUT', 'Depth must be between 1 and 20', {
+      provided_depth: depth,
+    });
+  }
+
+  const root = (options.path ?? linkedDirectory(repoInfo)).replace(/^\/+|\/+$/g, '');
+  const provider = providerFor(repoInfo);
+
+  try {
+    let resolved = options.resolvedRef;
+    if (!resolved) {
+      const ref = repoInfo.ref ?? (await provider.fetchDefaultBranch(repoInfo));
+      if (!ref) {
+        return createErrorResponse(
+          'UPSTREAM_ERROR',
+          `Could not determine default branch for ${repoInfo.owner}/${repoInfo.repo}. Repository may not exist or be private.`,
+          { owner: repoInfo.owner, repo: repoInfo.repo }
+        );
+      }
+
+      const resolution = await provider.resolveRef(repoInfo, ref);
+      if (!resolution.ok) {
+        return resolution;
+      }
+      resolved = resolution.data;
+    }
+
+    const listing = await provider.fetchTree(repoInfo, resolved.sha);
+    if (!listing.ok) {
+      return listing;
+    }
+    const tree = listing.data;
+
+    const warnings: string[] = [];
+    if (tree.truncated) {
+      warnings.push(
+        `${provider.label} returned a truncated tree; entries and directory sizes may be incomplete`
+      );
+    }
+
+    if (
+      root !== '' &&
+      !tree.truncated &&
+      !tree.entries.some((entry) => entry.type === 'dir' && entry.path === root)
+    ) {
+      return createErrorResponse(
+        'INVALID_INPUT',
+        `No directory "${root}" at ${resolved.ref} in ${repoInfo.owner}/${repoInfo.repo}`,
+        { path: root, ref: resolved.ref }
+      );
+    }
+
+    const prefix = root === '' ? '' : `${root}/`;
+    const sizes = directorySizes(tree.entries);
+    const entries = tree.entries
+      .filter(
+        (entry) =>
+          entry.path.startsWith(prefix) &&
+          entry.path.slice(prefix.length).split('/').length <= depth
+      )
+      .map((entry) =>
+        // Directories without files below them are empty
+        entry.type === 'dir'
+          ? { ...entry, size: sizes.has(entry.path) ? sizes.get(entry.path)! : 0 }
+          : entry
+      )
+      .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+    return createSuccessResponse(
+      {
+        path: root,
+        depth,
+        ref: resolved.ref,
+        sha: resolved.sha,
+        entries,
+        truncated: tree.truncated,
+      },
+      {
+        source: provider.repositoryWebUrl(repoInfo),
+        warnings,
+      }
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  type ApiResponse,
+  type BreakingChange,
+  type ReleaseVersion,
+  type UpgradeNotesData,
+  type UpgradeVersion,
+  createSuccessResponse,
+  createErrorResponse,
+} from '../types.js';
+import { breakingChangesInCommit, breakingChangesInNotes } from '../changelog/index.js';
+import { providerFor } from '../providers/index.js';
+import { parseRepoReference } from '../repo-url.js';
+import { compareVersions, parseVersion } from '../semver.js';
+import { invalidRepoUrl, toErrorResponse } from './errors.js';
+import { releaseNotes } from './releases.js';
+
+export interface UpgradeNotesOptions {
+  /** Include prerelease versions in between (default: only when to is a prerelease) */
+  includePrereleases?: boolean;
+}
+
+/** A version as a range writes it, without its package */
+function rangeVersion({ major, minor, patch, prerelease }: ReleaseVersion): string {
+  return `${major}.${minor}.${patch}${prerelease ? `-${prerelease}` : ''}`;
+}
+
+/**
+ * What changed between two versions: the release notes of every version
+ * after from up to to, or the commits in between when to has no release, with
+ * the breaking changes they mark
+ */
+export async function upgradeNotes(
+  repoUrl: string,
+  from: string,
+  to: string,
+  options: UpgradeNotesOptions = {}
+): Promise<ApiResponse<UpgradeNotesData>> {
+  const parsed = parseRepoReference(repoUrl);
+
+  if (!parsed.ok) {
+    return invalidRepoUrl(repoUrl, parsed.reason);
+  }
+
+  const repoInfo = parsed.repo;
+  const fromVersion = parseVersion(from);
+  const toVersion = parseVersion(to);
+  if (fromVersion && toVersion && compareVersions(fromVersion, toVersion) >= 0) {
+    return createErrorResponse('INVALID_INPUT', `"${from}" is not an earlier version than "${to}"`, { from, to });
+  }
+
+  const provider = providerFor(repoInfo);
+  const warnings: string[] = [];
+  const versions: UpgradeVersion[] = [];
+  let source: string | undefined;
+
+  try {
+    // Tags naming versions select releases by range; other refs go straight to the commits
+    if (fromVersion && toVersion) {
+      const versionRange = `>${rangeVersion(fromVersion)} <=${rangeVersion(toVersion)}`;
+      const pkg = toVersion.package ?? fromVersion.package;
+      let cursor: string | undefined;
+      do {
+        const page = await releaseNotes(repoUrl, 100, {
+          cursor,
+          versionRange,
+          includeDrafts: false,
+          includePrereleases: options.includePrereleases ?? toVersion.prerelease !== null,
+          sort: 'version',
+        });
+        if (!page.ok) {
+          return page;
+        }
+
+        source ??= page.meta.source;
+        for (const warning of page.meta.warnings) {
+          if (!warnings.includes(warning) && warning !== 'No releases match the filters') warnings.push(warning);
+        }
+        for (const release of page.data.releases) {
+          // A monorepo tags each package; only the package upgraded counts
+          if (pkg !== null && release.version?.package !== pkg) continue;
+          versions.push({
+            tag_name: release.tag_name,
+            version: release.version,
+            name: release.name,
+            published_at: release.published_at,
+            html_url: release.html_url,
+            source: 'release',
+            body: release.body,
+            commits: [],
+            breaking: breakingChangesInNotes(release.body ?? '').map((item) => ({
+              tag_name: release.tag_name,
+              ...item,
+            })),
+          });
+        }
+        cursor = page.meta.pagination?.next_cursor ?? undefined;
+      } while (cursor);
+      // Sorted highest first; upgrades read oldest first
+      versions.reverse();
+    }
+
+    const released = versions.some(
+      (entry) => entry.tag_name === to || (entry.version && toVersion && compareVersions(entry.version, toVersion) === 0)
+    );
+    if (!released) {
+      // The commits since the last release cover a version that has none
+      const base = versions.length > 0 ? versions[versions.length - 1].tag_name : from;
+      const comparison = await provider.compareCommits(repoInfo, base, to);
+      if (!comparison.ok) {
+        if (versions.length === 0) {
+          return comparison;
+        }
+        warnings.push(`No release found for ${to}, and its commits could not be listed: ${comparison.error.message}`);
+      } else {
+        source ??= comparison.meta.source;
+        if (comparison.data.truncated) {
+          warnings.push(`${provider.label} listed only part of the commits between ${base} and ${to}`);
+        }
+
+        const breaking: BreakingChange[] = [];
+        const commits = comparison.data.commits.map((commit) => {
+          const found = breakingChangesInCommit(commit.message);
+          breaking.push(...found.map((item) => ({ tag_name: to, ...item })));
+          return { ...commit, breaking: found.length > 0 };
+        });
+        versions.push({
+          tag_name: to,
+          version: toVersion,
+          name: null,
+          published_at: commits.length > 0 ? commits[commits.length - 1].date : null,
+          html_url: null,
+          source: 'commits',
+          body: null,
+          commits,
+          breaking,
+        });
+        if (versions.length === 1 && fromVersion && toVersion) {
+          warnings.push(`No releases found between ${from} and ${to}; listing the commits instead`);
+        }
+      }
+    }
+
+    return createSuccessResponse(
+      {
+        from,
+        to,
+        versions,
+        breaking: versions.flatMap((entry) => entry.breaking),
+      },
+      { source, warnings }
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -1,277 +1,20 @@
 import { createServer, IncomingMessage, ServerResponse, Server } from 'http';
 import { getConfig } from '../config.js';
 import {
-  RepoOverviewInputSchema,
-  ExtractKeyFilesInputSchema,
-  ReleaseNotesInputSchema,
-  ActivitySnapshotInputSchema,
-} from '../types.js';
-import { repoOverview, extractKeyFiles, releaseNotes, activitySnapshot } from '../tools/index.js';
-
-/**
- * JSON-RPC request interface
- */
-interface JsonRpcRequest {
-  jsonrpc: string;
-  id: number | string;
-  method: string;
-  params?: Record<string, unknown>;
-}
-
-/**
- * JSON-RPC response interface
- */
-interface JsonRpcResponse {
-  jsonrpc: '2.0';
-  id: number | string;
-  result?: unknown;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-/**
- * Tool definitions for MCP tools/list
- */
-const toolDefinitions = [
-  {
-    name: 'repo_overview',
-    description:
-      'Get a comprehensive overview of a public GitHub repository including name, description, stars, forks, language, topics, license, and timestamps.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        repo_url: {
-          type: 'string',
-          description:
-            'The GitHub repository URL (e.g., https://github.com/owner/repo)',
-        },
-      },
-      required: ['repo_url'],
-    },
-  },
-  {
-    name: 'extract_key_files',
-    description:
-      'Fetch the contents of key files from a GitHub repository such as README.md, LICENSE, package.json, and pyproject.toml.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        repo_url: {
-          type: 'string',
-          description:
-            'The GitHub repository URL (e.g., https://github.com/owner/repo)',
-        },
-        paths: {
-          type: 'array',
-          items: { type: 'string' },
-          description:
-            'Optional array of file paths to fetch. Defaults to: README.md, LICENSE, package.json, pyproject.toml',
-        },
-      },
-      required: ['repo_url'],
-    },
-  },
-  {
-    name: 'release_notes',
-    description:
-      'Get recent release notes from a GitHub repository including tag names, release names, body content, and publication dates.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        repo_url: {
-          type: 'string',
-          description:
-            'The GitHub repository URL (e.g., https://github.com/owner/repo)',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of releases to fetch (1-100, default: 5)',
-        },
-      },
-      required: ['repo_url'],
-    },
-  },
-  {
-    name: 'activity_snapshot',
-    description:
-      'Get a snapshot of recent activity for a GitHub repository including last commit date, open issues count, open PRs count, and contributors count.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        repo_url: {
-          type: 'string',
-          description:
-            'The GitHub repository URL (e.g., https://github.com/owner/repo)',
-        },
-      },
-      required: ['repo_url'],
-    },
-  },
-];
-
-/**
- * Handle a single JSON-RPC request
- */
-async function handleJsonRpcRequest(request: JsonRpcRequest): Promise<JsonRpcResponse> {
-  const { id, method, params } = request;
-
-  try {
-    switch (method) {
-      case 'initialize': {
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            protocolVersion: '2024-11-05',
-            capabilities: {
-              tools: {},
-            },
-            serverInfo: {
-              name: 'git-repo-brief',
-              version: '1.0.0',
-            },
-          },
-        };
-      }
-
-      case 'tools/list': {
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            tools: toolDefinitions,
-          },
-        };
-      }
-
-      case 'tools/call': {
-        const toolName = params?.name as string;
-        const args = params?.arguments as Record<string, unknown>;
-
-        let result: unknown;
-
-        switch (toolName) {
-          case 'repo_overview': {
-            const parsed = RepoOverviewInputSchema.safeParse(args);
-            if (!parsed.success) {
-              result = {
-                ok: false,
-                error: {
-                  code: 'INVALID_INPUT',
-                  message: 'Invalid input parameters',
-                  details: { errors: parsed.error.errors },
-                },
-                meta: { retrieved_at: new Date().toISOString() },
-              };
-            } else {
-              result = await repoOverview(parsed.data.repo_url);
-            }
-            break;
-          }
-
-          case 'extract_key_files': {
-            const parsed = ExtractKeyFilesInputSchema.safeParse(args);
-            if (!parsed.success) {
-              result = {
-                ok: false,
-                error: {
-                  code: 'INVALID_INPUT',
-                  message: 'Invalid input parameters',
-                  details: { errors: parsed.error.errors },
-                },
-                meta: { retrieved_at: new Date().toISOString() },
-              };
-            } else {
-              result = await extractKeyFiles(parsed.data.repo_url, parsed.data.paths);
-            }
-            break;
-          }
-
-          case 'release_notes': {
-            const parsed = ReleaseNotesInputSchema.safeParse(args);
-            if (!parsed.success) {
-              result = {
-                ok: false,
-                error: {
-                  code: 'INVALID_INPUT',
-                  message: 'Invalid input parameters',
-                  details: { errors: parsed.error.errors },
-                },
-                meta: { retrieved_at: new Date().toISOString() },
-              };
-            } else {
-              result = await releaseNotes(parsed.data.repo_url, parsed.data.limit);
-            }
-            break;
-          }
-
-          case 'activity_snapshot': {
-            const parsed = ActivitySnapshotInputSchema.safeParse(args);
-            if (!parsed.success) {
-              result = {
-                ok: false,
-                error: {
-                  code: 'INVALID_INPUT',
-                  message: 'Invalid input parameters',
-                  details: { errors: parsed.error.errors },
-                },
-                meta: { retrieved_at: new Date().toISOString() },
-              };
-            } else {
-              result = await activitySnapshot(parsed.data.repo_url);
-            }
-            break;
-          }
-
-          default:
-            return {
-              jsonrpc: '2.0',
-              id,
-              error: {
-                code: -32601,
-                message: `Unknown tool: ${toolName}`,
-              },
-            };
-        }
-
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          },
-        };
-      }
-
-      default:
-        return {
-          jsonrpc: '2.0',
-          id,
-          error: {
-            code: -32601,
-            message: `Method not found: ${method}`,
-          },
-        };
-    }
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return {
-      jsonrpc: '2.0',
-      id,
-      error: {
-        code: -32603,
-        message: `Internal error: ${message}`,
-      },
-    };
-  }
-}
+  type JsonRpcRequest,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  handleJsonRpcRequest,
+  isNotification,
+  isResponse,
+  negotiateProtocolVersion,
+} from './jsonrpc.js';
+import {
+  type McpSession,
+  createSession,
+  getSession,
+  endSession,
+  clearSessions,
+} from './sessions.js';
 
 /**
  * Read the request body as a string
@@ -319,29 +62,266 @@ function handleMethodNotAllowed(res: ServerResponse): void {
 }
 
 /**
- * Handle MCP JSON-RPC endpoint
+ * Header carrying the Streamable HTTP session id
  */
-async function handleMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+const SESSION_HEADER = 'mcp-session-id';
+
+/**
+ * Header naming the protocol version of requests after initialize
+ */
+const PROTOCOL_VERSION_HEADER = 'mcp-protocol-version';
+
+/**
+ * Version assumed for requests that name none, as the specification requires
+ */
+const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+/**
+ * Interval between SSE keep-alive comments
+ */
+const SSE_KEEPALIVE_MS = 25000;
+
+/**
+ * Send a JSON-RPC error outside of a dispatched request (transport-level failures)
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  statusCode: number,
+  code: number,
+  message: string,
+  id: JsonRpcRequest['id'] = null
+): void {
+  sendJson(res, statusCode, {
+    jsonrpc: '2.0',
+    id: id ?? null,
+    error: { code, message },
+  });
+}
+
+/**
+ * Whether the client's Accept header allows a server-sent event stream
+ */
+function acceptsEventStream(req: IncomingMessage): boolean {
+  return (req.headers.accept ?? '').includes('text/event-stream');
+}
+
+/**
+ * Open a server-sent event stream on the response
+ */
+function openEventStream(res: ServerResponse, headers: Record<string, string> = {}): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    ...headers,
+  });
+  res.flushHeaders();
+}
+
+/**
+ * Write one JSON-RPC message as an SSE event
+ */
+function writeEvent(res: ServerResponse, message: unknown, session?: McpSession): void {
+  const idLine = session ? `id: ${session.nextEventId++}\n` : '';
+  res.write(`${idLine}event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+/**
+ * Resolve the session named by the request header. Sends the error response and
+ * returns null if the header is missing (when required) or names an unknown session.
+ */
+function resolveSession(
+  req: IncomingMessage,
+  res: ServerResponse,
+  required: boolean
+): McpSession | undefined | null {
+  const sessionId = req.headers[SESSION_HEADER];
+
+  if (typeof sessionId !== 'string' || sessionId === '') {
+    if (required) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return null;
+    }
+    return undefined;
+  }
+
+  const session = getSession(sessionId);
+  if (!session) {
+    sendJsonRpcError(res, 404, -32001, 'Session not found');
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Deliver a server-initiated message on the session's GET streams, if any
+ */
+function sendToSession(session: McpSession | undefined, message: unknown): void {
+  if (!session) return;
+  for (const stream of session.streams) {
+    writeEvent(stream, message, session);
+  }
+}
+
+/**
+ * Handle POST /mcp: one JSON-RPC message (or a batch) per request. Tool calls that
+ * ask for progress are answered over an SSE stream when the client accepts one.
+ */
+async function handleMcpPost(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = await readBody(req);
+
+  let payload: JsonRpcRequest | JsonRpcRequest[];
   try {
-    const body = await readBody(req);
-    const request: JsonRpcRequest = JSON.parse(body);
-
-    if (!request.jsonrpc || request.jsonrpc !== '2.0') {
-      sendJson(res, 400, {
-        jsonrpc: '2.0',
-        id: request.id || 0,
-        error: {
-          code: -32600,
-          message: 'Invalid Request: missing or invalid jsonrpc version',
-        },
-      });
-      return;
+    payload = JSON.parse(body);
+  } catch {
+    sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON');
+    return;
+  }
+
+  const messages = Array.isArray(payload) ? payload : [payload];
+  if (messages.length === 0) {
+    sendJsonRpcError(res, 400, -32600, 'Invalid Request: empty batch');
+    return;
+  }
+
+  const invalid = messages.find((m) => !m || typeof m !== 'object' || m.jsonrpc !== '2.0');
+  if (invalid !== undefined) {
+    sendJsonRpcError(
+      res,
+      400,
+      -32600,
+      'Invalid Request: missing or invalid jsonrpc version',
+      invalid?.id
+    );
+    return;
+  }
+
+  const isInitialize = messages.some((m) => m.method === 'initialize');
+  if (isInitialize && messages.length > 1) {
+    sendJsonRpcError(res, 400, -32600, 'Invalid Request: initialize must not be batched');
+    return;
+  }
+
+  const requestedVersion = req.headers[PROTOCOL_VERSION_HEADER];
+  if (
+    !isInitialize &&
+    typeof requestedVersion === 'string' &&
+    !SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+  ) {
+    sendJsonRpcError(res, 400, -32600, `Invalid Request: unsupported protocol version ${requestedVersion}`);
+    return;
+  }
+
+  // Requests without a session header are served statelessly
+  let session = isInitialize ? undefined : resolveSession(req, res, false);
+  if (session === null) return;
+
+  if (isInitialize) {
+    session = createSession(negotiateProtocolVersion(messages[0].params?.protocolVersion));
+  }
+
+  const protocolVersion =
+    session?.protocolVersion ??
+    (typeof requestedVersion === 'string' ? requestedVersion : DEFAULT_PROTOCOL_VERSION);
+
+  const sessionHeaders: Record<string, string> = session ? { 'Mcp-Session-Id': session.id } : {};
+
+  // Notifications and responses only need an acknowledgement
+  if (messages.every((m) => isNotification(m) || isResponse(m))) {
+    await Promise.all(messages.map((m) => handleJsonRpcRequest(m)));
+    res.writeHead(202, sessionHeaders);
+    res.end();
+    return;
+  }
+
+  const single = !Array.isArray(payload) ? payload : null;
+  const wantsProgress =
+    single?.method === 'tools/call' &&
+    (single.params?._meta as { progressToken?: unknown } | undefined)?.progressToken !==
+      undefined;
+
+  if (single && wantsProgress && acceptsEventStream(req)) {
+    openEventStream(res, sessionHeaders);
+    const response = await handleJsonRpcRequest(single, {
+      notify: (notification) => writeEvent(res, notification, session ?? undefined),
+      protocolVersion,
+    });
+    if (response !== null) {
+      writeEvent(res, response, session ?? undefined);
     }
+    res.end();
+    return;
+  }
+
+  const notify = (notification: unknown) => sendToSession(session ?? undefined, notification);
+  const responses = (
+    await Promise.all(messages.map((m) => handleJsonRpcRequest(m, { notify, protocolVersion })))
+  ).filter((r) => r !== null);
+
+  if (session) res.setHeader('Mcp-Session-Id', session.id);
+  sendJson(res, 200, single ? responses[0] : responses);
+}
+
+/**
+ * Handle GET /mcp: open a long-lived SSE stream for server-initiated messages
+ */
+function handleMcpGet(req: IncomingMessage, res: ServerResponse): void {
+  if (!acceptsEventStream(req)) {
+    sendJson(res, 406, { error: 'Not acceptable: client must accept text/event-stream' });
+    return;
+  }
+
+  const session = resolveSession(req, res, true);
+  if (!session) return;
+
+  openEventStream(res, { 'Mcp-Session-Id': session.id });
+  session.streams.add(res);
+
+  const keepAlive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+  keepAlive.unref();
+
+  res.on('close', () => {
+    clearInterval(keepAlive);
+    session.streams.delete(res);
+  });
+}
 
-    const response = await handleJsonRpcRequest(request);
-    sendJson(res, 200, response);
+/**
+ * Handle DELETE /mcp: end a session
+ */
+function handleMcpDelete(req: IncomingMessage, res: ServerResponse): void {
+  const session = resolveSession(req, res, true);
+  if (!session) return;
+
+  endSession(session.id);
+  res.writeHead(204);
+  res.end();
+}
+
+/**
+ * Handle MCP Streamable HTTP endpoint
+ */
+async function handleMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    switch (req.method?.toUpperCase()) {
+      case 'POST':
+        await handleMcpPost(req, res);
+        break;
+      case 'GET':
+        handleMcpGet(req, res);
+        break;
+      case 'DELETE':
+        handleMcpDelete(req, res);
+        break;
+      default:
+        handleMethodNotAllowed(res);
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
     sendJson(res, 500, {
       ok: false,
       error: message,
@@ -362,11 +342,7 @@ export function createHttpServer(): Server {
     try {
       switch (url.pathname) {
         case '/mcp':
-          if (method === 'POST') {
-            await handleMcpRequest(req, res);
-          } else {
-            handleMethodNotAllowed(res);
-          }
+          await handleMcpRequest(req, res);
           break;
 
         case '/health':
@@ -401,9 +377,9 @@ export function startHttpTransport(config: { port?: number; host?: string } = {}
   const httpServer = createHttpServer();
 
   httpServer.listen(port, host, () => {
-    console.log(`git-repo-brief HTTP server listening on http://${host}:${port}`);
-    console.log(`MCP endpoint: http://${host}:${port}/mcp`);
-    console.log(`Health check: http://${host}:${port}/health`);
+    console.error(`git-repo-brief HTTP server listening on http://${host}:${port}`);
+    console.error(`MCP endpoint: http://${host}:${port}/mcp`);
+    console.error(`Health check: http://${host}:${port}/health`);
   });
 
   return httpServer;
@@ -417,13 +393,15 @@ export async function runHttpTransport(): Promise<void> {
 
   // Handle graceful shutdown
   process.on('SIGINT', () => {
-    console.log('\nShutting down...');
+    console.error('\nShutting down...');
+    clearSessions();
     httpServer.close(() => {
       process.exit(0);
     });
   });
 
   process.on('SIGTERM', () => {
+    clearSessions();
     httpServer.close(() => {
       process.exit(0);
     });
@@ -1 +1,9 @@
 export { runHttpTransport, createHttpServer, startHttpTransport } from './http.js';
+export { clearSessions } from './sessions.js';
+export { createStdioTransport, startStdioTransport, type StdioTransport } from './stdio.js';
+export {
+  handleJsonRpcRequest,
+  toolDefinitions,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './jsonrpc.js';
@@ -0,0 +1,848 @@
+import {
+  type ProgressReporter,
+  RepoOverviewInputSchema,
+  ExtractKeyFilesInputSchema,
+  ListTreeInputSchema,
+  DependenciesInputSchema,
+  LicenseReportInputSchema,
+  ReadmeDigestInputSchema,
+  ReleaseNotesInputSchema,
+  UpgradeNotesInputSchema,
+  ActivitySnapshotInputSchema,
+  RepoBriefInputSchema,
+  RateLimitStatusInputSchema,
+  BRIEF_SECTIONS,
+  OUTPUT_FORMATS,
+  RELEASE_SOURCES,
+  type ApiResponse,
+  type OutputFormat,
+} from '../types.js';
+import { renderResult } from '../render/index.js';
+import {
+  createUpstreamContext,
+  runWithUpstreamContext,
+  summarizeUpstreamContext,
+} from '../upstream/index.js';
+import {
+  repoOverview,
+  extractKeyFiles,
+  listTree,
+  listDependencies,
+  licenseReport,
+  readmeDigest,
+  releaseNotes,
+  upgradeNotes,
+  activitySnapshot,
+  repoBrief,
+  rateLimitStatus,
+} from '../tools/index.js';
+
+/**
+ * JSON-RPC request interface
+ */
+export interface JsonRpcRequest {
+  jsonrpc: string;
+  id?: number | string | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC response interface
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+/**
+ * JSON-RPC notification sent from server to client
+ */
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Per-request context supplied by the transport
+ */
+export interface RequestContext {
+  /** Deliver a notification tied to the current request, if the transport can */
+  notify?: (notification: JsonRpcNotification) => void;
+  /** Protocol version in use with the client, once known */
+  protocolVersion?: string;
+}
+
+/**
+ * Protocol versions this server can speak, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * First protocol version whose tool results carry structuredContent. Versions
+ * are dates, so they compare as strings.
+ */
+const STRUCTURED_CONTENT_SINCE = '2025-06-18';
+
+/**
+ * Output format argument accepted by every tool
+ */
+const formatProperty = {
+  type: 'string',
+  enum: [...OUTPUT_FORMATS],
+  description:
+    'Output format for the text content: json (default, the full envelope), markdown, html or yaml. Clients on protocol version 2025-06-18 or later also receive the JSON envelope as structuredContent.',
+};
+
+/**
+ * Repository argument accepted by every repository tool
+ */
+const repoUrlProperty = {
+  type: 'string',
+  description:
+    'The repository, on github.com, gitlab.com, codeberg.org, bitbucket.org or a configured GitHub Enterprise, GitLab, Gitea or Forgejo host. Accepts web URLs (e.g., https://github.com/owner/repo or https://gitlab.com/group/project), deep links whose ref and path are used (e.g., https://github.com/owner/repo/tree/v2.1/packages/core), SSH clone URLs (git@github.com:owner/repo.git), owner/repo shorthand for GitHub, and prefixed shorthand (gitlab:group/project)',
+};
+
+/**
+ * Ref argument of the tools that read the repository at a commit
+ */
+const refProperty = {
+  type: 'string',
+  description:
+    'Branch, tag or commit SHA to read at (default: the ref of a deep link, else the default branch). Resolved to a commit SHA, which is reported in the output.',
+};
+
+/**
+ * Cache freshness argument accepted by every tool
+ */
+const maxAgeProperty = {
+  type: 'number',
+  description:
+    'Maximum acceptable age in seconds of cached upstream data. 0 forces revalidation upstream.',
+};
+
+const cursorProperty = {
+  type: 'string',
+  description: 'Opaque meta.pagination.next_cursor of a previous call, to fetch the page after it',
+};
+
+/**
+ * Tool definitions for MCP tools/list
+ */
+export const toolDefinitions = [
+  {
+    name: 'repo_overview',
+    description:
+      'Get a comprehensive overview of a public repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket including name, description, stars, forks, language, topics, license, and timestamps.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'extract_key_files',
+    description:
+      'Fetch the contents of key files from a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket: by default its README, license and the build manifests (package.json, Cargo.toml, go.mod, pom.xml, ...) found in the root directory, each with the reason it was chosen.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional array of file paths or globs (e.g. docs/**/*.md, .github/workflows/*.yml) to fetch. Defaults to the README, license and manifests in the root directory',
+        },
+        ref: refProperty,
+        max_files: {
+          type: 'number',
+          description: 'Maximum number of files to read after expanding globs (1-200, default: 50)',
+        },
+        max_bytes: {
+          type: 'number',
+          description:
+            'Maximum total bytes of the files returned; each file counts up to the per-file limit (default: CALL_MAX_BYTES, 1000000)',
+        },
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'list_tree',
+    description:
+      'List the files and directories of a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket to a given depth, with file sizes and the total size below each directory.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        path: {
+          type: 'string',
+          description: 'Directory to list (default: the directory of a deep link, else the repository root)',
+        },
+        depth: {
+          type: 'number',
+          description: 'Directory levels below path to include (1-20, default: 2)',
+        },
+        ref: refProperty,
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'dependencies',
+    description:
+      'List the dependencies declared in the manifests of a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket (package.json, pyproject.toml, requirements*.txt, Cargo.toml, go.mod, Gemfile, composer.json, pom.xml) as {ecosystem, name, version_spec, scope}. A manifest that cannot be parsed is reported with PARSE_ERROR without failing the others.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Manifests to read, relative to the directory of a deep link (default: the supported manifests in that directory, else the repository root)',
+        },
+        ref: refProperty,
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'license_report',
+    description:
+      'Identify the licenses of a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket and of each package in a monorepo: LICENSE/COPYING texts matched against SPDX license templates, license fields of manifests, multi-licensing, and a category for each (permissive, weak-copyleft, strong-copyleft or unknown).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        ref: refProperty,
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'readme_digest',
+    description:
+      'Digest the README of a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket, in Markdown, reStructuredText or AsciiDoc: its heading tree, installation and usage code blocks, badges by kind (CI, coverage, version, license, downloads, docs) with their targets, outbound links and images. Relative URLs are resolved against the repository at the commit read.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        ref: refProperty,
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'release_notes',
+    description:
+      'Get recent release notes from a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket (tags on Bitbucket, which has no releases) including tag names, release names, body content, and publication dates. Repositories without releases are read from their CHANGELOG, CHANGES, HISTORY or NEWS file, or else their git tags with the dates and messages of their commits or annotations, as meta.source_type reports. Pass meta.pagination.next_cursor back as cursor for the next page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        limit: {
+          type: 'number',
+          description:
+            'Maximum number of releases to fetch (1-100, default: 5); with a cursor, the limit of the page it came from',
+        },
+        cursor: cursorProperty,
+        include_prereleases: {
+          type: 'boolean',
+          description:
+            'Include prereleases, flagged as such or tagged with a prerelease version such as 2.0.0-rc.1 (default: true)',
+        },
+        include_drafts: {
+          type: 'boolean',
+          description: 'Include draft releases (default: true)',
+        },
+        since: {
+          type: 'string',
+          description: 'Only releases published at or after this ISO 8601 date or time',
+        },
+        version_range: {
+          type: 'string',
+          description:
+            'Only releases whose tag names a version in this semver range, e.g. ">=2.0.0 <3", "^1.4" or "1.x || 2.x". Tags may have a v prefix or a package, as in pkg@1.2.3',
+        },
+        sort: {
+          type: 'string',
+          enum: ['version', 'date'],
+          description:
+            'Order by version or by publication date, highest or newest first (default: as the forge lists them; tags are always sorted by version)',
+        },
+        source: {
+          type: 'string',
+          enum: [...RELEASE_SOURCES],
+          description:
+            'Read only the forge\'s releases, only the changelog file or only the tags (default: releases, then the changelog when there are none, then the tags)',
+        },
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'upgrade_notes',
+    description:
+      'Collect what changed between two versions of a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket: the release notes of every version after from up to to, oldest first, or the commits in between when to has no release. Breaking changes (BREAKING CHANGE footers, conventional commits with !, items under "Breaking" headings) are marked per version and listed together.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        from: {
+          type: 'string',
+          description: 'Tag of the version upgraded from, e.g. "v1.4.0"; excluded from the notes',
+        },
+        to: {
+          type: 'string',
+          description: 'Tag of the version upgraded to, e.g. "v2.1.0"; included in the notes',
+        },
+        include_prereleases: {
+          type: 'boolean',
+          description: 'Include prerelease versions in between (default: only when to is a prerelease)',
+        },
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url', 'from', 'to'],
+    },
+  },
+  {
+    name: 'activity_snapshot',
+    description:
+      'Get a snapshot of recent activity for a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket including last commit date, open issues count, open PRs (merge requests on GitLab) count, and contributors count.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        ref: refProperty,
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'repo_brief',
+    description:
+      'Generate a complete brief of a repository on GitHub, GitLab, Gitea/Forgejo or Bitbucket in one call: overview, key files, release notes and activity. Sections that fail are reported as warnings instead of failing the whole brief.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo_url: repoUrlProperty,
+        sections: {
+          type: 'array',
+          items: { type: 'string', enum: [...BRIEF_SECTIONS] },
+          description: 'Sections to include (default: all of overview, key_files, releases, activity)',
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'File paths or globs for the key_files section (default: the README, license and manifests in the root directory)',
+        },
+        ref: refProperty,
+        release_limit: {
+          type: 'number',
+          description: 'Maximum number of releases for the releases section (1-100, default: 5)',
+        },
+        format: formatProperty,
+        max_age: maxAgeProperty,
+      },
+      required: ['repo_url'],
+    },
+  },
+  {
+    name: 'rate_limit_status',
+    description:
+      'Report the remaining GitHub API budget for the core, search and graphql resources, when each resets, and whether a secondary rate limit is in effect. Does not consume any budget.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        host: {
+          type: 'string',
+          description: 'GitHub Enterprise host to report on (default: github.com)',
+        },
+        format: formatProperty,
+      },
+    },
+  },
+];
+
+/**
+ * Whether a JSON-RPC message is a notification (no id, expects no response)
+ */
+export function isNotification(request: JsonRpcRequest): boolean {
+  return request.id === undefined || request.id === null;
+}
+
+/**
+ * Whether a JSON-RPC message is a response sent by the client (no method),
+ * which is acknowledged rather than answered
+ */
+export function isResponse(message: JsonRpcRequest): boolean {
+  return message.method === undefined;
+}
+
+/**
+ * Pick the protocol version to answer an initialize request with
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+/**
+ * Build a progress reporter for a request carrying a progress token.
+ * Without a token or a notification channel, progress is discarded.
+ */
+function createProgressReporter(
+  params: Record<string, unknown> | undefined,
+  context: RequestContext
+): ProgressReporter {
+  const progressToken = (params?._meta as { progressToken?: string | number } | undefined)
+    ?.progressToken;
+  const notify = context.notify;
+
+  if (progressToken === undefined || !notify) {
+    return () => {};
+  }
+
+  // Progress must increase; tools reporting their own steps supersede the
+  // dispatcher's generic start/finish markers
+  let lastProgress = -1;
+
+  return (progress, total, message) => {
+    if (progress <= lastProgress) return;
+    lastProgress = progress;
+
+    notify({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined && { total }),
+        ...(message !== undefined && { message }),
+      },
+    });
+  };
+}
+
+/**
+ * Result of running a tool, before it is rendered
+ */
+interface ToolCallResult {
+  result: ApiResponse<unknown>;
+  format: OutputFormat;
+}
+
+/**
+ * Validate arguments and run the named tool. Returns null for unknown tools.
+ */
+async function callTool(
+  toolName: string,
+  args: Record<string, unknown> | undefined,
+  reportProgress: ProgressReporter
+): Promise<ToolCallResult | null> {
+  let result: ApiResponse<unknown>;
+  let format: OutputFormat = 'json';
+
+  switch (toolName) {
+    case 'repo_overview': {
+      const parsed = RepoOverviewInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await repoOverview(parsed.data.repo_url);
+      }
+      break;
+    }
+
+    case 'extract_key_files': {
+      const parsed = ExtractKeyFilesInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await extractKeyFiles(parsed.data.repo_url, parsed.data.paths, {
+          ref: parsed.data.ref,
+          maxFiles: parsed.data.max_files,
+          maxBytes: parsed.data.max_bytes,
+        });
+      }
+      break;
+    }
+
+    case 'list_tree': {
+      const parsed = ListTreeInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await listTree(parsed.data.repo_url, {
+          path: parsed.data.path,
+          depth: parsed.data.depth,
+          ref: parsed.data.ref,
+        });
+      }
+      break;
+    }
+
+    case 'dependencies': {
+      const parsed = DependenciesInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await listDependencies(parsed.data.repo_url, {
+          paths: parsed.data.paths,
+          ref: parsed.data.ref,
+        });
+      }
+      break;
+    }
+
+    case 'license_report': {
+      const parsed = LicenseReportInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await licenseReport(parsed.data.repo_url, { ref: parsed.data.ref });
+      }
+      break;
+    }
+
+    case 'readme_digest': {
+      const parsed = ReadmeDigestInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await readmeDigest(parsed.data.repo_url, { ref: parsed.data.ref });
+      }
+      break;
+    }
+
+    case 'release_notes': {
+      const parsed = ReleaseNotesInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await releaseNotes(parsed.data.repo_url, parsed.data.limit, {
+          cursor: parsed.data.cursor,
+          includePrereleases: parsed.data.include_prereleases,
+          includeDrafts: parsed.data.include_drafts,
+          since: parsed.data.since,
+          versionRange: parsed.data.version_range,
+          sort: parsed.data.sort,
+          source: parsed.data.source,
+        });
+      }
+      break;
+    }
+
+    case 'upgrade_notes': {
+      const parsed = UpgradeNotesInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await upgradeNotes(parsed.data.repo_url, parsed.data.from, parsed.data.to, {
+          includePrereleases: parsed.data.include_prereleases,
+        });
+      }
+      break;
+    }
+
+    case 'activity_snapshot': {
+      const parsed = ActivitySnapshotInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await activitySnapshot(parsed.data.repo_url, { ref: parsed.data.ref });
+      }
+      break;
+    }
+
+    case 'repo_brief': {
+      const parsed = RepoBriefInputSchema.safeParse(args);
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await repoBrief(parsed.data.repo_url, {
+          sections: parsed.data.sections,
+          paths: parsed.data.paths,
+          ref: parsed.data.ref,
+          releaseLimit: parsed.data.release_limit,
+          onProgress: reportProgress,
+        });
+      }
+      break;
+    }
+
+    case 'rate_limit_status': {
+      const parsed = RateLimitStatusInputSchema.safeParse(args ?? {});
+      if (!parsed.success) {
+        result = {
+          ok: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Invalid input parameters',
+            details: { errors: parsed.error.errors },
+          },
+          meta: { retrieved_at: new Date().toISOString() },
+        };
+      } else {
+        format = parsed.data.format;
+        result = await rateLimitStatus(parsed.data.host);
+      }
+      break;
+    }
+
+    default:
+      return null;
+  }
+
+  return { result, format };
+}
+
+/**
+ * Read the max_age argument shared by all tools, ignoring invalid values
+ * (schema validation reports those)
+ */
+function readMaxAge(args: Record<string, unknown> | undefined): number | undefined {
+  const maxAge = args?.max_age;
+  return typeof maxAge === 'number' && Number.isInteger(maxAge) && maxAge >= 0
+    ? maxAge
+    : undefined;
+}
+
+/**
+ * Handle a single JSON-RPC request. Returns null for notifications, which
+ * must not be answered.
+ */
+export async function handleJsonRpcRequest(
+  request: JsonRpcRequest,
+  context: RequestContext = {}
+): Promise<JsonRpcResponse | null> {
+  const { method, params } = request;
+  const id = request.id ?? null;
+
+  if (isNotification(request) || isResponse(request)) {
+    return null;
+  }
+
+  try {
+    switch (method) {
+      case 'initialize': {
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
+            capabilities: {
+              tools: {},
+            },
+            serverInfo: {
+              name: 'git-repo-brief',
+              version: '1.0.0',
+            },
+          },
+        };
+      }
+
+      case 'ping': {
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {},
+        };
+      }
+
+      case 'tools/list': {
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            tools: toolDefinitions,
+          },
+        };
+      }
+
+      case 'tools/call': {
+        const toolName = params?.name as string;
+        const args = params?.arguments as Record<string, unknown> | undefined;
+        const reportProgress = createProgressReporter(params, context);
+        const upstream = createUpstreamContext({ maxAgeSeconds: readMaxAge(args) });
+
+        reportProgress(0, 1, `Running ${toolName}`);
+
+        const call = await runWithUpstreamContext(upstream, () =>
+          callTool(toolName, args, reportProgress)
+        );
+
+        if (!call) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            error: {
+              code: -32601,
+              message: `Unknown tool: ${toolName}`,
+            },
+          };
+        }
+
+        const { result, format } = call;
+        Object.assign(result.meta, summarizeUpstreamContext(upstream));
+        const structured =
+          context.protocolVersion !== undefined && context.protocolVersion >= STRUCTURED_CONTENT_SINCE;
+
+        reportProgress(1, 1, `Finished ${toolName}`);
+
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [
+              {
+                type: 'text',
+                text: renderResult(toolName, result, format),
+              },
+            ],
+            ...(structured && { structuredContent: result }),
+          },
+        };
+      }
+
+      default:
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32601,
+            message: `Method not found: ${method}`,
+          },
+        };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32603,
+        message: `Internal error: ${message}`,
+      },
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+import type { ServerResponse } from 'http';
+
+/**
+ * Sessions idle for longer than this are discarded when new ones are created
+ */
+const SESSION_IDLE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Upper bound on concurrently tracked sessions
+ */
+const MAX_SESSIONS = 1000;
+
+/**
+ * A Streamable HTTP session issued on initialize
+ */
+export interface McpSession {
+  id: string;
+  protocolVersion: string;
+  createdAt: number;
+  lastActivityAt: number;
+  /** Open GET streams for server-initiated messages */
+  streams: Set<ServerResponse>;
+  /** Monotonic counter for SSE event ids */
+  nextEventId: number;
+}
+
+const sessions = new Map<string, McpSession>();
+
+/**
+ * Drop sessions that have been idle too long, then the oldest ones if still over capacity
+ */
+function pruneSessions(now: number): void {
+  for (const [id, session] of sessions) {
+    if (session.streams.size === 0 && now - session.lastActivityAt > SESSION_IDLE_TTL_MS) {
+      sessions.delete(id);
+    }
+  }
+
+  // Map iteration order is insertion order, so the first entries are the oldest
+  for (const id of sessions.keys()) {
+    if (sessions.size < MAX_SESSIONS) break;
+    endSession(id);
+  }
+}
+
+/**
+ * Create a new session
+ */
+export function createSession(protocolVersion: string): McpSession {
+  const now = Date.now();
+  pruneSessions(now);
+
+  const session: McpSession = {
+    id: randomUUID(),
+    protocolVersion,
+    createdAt: now,
+    lastActivityAt: now,
+    streams: new Set(),
+    nextEventId: 1,
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+/**
+ * Look up a live session and mark it active
+ */
+export function getSession(id: string): McpSession | undefined {
+  const session = sessions.get(id);
+  if (session) {
+    session.lastActivityAt = Date.now();
+  }
+  return session;
+}
+
+/**
+ * Terminate a session, closing any open streams. Returns false if it did not exist.
+ */
+export function endSession(id: string): boolean {
+  const session = sessions.get(id);
+  if (!session) return false;
+
+  for (const stream of session.streams) {
+    stream.end();
+  }
+  session.streams.clear();
+  sessions.delete(id);
+  return true;
+}
+
+/**
+ * Terminate all sessions (used on shutdown and in tests)
+ */
+export function clearSessions(): void {
+  for (const id of [...sessions.keys()]) {
+    endSession(id);
+  }
+}
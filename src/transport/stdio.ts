@@ -0,0 +1,152 @@
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import {
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type JsonRpcNotification,
+  handleJsonRpcRequest,
+  negotiateProtocolVersion,
+} from './jsonrpc.js';
+
+/**
+ * A running stdio transport
+ */
+export interface StdioTransport {
+  /** Resolves once the input stream has ended and all pending responses are written */
+  closed: Promise<void>;
+  /** Stop reading from the input stream */
+  close(): void;
+}
+
+/**
+ * State of the one client on the other end of the streams
+ */
+interface StdioClient {
+  /** Protocol version answered to its initialize request */
+  protocolVersion?: string;
+}
+
+/**
+ * Write a single newline-delimited JSON-RPC message
+ */
+function writeMessage(
+  output: Writable,
+  message: JsonRpcResponse | JsonRpcNotification | JsonRpcResponse[]
+): void {
+  output.write(JSON.stringify(message) + '\n');
+}
+
+/**
+ * Error response to a message that is not a valid request
+ */
+function invalidRequest(message: string, id: JsonRpcRequest['id'] = null): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id: id ?? null,
+    error: { code: -32600, message: `Invalid Request: ${message}` },
+  };
+}
+
+/**
+ * Parse and dispatch one line of input: a single message, or a batch whose
+ * responses are written together as one array
+ */
+async function handleLine(line: string, output: Writable, client: StdioClient): Promise<void> {
+  let payload: JsonRpcRequest | JsonRpcRequest[];
+  try {
+    payload = JSON.parse(line);
+  } catch {
+    writeMessage(output, {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32700,
+        message: 'Parse error: invalid JSON',
+      },
+    });
+    return;
+  }
+
+  const messages = Array.isArray(payload) ? payload : [payload];
+  if (messages.length === 0) {
+    writeMessage(output, invalidRequest('empty batch'));
+    return;
+  }
+
+  const invalid = messages.find((m) => !m || typeof m !== 'object' || m.jsonrpc !== '2.0');
+  if (invalid !== undefined) {
+    writeMessage(output, invalidRequest('missing or invalid jsonrpc version', invalid?.id));
+    return;
+  }
+
+  const initialize = messages.find((m) => m.method === 'initialize');
+  if (initialize && messages.length > 1) {
+    writeMessage(output, invalidRequest('initialize must not be batched'));
+    return;
+  }
+  if (initialize) {
+    client.protocolVersion = negotiateProtocolVersion(initialize.params?.protocolVersion);
+  }
+
+  const context = {
+    notify: (notification: JsonRpcNotification) => writeMessage(output, notification),
+    protocolVersion: client.protocolVersion,
+  };
+  const responses = (
+    await Promise.all(messages.map((m) => handleJsonRpcRequest(m, context)))
+  ).filter((r) => r !== null);
+
+  // Notifications and responses are not answered, not even with an empty batch
+  if (responses.length > 0) {
+    writeMessage(output, Array.isArray(payload) ? responses : responses[0]);
+  }
+}
+
+/**
+ * Create a newline-delimited JSON-RPC transport over the given streams.
+ * Stdout is reserved for protocol messages; anything else must go to stderr.
+ */
+export function createStdioTransport(
+  options: { input?: Readable; output?: Writable } = {}
+): StdioTransport {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const pending = new Set<Promise<void>>();
+  const client: StdioClient = {};
+
+  const rl = createInterface({ input, crlfDelay: Infinity, terminal: false });
+
+  rl.on('line', (line: string) => {
+    if (line.trim() === '') return;
+
+    // Requests are handled concurrently; responses carry their own id
+    const task = handleLine(line, output, client)
+      .catch((error) => {
+        console.error('stdio transport error:', error);
+      })
+      .finally(() => {
+        pending.delete(task);
+      });
+    pending.add(task);
+  });
+
+  const closed = new Promise<void>((resolve) => {
+    rl.on('close', () => {
+      Promise.all(pending).then(() => resolve());
+    });
+  });
+
+  return {
+    closed,
+    close: () => rl.close(),
+  };
+}
+
+/**
+ * Start the stdio transport on the process streams
+ */
+export function startStdioTransport(): StdioTransport {
+  const transport = createStdioTransport();
+  console.error('git-repo-brief MCP server running on stdio');
+  return transport;
+}
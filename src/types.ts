@@ -1,14 +1,46 @@
 import { z } from 'zod';
+import type { ProviderName } from './config.js';
+import { parseRepoReference } from './repo-url.js';
+import { parseRange } from './semver.js';
 
 // =============================================================================
 // Standard Response Envelope
 // =============================================================================
 
+/**
+ * Information about the upstream requests behind a response, added by the
+ * dispatcher after a tool call
+ */
+export interface UpstreamMeta {
+  cache?: {
+    /** True when every upstream body was served from the cache */
+    from_cache: boolean;
+    /** Age of the oldest cached body served, in seconds */
+    age_seconds: number;
+    hits: number;
+    revalidated: number;
+    misses: number;
+  };
+  /** Number of upstream requests retried after a transient failure */
+  retries?: number;
+  /** Slots (numbered from 1) of the pooled tokens that served the call; never the tokens */
+  token_slots?: number[];
+  /** The lowest rate-limit budget observed during the call */
+  rate_limit?: {
+    resource: string;
+    limit: number | null;
+    remaining: number | null;
+    reset_at: string | null;
+  };
+}
+
 export interface SuccessResponse<T> {
   ok: true;
   data: T;
-  meta: {
+  meta: UpstreamMeta & {
     source?: string;
+    /** What kind of data source is, for tools reading from more than one */
+    source_type?: string;
     retrieved_at: string;
     pagination?: {
       next_cursor: string | null;
@@ -24,7 +56,7 @@ export interface ErrorResponse {
     message: string;
     details: Record<string, unknown>;
   };
-  meta: {
+  meta: UpstreamMeta & {
     retrieved_at: string;
   };
 }
@@ -39,6 +71,11 @@ export type ErrorCode =
 
 export type ApiResponse<T> = SuccessResponse<T> | ErrorResponse;
 
+/**
+ * Callback for reporting progress of long-running work
+ */
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
 // =============================================================================
 // Helper Functions for Response Creation
 // =============================================================================
@@ -47,6 +84,7 @@ export function createSuccessResponse<T>(
   data: T,
   options: {
     source?: string;
+    source_type?: string;
     warnings?: string[];
     next_cursor?: string | null;
   } = {}
@@ -56,6 +94,7 @@ export function createSuccessResponse<T>(
     data,
     meta: {
       source: options.source,
+      ...(options.source_type ? { source_type: options.source_type } : {}),
       retrieved_at: new Date().toISOString(),
       pagination: {
         next_cursor: options.next_cursor ?? null,
@@ -87,34 +126,139 @@ export function createErrorResponse(
 // Input Schemas (Zod)
 // =============================================================================
 
-export const RepoUrlSchema = z.string().url().refine(
-  (url) => {
-    try {
-      const parsed = new URL(url);
-      return parsed.hostname === 'github.com' || parsed.hostname === 'www.github.com';
-    } catch {
-      return false;
-    }
-  },
-  { message: 'URL must be a valid GitHub repository URL' }
-);
+export const RepoUrlSchema = z.string().superRefine((value, ctx) => {
+  const parsed = parseRepoReference(value);
+  if (!parsed.ok) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.reason });
+  }
+});
+
+/**
+ * Branch, tag or commit SHA to read the repository at
+ */
+export const RefSchema = z.string().trim().min(1).optional();
+
+export const OUTPUT_FORMATS = ['json', 'markdown', 'html', 'yaml'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const OutputFormatSchema = z.enum(OUTPUT_FORMATS).optional().default('json');
+
+/** Maximum acceptable age of cached upstream data, in seconds (0 forces revalidation) */
+export const MaxAgeSchema = z.number().int().nonnegative().optional();
+
+/** The meta.pagination.next_cursor of a previous page, to resume a listing from */
+export const CursorSchema = z.string().trim().min(1).optional();
 
 export const RepoOverviewInputSchema = z.object({
   repo_url: RepoUrlSchema,
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
 });
 
 export const ExtractKeyFilesInputSchema = z.object({
   repo_url: RepoUrlSchema,
   paths: z.array(z.string()).optional(),
+  ref: RefSchema,
+  max_files: z.number().int().positive().max(200).optional(),
+  max_bytes: z.number().int().positive().max(10_000_000).optional(),
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
 });
 
+export const RELEASE_SORTS = ['version', 'date'] as const;
+
+export type ReleaseSort = (typeof RELEASE_SORTS)[number];
+
+/** Where release notes are read from: the forge's releases, the repository's changelog file, or its tags */
+export const RELEASE_SOURCES = ['releases', 'changelog', 'tags'] as const;
+
+export type ReleaseSource = (typeof RELEASE_SOURCES)[number];
+
 export const ReleaseNotesInputSchema = z.object({
   repo_url: RepoUrlSchema,
   limit: z.number().int().positive().max(100).optional().default(5),
+  cursor: CursorSchema,
+  include_prereleases: z.boolean().optional(),
+  include_drafts: z.boolean().optional(),
+  since: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), { message: 'Expected an ISO 8601 date' })
+    .optional(),
+  version_range: z
+    .string()
+    .refine((value) => parseRange(value) !== null, { message: 'Expected a semver range such as >=2.0.0 <3' })
+    .optional(),
+  sort: z.enum(RELEASE_SORTS).optional(),
+  source: z.enum(RELEASE_SOURCES).optional(),
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
 });
 
 export const ActivitySnapshotInputSchema = z.object({
   repo_url: RepoUrlSchema,
+  ref: RefSchema,
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
+});
+
+export const ListTreeInputSchema = z.object({
+  repo_url: RepoUrlSchema,
+  path: z.string().optional(),
+  depth: z.number().int().positive().max(20).optional().default(2),
+  ref: RefSchema,
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
+});
+
+export const DependenciesInputSchema = z.object({
+  repo_url: RepoUrlSchema,
+  paths: z.array(z.string()).optional(),
+  ref: RefSchema,
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
+});
+
+export const LicenseReportInputSchema = z.object({
+  repo_url: RepoUrlSchema,
+  ref: RefSchema,
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
+});
+
+export const ReadmeDigestInputSchema = z.object({
+  repo_url: RepoUrlSchema,
+  ref: RefSchema,
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
+});
+
+export const UpgradeNotesInputSchema = z.object({
+  repo_url: RepoUrlSchema,
+  from: z.string().trim().min(1),
+  to: z.string().trim().min(1),
+  include_prereleases: z.boolean().optional(),
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
+});
+
+export const BRIEF_SECTIONS = ['overview', 'key_files', 'releases', 'activity'] as const;
+
+export const RepoBriefInputSchema = z.object({
+  repo_url: RepoUrlSchema,
+  sections: z.array(z.enum(BRIEF_SECTIONS)).nonempty().optional(),
+  paths: z.array(z.string()).optional(),
+  ref: RefSchema,
+  release_limit: z.number().int().positive().max(100).optional().default(5),
+  format: OutputFormatSchema,
+  max_age: MaxAgeSchema,
+});
+
+export const RATE_LIMIT_RESOURCES = ['core', 'search', 'graphql'] as const;
+
+export const RateLimitStatusInputSchema = z.object({
+  host: z.string().optional(),
+  format: OutputFormatSchema,
 });
 
 // =============================================================================
@@ -124,6 +268,7 @@ export const ActivitySnapshotInputSchema = z.object({
 export interface RepoOverviewData {
   name: string;
   full_name: string;
+  html_url: string;
   description: string | null;
   stars: number;
   forks: number;
@@ -141,19 +286,232 @@ export interface RepoOverviewData {
   };
 }
 
+/** How FileContent.content is encoded; binary files are base64 */
+export type FileEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1' | 'base64';
+
 export interface FileContent {
   path: string;
   content: string | null;
+  /** Size of the file in bytes */
   size: number | null;
-  encoding: string;
+  encoding: FileEncoding;
+  /** Whether content stops short of the whole file */
+  truncated: boolean;
+  is_binary: boolean;
+  /** Git blob id of the file */
+  sha: string | null;
   error?: string;
+  /** Why extract_key_files read the file */
+  reason?: string;
 }
 
 export interface ExtractKeyFilesData {
   files: FileContent[];
   default_branch: string;
+  /** Branch, tag or commit the files were read at */
+  ref: string;
+  /** Commit the ref resolved to */
+  sha: string;
+}
+
+export interface TreeEntry {
+  path: string;
+  type: 'file' | 'dir';
+  /** Bytes of a file, or of all files below a directory; null when the forge does not say */
+  size: number | null;
+}
+
+export interface ListTreeData {
+  /** Directory listed; empty for the repository root */
+  path: string;
+  depth: number;
+  /** Branch, tag or commit the tree was read at */
+  ref: string;
+  /** Commit the ref resolved to */
+  sha: string;
+  entries: TreeEntry[];
+  /** Whether the forge returned only part of the tree */
+  truncated: boolean;
+}
+
+/** Package ecosystems dependencies are reported in, named as in the OSV schema */
+export type DependencyEcosystem =
+  | 'npm'
+  | 'PyPI'
+  | 'crates.io'
+  | 'Go'
+  | 'RubyGems'
+  | 'Packagist'
+  | 'Maven';
+
+export type DependencyScope = 'runtime' | 'dev' | 'optional';
+
+export interface Dependency {
+  ecosystem: DependencyEcosystem;
+  name: string;
+  /** Version requirement as written in the manifest; null when none is given */
+  version_spec: string | null;
+  scope: DependencyScope;
+  /** Manifest the dependency is declared in */
+  manifest: string;
+}
+
+export interface ManifestStatus {
+  path: string;
+  /** Null when the file is not a supported manifest */
+  ecosystem: DependencyEcosystem | null;
+  status: 'ok' | 'error';
+  dependency_count: number;
+  error?: {
+    code: ErrorCode;
+    message: string;
+  };
+}
+
+export interface DependenciesData {
+  manifests: ManifestStatus[];
+  dependencies: Dependency[];
+  /** Branch, tag or commit the manifests were read at */
+  ref: string;
+  /** Commit the ref resolved to */
+  sha: string;
+}
+
+export type LicenseCategory = 'permissive' | 'weak-copyleft' | 'strong-copyleft' | 'unknown';
+
+export interface LicenseMatch {
+  spdx_id: string;
+  name: string;
+  category: LicenseCategory;
+  /** Similarity of the text to the license template, from 0.8 to 1; below 1 the text differs from it */
+  confidence: number;
+}
+
+export interface LicenseFileReport {
+  path: string;
+  /** Licenses whose text the file contains, in order; empty when none is recognised */
+  licenses: LicenseMatch[];
+  error?: {
+    code: ErrorCode;
+    message: string;
+  };
+}
+
+export interface DeclaredLicense {
+  manifest: string;
+  /** The license field as written, usually an SPDX expression */
+  expression: string;
+  spdx_ids: string[];
+  category: LicenseCategory;
+}
+
+export interface PackageLicense {
+  /** Directory of the package; empty for the repository root */
+  path: string;
+  declared: DeclaredLicense[];
+  files: LicenseFileReport[];
+  /** Licenses declared in manifests or found in license files */
+  spdx_ids: string[];
+  category: LicenseCategory;
+  multi_licensed: boolean;
+  /** True when the package has no license of its own and the root package's applies */
+  inherited: boolean;
+}
+
+export interface LicenseReportData {
+  packages: PackageLicense[];
+  /** Most restrictive category across packages */
+  category: LicenseCategory;
+  /** Branch, tag or commit the files were read at */
+  ref: string;
+  /** Commit the ref resolved to */
+  sha: string;
+}
+
+export type ReadmeFormat = 'markdown' | 'rst' | 'asciidoc' | 'text';
+
+export interface ReadmeSection {
+  title: string;
+  /** 1 for the document title; deeper headings count up */
+  level: number;
+  /** Line of the heading, from 1 */
+  line: number;
+  children: ReadmeSection[];
 }
 
+export interface ReadmeCodeBlock {
+  /** Heading of the section holding the block; null before the first heading */
+  section: string | null;
+  /** Language the block is marked as; null when unmarked */
+  language: string | null;
+  code: string;
+  line: number;
+}
+
+export type BadgeKind = 'ci' | 'coverage' | 'version' | 'license' | 'downloads' | 'docs' | 'other';
+
+export interface ReadmeBadge {
+  kind: BadgeKind;
+  /** Alternative text of the badge image, or a name taken from its URL */
+  label: string;
+  image_url: string;
+  /** Where the badge links to; null when it is not a link */
+  target_url: string | null;
+}
+
+export interface ReadmeLink {
+  text: string;
+  url: string;
+  /** False for links to files of the repository */
+  external: boolean;
+}
+
+export interface ReadmeImage {
+  alt: string;
+  url: string;
+}
+
+export interface ReadmeDigestData {
+  path: string;
+  format: ReadmeFormat;
+  /** Heading tree; documents with several top-level headings have several roots */
+  sections: ReadmeSection[];
+  /** Code blocks installing the project: install commands and blocks in installation sections */
+  install: ReadmeCodeBlock[];
+  /** Code blocks in usage, example and getting started sections */
+  usage: ReadmeCodeBlock[];
+  badges: ReadmeBadge[];
+  /** Links other than badges and in-page anchors, once per URL */
+  links: ReadmeLink[];
+  /** Images other than badges */
+  images: ReadmeImage[];
+  /** Branch, tag or commit the README was read at */
+  ref: string;
+  /** Commit the ref resolved to; relative URLs are resolved against it */
+  sha: string;
+}
+
+/**
+ * Semantic version named by a release tag
+ */
+export interface ReleaseVersion {
+  /** Package of a monorepo tag such as pkg@1.2.3 */
+  package: string | null;
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string | null;
+  build: string | null;
+}
+
+/** Keep a Changelog's kinds of change */
+export const CHANGE_CATEGORIES = ['added', 'changed', 'deprecated', 'removed', 'fixed', 'security'] as const;
+
+export type ChangeCategory = (typeof CHANGE_CATEGORIES)[number];
+
+/** Items of release notes by the kind of change they are listed under */
+export type ReleaseChanges = Partial<Record<ChangeCategory, string[]>>;
+
 export interface ReleaseData {
   tag_name: string;
   name: string | null;
@@ -162,11 +520,60 @@ export interface ReleaseData {
   prerelease: boolean;
   draft: boolean;
   html_url: string;
+  /** Version the tag names, or null when it names none */
+  version: ReleaseVersion | null;
+  /** Items of the notes under headings such as Added or Fixed, or null when there are none */
+  changes: ReleaseChanges | null;
 }
 
 export interface ReleaseNotesData {
   releases: ReleaseData[];
-  total_count: number;
+  /** Number of matching releases across all pages, or null when it is not known */
+  total_count: number | null;
+}
+
+/**
+ * How a breaking change was marked: a BREAKING CHANGE footer or line, a
+ * conventional commit type with !, or an item under a "Breaking" heading
+ */
+export type BreakingMarker = 'footer' | 'conventional' | 'heading';
+
+export interface BreakingChange {
+  /** Version the change comes with */
+  tag_name: string;
+  text: string;
+  marker: BreakingMarker;
+}
+
+export interface UpgradeCommit {
+  sha: string;
+  message: string;
+  author: string | null;
+  date: string | null;
+  html_url: string | null;
+  breaking: boolean;
+}
+
+export interface UpgradeVersion {
+  tag_name: string;
+  version: ReleaseVersion | null;
+  name: string | null;
+  published_at: string | null;
+  html_url: string | null;
+  /** Release notes, or the commits since the previous version when it has no release */
+  source: 'release' | 'commits';
+  body: string | null;
+  commits: UpgradeCommit[];
+  breaking: BreakingChange[];
+}
+
+export interface UpgradeNotesData {
+  from: string;
+  to: string;
+  /** Versions after from up to to, oldest first */
+  versions: UpgradeVersion[];
+  /** Breaking changes of every version, oldest first */
+  breaking: BreakingChange[];
 }
 
 export interface ActivitySnapshotData {
@@ -178,6 +585,57 @@ export interface ActivitySnapshotData {
   watchers_count: number;
   has_wiki: boolean;
   has_discussions: boolean;
+  /** Ref the last commit was read at; null for the default branch */
+  ref: string | null;
+  /** Commit the ref resolved to; null for the default branch */
+  sha: string | null;
+}
+
+export type BriefSection = (typeof BRIEF_SECTIONS)[number];
+
+export interface BriefSectionStatus {
+  status: 'ok' | 'error' | 'skipped';
+  error?: {
+    code: ErrorCode;
+    message: string;
+  };
+  warnings: string[];
+}
+
+export interface RepoBriefData {
+  owner: string;
+  repo: string;
+  html_url: string;
+  overview: RepoOverviewData | null;
+  key_files: ExtractKeyFilesData | null;
+  releases: ReleaseNotesData | null;
+  activity: ActivitySnapshotData | null;
+  sections: Record<BriefSection, BriefSectionStatus>;
+}
+
+export interface RateLimitResourceStatus {
+  resource: string;
+  limit: number | null;
+  remaining: number | null;
+  used: number | null;
+  reset_at: string | null;
+  /** Set while a secondary rate limit is in effect */
+  blocked_until: string | null;
+}
+
+export interface RateLimitTokenStatus {
+  /** Position of the token in the configured pool, from 1 */
+  slot: number;
+  /** Rejected by GitHub (401) and no longer used */
+  disabled: boolean;
+  resources: RateLimitResourceStatus[];
+}
+
+export interface RateLimitStatusData {
+  authenticated: boolean;
+  /** Budget of the whole token pool (or of anonymous access) */
+  resources: RateLimitResourceStatus[];
+  tokens: RateLimitTokenStatus[];
 }
 
 // =============================================================================
@@ -187,6 +645,7 @@ export interface ActivitySnapshotData {
 export interface GitHubRepoResponse {
   name: string;
   full_name: string;
+  html_url: string;
   description: string | null;
   stargazers_count: number;
   forks_count: number;
@@ -218,6 +677,29 @@ export interface GitHubReleaseResponse {
   html_url: string;
 }
 
+export interface GitHubTagResponse {
+  name: string;
+  commit: { sha: string };
+}
+
+/** A ref and the object it points at: a commit, or an annotated tag */
+export interface GitHubGitRefResponse {
+  ref: string;
+  object: { type: string; sha: string };
+}
+
+export interface GitHubGitTagResponse {
+  tag: string;
+  message: string;
+  tagger: { name: string; date: string } | null;
+}
+
+export interface GitHubGitCommitResponse {
+  sha: string;
+  message: string;
+  committer: { name: string; date: string };
+}
+
 export interface GitHubCommitResponse {
   sha: string;
   commit: {
@@ -229,6 +711,23 @@ export interface GitHubCommitResponse {
   };
 }
 
+export interface GitHubCompareResponse {
+  total_commits: number;
+  /** Oldest first, at most 250 */
+  commits: Array<GitHubCommitResponse & { html_url: string }>;
+}
+
+export interface GitHubTreeResponse {
+  sha: string;
+  tree: Array<{
+    path: string;
+    /** commit entries are submodules */
+    type: 'blob' | 'tree' | 'commit';
+    size?: number;
+  }>;
+  truncated: boolean;
+}
+
 export interface GitHubPullResponse {
   number: number;
   state: string;
@@ -239,11 +738,194 @@ export interface GitHubContributorResponse {
   contributions: number;
 }
 
+export interface GitHubRateLimitResponse {
+  resources: Record<string, { limit: number; remaining: number; used: number; reset: number }>;
+}
+
+// =============================================================================
+// GitLab API Response Types
+// =============================================================================
+
+export interface GitLabProjectResponse {
+  path: string;
+  path_with_namespace: string;
+  web_url: string;
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  topics?: string[];
+  /** Older GitLab versions name topics tag_list */
+  tag_list?: string[];
+  license?: { key: string; name: string } | null;
+  created_at: string;
+  updated_at?: string;
+  last_activity_at: string;
+  default_branch: string;
+  /** Absent when issues are disabled */
+  open_issues_count?: number;
+  wiki_enabled?: boolean;
+  namespace: {
+    full_path: string;
+    kind: 'group' | 'user';
+    avatar_url: string | null;
+  };
+}
+
+export interface GitLabReleaseResponse {
+  tag_name: string;
+  name: string | null;
+  description: string | null;
+  released_at: string | null;
+  upcoming_release?: boolean;
+  _links?: { self?: string };
+}
+
+export interface GitLabCommitResponse {
+  id: string;
+  message: string;
+  committed_date: string;
+}
+
+export interface GitLabTagResponse {
+  name: string;
+  /** Set for annotated tags */
+  message: string | null;
+  /** Set for annotated tags */
+  created_at: string | null;
+  commit: GitLabCommitResponse;
+}
+
+export interface GitLabCompareResponse {
+  commits: Array<{
+    id: string;
+    message: string;
+    author_name: string;
+    created_at: string;
+    web_url: string;
+  }>;
+}
+
+export interface GitLabTreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+// =============================================================================
+// Gitea / Forgejo API Response Types
+// =============================================================================
+
+export interface GiteaRepoResponse {
+  name: string;
+  full_name: string;
+  html_url: string;
+  description: string;
+  stars_count: number;
+  forks_count: number;
+  watchers_count: number;
+  language: string;
+  topics?: string[] | null;
+  /** SPDX identifiers, reported by Gitea 1.22+ and Forgejo 9+ */
+  licenses?: string[] | null;
+  created_at: string;
+  updated_at: string;
+  default_branch: string;
+  website: string;
+  open_issues_count: number;
+  open_pr_counter: number;
+  has_wiki: boolean;
+  owner: {
+    login: string;
+    avatar_url: string;
+  };
+}
+
+export type GiteaReleaseResponse = GitHubReleaseResponse;
+
+export type GiteaCommitResponse = GitHubCommitResponse;
+
+export type GiteaCompareResponse = GitHubCompareResponse;
+
+export interface GiteaTagResponse {
+  name: string;
+  /** The annotation of annotated tags, else the commit message */
+  message: string;
+  commit: { sha: string; created: string };
+}
+
+/** Trees are paged; truncated is set while more pages follow */
+export type GiteaTreeResponse = GitHubTreeResponse & { page: number; total_count: number };
+
+// =============================================================================
+// Bitbucket Cloud API Response Types
+// =============================================================================
+
+/** A page of a Bitbucket list; size is the total across pages */
+export interface BitbucketPage<T> {
+  values: T[];
+  size?: number;
+  next?: string;
+}
+
+export interface BitbucketRepoResponse {
+  name: string;
+  full_name: string;
+  description: string;
+  language: string;
+  created_on: string;
+  updated_on: string;
+  mainbranch: { name: string } | null;
+  website: string | null;
+  has_wiki: boolean;
+  has_issues: boolean;
+  links: { html: { href: string } };
+  owner: {
+    type: 'user' | 'team';
+    display_name: string;
+    username?: string;
+    links: { avatar: { href: string } };
+  };
+  workspace: { slug: string };
+}
+
+export interface BitbucketTagResponse {
+  name: string;
+  /** Set for annotated tags */
+  message?: string | null;
+  date?: string | null;
+  target: { hash: string; date: string; message?: string };
+  links: { html: { href: string } };
+}
+
+export interface BitbucketCommitResponse {
+  hash: string;
+  date: string;
+  message: string;
+  author?: { raw: string; user?: { display_name: string } };
+  links?: { html: { href: string } };
+}
+
+export interface BitbucketTreeEntry {
+  path: string;
+  type: 'commit_file' | 'commit_directory';
+  size?: number;
+}
+
 // =============================================================================
 // Parsed Repo Info
 // =============================================================================
 
 export interface ParsedRepoInfo {
+  /** Owner, or for GitLab the full group path (e.g. group/subgroup) */
   owner: string;
   repo: string;
+  /** Host of the repository; absent for github.com */
+  host?: string;
+  /** Forge the host runs; absent for GitHub */
+  provider?: ProviderName;
+  /** Branch, tag or commit named by a deep link or #ref shorthand */
+  ref?: string;
+  /** Path inside the repository named by a deep link */
+  path?: string;
+  /** Whether the path is a file or directory, when the link says */
+  pathType?: 'dir' | 'file';
 }
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+
+/**
+ * An upstream response body stored for reuse, with the validators needed to
+ * revalidate it
+ */
+export interface CachedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  /** Base64-encoded body so binary payloads survive storage */
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  /** When the body was fetched (ms since epoch) */
+  storedAt: number;
+  /** When upstream last confirmed the body is current (ms since epoch) */
+  validatedAt: number;
+}
+
+/**
+ * A computed value (e.g. a repo brief) stored with its creation time
+ */
+export interface CachedValue<T> {
+  storedAt: number;
+  value: T;
+}
+
+/**
+ * Size and location of a cache store
+ */
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  location: string;
+}
+
+/**
+ * Storage backend for cached values, upstream responses by default
+ */
+export interface CacheStore<T = CachedResponse> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, entry: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStats>;
+  /** Remove entries not used within olderThanMs (if given), then enforce size limits */
+  prune(olderThanMs?: number): Promise<number>;
+}
+
+/**
+ * In-memory store bounded by entry count, evicting the least recently used entry
+ */
+export function createMemoryCacheStore<T = CachedResponse>(maxEntries: number): CacheStore<T> {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  const entries = new Map<string, { value: T; usedAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      entries.set(key, { value: entry.value, usedAt: Date.now() });
+      return entry.value;
+    },
+
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, usedAt: Date.now() });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+
+    async clear() {
+      entries.clear();
+    },
+
+    async stats() {
+      let bytes = 0;
+      for (const { value } of entries.values()) {
+        bytes += Buffer.byteLength(JSON.stringify(value));
+      }
+      return { entries: entries.size, bytes, location: 'memory' };
+    },
+
+    async prune(olderThanMs) {
+      if (olderThanMs === undefined) return 0;
+      const cutoff = Date.now() - olderThanMs;
+      let removed = 0;
+      for (const [key, entry] of entries) {
+        if (entry.usedAt < cutoff) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+/**
+ * Stable, non-secret identifier for a token, 'anon' when unauthenticated
+ */
+export function tokenIdentity(token: string | undefined): string {
+  return token ? createHash('sha256').update(token).digest('hex').slice(0, 16) : 'anon';
+}
+
+/**
+ * Build the cache key for a request. Responses differ per token (private
+ * repositories, per-user fields) and per Accept header, so both are part of
+ * the key; the identity is a token hash so tokens never appear in keys.
+ */
+export function cacheKey(url: string, identity: string, accept: string): string {
+  return `${identity}|${accept}|${url}`;
+}
+
+/**
+ * Rebuild a Response from a cached entry
+ */
+export function toResponse(entry: CachedResponse): Response {
+  return new Response(Buffer.from(entry.body, 'base64'), {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+}
@@ -0,0 +1,112 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { UpstreamMeta } from '../types.js';
+import type { RateLimitBudget } from './rate-limit.js';
+
+/**
+ * Options and statistics for the upstream requests made during one tool call.
+ * The fetch layer reads the options and records into the stats of whichever
+ * context is active, so tools do not need to thread either through.
+ */
+export interface UpstreamContext {
+  /** Maximum acceptable age of cached data in milliseconds, overriding the configured TTL */
+  maxAgeMs?: number;
+  cache: {
+    hits: number;
+    revalidated: number;
+    misses: number;
+    /** Age in milliseconds of the oldest cached body served */
+    oldestAgeMs: number;
+  };
+  /** Upstream requests repeated after a transient failure */
+  retries: number;
+  /** Token slots that served upstream requests */
+  tokenSlots: Set<number>;
+  /** The budget with the fewest remaining requests seen so far */
+  rateLimit?: RateLimitBudget;
+}
+
+const storage = new AsyncLocalStorage<UpstreamContext>();
+
+export function createUpstreamContext(options: { maxAgeSeconds?: number } = {}): UpstreamContext {
+  return {
+    maxAgeMs: options.maxAgeSeconds === undefined ? undefined : options.maxAgeSeconds * 1000,
+    cache: { hits: 0, revalidated: 0, misses: 0, oldestAgeMs: 0 },
+    retries: 0,
+    tokenSlots: new Set(),
+  };
+}
+
+/**
+ * Run fn with the given upstream context active
+ */
+export function runWithUpstreamContext<T>(context: UpstreamContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run fn in a fresh upstream context and return its result with the collected meta
+ */
+export async function withUpstreamContext<T>(
+  options: { maxAgeSeconds?: number },
+  fn: () => Promise<T>
+): Promise<{ value: T; meta: UpstreamMeta }> {
+  const context = createUpstreamContext(options);
+  const value = await runWithUpstreamContext(context, fn);
+  return { value, meta: summarizeUpstreamContext(context) };
+}
+
+export function getUpstreamContext(): UpstreamContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Convert collected statistics into the fields reported in response meta
+ */
+export function summarizeUpstreamContext(context: UpstreamContext): UpstreamMeta {
+  const meta: UpstreamMeta = {};
+  const { hits, revalidated, misses, oldestAgeMs } = context.cache;
+
+  if (hits + revalidated + misses > 0) {
+    meta.cache = {
+      from_cache: hits + revalidated > 0 && misses === 0,
+      age_seconds: Math.round(oldestAgeMs / 1000),
+      hits,
+      revalidated,
+      misses,
+    };
+  }
+
+  if (context.retries > 0) {
+    meta.retries = context.retries;
+  }
+
+  if (context.tokenSlots.size > 0) {
+    meta.token_slots = [...context.tokenSlots].sort((a, b) => a - b);
+  }
+
+  if (context.rateLimit) {
+    const { resource, limit, remaining, resetAt } = context.rateLimit;
+    meta.rate_limit = {
+      resource,
+      limit,
+      remaining,
+      reset_at: resetAt !== null ? new Date(resetAt).toISOString() : null,
+    };
+  }
+
+  return meta;
+}
+
+/**
+ * Keep the most constrained budget observed during the call
+ */
+export function recordRateLimitBudget(context: UpstreamContext, budget: RateLimitBudget): void {
+  const current = context.rateLimit;
+  if (
+    !current ||
+    current.resource === budget.resource ||
+    (budget.remaining ?? Infinity) < (current.remaining ?? Infinity)
+  ) {
+    context.rateLimit = { ...budget };
+  }
+}
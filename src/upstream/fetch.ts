@@ -0,0 +1,341 @@
+import { getConfig, type Config } from '../config.js';
+import { hostForUpstreamUrl } from '../hosts.js';
+import { type CacheStore, type CachedResponse, cacheKey, toResponse } from './cache.js';
+import { getUpstreamContext, recordRateLimitBudget } from './context.js';
+import {
+  budgetWaitMs,
+  isRateLimitedResponse,
+  rateLimitError,
+  recordRateLimit,
+  resourceForUrl,
+} from './rate-limit.js';
+import { isIdempotent, isRetryableError, isRetryableStatus, retryDelayMs } from './retry.js';
+import { getResponseStore } from './store.js';
+import {
+  type TokenChoice,
+  anonymousChoice,
+  anonymousIdentity,
+  disableToken,
+  poolIdentity,
+  selectToken,
+} from './tokens.js';
+
+/**
+ * Request options for upstream fetches
+ */
+export interface UpstreamRequestInit extends RequestInit {
+  /** 'no-store' bypasses the response cache */
+  cache?: 'default' | 'no-store';
+  /** Send with this token slot only instead of choosing from the pool */
+  tokenSlot?: number;
+  /**
+   * Read no more of a body than this: a longer one is cut off after the
+   * first bytes past it, and is not cached
+   */
+  maxBodyBytes?: number;
+}
+
+// Rate limiting state: the earliest time the next request may start
+let nextRequestTime = 0;
+
+function buildHeaders(config: Config, options?: RequestInit): Record<string, string> {
+  return {
+    'User-Agent': config.userAgent,
+    Accept: 'application/vnd.github.v3+json',
+    ...(options?.headers as Record<string, string>),
+  };
+}
+
+/**
+ * Shared deadline for all attempts at one request. The clock starts when the
+ * first attempt is sent, so waiting for a slot or a budget does not count.
+ */
+interface Deadline {
+  at?: number;
+}
+
+/**
+ * Whether a response means the token, rather than the request, is the problem
+ */
+function isTokenRejected(response: Response): boolean {
+  return response.status === 401 || response.status === 403 || isRateLimitedResponse(response);
+}
+
+/**
+ * Send one attempt over the network, spaced by the configured delay and
+ * bounded by the request deadline. The attempt uses the pooled token with the
+ * most remaining budget and fails over to the next token on 401/403.
+ * Requests against an exhausted budget wait for it to reset when allowed, and
+ * otherwise fail without being sent; rate-limited responses are thrown as
+ * RateLimitError.
+ */
+async function sendAttempt(
+  url: string,
+  options: UpstreamRequestInit | undefined,
+  headers: Record<string, string>,
+  deadline: Deadline
+): Promise<Response> {
+  const config = getConfig();
+  const host = hostForUpstreamUrl(url, config);
+  // Forges serving raw files through their API draw on the API budget for them
+  const resource = resourceForUrl(url, host && host.rawBase !== host.apiBase ? host.rawBase : undefined);
+  const { tokenSlot: pinned, maxBodyBytes: _maxBodyBytes, ...init } = options ?? {};
+  const tried = new Set<number>();
+
+  let choice: TokenChoice | null;
+  if (host) {
+    choice = selectToken(host, resource, tried, pinned);
+    if (!choice) {
+      throw new Error(`Token slot ${pinned} of ${host.host} is not configured or was rejected`);
+    }
+  } else {
+    // Tokens only go to the forge they are configured for; URLs elsewhere are fetched anonymously
+    choice = anonymousChoice({ host: new URL(url).host }, resource);
+  }
+
+  for (;;) {
+    const { token, identity } = choice;
+
+    if (choice.waitMs > 0) {
+      if (choice.waitMs > config.rateLimitMaxWaitMs) {
+        throw rateLimitError(identity, resource, choice.waitMs);
+      }
+      await new Promise((resolve) => setTimeout(resolve, choice!.waitMs));
+    }
+
+    const now = Date.now();
+
+    // Reserve a slot synchronously so concurrent callers are spaced out in call order
+    const slot = Math.max(now, nextRequestTime);
+    nextRequestTime = slot + config.requestDelayMs;
+
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+
+    deadline.at ??= Date.now() + config.requestTimeoutMs;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), Math.max(0, deadline.at - Date.now()));
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: token ? { ...headers, Authorization: `Bearer ${token.token}` } : headers,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const budget = recordRateLimit(identity, url, response);
+    const context = getUpstreamContext();
+    if (budget && context) recordRateLimitBudget(context, budget);
+
+    if (host && token && isTokenRejected(response)) {
+      if (response.status === 401) disableToken(token);
+      tried.add(token.slot);
+      const next = selectToken(host, resource, tried, pinned);
+      if (next && next.waitMs <= config.rateLimitMaxWaitMs) {
+        await response.body?.cancel().catch(() => {});
+        choice = next;
+        continue;
+      }
+    }
+
+    if (isRateLimitedResponse(response)) {
+      const limited = budget?.resource ?? resource;
+      throw rateLimitError(identity, limited, budgetWaitMs(identity, limited) || undefined);
+    }
+
+    if (token && context) context.tokenSlots.add(token.slot);
+    return response;
+  }
+}
+
+/**
+ * Send a request, retrying transient failures (network errors and configured
+ * 5xx statuses) with exponential backoff and jitter. Non-idempotent requests
+ * are sent once, and no retry starts that could not finish before the
+ * request deadline.
+ */
+async function sendRequest(
+  url: string,
+  options: UpstreamRequestInit | undefined,
+  headers: Record<string, string>
+): Promise<Response> {
+  const config = getConfig();
+  const retryable = isIdempotent(options?.method ?? 'GET');
+  const deadline: Deadline = {};
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined;
+    let failure: unknown;
+    try {
+      response = await sendAttempt(url, options, headers, deadline);
+      if (!isRetryableStatus(response.status, config)) return response;
+    } catch (error) {
+      if (!isRetryableError(error)) throw error;
+      failure = error;
+    }
+
+    const delay = retryDelayMs(attempt, config, response?.headers.get('retry-after'));
+    const outOfTime = deadline.at !== undefined && Date.now() + delay >= deadline.at;
+    if (!retryable || attempt >= config.retryMaxAttempts || outOfTime) {
+      if (response) return response;
+      throw failure;
+    }
+
+    // The failed body is discarded, not read
+    await response?.body?.cancel().catch(() => {});
+    const context = getUpstreamContext();
+    if (context) context.retries++;
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * A response with the body read up to maxBytes. Whether it was read in full
+ * is known by its length: a cut body holds more than maxBytes.
+ */
+async function readBody(response: Response, maxBytes: number): Promise<{ response: Response; complete: boolean }> {
+  if (!response.body) return { response, complete: true };
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let complete = true;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+    if (length > maxBytes) {
+      // The rest of the body is never downloaded
+      await reader.cancel().catch(() => {});
+      complete = false;
+      break;
+    }
+  }
+
+  return {
+    response: new Response(Buffer.concat(chunks), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    }),
+    complete,
+  };
+}
+
+/**
+ * A 200 response is worth storing if it can be revalidated cheaply or if a
+ * TTL lets it be served without revalidation
+ */
+function isCacheable(response: Response, config: Config): boolean {
+  if (response.status !== 200) return false;
+  if (/no-store/i.test(response.headers.get('cache-control') ?? '')) return false;
+  return (
+    config.cacheTtlMs > 0 ||
+    Boolean(response.headers.get('etag')) ||
+    Boolean(response.headers.get('last-modified'))
+  );
+}
+
+async function storeResponse(
+  store: CacheStore,
+  key: string,
+  url: string,
+  response: Response
+): Promise<CachedResponse> {
+  const headers: Array<[string, string]> = [];
+  response.headers.forEach((value, name) => headers.push([name, value]));
+
+  const now = Date.now();
+  const entry: CachedResponse = {
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: Buffer.from(await response.arrayBuffer()).toString('base64'),
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+    storedAt: now,
+    validatedAt: now,
+  };
+  await store.set(key, entry);
+  return entry;
+}
+
+/**
+ * Fetch from the GitHub API or raw content host. GET responses are cached
+ * unless the request opts out with `cache: 'no-store'`;
+ * a cached body within its TTL is served directly, otherwise it is revalidated
+ * with If-None-Match / If-Modified-Since so unchanged data costs a 304.
+ */
+export async function rateLimitedFetch(
+  url: string,
+  options?: UpstreamRequestInit
+): Promise<Response> {
+  const config = getConfig();
+  const headers = buildHeaders(config, options);
+  const method = (options?.method ?? 'GET').toUpperCase();
+  const store = method === 'GET' && options?.cache !== 'no-store' ? getResponseStore(config) : null;
+
+  const limit = options?.maxBodyBytes;
+
+  if (!store) {
+    const response = await sendRequest(url, options, headers);
+    return limit !== undefined && response.status === 200 ? (await readBody(response, limit)).response : response;
+  }
+
+  const context = getUpstreamContext();
+  const host = hostForUpstreamUrl(url, config);
+  const identity = host ? poolIdentity(host) : anonymousIdentity({ host: new URL(url).host });
+  const key = cacheKey(url, identity, headers.Accept);
+  const cached = await store.get(key);
+  const ttlMs = Math.min(config.cacheTtlMs, context?.maxAgeMs ?? Infinity);
+
+  if (cached && Date.now() - cached.validatedAt < ttlMs) {
+    if (context) {
+      context.cache.hits++;
+      context.cache.oldestAgeMs = Math.max(
+        context.cache.oldestAgeMs,
+        Date.now() - cached.validatedAt
+      );
+    }
+    return toResponse(cached);
+  }
+
+  const requestHeaders = { ...headers };
+  if (cached?.etag) requestHeaders['If-None-Match'] = cached.etag;
+  if (cached?.lastModified) requestHeaders['If-Modified-Since'] = cached.lastModified;
+
+  let response = await sendRequest(url, options, requestHeaders);
+
+  if (cached && response.status === 304) {
+    const refreshed: CachedResponse = { ...cached, validatedAt: Date.now() };
+    await store.set(key, refreshed);
+    if (context) context.cache.revalidated++;
+    return toResponse(refreshed);
+  }
+
+  if (context) context.cache.misses++;
+
+  if (limit !== undefined && response.status === 200) {
+    const read = await readBody(response, limit);
+    if (!read.complete) return read.response;
+    response = read.response;
+  }
+
+  if (isCacheable(response, config)) {
+    return toResponse(await storeResponse(store, key, url, response));
+  }
+
+  if (cached && response.status === 200) {
+    // Upstream stopped sending validators; the stale entry can no longer be used
+    await store.delete(key);
+  }
+
+  return response;
+}
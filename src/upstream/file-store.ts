@@ -0,0 +1,170 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { CacheEviction } from '../config.js';
+import type { CacheStats, CacheStore, CachedResponse } from './cache.js';
+
+export interface FileCacheStoreOptions {
+  dir: string;
+  maxBytes: number;
+  maxEntries: number;
+  eviction: CacheEviction;
+}
+
+interface IndexEntry {
+  size: number;
+  /** File mtime: last use under LRU, write time under FIFO */
+  usedAt: number;
+}
+
+/**
+ * On-disk format of one entry; the key is kept to detect hash collisions
+ */
+interface StoredEntry<T> {
+  key: string;
+  value: T;
+}
+
+function fileNameFor(key: string): string {
+  return createHash('sha256').update(key).digest('hex') + '.json';
+}
+
+/**
+ * File-backed store with one JSON file per entry. File modification times
+ * double as recency information so eviction order survives restarts: under
+ * LRU a read touches the file, under FIFO only writes do.
+ */
+export function createFileCacheStore<T = CachedResponse>(
+  options: FileCacheStoreOptions
+): CacheStore<T> {
+  const { dir, maxBytes, maxEntries, eviction } = options;
+  let index: Map<string, IndexEntry> | null = null;
+  let totalBytes = 0;
+
+  async function loadIndex(): Promise<Map<string, IndexEntry>> {
+    if (index) return index;
+
+    await fs.mkdir(dir, { recursive: true });
+    const loaded = new Map<string, IndexEntry>();
+    totalBytes = 0;
+
+    for (const name of await fs.readdir(dir)) {
+      if (!name.endsWith('.json')) continue;
+      try {
+        const stat = await fs.stat(join(dir, name));
+        loaded.set(name, { size: stat.size, usedAt: stat.mtimeMs });
+        totalBytes += stat.size;
+      } catch {
+        // Removed concurrently; skip it
+      }
+    }
+
+    index = loaded;
+    return loaded;
+  }
+
+  async function removeFile(name: string): Promise<void> {
+    const entry = index?.get(name);
+    if (entry) {
+      index!.delete(name);
+      totalBytes -= entry.size;
+    }
+    await fs.rm(join(dir, name), { force: true });
+  }
+
+  async function enforceLimits(): Promise<number> {
+    const entries = await loadIndex();
+    if (totalBytes <= maxBytes && entries.size <= maxEntries) return 0;
+
+    const byAge = [...entries].sort(([, a], [, b]) => a.usedAt - b.usedAt);
+    let removed = 0;
+    for (const [name] of byAge) {
+      if (totalBytes <= maxBytes && entries.size <= maxEntries) break;
+      await removeFile(name);
+      removed++;
+    }
+    return removed;
+  }
+
+  return {
+    async get(key) {
+      const entries = await loadIndex();
+      const name = fileNameFor(key);
+      if (!entries.has(name)) return undefined;
+
+      const path = join(dir, name);
+      let stored: StoredEntry<T>;
+      try {
+        stored = JSON.parse(await fs.readFile(path, 'utf-8'));
+      } catch {
+        // Unreadable or corrupt entries are dropped
+        await removeFile(name);
+        return undefined;
+      }
+
+      if (stored.key !== key) return undefined;
+
+      if (eviction === 'lru') {
+        const now = new Date();
+        entries.get(name)!.usedAt = now.getTime();
+        await fs.utimes(path, now, now).catch(() => {});
+      }
+
+      return stored.value;
+    },
+
+    async set(key, value) {
+      const entries = await loadIndex();
+      const name = fileNameFor(key);
+      const body = JSON.stringify({ key, value } satisfies StoredEntry<T>);
+      const path = join(dir, name);
+
+      // Write to a temporary file and rename so readers never see partial entries
+      const temp = join(dir, `.${name}.${randomBytes(4).toString('hex')}.tmp`);
+      await fs.writeFile(temp, body, 'utf-8');
+      await fs.rename(temp, path);
+
+      const previous = entries.get(name);
+      if (previous) totalBytes -= previous.size;
+      const size = Buffer.byteLength(body);
+      entries.set(name, { size, usedAt: Date.now() });
+      totalBytes += size;
+
+      await enforceLimits();
+    },
+
+    async delete(key) {
+      await loadIndex();
+      await removeFile(fileNameFor(key));
+    },
+
+    async clear() {
+      const entries = await loadIndex();
+      for (const name of [...entries.keys()]) {
+        await removeFile(name);
+      }
+    },
+
+    async stats(): Promise<CacheStats> {
+      const entries = await loadIndex();
+      return { entries: entries.size, bytes: totalBytes, location: dir };
+    },
+
+    async prune(olderThanMs) {
+      const entries = await loadIndex();
+      let removed = 0;
+
+      if (olderThanMs !== undefined) {
+        const cutoff = Date.now() - olderThanMs;
+        for (const [name, entry] of [...entries]) {
+          if (entry.usedAt < cutoff) {
+            await removeFile(name);
+            removed++;
+          }
+        }
+      }
+
+      return removed + (await enforceLimits());
+    },
+  };
+}
@@ -0,0 +1,53 @@
+export { rateLimitedFetch, type UpstreamRequestInit } from './fetch.js';
+export {
+  type CacheStore,
+  type CacheStats,
+  type CachedResponse,
+  type CachedValue,
+  createMemoryCacheStore,
+  cacheKey,
+  tokenIdentity,
+} from './cache.js';
+export { createFileCacheStore, type FileCacheStoreOptions } from './file-store.js';
+export {
+  getResponseStore,
+  getBriefStore,
+  setCacheStore,
+  clearResponseCache,
+  resetCacheStores,
+  readComputed,
+  writeComputed,
+} from './store.js';
+export {
+  type UpstreamContext,
+  createUpstreamContext,
+  runWithUpstreamContext,
+  withUpstreamContext,
+  getUpstreamContext,
+  summarizeUpstreamContext,
+  recordRateLimitBudget,
+} from './context.js';
+export {
+  type RateLimitBudget,
+  type RateLimitDetails,
+  RateLimitError,
+  resourceForUrl,
+  isRateLimitedResponse,
+  recordRateLimit,
+  budgetWaitMs,
+  rateLimitError,
+  getRateLimitBudgets,
+  setRateLimitBudget,
+  resetRateLimitState,
+} from './rate-limit.js';
+export {
+  type TokenSlot,
+  type TokenChoice,
+  getTokenPool,
+  poolIdentity,
+  selectToken,
+  anonymousIdentity,
+  disableToken,
+  isTokenDisabled,
+  resetTokenPool,
+} from './tokens.js';
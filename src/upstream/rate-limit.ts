@@ -0,0 +1,205 @@
+/**
+ * Tracks the rate-limit budget reported by every response, per token
+ * identity and resource (core, search, graphql, ...), so calls can be refused
+ * or delayed before they are sent once a budget is exhausted. GitHub reports
+ * budgets in x-ratelimit-* headers, GitLab in ratelimit-* headers.
+ */
+
+export interface RateLimitBudget {
+  resource: string;
+  limit: number | null;
+  remaining: number | null;
+  used: number | null;
+  /** When the budget resets (ms since epoch) */
+  resetAt: number | null;
+  /** Set by secondary rate limits: no requests before this time (ms since epoch) */
+  blockedUntil: number | null;
+  updatedAt: number;
+}
+
+export interface RateLimitDetails {
+  resource: string;
+  limit: number | null;
+  remaining: number | null;
+  reset_at: string | null;
+  retry_after_seconds: number | null;
+  secondary: boolean;
+}
+
+/**
+ * Thrown by the fetch layer when GitHub reports, or the tracked budget
+ * predicts, a rate limit
+ */
+export class RateLimitError extends Error {
+  readonly details: RateLimitDetails;
+
+  constructor(message: string, details: RateLimitDetails) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.details = details;
+  }
+}
+
+/**
+ * Fallback wait for secondary limits that do not say how long to back off
+ */
+const DEFAULT_SECONDARY_BACKOFF_MS = 60000;
+
+const budgets = new Map<string, RateLimitBudget>();
+
+function budgetKey(identity: string, resource: string): string {
+  return `${identity}|${resource}`;
+}
+
+function readNumber(headers: Headers, name: string): number | null {
+  const value = headers.get(name) ?? headers.get(name.replace(/^x-/, ''));
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Which budget a URL draws from. Responses name their resource explicitly;
+ * this is the best guess before a request is sent. The rate_limit endpoint
+ * draws from none, so it stays reachable when every budget is spent.
+ */
+export function resourceForUrl(url: string, rawBase = 'https://raw.githubusercontent.com'): string {
+  if (url.startsWith(`${rawBase}/`)) return 'raw';
+  const { pathname } = new URL(url);
+  if (/\/rate_limit$/.test(pathname)) return 'rate_limit';
+  if (/\/search\//.test(pathname)) return 'search';
+  if (/\/graphql$/.test(pathname)) return 'graphql';
+  return 'core';
+}
+
+/**
+ * Whether a response is a primary or secondary rate-limit rejection
+ */
+export function isRateLimitedResponse(response: Response): boolean {
+  if (response.status !== 403 && response.status !== 429) return false;
+  return (
+    response.status === 429 ||
+    readNumber(response.headers, 'x-ratelimit-remaining') === 0 ||
+    Boolean(response.headers.get('retry-after'))
+  );
+}
+
+/**
+ * Record the budget reported by a response and return it
+ */
+export function recordRateLimit(
+  identity: string,
+  url: string,
+  response: Response
+): RateLimitBudget | undefined {
+  const headers = response.headers;
+  const resource = headers.get('x-ratelimit-resource') || resourceForUrl(url);
+  const key = budgetKey(identity, resource);
+  const now = Date.now();
+
+  const limit = readNumber(headers, 'x-ratelimit-limit');
+  const remaining = readNumber(headers, 'x-ratelimit-remaining');
+  const used = readNumber(headers, 'x-ratelimit-used');
+  const reset = readNumber(headers, 'x-ratelimit-reset');
+  const retryAfter = readNumber(headers, 'retry-after');
+
+  const previous = budgets.get(key);
+  const hasBudgetHeaders = remaining !== null || limit !== null;
+  if (!hasBudgetHeaders && !isRateLimitedResponse(response)) {
+    return previous;
+  }
+
+  const budget: RateLimitBudget = {
+    resource,
+    limit: limit ?? previous?.limit ?? null,
+    remaining: remaining ?? previous?.remaining ?? null,
+    used: used ?? previous?.used ?? null,
+    resetAt: reset !== null ? reset * 1000 : previous?.resetAt ?? null,
+    blockedUntil: previous?.blockedUntil ?? null,
+    updatedAt: now,
+  };
+
+  // Secondary limits: a 429, or a 403 with retry-after, while budget remains
+  if (isRateLimitedResponse(response) && remaining !== 0) {
+    budget.blockedUntil =
+      now + (retryAfter !== null ? retryAfter * 1000 : DEFAULT_SECONDARY_BACKOFF_MS);
+  }
+
+  budgets.set(key, budget);
+  return budget;
+}
+
+/**
+ * How long a request against this budget must wait before it may be sent (0 = now)
+ */
+export function budgetWaitMs(identity: string, resource: string): number {
+  const budget = budgets.get(budgetKey(identity, resource));
+  if (!budget) return 0;
+
+  const now = Date.now();
+  let until = 0;
+  if (budget.blockedUntil !== null && budget.blockedUntil > now) {
+    until = budget.blockedUntil;
+  }
+  if (budget.remaining === 0 && budget.resetAt !== null && budget.resetAt > now) {
+    until = Math.max(until, budget.resetAt);
+  }
+  return until > 0 ? until - now : 0;
+}
+
+/**
+ * Build the error for an exhausted or blocked budget
+ */
+export function rateLimitError(
+  identity: string,
+  resource: string,
+  retryAfterMs?: number
+): RateLimitError {
+  const budget = budgets.get(budgetKey(identity, resource));
+  const secondary =
+    budget?.blockedUntil !== null &&
+    budget?.blockedUntil !== undefined &&
+    budget.blockedUntil > Date.now() &&
+    budget.remaining !== 0;
+
+  return new RateLimitError(
+    secondary ? 'GitHub API secondary rate limit exceeded' : 'GitHub API rate limit exceeded',
+    {
+      resource,
+      limit: budget?.limit ?? null,
+      remaining: budget?.remaining ?? null,
+      reset_at: budget?.resetAt ? new Date(budget.resetAt).toISOString() : null,
+      retry_after_seconds:
+        retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : null,
+      secondary,
+    }
+  );
+}
+
+/**
+ * Tracked budgets for one token identity
+ */
+export function getRateLimitBudgets(identity: string): RateLimitBudget[] {
+  const prefix = `${identity}|`;
+  return [...budgets]
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([, budget]) => budget);
+}
+
+/**
+ * Overwrite a tracked budget (e.g. from the /rate_limit endpoint)
+ */
+export function setRateLimitBudget(identity: string, budget: RateLimitBudget): void {
+  const previous = budgets.get(budgetKey(identity, budget.resource));
+  budgets.set(budgetKey(identity, budget.resource), {
+    ...budget,
+    blockedUntil: previous?.blockedUntil ?? budget.blockedUntil,
+  });
+}
+
+/**
+ * Forget all tracked budgets
+ */
+export function resetRateLimitState(): void {
+  budgets.clear();
+}
@@ -0,0 +1,80 @@
+import type { Config } from '../config.js';
+
+/**
+ * Methods that can be repeated without changing the outcome; only these are retried
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Whether a response status is worth retrying. Client errors (4xx) never are,
+ * even if configured: repeating the same request cannot change the answer, and
+ * rate limits are handled by the budget tracker instead.
+ */
+export function isRetryableStatus(status: number, config: Config): boolean {
+  return status >= 500 && config.retryStatuses.includes(status);
+}
+
+/**
+ * Error codes of network failures worth another attempt: dropped and refused
+ * connections, timeouts and temporary DNS failures, as Node reports them and
+ * as undici, which implements fetch, reports them
+ */
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENETDOWN',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_CLOSED',
+]);
+
+function errorCode(error: unknown): unknown {
+  return error instanceof Error ? (error as Error & { code?: unknown }).code : undefined;
+}
+
+/**
+ * Whether a thrown fetch error is a transient network failure. fetch rejects
+ * with a TypeError whose cause carries the network error code; a TypeError
+ * without one, such as a malformed URL, or a bug in our own code would fail
+ * the same way again. Timeouts (AbortError) mean the deadline has passed.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof TypeError)) return false;
+  const cause = error.cause;
+  // Connecting to every address of a host fails with one error per address
+  const causes = cause instanceof AggregateError ? [cause, ...cause.errors] : [cause];
+  return causes.some((c) => TRANSIENT_NETWORK_CODES.has(errorCode(c) as string));
+}
+
+/**
+ * Parse a retry-after header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Delay before the given retry (1 = first retry): exponential backoff from the
+ * base delay plus random jitter, or the server's retry-after if that is longer
+ */
+export function retryDelayMs(retry: number, config: Config, retryAfter?: string | null): number {
+  const backoff = config.retryBaseDelayMs * 2 ** (retry - 1);
+  const jitter = Math.random() * config.retryJitterMs;
+  const requested = config.retryRespectRetryAfter ? parseRetryAfter(retryAfter) : null;
+  return Math.max(backoff + jitter, requested ?? 0);
+}
@@ -0,0 +1,116 @@
+import { join } from 'path';
+import { getConfig, type Config } from '../config.js';
+import { type ForgeHost, hostForRepo } from '../hosts.js';
+import { type CacheStore, type CachedValue, cacheKey, createMemoryCacheStore } from './cache.js';
+import { getUpstreamContext } from './context.js';
+import { createFileCacheStore } from './file-store.js';
+import { poolIdentity } from './tokens.js';
+
+// Created lazily so the configured backend and limits apply; null means disabled
+let responseStore: CacheStore | null | undefined;
+let briefStore: CacheStore<CachedValue<unknown>> | null | undefined;
+
+function createStore<T>(config: Config, namespace: string): CacheStore<T> | null {
+  if (config.cacheMaxEntries <= 0) return null;
+
+  if (config.cacheDir) {
+    return createFileCacheStore<T>({
+      dir: join(config.cacheDir, namespace),
+      maxBytes: config.cacheMaxBytes,
+      maxEntries: config.cacheMaxEntries,
+      eviction: config.cacheEviction,
+    });
+  }
+
+  return createMemoryCacheStore<T>(config.cacheMaxEntries);
+}
+
+/**
+ * Store for upstream HTTP responses
+ */
+export function getResponseStore(config: Config): CacheStore | null {
+  if (responseStore === undefined) {
+    responseStore = createStore(config, 'responses');
+  }
+  return responseStore;
+}
+
+/**
+ * Store for computed results such as repo briefs
+ */
+export function getBriefStore(config: Config): CacheStore<CachedValue<unknown>> | null {
+  if (briefStore === undefined) {
+    briefStore = createStore(config, 'briefs');
+  }
+  return briefStore;
+}
+
+/**
+ * Replace the response cache backend (null disables caching)
+ */
+export function setCacheStore(store: CacheStore | null): void {
+  responseStore = store;
+}
+
+/**
+ * Drop all cached upstream responses and computed results
+ */
+export async function clearResponseCache(): Promise<void> {
+  await responseStore?.clear();
+  await briefStore?.clear();
+}
+
+/**
+ * Forget the current stores so the next use recreates them from config
+ */
+export function resetCacheStores(): void {
+  responseStore = undefined;
+  briefStore = undefined;
+}
+
+/**
+ * Read a computed result if one exists within the cache TTL (and the active
+ * context's max age). Computed results cannot be revalidated, so with the
+ * default TTL of 0 they are never served.
+ */
+export async function readComputed<T>(
+  key: string,
+  host: ForgeHost = hostForRepo({})
+): Promise<T | undefined> {
+  const config = getConfig();
+  const store = getBriefStore(config);
+  if (!store) return undefined;
+
+  const context = getUpstreamContext();
+  const ttlMs = Math.min(config.cacheTtlMs, context?.maxAgeMs ?? Infinity);
+  const cached = await store.get(cacheKey(key, poolIdentity(host), 'computed'));
+  if (!cached) return undefined;
+
+  const ageMs = Date.now() - cached.storedAt;
+  if (ageMs >= ttlMs) return undefined;
+
+  if (context) {
+    context.cache.hits++;
+    context.cache.oldestAgeMs = Math.max(context.cache.oldestAgeMs, ageMs);
+  }
+  // Callers may annotate the result (e.g. meta), so never hand out the stored object
+  return structuredClone(cached.value) as T;
+}
+
+/**
+ * Store a computed result for readComputed
+ */
+export async function writeComputed<T>(
+  key: string,
+  value: T,
+  host: ForgeHost = hostForRepo({})
+): Promise<void> {
+  const config = getConfig();
+  const store = getBriefStore(config);
+  if (!store || config.cacheTtlMs <= 0) return;
+
+  await store.set(cacheKey(key, poolIdentity(host), 'computed'), {
+    storedAt: Date.now(),
+    value,
+  });
+}
@@ -0,0 +1,130 @@
+import type { ForgeHost } from '../hosts.js';
+import { tokenIdentity } from './cache.js';
+import { budgetWaitMs, getRateLimitBudgets } from './rate-limit.js';
+
+/**
+ * One configured token. Slots are numbered from 1 in configuration order per
+ * host and are what gets reported; token values never leave this module's
+ * callers.
+ */
+export interface TokenSlot {
+  slot: number;
+  token: string;
+  identity: string;
+}
+
+/**
+ * The token chosen for a request (none for anonymous access), the identity its
+ * budget is tracked under, and how long that budget says to wait first
+ */
+export interface TokenChoice {
+  token?: TokenSlot;
+  identity: string;
+  waitMs: number;
+}
+
+/** How long a token answered with 401 is left out before it is tried again */
+const TOKEN_COOLDOWN_MS = 10 * 60 * 1000;
+
+// Identities of tokens that returned 401, revoked or mistyped, and when they may be tried again
+const disabledTokens = new Map<string, number>();
+
+/**
+ * All tokens configured for a host, in slot order
+ */
+export function getTokenPool(host: ForgeHost): TokenSlot[] {
+  return host.tokens.map((token, index) => ({
+    slot: index + 1,
+    token,
+    identity: tokenIdentity(token),
+  }));
+}
+
+/**
+ * Identity of anonymous access; budgets are per client IP and host
+ */
+export function anonymousIdentity(host: Pick<ForgeHost, 'host'>): string {
+  return host.host === 'github.com' ? tokenIdentity(undefined) : `${tokenIdentity(undefined)}@${host.host}`;
+}
+
+/**
+ * Anonymous access to a host, with the wait its budget calls for
+ */
+export function anonymousChoice(host: Pick<ForgeHost, 'host'>, resource: string): TokenChoice {
+  const identity = anonymousIdentity(host);
+  return { identity, waitMs: budgetWaitMs(identity, resource) };
+}
+
+/**
+ * Identity of a host's pool as a whole, for keying data that any token may serve
+ */
+export function poolIdentity(host: ForgeHost): string {
+  if (host.tokens.length === 0) return anonymousIdentity(host);
+  return host.tokens.length === 1
+    ? tokenIdentity(host.tokens[0])
+    : tokenIdentity(host.tokens.join('\n'));
+}
+
+function remainingBudget(token: TokenSlot, resource: string): number {
+  const budget = getRateLimitBudgets(token.identity).find((b) => b.resource === resource);
+  // Untried tokens are preferred so their budget becomes known
+  return budget?.remaining ?? Infinity;
+}
+
+/**
+ * Pick the usable token with the most remaining budget for a resource,
+ * skipping disabled tokens and slots already tried for this request. When
+ * every candidate is exhausted, the one that frees up first is returned with
+ * its wait. Returns null when no candidate is left; a host without usable
+ * tokens yields an anonymous choice, unless a slot is pinned.
+ */
+export function selectToken(
+  host: ForgeHost,
+  resource: string,
+  exclude: ReadonlySet<number> = new Set(),
+  pinned?: number
+): TokenChoice | null {
+  const usable = getTokenPool(host).filter((t) => !isTokenDisabled(t));
+  // Public repositories stay readable when every token has been rejected
+  if (usable.length === 0 && pinned === undefined) return anonymousChoice(host, resource);
+
+  const candidates = usable.filter(
+    (t) => !exclude.has(t.slot) && (pinned === undefined || t.slot === pinned)
+  );
+
+  let best: (TokenChoice & { token: TokenSlot }) | null = null;
+  for (const token of candidates) {
+    const waitMs = budgetWaitMs(token.identity, resource);
+    if (
+      !best ||
+      waitMs < best.waitMs ||
+      (waitMs === best.waitMs && remainingBudget(token, resource) > remainingBudget(best.token, resource))
+    ) {
+      best = { token, identity: token.identity, waitMs };
+    }
+  }
+  return best;
+}
+
+/**
+ * Stop using a token that was rejected as invalid, until the cooldown has
+ * passed in case it was rejected only for a while
+ */
+export function disableToken(token: TokenSlot): void {
+  disabledTokens.set(token.identity, Date.now() + TOKEN_COOLDOWN_MS);
+}
+
+export function isTokenDisabled(token: TokenSlot): boolean {
+  const until = disabledTokens.get(token.identity);
+  if (until === undefined) return false;
+  if (until > Date.now()) return true;
+  disabledTokens.delete(token.identity);
+  return false;
+}
+
+/**
+ * Re-enable all tokens
+ */
+export function resetTokenPool(): void {
+  disabledTokens.clear();
+}
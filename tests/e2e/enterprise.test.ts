@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setConfig, resetConfig } from '../../src/config.js';
+import { handleJsonRpcRequest } from '../../src/transport/jsonrpc.js';
+import { parseRepoUrl } from '../../src/tools/overview.js';
+import { resetRateLimitState, resetTokenPool, clearResponseCache } from '../../src/upstream/index.js';
+
+/**
+ * A minimal GitHub Enterprise Server stand-in serving one repository under
+ * the standard /api/v3 and /raw layout
+ */
+function createEnterpriseStandIn(requests: IncomingMessage[]): Server {
+  const repo = {
+    name: 'widgets',
+    full_name: 'platform/widgets',
+    description: 'Internal widgets',
+    stargazers_count: 3,
+    forks_count: 1,
+    language: 'TypeScript',
+    topics: [],
+    license: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-06-01T00:00:00Z',
+    default_branch: 'trunk',
+    homepage: null,
+    open_issues_count: 2,
+    watchers_count: 3,
+    has_wiki: false,
+    has_discussions: false,
+    owner: { login: 'platform', avatar_url: '', type: 'Organization' },
+  };
+
+  const routes: Record<string, unknown> = {
+    '/api/v3/repos/platform/widgets': repo,
+    '/api/v3/repos/platform/widgets/releases': [
+      {
+        tag_name: 'v1.0.0',
+        name: 'v1.0.0',
+        body: 'First',
+        published_at: '2024-05-01T00:00:00Z',
+        prerelease: false,
+        draft: false,
+        html_url: '',
+      },
+    ],
+    '/api/v3/repos/platform/widgets/commits': [
+      { sha: 'abc', commit: { message: 'Fix', author: { name: 'a', date: '2024-06-01T00:00:00Z' } } },
+    ],
+    '/api/v3/repos/platform/widgets/pulls': [],
+    '/api/v3/repos/platform/widgets/contributors': [{ login: 'a', contributions: 1 }],
+  };
+
+  return createServer((req, res) => {
+    requests.push(req);
+    const path = (req.url ?? '').split('?')[0];
+
+    if (path === '/api/v3/repos/platform/widgets/commits/trunk') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('c0ffee');
+      return;
+    }
+
+    if (path === '/raw/platform/widgets/c0ffee/README.md') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('# Widgets');
+      return;
+    }
+
+    const body = routes[path];
+    if (body === undefined) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end('{"message":"Not Found"}');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+}
+
+describe('GitHub Enterprise Server', () => {
+  const requests: IncomingMessage[] = [];
+  let server: Server;
+  let webBase: string;
+
+  beforeAll(async () => {
+    server = createEnterpriseStandIn(requests);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    webBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    resetConfig();
+    resetRateLimitState();
+    resetTokenPool();
+    await clearResponseCache();
+    setConfig({
+      requestDelayMs: 0,
+      githubToken: 'public-token',
+      githubHosts: [{ host: webBase, tokens: ['enterprise-token'] }],
+    });
+  });
+
+  afterAll(async () => {
+    resetConfig();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const response = await handleJsonRpcRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name, arguments: args },
+    }, { protocolVersion: '2025-06-18' });
+    return (response?.result as { structuredContent: Record<string, any> }).structuredContent;
+  }
+
+  it('should parse repository URLs on configured hosts only', () => {
+    expect(parseRepoUrl(`${webBase}/platform/widgets`)).toEqual({
+      owner: 'platform',
+      repo: 'widgets',
+      host: new URL(webBase).host,
+    });
+    expect(parseRepoUrl('https://unknown.example.com/platform/widgets')).toBeNull();
+  });
+
+  it('should run all four tools against the enterprise host with its own token', async () => {
+    const repoUrl = `${webBase}/platform/widgets`;
+
+    const overview = await callTool('repo_overview', { repo_url: repoUrl });
+    expect(overview.ok).toBe(true);
+    expect(overview.data.full_name).toBe('platform/widgets');
+
+    const files = await callTool('extract_key_files', { repo_url: repoUrl, paths: ['README.md'] });
+    expect(files.ok).toBe(true);
+    expect(files.data.files[0].content).toBe('# Widgets');
+    expect(files.meta.source).toBe(repoUrl);
+
+    const releases = await callTool('release_notes', { repo_url: repoUrl });
+    expect(releases.ok).toBe(true);
+    expect(releases.data.releases[0].tag_name).toBe('v1.0.0');
+
+    const activity = await callTool('activity_snapshot', { repo_url: repoUrl });
+    expect(activity.ok).toBe(true);
+    expect(activity.data.last_commit_message).toBe('Fix');
+
+    expect(requests.length).toBeGreaterThan(0);
+    for (const req of requests) {
+      expect(req.headers.authorization).toBe('Bearer enterprise-token');
+    }
+  });
+});
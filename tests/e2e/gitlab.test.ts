@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setConfig, resetConfig } from '../../src/config.js';
+import { handleJsonRpcRequest } from '../../src/transport/jsonrpc.js';
+import { parseRepoUrl } from '../../src/tools/overview.js';
+import { resetRateLimitState, resetTokenPool, clearResponseCache } from '../../src/upstream/index.js';
+
+/**
+ * A minimal self-hosted GitLab stand-in serving one project in a subgroup
+ * under the standard /api/v4 layout
+ */
+function createGitLabStandIn(requests: IncomingMessage[]): Server {
+  const project = '/api/v4/projects/platform%2Ftools%2Fwidgets';
+
+  const routes: Record<string, { body: unknown; headers?: Record<string, string> }> = {
+    [project]: {
+      body: {
+        path: 'widgets',
+        path_with_namespace: 'platform/tools/widgets',
+        web_url: 'https://gitlab.example.com/platform/tools/widgets',
+        description: 'Internal widgets',
+        star_count: 3,
+        forks_count: 1,
+        topics: ['internal'],
+        license: { key: 'apache-2.0', name: 'Apache License 2.0' },
+        created_at: '2024-01-01T00:00:00Z',
+        last_activity_at: '2024-06-01T00:00:00Z',
+        default_branch: 'trunk',
+        open_issues_count: 2,
+        wiki_enabled: true,
+        namespace: { full_path: 'platform/tools', kind: 'group', avatar_url: null },
+      },
+    },
+    [`${project}/languages`]: { body: { Go: 20.5, TypeScript: 79.5 } },
+    [`${project}/releases`]: {
+      body: [
+        {
+          tag_name: 'v1.0.0',
+          name: 'v1.0.0',
+          description: 'First',
+          released_at: '2024-05-01T00:00:00Z',
+          upcoming_release: false,
+        },
+      ],
+    },
+    [`${project}/repository/commits`]: {
+      body: [{ id: 'abc', message: 'Fix', committed_date: '2024-06-01T00:00:00Z' }],
+    },
+    [`${project}/repository/commits/trunk`]: {
+      body: { id: 'c0ffee', message: 'Fix', committed_date: '2024-06-01T00:00:00Z' },
+    },
+    [`${project}/merge_requests`]: { body: [{ iid: 1 }], headers: { 'X-Total': '4' } },
+    [`${project}/repository/contributors`]: { body: [{ name: 'a' }], headers: { 'X-Total': '7' } },
+    [`${project}/repository/files/README.md/raw`]: { body: '# Widgets' },
+  };
+
+  return createServer((req, res) => {
+    requests.push(req);
+    const [path, query] = (req.url ?? '').split('?');
+    const route = routes[path];
+
+    if (!route || (path.endsWith('/raw') && !query?.includes('ref=c0ffee'))) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end('{"message":"404 Not Found"}');
+      return;
+    }
+
+    const text = typeof route.body === 'string';
+    res.writeHead(200, {
+      'Content-Type': text ? 'text/plain' : 'application/json',
+      ...route.headers,
+    });
+    res.end(text ? route.body : JSON.stringify(route.body));
+  });
+}
+
+describe('self-hosted GitLab', () => {
+  const requests: IncomingMessage[] = [];
+  let server: Server;
+  let webBase: string;
+
+  beforeAll(async () => {
+    server = createGitLabStandIn(requests);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    webBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    resetConfig();
+    resetRateLimitState();
+    resetTokenPool();
+    await clearResponseCache();
+    setConfig({
+      requestDelayMs: 0,
+      githubToken: 'github-token',
+      gitlabHosts: [{ host: webBase, tokens: ['gitlab-token'] }],
+    });
+  });
+
+  afterAll(async () => {
+    resetConfig();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const response = await handleJsonRpcRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name, arguments: args },
+    }, { protocolVersion: '2025-06-18' });
+    return (response?.result as { structuredContent: Record<string, any> }).structuredContent;
+  }
+
+  it('should detect the provider from the host', () => {
+    expect(parseRepoUrl(`${webBase}/platform/tools/widgets/-/releases`)).toEqual({
+      owner: 'platform/tools',
+      repo: 'widgets',
+      host: new URL(webBase).host,
+      provider: 'gitlab',
+    });
+  });
+
+  it('should map GitLab projects to the same output types as GitHub', async () => {
+    const repoUrl = `${webBase}/platform/tools/widgets`;
+
+    const overview = await callTool('repo_overview', { repo_url: repoUrl });
+    expect(overview.ok).toBe(true);
+    expect(overview.data).toMatchObject({
+      name: 'widgets',
+      full_name: 'platform/tools/widgets',
+      stars: 3,
+      language: 'TypeScript',
+      license: 'Apache-2.0',
+      default_branch: 'trunk',
+      owner: { login: 'platform/tools', type: 'Organization' },
+    });
+
+    const files = await callTool('extract_key_files', { repo_url: repoUrl, paths: ['README.md'] });
+    expect(files.ok).toBe(true);
+    expect(files.data.files[0].content).toBe('# Widgets');
+
+    const releases = await callTool('release_notes', { repo_url: repoUrl });
+    expect(releases.ok).toBe(true);
+    expect(releases.data.releases[0]).toMatchObject({ tag_name: 'v1.0.0', body: 'First' });
+
+    const activity = await callTool('activity_snapshot', { repo_url: repoUrl });
+    expect(activity.ok).toBe(true);
+    expect(activity.data).toMatchObject({
+      last_commit_message: 'Fix',
+      open_prs_count: 4,
+      contributors_count: 7,
+      has_wiki: true,
+    });
+
+    expect(requests.length).toBeGreaterThan(0);
+    for (const req of requests) {
+      expect(req.headers.authorization).toBe('Bearer gitlab-token');
+    }
+  });
+
+  it('should refuse rate-limit status for GitLab hosts', async () => {
+    const result = await callTool('rate_limit_status', { host: new URL(webBase).host });
+    expect(result.ok).toBe(false);
+    expect(result.error.code).toBe('INVALID_INPUT');
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PassThrough } from 'stream';
+import { request as httpRequest, type Server } from 'http';
+import type { AddressInfo } from 'net';
 import { createHttpServer } from '../../src/transport/http.js';
+import { createStdioTransport } from '../../src/transport/stdio.js';
+import { clearSessions } from '../../src/transport/sessions.js';
+import { resetRateLimitState } from '../../src/upstream/index.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -8,6 +14,7 @@ global.fetch = mockFetch;
 describe('MCP Server E2E Tests', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    resetRateLimitState();
   });
 
   afterEach(() => {
@@ -22,6 +29,242 @@ describe('MCP Server E2E Tests', () => {
     });
   });
 
+  describe('Streamable HTTP Transport', () => {
+    let server: Server;
+    let port: number;
+
+    beforeEach(async () => {
+      server = createHttpServer();
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      clearSessions();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    function send(
+      method: string,
+      options: { headers?: Record<string, string>; body?: unknown } = {}
+    ): Promise<{ status: number; headers: Record<string, unknown>; body: string }> {
+      return new Promise((resolve, reject) => {
+        const payload = options.body === undefined ? undefined : JSON.stringify(options.body);
+        const req = httpRequest(
+          {
+            host: '127.0.0.1',
+            port,
+            path: '/mcp',
+            method,
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'application/json, text/event-stream',
+              ...options.headers,
+            },
+          },
+          (res) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () =>
+              resolve({
+                status: res.statusCode ?? 0,
+                headers: res.headers,
+                body: Buffer.concat(chunks).toString('utf-8'),
+              })
+            );
+          }
+        );
+        req.on('error', reject);
+        req.end(payload);
+      });
+    }
+
+    it('should issue a session on initialize and honour it until deleted', async () => {
+      const init = await send('POST', {
+        body: { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } },
+      });
+      expect(init.status).toBe(200);
+      const sessionId = init.headers['mcp-session-id'] as string;
+      expect(sessionId).toBeTruthy();
+      expect(JSON.parse(init.body).result.protocolVersion).toBe('2025-03-26');
+
+      const ack = await send('POST', {
+        headers: { 'Mcp-Session-Id': sessionId },
+        body: { jsonrpc: '2.0', method: 'notifications/initialized' },
+      });
+      expect(ack.status).toBe(202);
+
+      // A response to a request of the server's is acknowledged, not answered
+      const response = await send('POST', {
+        headers: { 'Mcp-Session-Id': sessionId },
+        body: { jsonrpc: '2.0', id: 'server-1', result: {} },
+      });
+      expect(response.status).toBe(202);
+      expect(response.body).toBe('');
+
+      const list = await send('POST', {
+        headers: { 'Mcp-Session-Id': sessionId },
+        body: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      });
+      expect(list.status).toBe(200);
+      expect(JSON.parse(list.body).result.tools.length).toBeGreaterThan(0);
+
+      const deleted = await send('DELETE', { headers: { 'Mcp-Session-Id': sessionId } });
+      expect(deleted.status).toBe(204);
+
+      const stale = await send('POST', {
+        headers: { 'Mcp-Session-Id': sessionId },
+        body: { jsonrpc: '2.0', id: 3, method: 'tools/list' },
+      });
+      expect(stale.status).toBe(404);
+    });
+
+    it('should stream progress and the result as server-sent events', async () => {
+      const res = await send('POST', {
+        body: {
+          jsonrpc: '2.0',
+          id: 5,
+          method: 'tools/call',
+          params: {
+            name: 'repo_overview',
+            arguments: { repo_url: 'not-a-url' },
+            _meta: { progressToken: 'tok-1' },
+          },
+        },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toBe('text/event-stream');
+
+      const events = res.body
+        .split('\n\n')
+        .filter((block) => block.includes('data: '))
+        .map((block) => JSON.parse(block.slice(block.indexOf('data: ') + 6)));
+
+      const progress = events.filter((e) => e.method === 'notifications/progress');
+      expect(progress.length).toBeGreaterThan(0);
+      expect(progress[0].params.progressToken).toBe('tok-1');
+      expect(events[events.length - 1].id).toBe(5);
+    });
+
+    it('should return structuredContent only under a protocol version that defines it', async () => {
+      const call = {
+        jsonrpc: '2.0',
+        id: 6,
+        method: 'tools/call',
+        params: { name: 'repo_overview', arguments: { repo_url: 'not-a-url' } },
+      };
+
+      const current = await send('POST', {
+        headers: { 'MCP-Protocol-Version': '2025-06-18' },
+        body: call,
+      });
+      expect(JSON.parse(current.body).result.structuredContent.ok).toBe(false);
+
+      const older = await send('POST', { body: call });
+      expect(JSON.parse(older.body).result).not.toHaveProperty('structuredContent');
+
+      const unknown = await send('POST', {
+        headers: { 'MCP-Protocol-Version': '1999-01-01' },
+        body: call,
+      });
+      expect(unknown.status).toBe(400);
+    });
+
+    it('should require a session for GET streams', async () => {
+      const missing = await send('GET', { headers: { Accept: 'text/event-stream' } });
+      expect(missing.status).toBe(400);
+
+      const unknown = await send('GET', {
+        headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': 'nope' },
+      });
+      expect(unknown.status).toBe(404);
+    });
+  });
+
+  describe('Stdio Transport', () => {
+    async function exchange(lines: string[]): Promise<Array<Record<string, unknown>>> {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      const chunks: string[] = [];
+      output.on('data', (chunk: Buffer) => chunks.push(chunk.toString('utf-8')));
+
+      const transport = createStdioTransport({ input, output });
+      for (const line of lines) {
+        input.write(line + '\n');
+      }
+      input.end();
+      await transport.closed;
+
+      return chunks
+        .join('')
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line));
+    }
+
+    it('should answer initialize and tools/list with newline-delimited JSON', async () => {
+      const messages = await exchange([
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }),
+        JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+        JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+      ]);
+
+      expect(messages).toHaveLength(2);
+      const init = messages.find((m) => m.id === 1) as { result: { serverInfo: { name: string } } };
+      expect(init.result.serverInfo.name).toBe('git-repo-brief');
+      const list = messages.find((m) => m.id === 2) as { result: { tools: unknown[] } };
+      expect(list.result.tools.length).toBeGreaterThan(0);
+    });
+
+    it('should return structuredContent once a version that defines it is negotiated', async () => {
+      const initialize = (protocolVersion: string) =>
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion } });
+      const call = JSON.stringify({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'repo_overview', arguments: { repo_url: 'not-a-url' } },
+      });
+
+      const older = await exchange([initialize('2025-03-26'), call]);
+      expect(older.find((m) => m.id === 2)?.result).not.toHaveProperty('structuredContent');
+
+      const current = await exchange([initialize('2025-06-18'), call]);
+      expect(current.find((m) => m.id === 2)?.result).toHaveProperty('structuredContent');
+    });
+
+    it('should answer a batch with an array of responses', async () => {
+      const messages = await exchange([
+        JSON.stringify([
+          { jsonrpc: '2.0', id: 1, method: 'ping' },
+          { jsonrpc: '2.0', method: 'notifications/initialized' },
+          { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+        ]),
+        JSON.stringify([{ jsonrpc: '2.0', method: 'notifications/initialized' }]),
+        JSON.stringify([]),
+      ]);
+
+      expect(messages).toHaveLength(2);
+      const batch = messages.find(Array.isArray) as unknown as Array<{ id: number; result: unknown }>;
+      expect(batch.map((response) => response.id)).toEqual([1, 2]);
+      const empty = messages.find((m) => !Array.isArray(m)) as { error: { code: number } };
+      expect(empty.error.code).toBe(-32600);
+    });
+
+    it('should report parse errors without dropping the stream', async () => {
+      const messages = await exchange([
+        '{not json',
+        JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'ping' }),
+      ]);
+
+      expect(messages).toHaveLength(2);
+      const parseError = messages.find((m) => m.id === null) as { error: { code: number } };
+      expect(parseError.error.code).toBe(-32700);
+      expect(messages.find((m) => m.id === 7)).toHaveProperty('result');
+    });
+  });
+
   describe('Tool Execution Simulation', () => {
     it('should handle repo_overview tool call', async () => {
       const mockRepoData = {
@@ -71,34 +314,59 @@ describe('MCP Server E2E Tests', () => {
         headers: new Map(),
       });
 
-      // README
+      // Commit of the default branch
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 200,
-        text: async () => '# Test Repo\nDescription here',
+        text: async () => 'abc123',
         headers: new Map(),
       });
 
-      // LICENSE
+      // Root listing
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 200,
-        text: async () => 'MIT License',
+        json: async () => ({
+          sha: 'abc123',
+          tree: [
+            { path: 'LICENSE', type: 'blob', size: 11 },
+            { path: 'README.md', type: 'blob', size: 29 },
+            { path: 'package.json', type: 'blob', size: 41 },
+          ],
+          truncated: false,
+        }),
         headers: new Map(),
       });
 
-      // package.json
+      // Languages
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 200,
-        text: async () => '{"name": "test-repo", "version": "1.0.0"}',
+        json: async () => ({ JavaScript: 5000 }),
         headers: new Map(),
       });
 
-      // pyproject.toml
+      // README
       mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => new TextEncoder().encode('# Test Repo\nDescription here').buffer,
+        headers: new Map(),
+      });
+
+      // LICENSE
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => new TextEncoder().encode('MIT License').buffer,
+        headers: new Map(),
+      });
+
+      // package.json
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => new TextEncoder().encode('{"name": "test-repo", "version": "1.0.0"}').buffer,
         headers: new Map(),
       });
 
@@ -108,7 +376,7 @@ describe('MCP Server E2E Tests', () => {
       expect(result.ok).toBe(true);
       if (result.ok) {
         expect(result.data.default_branch).toBe('main');
-        expect(result.data.files.length).toBe(4);
+        expect(result.data.files.length).toBe(3);
 
         const readme = result.data.files.find((f) => f.path === 'README.md');
         expect(readme?.content).toContain('# Test Repo');
@@ -0,0 +1,389 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseChangelog, releaseChanges } from '../../src/changelog/index.js';
+import { chooseChangelog } from '../../src/ecosystems.js';
+import { releaseNotes } from '../../src/tools/releases.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+const KEEP_A_CHANGELOG = [
+  '# Changelog',
+  '',
+  'All notable changes to this project will be documented in this file.',
+  '',
+  '## [Unreleased]',
+  '',
+  '### Added',
+  '- Streaming API',
+  '',
+  '## [1.1.0] - 2024-05-01',
+  '',
+  '### Added',
+  '- Retry option',
+  '- Timeout option,',
+  '  in seconds',
+  '',
+  '### Fixed',
+  '- Crash on empty input',
+  '',
+  '```',
+  '## 9.9.9 is not a heading',
+  '```',
+  '',
+  '## [1.0.0] - 2024-01-15',
+  '',
+  '### Removed',
+  '- Node 14 support',
+  '',
+  '[Unreleased]: https://github.com/owner/repo/compare/v1.1.0...HEAD',
+  '[1.1.0]: https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+].join('\n');
+
+describe('parseChangelog', () => {
+  it('should read Keep a Changelog versions with dates, links and an unreleased section', () => {
+    const entries = parseChangelog(KEEP_A_CHANGELOG, 'markdown');
+
+    expect(entries.map((entry) => [entry.tag, entry.date, entry.unreleased])).toEqual([
+      ['Unreleased', null, true],
+      ['1.1.0', '2024-05-01T00:00:00.000Z', false],
+      ['1.0.0', '2024-01-15T00:00:00.000Z', false],
+    ]);
+    expect(entries[1].link).toBe('https://github.com/owner/repo/compare/v1.0.0...v1.1.0');
+    expect(entries[2].link).toBeNull();
+    expect(entries[1].body).toContain('## 9.9.9 is not a heading');
+    expect(entries[2].body).toBe(
+      [
+        '### Removed',
+        '- Node 14 support',
+        '',
+        '[Unreleased]: https://github.com/owner/repo/compare/v1.1.0...HEAD',
+        '[1.1.0]: https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+      ].join('\n')
+    );
+  });
+
+  it('should read underlined headings and written dates, passing over headings without a version', () => {
+    const history = [
+      '2.0.1 / 2023-03-02',
+      '==================',
+      '',
+      '  * Fix a regression',
+      '',
+      'Release 2.0.0 — January 5, 2023',
+      '===============================',
+      '',
+      '  * Drop callbacks',
+      '',
+      'Older releases',
+      '==============',
+      '',
+      'See the wiki.',
+    ].join('\n');
+
+    const entries = parseChangelog(history, 'text');
+
+    expect(entries.map((entry) => [entry.tag, entry.date, entry.body])).toEqual([
+      ['2.0.1', '2023-03-02T00:00:00.000Z', '  * Fix a regression'],
+      ['2.0.0', '2023-01-05T00:00:00.000Z', '  * Drop callbacks'],
+    ]);
+  });
+
+  it('should take versions at the level of the first, as in package NEWS files', () => {
+    const news = ['# widget 0.3.0', '', '## Bug fixes', '', '* Fixed 1.2 parsing', '', '# widget 0.2.1', '', '* First'].join(
+      '\n'
+    );
+
+    expect(parseChangelog(news, 'markdown').map((entry) => [entry.tag, entry.title])).toEqual([
+      ['0.3.0', 'widget 0.3.0'],
+      ['0.2.1', 'widget 0.2.1'],
+    ]);
+    expect(parseChangelog('# Changelog\n\nNothing yet.', 'markdown')).toEqual([]);
+  });
+});
+
+describe('releaseChanges', () => {
+  it('should sort list items by the kind of change they are listed under', () => {
+    const notes = [
+      "## What's Changed",
+      '* Faster startup by @dev in #12',
+      '### 🚀 Features',
+      '* Plugins',
+      '### Bug Fixes',
+      '#### Core',
+      '* **core:** handle symlinks',
+      '  on Windows',
+      '## New Contributors',
+      '* @dev made their first contribution',
+      '### Security',
+      '- Patch CVE-2024-0001',
+    ].join('\n');
+
+    expect(releaseChanges(notes)).toEqual({
+      changed: ['Faster startup by @dev in #12'],
+      added: ['Plugins'],
+      fixed: ['**core:** handle symlinks on Windows'],
+      security: ['Patch CVE-2024-0001'],
+    });
+    expect(releaseChanges('### Added\n- A\n\n### Fixed\n- B')).toEqual({ added: ['A'], fixed: ['B'] });
+    expect(releaseChanges('Just a paragraph.\n\n- And a list')).toBeNull();
+  });
+});
+
+describe('chooseChangelog', () => {
+  it('should prefer CHANGELOG, then CHANGES, HISTORY and NEWS, rendered formats first', () => {
+    expect(chooseChangelog(['NEWS', 'HISTORY.md', 'README.md'])).toBe('HISTORY.md');
+    expect(chooseChangelog(['changes.txt', 'CHANGELOG', 'CHANGELOG.md'])).toBe('CHANGELOG.md');
+    expect(chooseChangelog(['CHANGELOG.old', 'release.sh'])).toBeUndefined();
+  });
+});
+
+describe('releaseNotes from a changelog', () => {
+  const api = 'https://api.github.com/repos/owner/repo';
+  const raw = 'https://raw.githubusercontent.com/owner/repo/c0ffee';
+
+  function mockRepository(releases: unknown[], files: Record<string, string>) {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.startsWith(`${api}/releases`)) return Response.json(releases);
+      if (url === api) return Response.json({ default_branch: 'main' });
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url.startsWith(`${api}/git/trees/`)) {
+        return Response.json({
+          sha: 'c0ffee',
+          tree: Object.keys(files).map((path) => ({ path, type: 'blob', size: files[path].length })),
+          truncated: false,
+        });
+      }
+      const path = url.startsWith(`${raw}/`) ? url.slice(raw.length + 1) : '';
+      return path in files ? new Response(files[path]) : new Response('Not Found', { status: 404 });
+    });
+  }
+
+  it('should fall back to the changelog when the forge has no releases', async () => {
+    mockRepository([], { 'CHANGELOG.md': KEEP_A_CHANGELOG, 'src/index.ts': '' });
+
+    const result = await releaseNotes('https://github.com/owner/repo', 2);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.meta.source_type).toBe('changelog');
+    expect(result.meta.source).toBe('https://github.com/owner/repo/blob/c0ffee/CHANGELOG.md');
+    expect(result.data.total_count).toBe(3);
+    expect(result.data.releases.map((release) => [release.tag_name, release.draft])).toEqual([
+      ['Unreleased', true],
+      ['1.1.0', false],
+    ]);
+    expect(result.data.releases[1]).toMatchObject({
+      published_at: '2024-05-01T00:00:00.000Z',
+      html_url: 'https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+      version: { major: 1, minor: 1, patch: 0 },
+      changes: { added: ['Retry option', 'Timeout option, in seconds'], fixed: ['Crash on empty input'] },
+    });
+
+    // The cursor stays with the changelog
+    const next = await releaseNotes('https://github.com/owner/repo', 2, {
+      cursor: result.meta.pagination!.next_cursor!,
+    });
+    expect(next.ok && next.data.releases.map((release) => release.tag_name)).toEqual(['1.0.0']);
+    expect(next.ok && next.meta.pagination!.next_cursor).toBeNull();
+  });
+
+  it('should filter changelog versions as releases', async () => {
+    mockRepository([], { 'CHANGELOG.md': KEEP_A_CHANGELOG });
+
+    const result = await releaseNotes('https://github.com/owner/repo', 5, {
+      source: 'changelog',
+      includeDrafts: false,
+      versionRange: '<1.1',
+    });
+
+    expect(result.ok && result.data.releases.map((release) => release.tag_name)).toEqual(['1.0.0']);
+  });
+
+  it('should keep to the forge when it has releases or when asked to', async () => {
+    const release = {
+      tag_name: 'v2.0.0',
+      name: 'v2.0.0',
+      body: '## Bug Fixes\n- Fix',
+      published_at: '2024-06-01T00:00:00Z',
+      prerelease: false,
+      draft: false,
+      html_url: 'https://github.com/owner/repo/releases/tag/v2.0.0',
+    };
+    mockRepository([release], { 'CHANGELOG.md': KEEP_A_CHANGELOG });
+
+    const result = await releaseNotes('https://github.com/owner/repo');
+    expect(result.ok && result.meta.source_type).toBe('releases');
+    expect(result.ok && result.data.releases[0].changes).toEqual({ fixed: ['Fix'] });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    mockRepository([], { 'CHANGELOG.md': KEEP_A_CHANGELOG });
+    const forced = await releaseNotes('https://github.com/owner/repo', 5, { source: 'releases' });
+    expect(forced.ok && forced.data.releases).toEqual([]);
+    expect(forced.ok && forced.meta.warnings).toContain('No releases found for this repository');
+  });
+
+  it('should report a repository with neither releases nor a changelog', async () => {
+    mockRepository([], { 'README.md': '# Widget' });
+
+    const result = await releaseNotes('https://github.com/owner/repo');
+    expect(result.ok && result.meta.source_type).toBe('releases');
+    expect(result.ok && result.meta.warnings).toContain('No releases found for this repository');
+
+    const forced = await releaseNotes('https://github.com/owner/repo', 5, { source: 'changelog' });
+    expect(forced.ok && forced.meta.warnings).toContain(
+      'No CHANGELOG, CHANGES, HISTORY or NEWS file in the root directory'
+    );
+  });
+});
+
+describe('releaseNotes from tags', () => {
+  const api = 'https://api.github.com/repos/owner/repo';
+
+  function mockTags(tags: string[]) {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.startsWith(`${api}/releases`)) return Response.json([]);
+      if (url === api) return Response.json({ default_branch: 'main' });
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url.startsWith(`${api}/git/trees/`)) {
+        return Response.json({ sha: 'c0ffee', tree: [{ path: 'README.md', type: 'blob', size: 8 }], truncated: false });
+      }
+      if (url.startsWith(`${api}/tags?`)) {
+        return Response.json(tags.map((name) => ({ name, commit: { sha: `sha-${name}` } })));
+      }
+      // v1.10.0 is annotated; the others are lightweight
+      if (url === `${api}/git/ref/tags/v1.10.0`) {
+        return Response.json({ ref: 'refs/tags/v1.10.0', object: { type: 'tag', sha: 'tag-object' } });
+      }
+      if (url === `${api}/git/tags/tag-object`) {
+        return Response.json({
+          tag: 'v1.10.0',
+          message: '### Fixed\n- Leak\n',
+          tagger: { name: 'dev', date: '2024-03-01T00:00:00Z' },
+        });
+      }
+      const ref = /\/git\/ref\/tags\/(.+)$/.exec(url);
+      if (ref) return Response.json({ ref: `refs/tags/${ref[1]}`, object: { type: 'commit', sha: `sha-${ref[1]}` } });
+      const commit = /\/git\/commits\/sha-(.+)$/.exec(url);
+      if (commit) {
+        return Response.json({
+          sha: `sha-${commit[1]}`,
+          message: `Release ${commit[1]}`,
+          committer: { name: 'dev', date: commit[1] === 'v1.9.0' ? '2024-01-01T00:00:00Z' : '2023-06-01T00:00:00Z' },
+        });
+      }
+      return new Response('Not Found', { status: 404 });
+    });
+  }
+
+  it('should fall back to tags in version order, dated by their annotation or commit', async () => {
+    mockTags(['v1.9.0', 'v1.10.0', 'nightly', 'v1.2.0']);
+
+    const result = await releaseNotes('https://github.com/owner/repo', 2);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.meta.source_type).toBe('tags');
+    expect(result.data.total_count).toBe(4);
+    expect(result.data.releases.map((release) => release.tag_name)).toEqual(['v1.10.0', 'v1.9.0']);
+    expect(result.data.releases[0]).toMatchObject({
+      body: '### Fixed\n- Leak',
+      published_at: '2024-03-01T00:00:00Z',
+      html_url: 'https://github.com/owner/repo/releases/tag/v1.10.0',
+      changes: { fixed: ['Leak'] },
+    });
+    expect(result.data.releases[1]).toMatchObject({ body: 'Release v1.9.0', published_at: '2024-01-01T00:00:00Z' });
+    // Only the tags returned are resolved
+    expect(mockFetch.mock.calls.filter(([url]) => String(url).includes('/git/ref/'))).toHaveLength(2);
+
+    const next = await releaseNotes('https://github.com/owner/repo', 2, {
+      cursor: result.meta.pagination!.next_cursor!,
+    });
+    expect(next.ok && next.data.releases.map((release) => release.tag_name)).toEqual(['v1.2.0', 'nightly']);
+  });
+
+  it('should date tags by version only until a date filter fills the page', async () => {
+    mockTags(['v1.2.0', 'v1.9.0', 'v1.10.0']);
+
+    const result = await releaseNotes('https://github.com/owner/repo', 1, { source: 'tags', since: '2024-01-01' });
+
+    expect(result.ok && result.data.releases.map((release) => release.tag_name)).toEqual(['v1.10.0']);
+    expect(mockFetch.mock.calls.filter(([url]) => String(url).includes('/git/ref/'))).toHaveLength(1);
+
+    const next = await releaseNotes('https://github.com/owner/repo', 1, {
+      source: 'tags',
+      since: '2024-01-01',
+      cursor: result.ok ? result.meta.pagination!.next_cursor! : '',
+    });
+    expect(next.ok && next.data.releases.map((release) => release.tag_name)).toEqual(['v1.9.0']);
+  });
+
+  it('should date a bounded number of tags per call', async () => {
+    mockTags(Array.from({ length: 300 }, (_, index) => `v1.${index}.0`));
+
+    const result = await releaseNotes('https://github.com/owner/repo', 5, { source: 'tags', since: '2030-01-01' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.releases).toEqual([]);
+    expect(result.meta.pagination!.next_cursor).not.toBeNull();
+    expect(result.meta.warnings).toContain(
+      'Dated 20 releases without filling the page; continue with meta.pagination.next_cursor'
+    );
+    // One page of tags, then a ref and a commit for each tag dated
+    expect(mockFetch).toHaveBeenCalledTimes(41);
+  });
+
+  it('should refuse to sort tags by date', async () => {
+    mockTags(['v1.2.0']);
+
+    const result = await releaseNotes('https://github.com/owner/repo', 5, { source: 'tags', sort: 'date' });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.code).toBe('INVALID_INPUT');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should date GitLab tags by their annotation or commit', async () => {
+    const gitlabApi = 'https://gitlab.com/api/v4/projects/owner%2Frepo';
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.startsWith(`${gitlabApi}/repository/tags?`)) {
+        return Response.json(
+          [
+            { name: 'v2.0.0', message: 'Major release', created_at: '2024-05-01T00:00:00Z' },
+            { name: 'v1.0.0', message: '', created_at: null },
+          ].map((tag) => ({
+            ...tag,
+            commit: { id: 'abc', message: 'Bump version\n', committed_date: '2024-01-01T00:00:00Z' },
+          })),
+          { headers: { 'x-total': '2' } }
+        );
+      }
+      return new Response('Not Found', { status: 404 });
+    });
+
+    const result = await releaseNotes('https://gitlab.com/owner/repo', 5, { source: 'tags' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.total_count).toBe(2);
+    expect(result.data.releases.map((release) => [release.tag_name, release.body, release.published_at])).toEqual([
+      ['v2.0.0', 'Major release', '2024-05-01T00:00:00Z'],
+      ['v1.0.0', 'Bump version', '2024-01-01T00:00:00Z'],
+    ]);
+    expect(result.data.releases[0].html_url).toBe('https://gitlab.com/owner/repo/-/tags/v2.0.0');
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chooseKeyFiles, guessKeyFiles } from '../../src/ecosystems.js';
+import { extractKeyFiles } from '../../src/tools/files.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+describe('chooseKeyFiles', () => {
+  it('should pick the manifests present, those of the main languages first', () => {
+    const choices = chooseKeyFiles(
+      ['Cargo.toml', 'package.json', 'README.md', 'LICENSE-MIT', 'LICENSE-APACHE', 'src'],
+      ['Rust', 'TypeScript']
+    );
+
+    expect(choices).toEqual([
+      { name: 'README.md', reason: 'README' },
+      { name: 'LICENSE-APACHE', reason: 'License text' },
+      { name: 'LICENSE-MIT', reason: 'License text' },
+      { name: 'Cargo.toml', reason: 'Cargo manifest; Rust is the primary language' },
+      { name: 'package.json', reason: 'npm manifest; TypeScript is a repository language' },
+    ]);
+  });
+
+  it('should match README and license variants regardless of case', () => {
+    const names = chooseKeyFiles(['readme.txt', 'README.rst', 'Copying', 'license.txt'], []).map(
+      (choice) => choice.name
+    );
+
+    expect(names).toEqual(['README.rst', 'Copying', 'license.txt']);
+  });
+
+  it('should find manifests named by globs and compare languages case-insensitively', () => {
+    const choices = chooseKeyFiles(['App.sln', 'App.csproj', 'CMakeLists.txt', 'tool.gemspec'], ['c#']);
+
+    expect(choices.map((choice) => choice.name)).toEqual([
+      'App.csproj',
+      'App.sln',
+      'tool.gemspec',
+      'CMakeLists.txt',
+    ]);
+    expect(choices[0].reason).toBe('.NET manifest; c# is the primary language');
+  });
+});
+
+describe('guessKeyFiles', () => {
+  it('should guess the manifests of the repository languages', () => {
+    expect(guessKeyFiles(['Go', 'Shell']).map((choice) => choice.name)).toEqual([
+      'README.md',
+      'LICENSE',
+      'go.mod',
+    ]);
+  });
+
+  it('should fall back to npm and Python manifests without languages', () => {
+    expect(guessKeyFiles([]).map((choice) => choice.name)).toEqual([
+      'README.md',
+      'LICENSE',
+      'package.json',
+      'pyproject.toml',
+    ]);
+  });
+});
+
+describe('extractKeyFiles defaults', () => {
+  const api = 'https://api.github.com/repos/owner/crate';
+
+  function route(treeStatus = 200) {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === api) return Response.json({ default_branch: 'main' });
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url === `${api}/languages`) return Response.json({ Shell: 10, Rust: 9000 });
+      if (url.startsWith(`${api}/git/trees/`)) {
+        return Response.json(
+          {
+            sha: 'c0ffee',
+            tree: [
+              { path: 'COPYING', type: 'blob', size: 10 },
+              { path: 'Cargo.toml', type: 'blob', size: 20 },
+              { path: 'README.rst', type: 'blob', size: 30 },
+              { path: 'crates', type: 'tree' },
+              { path: 'crates/core/Cargo.toml', type: 'blob', size: 20 },
+            ],
+            truncated: false,
+          },
+          { status: treeStatus }
+        );
+      }
+      return new URL(url).pathname.endsWith('/Cargo.toml')
+        ? new Response('[package]')
+        : new Response('text');
+    });
+  }
+
+  it('should read the key files found in the root listing with reasons', async () => {
+    route();
+
+    const result = await extractKeyFiles('https://github.com/owner/crate');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.files.map((f) => [f.path, f.reason])).toEqual([
+        ['README.rst', 'README'],
+        ['COPYING', 'License text'],
+        ['Cargo.toml', 'Cargo manifest; Rust is the primary language'],
+      ]);
+      expect(result.meta.warnings).toEqual([]);
+    }
+  });
+
+  it('should guess conventional names when the tree cannot be listed', async () => {
+    route(404);
+
+    const result = await extractKeyFiles('https://github.com/owner/crate');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.files.map((f) => f.path)).toEqual(['README.md', 'LICENSE', 'Cargo.toml']);
+      expect(result.meta.warnings[0]).toMatch(
+        /^Could not list the repository tree \(.*\); reading conventional key file names$/
+      );
+    }
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { blobSha, decodeFile, detectEncoding, truncateFile } from '../../src/file-content.js';
+import { extractKeyFiles } from '../../src/tools/files.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const PNG = bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d);
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+describe('blobSha', () => {
+  it('should match the id git gives the blob', () => {
+    expect(blobSha(utf8('hello\n'))).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('should read byte order marks', () => {
+    expect(detectEncoding(bytes(0xef, 0xbb, 0xbf, 0x61))).toEqual({ encoding: 'utf-8', bom: 3 });
+    expect(detectEncoding(bytes(0xff, 0xfe, 0x61, 0x00))).toEqual({ encoding: 'utf-16le', bom: 2 });
+    expect(detectEncoding(bytes(0xfe, 0xff, 0x00, 0x61))).toEqual({ encoding: 'utf-16be', bom: 2 });
+  });
+
+  it('should recognise UTF-16 without a byte order mark', () => {
+    expect(detectEncoding(bytes(0x61, 0x00, 0x62, 0x00, 0x0a, 0x00))?.encoding).toBe('utf-16le');
+    expect(detectEncoding(bytes(0x00, 0x61, 0x00, 0x62, 0x00, 0x0a))?.encoding).toBe('utf-16be');
+  });
+
+  it('should fall back to Latin-1 for text that is not UTF-8', () => {
+    expect(detectEncoding(bytes(0x63, 0x61, 0x66, 0xe9, 0x0a))?.encoding).toBe('latin1');
+  });
+
+  it('should treat NUL bytes and control characters as binary', () => {
+    expect(detectEncoding(PNG)).toBeNull();
+    expect(detectEncoding(bytes(0xff, 0x01, 0x02, 0x03))).toBeNull();
+  });
+});
+
+describe('decodeFile', () => {
+  it('should report sizes in bytes rather than characters', () => {
+    const file = decodeFile('NOTES.md', utf8('héllo'), 1024);
+
+    expect(file).toMatchObject({
+      content: 'héllo',
+      size: 6,
+      encoding: 'utf-8',
+      is_binary: false,
+      truncated: false,
+    });
+  });
+
+  it('should decode UTF-16 and Latin-1 text without the byte order mark', () => {
+    expect(decodeFile('a.txt', bytes(0xff, 0xfe, 0x68, 0x00, 0x69, 0x00), 1024).content).toBe('hi');
+    expect(decodeFile('b.txt', bytes(0x63, 0x61, 0x66, 0xe9), 1024).content).toBe('café');
+  });
+
+  it('should cut long text on a character boundary and mark it', () => {
+    const file = decodeFile('CHANGELOG.md', utf8('aaéé'), 3);
+
+    expect(file.truncated).toBe(true);
+    expect(file.size).toBe(6);
+    expect(file.content).toBe('aa\n\n[truncated: 2 of 6 bytes shown]');
+  });
+
+  it('should return binaries as base64 and omit them above the limit', () => {
+    expect(decodeFile('logo.png', PNG, 1024)).toMatchObject({
+      content: Buffer.from(PNG).toString('base64'),
+      encoding: 'base64',
+      is_binary: true,
+      truncated: false,
+    });
+    expect(decodeFile('logo.png', PNG, 4)).toMatchObject({
+      content: null,
+      size: PNG.length,
+      is_binary: true,
+      truncated: true,
+    });
+  });
+});
+
+describe('truncateFile', () => {
+  it('should cut decoded text further on a character boundary and drop binaries', () => {
+    const cut = truncateFile(decodeFile('a.txt', utf8('héllo wörld'), 8), 4);
+    expect(cut.content).toBe('hél\n\n[truncated: 4 of 13 bytes shown]');
+    expect(truncateFile(decodeFile('b.txt', utf8('short'), 100), 10).content).toBe('short');
+
+    const png = truncateFile(decodeFile('logo.png', PNG, 100), 4);
+    expect([png.content, png.truncated]).toEqual([null, true]);
+  });
+});
+
+describe('extractKeyFiles byte limits', () => {
+  it('should truncate files above the per-file limit and count what is returned', async () => {
+    setConfig({ fileMaxBytes: 10 });
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === 'https://api.github.com/repos/owner/repo') return Response.json({ default_branch: 'main' });
+      if (url.includes('/commits/')) return new Response('c0ffee');
+      return url.endsWith('/big.lock')
+        ? new Response('x'.repeat(5000), { headers: { 'content-length': '5000' } })
+        : new Response(PNG);
+    });
+
+    const result = await extractKeyFiles('https://github.com/owner/repo', ['big.lock', 'logo.png'], {
+      maxBytes: 25,
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const [lock, logo] = result.data.files;
+      expect(lock).toMatchObject({ size: 5000, truncated: true, is_binary: false, sha: null });
+      expect(lock.content).toBe(`${'x'.repeat(10)}\n\n[truncated: 10 of 5000 bytes shown]`);
+      expect(logo).toMatchObject({ encoding: 'base64', is_binary: true, truncated: true, content: null });
+      expect(result.meta.warnings).toEqual([
+        'Files larger than 10 bytes were truncated: big.lock, logo.png',
+      ]);
+    }
+  });
+});
+
+describe('extractKeyFiles downloads', () => {
+  it('should stop reading a file past the per-file limit and not cache it', async () => {
+    setConfig({ fileMaxBytes: 10, cacheTtlMs: 60_000 });
+    let pulled = 0;
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === 'https://api.github.com/repos/owner/repo') return Response.json({ default_branch: 'main' });
+      if (url.includes('/commits/')) return new Response('c0ffee');
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulled++;
+          controller.enqueue(new Uint8Array(1024).fill(120));
+          if (pulled >= 1000) controller.close();
+        },
+      });
+      return new Response(body, { headers: { 'content-length': String(1024 * 1000) } });
+    });
+
+    const first = await extractKeyFiles('https://github.com/owner/repo', ['big.log']);
+    expect(first.ok && first.data.files[0]).toMatchObject({ size: 1024 * 1000, truncated: true, sha: null });
+    expect(pulled).toBeLessThan(5);
+
+    await extractKeyFiles('https://github.com/owner/repo', ['big.log']);
+    const fileFetches = mockFetch.mock.calls.filter(([url]) => String(url).endsWith('/big.log'));
+    expect(fileFetches).toHaveLength(2);
+  });
+});
+
+describe('extractKeyFiles non-ASCII text', () => {
+  it('should keep UTF-8 when the part read ends within a character', async () => {
+    const text = '中文说明'.repeat(30);
+    for (const fileMaxBytes of [100, 102]) {
+      setConfig({ fileMaxBytes });
+      await clearResponseCache();
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url === 'https://api.github.com/repos/owner/repo') return Response.json({ default_branch: 'main' });
+        if (url.includes('/commits/')) return new Response('c0ffee');
+        return new Response(text, { headers: { 'content-length': String(Buffer.byteLength(text)) } });
+      });
+
+      const result = await extractKeyFiles('https://github.com/owner/repo', ['README.md']);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const [readme] = result.data.files;
+        expect(readme).toMatchObject({ encoding: 'utf-8', truncated: true, size: 360 });
+        expect(readme.content!.startsWith('中文说明中文')).toBe(true);
+      }
+    }
+  });
+});
+
+describe('extractKeyFiles paths', () => {
+  it('should fetch globbed paths holding URL syntax by their encoded raw URLs', async () => {
+    const name = 'docs/notes #1 100%?.md';
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === 'https://api.github.com/repos/owner/repo') return Response.json({ default_branch: 'main' });
+      if (url.includes('/commits/')) return new Response('c0ffee');
+      if (url.includes('/git/trees/')) {
+        return Response.json({ sha: 'c0ffee', tree: [{ path: name, type: 'blob', size: 5 }], truncated: false });
+      }
+      return url === 'https://raw.githubusercontent.com/owner/repo/c0ffee/docs/notes%20%231%20100%25%3F.md'
+        ? new Response('notes')
+        : new Response('Not Found', { status: 404 });
+    });
+
+    const result = await extractKeyFiles('https://github.com/owner/repo', ['docs/*.md']);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.files).toHaveLength(1);
+      expect(result.data.files[0]).toMatchObject({ path: name, content: 'notes' });
+    }
+  });
+});
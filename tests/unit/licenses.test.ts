@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  LICENSE_TEMPLATES,
+  classifyDeclaredLicense,
+  matchLicenseText,
+  parseLicenseExpression,
+} from '../../src/licenses/index.js';
+import { manifestFormat } from '../../src/manifests/index.js';
+import { licenseReport } from '../../src/tools/licenses.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+function template(id: string): string {
+  return LICENSE_TEMPLATES.find((license) => license.spdx_id === id)!.text;
+}
+
+describe('matchLicenseText', () => {
+  it('should recognise a license under its title and copyright notice', () => {
+    const text = `MIT License\n\nCopyright (c) 2024 Jane Doe\n${template('MIT')}`;
+
+    expect(matchLicenseText(text)).toEqual([
+      { spdx_id: 'MIT', name: 'MIT License', category: 'permissive', confidence: 1 },
+    ]);
+  });
+
+  it('should tell apart licenses that share their opening words', () => {
+    expect(matchLicenseText(template('BSD-2-Clause')).map((match) => match.spdx_id)).toEqual(['BSD-2-Clause']);
+    expect(matchLicenseText(template('BSD-3-Clause')).map((match) => match.spdx_id)).toEqual(['BSD-3-Clause']);
+    expect(matchLicenseText(template('ISC')).map((match) => match.spdx_id)).toEqual(['ISC']);
+    expect(matchLicenseText(template('0BSD')).map((match) => match.spdx_id)).toEqual(['0BSD']);
+    expect(matchLicenseText(template('GPL-3.0')).map((match) => match.spdx_id)).toEqual(['GPL-3.0']);
+    expect(matchLicenseText(template('AGPL-3.0')).map((match) => match.spdx_id)).toEqual(['AGPL-3.0']);
+  });
+
+  it('should find each license in a file holding several, once each', () => {
+    const text = [
+      'This project is available under either license.',
+      template('Apache-2.0'),
+      '---',
+      template('MIT'),
+      'Bundled code:',
+      template('MIT'),
+    ].join('\n');
+
+    expect(matchLicenseText(text).map((match) => match.spdx_id)).toEqual(['Apache-2.0', 'MIT']);
+  });
+
+  it('should report a modified license with a lower confidence', () => {
+    const text = template('MIT').replace(
+      'The above copyright notice',
+      'The Software shall not be used for military purposes. The above copyright notice'
+    );
+
+    const [match] = matchLicenseText(text);
+    expect(match.spdx_id).toBe('MIT');
+    expect(match.confidence).toBeLessThan(1);
+  });
+
+  it('should recognise nothing in other text', () => {
+    expect(matchLicenseText('All rights reserved. Contact sales for licensing terms.')).toEqual([]);
+  });
+});
+
+describe('parseLicenseExpression', () => {
+  it('should classify choices by their least restrictive alternative', () => {
+    expect(parseLicenseExpression('MIT OR Apache-2.0')).toEqual({
+      spdx_ids: ['MIT', 'Apache-2.0'],
+      category: 'permissive',
+    });
+    expect(parseLicenseExpression('GPL-3.0-or-later OR MPL-2.0')?.category).toBe('weak-copyleft');
+  });
+
+  it('should classify combinations by their most restrictive license', () => {
+    expect(parseLicenseExpression('(LGPL-2.1-only OR MIT) AND BSD-3-Clause')).toEqual({
+      spdx_ids: ['LGPL-2.1-only', 'MIT', 'BSD-3-Clause'],
+      category: 'permissive',
+    });
+    expect(parseLicenseExpression('MIT AND GPL-2.0-only WITH Classpath-exception-2.0')).toEqual({
+      spdx_ids: ['MIT', 'GPL-2.0-only'],
+      category: 'strong-copyleft',
+    });
+    expect(parseLicenseExpression('MIT AND LicenseRef-Proprietary')?.category).toBe('unknown');
+  });
+
+  it('should return null for text that is not an expression', () => {
+    expect(parseLicenseExpression('Apache 2')).toBeNull();
+    expect(parseLicenseExpression('MIT OR')).toBeNull();
+    expect(parseLicenseExpression('(MIT')).toBeNull();
+  });
+});
+
+describe('classifyDeclaredLicense', () => {
+  it('should read license names as written in pom.xml', () => {
+    const names = '(The Apache Software License, Version 2.0) OR (GNU Lesser General Public License v3)';
+
+    expect(classifyDeclaredLicense(names)).toEqual({ spdx_ids: ['Apache-2.0', 'LGPL-3.0'], category: 'permissive' });
+    expect(classifyDeclaredLicense('Eclipse Public License - v 2.0')).toEqual({
+      spdx_ids: ['EPL-2.0'],
+      category: 'weak-copyleft',
+    });
+    expect(classifyDeclaredLicense('SEE LICENSE IN LICENSE.txt')).toEqual({ spdx_ids: [], category: 'unknown' });
+  });
+});
+
+describe('manifest license fields', () => {
+  const license = (path: string, content: string) => manifestFormat(path)!.license!(content);
+
+  it('should read the license of each manifest format', () => {
+    expect(license('package.json', JSON.stringify({ license: 'ISC' }))).toBe('ISC');
+    expect(license('package.json', JSON.stringify({ licenses: [{ type: 'MIT' }, { type: 'Apache-2.0' }] }))).toBe(
+      '(MIT) OR (Apache-2.0)'
+    );
+    expect(license('composer.json', JSON.stringify({ license: ['LGPL-2.1-only', 'GPL-3.0-or-later'] }))).toBe(
+      '(LGPL-2.1-only) OR (GPL-3.0-or-later)'
+    );
+    expect(license('pyproject.toml', '[project]\nlicense = { text = "BSD-3-Clause" }')).toBe('BSD-3-Clause');
+    expect(license('pyproject.toml', '[tool.poetry]\nlicense = "MIT"')).toBe('MIT');
+    expect(
+      license('Cargo.toml', '[workspace.package]\nlicense = "MIT OR Apache-2.0"\n\n[package]\nlicense.workspace = true')
+    ).toBe('MIT OR Apache-2.0');
+    expect(
+      license(
+        'pom.xml',
+        '<project><licenses><license><name>Apache License, Version 2.0</name></license></licenses></project>'
+      )
+    ).toBe('Apache License, Version 2.0');
+    expect(license('package.json', '{}')).toBeNull();
+    expect(manifestFormat('go.mod')!.license).toBeUndefined();
+  });
+});
+
+describe('licenseReport', () => {
+  const api = 'https://api.github.com/repos/owner/repo';
+  const raw = 'https://raw.githubusercontent.com/owner/repo/c0ffee';
+
+  it('should report the licenses of the root and of each package', async () => {
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify({ license: 'MIT OR Apache-2.0' }),
+      'LICENSE-MIT': `Copyright (c) 2024 Owner\n${template('MIT')}`,
+      'LICENSE-APACHE': template('Apache-2.0'),
+      'packages/cli/package.json': JSON.stringify({ license: 'GPL-3.0-or-later' }),
+      'packages/cli/COPYING': template('GPL-3.0'),
+      'packages/core/package.json': JSON.stringify({ name: 'core' }),
+      'packages/legacy/LICENSE.md': template('LGPL-3.0'),
+      'packages/legacy/COPYING': template('GPL-3.0'),
+      'packages/legacy/requirements.txt': 'requests',
+    };
+
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === api) return Response.json({ default_branch: 'main' });
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url.startsWith(`${api}/git/trees/`)) {
+        return Response.json({
+          sha: 'c0ffee',
+          tree: [
+            ...Object.keys(files),
+            'src/license.ts',
+            'tests/fixtures/package.json',
+          ].map((path) => ({ path, type: 'blob', size: 100 })),
+          truncated: false,
+        });
+      }
+      const path = url.startsWith(`${raw}/`) ? url.slice(raw.length + 1) : '';
+      return path in files ? new Response(files[path]) : new Response('Not Found', { status: 404 });
+    });
+
+    const result = await licenseReport('https://github.com/owner/repo');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const summary = result.data.packages.map((pkg) => [
+        pkg.path,
+        pkg.spdx_ids,
+        pkg.category,
+        pkg.multi_licensed,
+        pkg.inherited,
+      ]);
+      expect(summary).toEqual([
+        ['', ['MIT', 'Apache-2.0'], 'permissive', true, false],
+        ['packages/cli', ['GPL-3.0-or-later'], 'strong-copyleft', false, false],
+        ['packages/core', ['MIT', 'Apache-2.0'], 'permissive', true, true],
+        ['packages/legacy', ['LGPL-3.0'], 'weak-copyleft', false, false],
+      ]);
+      expect(result.data.category).toBe('strong-copyleft');
+      expect(result.data.packages[0].files.map((file) => file.path)).toEqual(['LICENSE-APACHE', 'LICENSE-MIT']);
+      expect(result.data.packages[0].declared).toEqual([
+        {
+          manifest: 'package.json',
+          expression: 'MIT OR Apache-2.0',
+          spdx_ids: ['MIT', 'Apache-2.0'],
+          category: 'permissive',
+        },
+      ]);
+      expect(result.meta.warnings).toEqual([]);
+    }
+  });
+
+  it('should flag licenses found in files that the manifest does not declare', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url.startsWith(`${api}/git/trees/`)) {
+        return Response.json({
+          sha: 'c0ffee',
+          tree: [
+            { path: 'package.json', type: 'blob', size: 20 },
+            { path: 'LICENSE', type: 'blob', size: 1000 },
+            { path: 'NOTICE', type: 'blob', size: 10 },
+            { path: 'COPYRIGHT', type: 'blob', size: 10 },
+          ],
+          truncated: false,
+        });
+      }
+      if (url === `${raw}/package.json`) return Response.json({ license: 'MIT' });
+      if (url === `${raw}/LICENSE`) return new Response(template('AGPL-3.0'));
+      if (url === `${raw}/COPYRIGHT`) return new Response('Copyright 2024 Owner');
+      return new Response('Not Found', { status: 404 });
+    });
+
+    const result = await licenseReport('https://github.com/owner/repo', { ref: 'v1.0.0' });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.packages[0]).toMatchObject({
+        spdx_ids: ['MIT', 'AGPL-3.0'],
+        category: 'strong-copyleft',
+        multi_licensed: true,
+      });
+      expect(result.meta.warnings).toEqual([
+        'COPYRIGHT: No known license text recognised',
+        'Repository root: license files contain AGPL-3.0, not declared in package.json (MIT)',
+      ]);
+    }
+  });
+
+  it('should classify a repository without any license as unknown', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url.startsWith(`${api}/git/trees/`)) {
+        return Response.json({ sha: 'c0ffee', tree: [{ path: 'main.go', type: 'blob', size: 10 }], truncated: false });
+      }
+      return new Response('Not Found', { status: 404 });
+    });
+
+    const result = await licenseReport('https://github.com/owner/repo/tree/main');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.category).toBe('unknown');
+      expect(result.data.packages).toEqual([
+        {
+          path: '',
+          declared: [],
+          files: [],
+          spdx_ids: [],
+          category: 'unknown',
+          multi_licensed: false,
+          inherited: false,
+        },
+      ]);
+      expect(result.meta.warnings).toEqual(['No license declared or found in the root directory']);
+    }
+  });
+});
@@ -0,0 +1,402 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { manifestFormat, parseManifest, parseToml, parseXml } from '../../src/manifests/index.js';
+import { listDependencies } from '../../src/tools/dependencies.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+/**
+ * Dependencies of a manifest as [name, version_spec, scope] rows
+ */
+function rows(path: string, content: string) {
+  return parseManifest(path, content).map((d) => [d.name, d.version_spec, d.scope]);
+}
+
+describe('parseToml', () => {
+  it('should read tables, arrays of tables, dotted keys and all string kinds', () => {
+    const doc = parseToml(`
+# comment
+title = "a \\"quoted\\" \\u00e9" # trailing
+path = 'C:\\raw'
+site."google.com" = true
+
+[server]
+ports = [ 8000,
+  8001, # comment in array
+]
+ratio = 1_000.5
+hex = 0xff
+when = 1979-05-27 07:32:00Z
+inline = { a = 1, b.c = "x" }
+notes = """
+first \\
+  second"""
+raw = '''
+it's raw'''
+
+[[products]]
+name = "Hammer"
+
+[[products]]
+name = "Nail"
+`);
+
+    expect(doc).toEqual({
+      title: 'a "quoted" é',
+      path: 'C:\\raw',
+      site: { 'google.com': true },
+      server: {
+        ports: [8000, 8001],
+        ratio: 1000.5,
+        hex: 255,
+        when: '1979-05-27 07:32:00Z',
+        inline: { a: 1, b: { c: 'x' } },
+        notes: 'first second',
+        raw: "it's raw",
+      },
+      products: [{ name: 'Hammer' }, { name: 'Nail' }],
+    });
+  });
+
+  it('should read infinities and NaN as numbers', () => {
+    expect(parseToml('a = inf\nb = +inf\nc = -inf\nd = nan\ne = [-inf, +nan]')).toEqual({
+      a: Infinity,
+      b: Infinity,
+      c: -Infinity,
+      d: NaN,
+      e: [-Infinity, NaN],
+    });
+  });
+
+  it('should name the line of an error', () => {
+    expect(() => parseToml('a = 1\nb = "open\n')).toThrow('line 2: Unterminated string');
+    expect(() => parseToml('a = 1\na = 2')).toThrow('line 2: Key "a" is already defined');
+    expect(() => parseToml('[deps]\nx = [1, 2')).toThrow(/line 2/);
+  });
+});
+
+describe('parseXml', () => {
+  it('should read elements, entities and CDATA, skipping comments', () => {
+    const root = parseXml(
+      '<?xml version="1.0"?>\n<!-- c --><a:root xmlns:a="x"><b attr="1">1 &lt; 2</b><c/><d><![CDATA[<raw>]]></d></a:root>'
+    );
+
+    expect(root.name).toBe('root');
+    expect(root.children.map((child) => [child.name, child.text])).toEqual([
+      ['b', '1 < 2'],
+      ['c', ''],
+      ['d', '<raw>'],
+    ]);
+  });
+
+  it('should reject mismatched tags', () => {
+    expect(() => parseXml('<a>\n<b></a>')).toThrow('line 2: Unexpected </a>');
+  });
+});
+
+describe('parseManifest', () => {
+  it('should read package.json scopes', () => {
+    const content = JSON.stringify({
+      dependencies: { react: '^18.2.0' },
+      devDependencies: { vitest: '^1.6.0' },
+      optionalDependencies: { fsevents: '*' },
+      peerDependencies: { 'react-dom': '>=18', typescript: '>=5' },
+      peerDependenciesMeta: { typescript: { optional: true } },
+    });
+
+    expect(rows('package.json', content)).toEqual([
+      ['react', '^18.2.0', 'runtime'],
+      ['vitest', '^1.6.0', 'dev'],
+      ['fsevents', '*', 'optional'],
+      ['react-dom', '>=18', 'runtime'],
+      ['typescript', '>=5', 'optional'],
+    ]);
+  });
+
+  it('should read PEP 621, dependency groups and Poetry from pyproject.toml', () => {
+    const content = `
+[project]
+dependencies = ["requests[socks] >=2.31; python_version >= '3.8'", "click"]
+
+[project.optional-dependencies]
+yaml = ["pyyaml (>=6.0)"]
+
+[dependency-groups]
+test = ["pytest>=8", { include-group = "lint" }]
+
+[tool.poetry.dependencies]
+python = "^3.10"
+httpx = "^0.27"
+rich = { version = "^13.0", optional = true }
+
+[tool.poetry.group.docs.dependencies]
+mkdocs = "*"
+`;
+
+    expect(rows('pyproject.toml', content)).toEqual([
+      ['requests', '>=2.31', 'runtime'],
+      ['click', null, 'runtime'],
+      ['pyyaml', '>=6.0', 'optional'],
+      ['pytest', '>=8', 'dev'],
+      ['httpx', '^0.27', 'runtime'],
+      ['rich', '^13.0', 'optional'],
+      ['mkdocs', '*', 'dev'],
+    ]);
+  });
+
+  it('should read requirements files, skipping options and direct references', () => {
+    const content = [
+      '# pinned',
+      '-r base.txt',
+      '--index-url https://example.com/simple',
+      'Django==5.0.1  # web',
+      'numpy>=1.26, \\',
+      '  <2',
+      'git+https://github.com/owner/pkg.git#egg=pkg',
+      './local-package',
+    ].join('\n');
+
+    expect(rows('requirements.txt', content)).toEqual([
+      ['Django', '==5.0.1', 'runtime'],
+      ['numpy', '>=1.26, <2', 'runtime'],
+    ]);
+    expect(rows('requirements-dev.txt', 'ruff')).toEqual([['ruff', null, 'dev']]);
+  });
+
+  it('should leave hashes out of requirements and read direct references', () => {
+    const content = [
+      '# pip-compile --generate-hashes',
+      'certifi==2024.2.2 \\',
+      '    --hash=sha256:0569859f95fc761b18b45ef421b1290a0f65f147e92a1e5eb3e635f9a5e4e66f \\',
+      '    --hash=sha256:dc383c07b76109f368f6106eee2b593b04a011ea4d55f652c6ca24a754d1cdd1',
+      '    # via requests',
+      'idna==3.6 --hash=sha256:abc',
+      'pkg @ https://example.com/pkg-1.0.tar.gz ; python_version >= "3.8"',
+    ].join('\n');
+
+    expect(rows('requirements.txt', content)).toEqual([
+      ['certifi', '==2024.2.2', 'runtime'],
+      ['idna', '==3.6', 'runtime'],
+      ['pkg', 'https://example.com/pkg-1.0.tar.gz', 'runtime'],
+    ]);
+    expect(() => parseManifest('requirements.txt', 'ok==1 \\\n  --hash=sha256:abc\n!!bad')).toThrow('line 3:');
+  });
+
+  it('should read Cargo.toml sections, targets, renames and workspace versions', () => {
+    const content = `
+[workspace.dependencies]
+tokio = { version = "1.36", features = ["full"] }
+
+[dependencies]
+serde = "1.0"
+tokio = { workspace = true }
+json = { package = "serde_json", version = "1", optional = true }
+
+[dev-dependencies]
+proptest = "1"
+
+[target.'cfg(unix)'.dependencies]
+libc = "0.2"
+`;
+
+    expect(rows('Cargo.toml', content)).toEqual([
+      ['serde', '1.0', 'runtime'],
+      ['tokio', '1.36', 'runtime'],
+      ['serde_json', '1', 'optional'],
+      ['proptest', '1', 'dev'],
+      ['libc', '0.2', 'runtime'],
+    ]);
+  });
+
+  it('should read go.mod require lines and blocks', () => {
+    const content = `module example.com/app
+
+go 1.22
+
+require github.com/pkg/errors v0.9.1
+
+require (
+\tgolang.org/x/text v0.14.0 // indirect
+\tgithub.com/stretchr/testify v1.9.0
+)
+
+replace (
+\tgolang.org/x/text => ../text
+)
+`;
+
+    expect(rows('go.mod', content)).toEqual([
+      ['github.com/pkg/errors', 'v0.9.1', 'runtime'],
+      ['golang.org/x/text', 'v0.14.0', 'runtime'],
+      ['github.com/stretchr/testify', 'v1.9.0', 'runtime'],
+    ]);
+  });
+
+  it('should read Gemfile groups and version requirements', () => {
+    const content = `source "https://rubygems.org"
+gemspec
+
+gem "rails", "~> 7.1", ">= 7.1.2" # framework
+gem 'pg'
+gem "rspec", group: [:development, :test]
+
+group :test do
+  gem "capybara"
+end
+
+group :docs, optional: true do
+  gem "yard"
+end
+
+platforms :jruby do
+  gem "jdbc-postgres"
+end
+`;
+
+    expect(rows('Gemfile', content)).toEqual([
+      ['rails', '~> 7.1, >= 7.1.2', 'runtime'],
+      ['pg', null, 'runtime'],
+      ['rspec', null, 'dev'],
+      ['capybara', null, 'dev'],
+      ['yard', null, 'optional'],
+      ['jdbc-postgres', null, 'runtime'],
+    ]);
+  });
+
+  it('should read composer.json packages without platform requirements', () => {
+    const content = JSON.stringify({
+      require: { php: '^8.2', 'ext-json': '*', 'laravel/framework': '^11.0' },
+      'require-dev': { 'phpunit/phpunit': '^11.0' },
+    });
+
+    expect(rows('composer.json', content)).toEqual([
+      ['laravel/framework', '^11.0', 'runtime'],
+      ['phpunit/phpunit', '^11.0', 'dev'],
+    ]);
+  });
+
+  it('should read pom.xml dependencies with properties', () => {
+    const content = `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0">
+  <groupId>com.example</groupId>
+  <version>2.0.0</version>
+  <properties><junit.version>5.10.2</junit.version></properties>
+  <dependencies>
+    <dependency>
+      <groupId>com.example</groupId>
+      <artifactId>core</artifactId>
+      <version>\${project.version}</version>
+    </dependency>
+    <dependency>
+      <groupId>org.junit.jupiter</groupId>
+      <artifactId>junit-jupiter</artifactId>
+      <version>\${junit.version}</version>
+      <scope>test</scope>
+    </dependency>
+    <dependency>
+      <groupId>com.google.guava</groupId>
+      <artifactId>guava</artifactId>
+      <optional>true</optional>
+    </dependency>
+  </dependencies>
+</project>`;
+
+    expect(rows('pom.xml', content)).toEqual([
+      ['com.example:core', '2.0.0', 'runtime'],
+      ['org.junit.jupiter:junit-jupiter', '5.10.2', 'dev'],
+      ['com.google.guava:guava', null, 'optional'],
+    ]);
+  });
+
+  it('should recognise manifests by file name only', () => {
+    expect(manifestFormat('services/api/requirements-test.txt')?.ecosystem).toBe('PyPI');
+    expect(manifestFormat('docs/requirements.md')).toBeUndefined();
+  });
+});
+
+describe('listDependencies', () => {
+  const api = 'https://api.github.com/repos/owner/repo';
+  const raw = 'https://raw.githubusercontent.com/owner/repo/c0ffee';
+
+  it('should report a manifest that fails to parse without failing the others', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === api) return Response.json({ default_branch: 'main' });
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url.startsWith(`${api}/git/trees/`)) {
+        return Response.json({
+          sha: 'c0ffee',
+          tree: [
+            { path: 'Cargo.toml', type: 'blob', size: 30 },
+            { path: 'README.md', type: 'blob', size: 10 },
+            { path: 'package.json', type: 'blob', size: 10 },
+            { path: 'web', type: 'tree' },
+            { path: 'web/package.json', type: 'blob', size: 10 },
+          ],
+          truncated: false,
+        });
+      }
+      if (url === `${raw}/Cargo.toml`) return new Response('[dependencies]\nserde = "1"\n');
+      if (url === `${raw}/package.json`) return new Response('{"dependencies": ');
+      return new Response('Not Found', { status: 404 });
+    });
+
+    const result = await listDependencies('https://github.com/owner/repo');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.manifests).toEqual([
+        { path: 'Cargo.toml', ecosystem: 'crates.io', status: 'ok', dependency_count: 1 },
+        {
+          path: 'package.json',
+          ecosystem: 'npm',
+          status: 'error',
+          dependency_count: 0,
+          error: { code: 'PARSE_ERROR', message: expect.any(String) },
+        },
+      ]);
+      expect(result.data.dependencies).toEqual([
+        { ecosystem: 'crates.io', name: 'serde', version_spec: '1', scope: 'runtime', manifest: 'Cargo.toml' },
+      ]);
+      expect(result.meta.warnings).toHaveLength(1);
+      expect(result.meta.warnings[0]).toMatch(/^package\.json: /);
+    }
+  });
+
+  it('should read the manifests named in paths, relative to a deep link', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url === `${raw}/web/package.json`) return Response.json({ devDependencies: { vite: '^5' } });
+      return new Response('Not Found', { status: 404 });
+    });
+
+    const result = await listDependencies('https://github.com/owner/repo/tree/main/web', {
+      paths: ['package.json', 'setup.py'],
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.dependencies.map((d) => [d.name, d.scope, d.manifest])).toEqual([
+        ['vite', 'dev', 'web/package.json'],
+      ]);
+      expect(result.data.manifests[1]).toMatchObject({
+        path: 'web/setup.py',
+        status: 'error',
+        error: { code: 'INVALID_INPUT', message: 'Not a supported manifest' },
+      });
+    }
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { decodeCursor, encodeCursor } from '../../src/pagination.js';
+import { releaseNotes } from '../../src/tools/releases.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+describe('cursors', () => {
+  it('should decode the position a cursor was issued for', () => {
+    const cursor = encodeCursor('release_notes https://github.com/owner/repo', { offset: 10, limit: 5 });
+
+    expect(decodeCursor(cursor, 'release_notes https://github.com/owner/repo')).toEqual({
+      ok: true,
+      position: { offset: 10, limit: 5 },
+    });
+  });
+
+  it('should reject cursors of another listing, altered cursors and other keys', () => {
+    const cursor = encodeCursor('release_notes https://github.com/owner/repo', { offset: 10, limit: 5 });
+    const [, signature] = cursor.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ s: 'release_notes https://github.com/owner/repo', o: 500, l: 5 })).toString('base64url')}.${signature}`;
+
+    expect(decodeCursor(cursor, 'release_notes https://github.com/owner/other')).toEqual({
+      ok: false,
+      reason: 'Cursor belongs to a different listing',
+    });
+    expect(decodeCursor(forged, 'release_notes https://github.com/owner/repo').ok).toBe(false);
+    expect(decodeCursor('2', 'release_notes https://github.com/owner/repo').ok).toBe(false);
+
+    setConfig({ cursorSecret: 'another key' });
+    expect(decodeCursor(cursor, 'release_notes https://github.com/owner/repo').ok).toBe(false);
+  });
+});
+
+describe('releaseNotes pagination', () => {
+  const api = 'https://api.github.com/repos/owner/repo';
+
+  function release(index: number) {
+    return {
+      tag_name: `v0.${index}.0`,
+      name: null,
+      body: null,
+      published_at: '2024-01-01T00:00:00Z',
+      prerelease: false,
+      draft: false,
+      html_url: `https://github.com/owner/repo/releases/tag/v0.${index}.0`,
+    };
+  }
+
+  /** A repository with count releases, served in pages with Link headers */
+  function mockReleases(count: number) {
+    mockFetch.mockImplementation(async (url: string) => {
+      const query = new URL(url).searchParams;
+      const perPage = Number(query.get('per_page'));
+      const page = Number(query.get('page') ?? 1);
+      const last = Math.max(1, Math.ceil(count / perPage));
+      const links = [
+        page < last && `<${api}/releases?per_page=${perPage}&page=${page + 1}>; rel="next"`,
+        page < last && `<${api}/releases?per_page=${perPage}&page=${last}>; rel="last"`,
+      ].filter(Boolean);
+      const releases = Array.from({ length: count }, (_, index) => release(index)).slice(
+        (page - 1) * perPage,
+        page * perPage
+      );
+      return Response.json(releases, { headers: links.length > 0 ? { link: links.join(', ') } : {} });
+    });
+  }
+
+  it('should resume from a cursor past the first hundred releases with the same limit', async () => {
+    mockReleases(250);
+
+    const first = await releaseNotes('https://github.com/owner/repo', 100);
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    expect(first.data.releases).toHaveLength(100);
+    expect(first.data.total_count).toBe(250);
+
+    const calls = mockFetch.mock.calls.length;
+    const second = await releaseNotes('https://github.com/owner/repo', undefined, {
+      cursor: first.meta.pagination!.next_cursor!,
+    });
+    expect(second.ok).toBe(true);
+    if (!second.ok) return;
+    expect(second.data.releases.map((r) => r.tag_name).slice(0, 2)).toEqual(['v0.100.0', 'v0.101.0']);
+    expect(mockFetch.mock.calls[calls][0]).toBe(`${api}/releases?per_page=100&page=2`);
+
+    const third = await releaseNotes('https://github.com/owner/repo', undefined, {
+      cursor: second.meta.pagination!.next_cursor!,
+    });
+    expect(third.ok).toBe(true);
+    if (third.ok) {
+      expect(third.data.releases).toHaveLength(50);
+      expect(third.data.total_count).toBe(250);
+      expect(third.meta.pagination?.next_cursor).toBeNull();
+    }
+  });
+
+  it('should count releases from the last page without another request', async () => {
+    mockReleases(3);
+
+    const result = await releaseNotes('https://github.com/owner/repo', 5);
+
+    expect(result.ok && result.data.total_count).toBe(3);
+    expect(result.ok && result.meta.pagination?.next_cursor).toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count releases once for a scan of several pages', async () => {
+    mockReleases(250);
+
+    const result = await releaseNotes('https://github.com/owner/repo', 5, { sort: 'version' });
+
+    expect(result.ok && result.data.total_count).toBe(250);
+    const urls = mockFetch.mock.calls.map(([url]) => url);
+    expect(urls.filter((url) => url.includes('per_page=1&') || url.endsWith('per_page=1'))).toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should reject a cursor issued for another repository', async () => {
+    mockReleases(20);
+    const first = await releaseNotes('https://github.com/owner/repo', 5);
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+
+    const result = await releaseNotes('https://github.com/owner/other', 5, {
+      cursor: first.meta.pagination!.next_cursor!,
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_INPUT');
+      expect(result.error.message).toBe('Invalid cursor: Cursor belongs to a different listing');
+    }
+  });
+
+  it('should reject a cursor issued for another ref or directory', async () => {
+    mockReleases(20);
+    const first = await releaseNotes('https://github.com/owner/repo/tree/v1/docs', 5);
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    const cursor = first.meta.pagination!.next_cursor!;
+
+    const otherRef = await releaseNotes('https://github.com/owner/repo/tree/v2/docs', 5, { cursor });
+    const otherPath = await releaseNotes('https://github.com/owner/repo/tree/v1/src', 5, { cursor });
+
+    expect(!otherRef.ok && otherRef.error.message).toBe('Invalid cursor: Cursor belongs to a different listing');
+    expect(!otherPath.ok && otherPath.error.message).toBe('Invalid cursor: Cursor belongs to a different listing');
+  });
+});
+
+describe('Gitea releases beyond the server page size', () => {
+  const api = 'https://codeberg.org/api/v1/repos/owner/repo';
+
+  it('should fill a page of 100 from two pages of 50', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get('page'));
+      const releases = Array.from({ length: 50 }, (_, index) => ({
+        tag_name: `v${page}.${index}`,
+        name: '',
+        body: '',
+        published_at: '2024-01-01T00:00:00Z',
+        prerelease: false,
+        draft: false,
+        html_url: `https://codeberg.org/owner/repo/releases/tag/v${page}.${index}`,
+      }));
+      return Response.json(releases, {
+        headers: { link: `<${api}/releases?limit=50&page=${page + 1}>; rel="next"`, 'x-total-count': '180' },
+      });
+    });
+
+    const result = await releaseNotes('https://codeberg.org/owner/repo', 100);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.releases).toHaveLength(100);
+      expect(result.data.total_count).toBe(180);
+      expect(result.data.releases[50].tag_name).toBe('v2.0');
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+        `${api}/releases?limit=50&page=1`,
+        `${api}/releases?limit=50&page=2`,
+      ]);
+    }
+  });
+});
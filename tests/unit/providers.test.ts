@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseRepoUrl, repoOverview } from '../../src/tools/overview.js';
+import { extractKeyFiles } from '../../src/tools/files.js';
+import { releaseNotes } from '../../src/tools/releases.js';
+import { activitySnapshot } from '../../src/tools/activity.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+/**
+ * Answer requests from a table of URL prefixes, longest match first
+ */
+function routeFetch(routes: Record<string, { status?: number; body: unknown; headers?: Record<string, string> }>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const key = Object.keys(routes)
+      .sort((a, b) => b.length - a.length)
+      .find((prefix) => url.startsWith(prefix));
+    const route = key ? routes[key] : { status: 404, body: { message: 'Not Found' } };
+    const status = route.status ?? 200;
+    return new Response(typeof route.body === 'string' ? route.body : JSON.stringify(route.body), {
+      status,
+      headers: route.headers,
+    });
+  });
+}
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+describe('parseRepoUrl', () => {
+  it('should detect Codeberg and Bitbucket repositories', () => {
+    expect(parseRepoUrl('https://codeberg.org/forgejo/forgejo/src/branch/forgejo')).toEqual({
+      owner: 'forgejo',
+      repo: 'forgejo',
+      host: 'codeberg.org',
+      provider: 'gitea',
+      ref: 'forgejo',
+    });
+    expect(parseRepoUrl('https://bitbucket.org/workspace/repo/src/main/')).toEqual({
+      owner: 'workspace',
+      repo: 'repo',
+      host: 'bitbucket.org',
+      provider: 'bitbucket',
+      ref: 'main',
+    });
+  });
+
+  it('should parse Codeberg and Bitbucket shorthands and SSH URLs', () => {
+    expect(parseRepoUrl('codeberg:owner/repo')).toMatchObject({ host: 'codeberg.org', owner: 'owner' });
+    expect(parseRepoUrl('git@bitbucket.org:workspace/repo.git')).toEqual({
+      owner: 'workspace',
+      repo: 'repo',
+      host: 'bitbucket.org',
+      provider: 'bitbucket',
+    });
+  });
+});
+
+describe('Gitea provider', () => {
+  const api = 'https://codeberg.org/api/v1/repos/owner/repo';
+  const repoUrl = 'https://codeberg.org/owner/repo';
+
+  beforeEach(() => {
+    routeFetch({
+      [api]: {
+        body: {
+          name: 'repo',
+          full_name: 'owner/repo',
+          html_url: repoUrl,
+          description: '',
+          stars_count: 12,
+          forks_count: 2,
+          watchers_count: 4,
+          language: 'Go',
+          topics: ['forge'],
+          licenses: ['MIT'],
+          created_at: '2023-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+          default_branch: 'main',
+          website: '',
+          open_issues_count: 5,
+          open_pr_counter: 3,
+          has_wiki: true,
+          owner: { login: 'owner', avatar_url: 'https://codeberg.org/avatars/1' },
+        },
+      },
+      'https://codeberg.org/api/v1/orgs/owner': { body: { username: 'owner' } },
+      [`${api}/raw/README.md`]: { body: '# Repo' },
+      [`${api}/releases`]: {
+        body: [
+          {
+            tag_name: 'v2.0.0',
+            name: '',
+            body: 'Notes',
+            published_at: '2024-01-01T00:00:00Z',
+            prerelease: true,
+            draft: false,
+            html_url: `${repoUrl}/releases/tag/v2.0.0`,
+          },
+        ],
+      },
+      [`${api}/commits`]: {
+        body: [{ sha: 'abc', commit: { message: 'Fix', author: { name: 'a', date: '2024-01-02T00:00:00Z' } } }],
+      },
+    });
+  });
+
+  it('should map repository metadata', async () => {
+    const result = await repoOverview(repoUrl);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data).toMatchObject({
+        full_name: 'owner/repo',
+        description: null,
+        stars: 12,
+        license: 'MIT',
+        homepage: null,
+        owner: { login: 'owner', type: 'Organization' },
+      });
+      expect(result.meta.warnings).toEqual([]);
+    }
+  });
+
+  it('should read files, releases and activity', async () => {
+    const files = await extractKeyFiles(repoUrl, ['README.md']);
+    expect(files.ok && files.data.files[0].content).toBe('# Repo');
+
+    const releases = await releaseNotes(repoUrl);
+    expect(releases.ok && releases.data.releases[0]).toMatchObject({
+      tag_name: 'v2.0.0',
+      name: null,
+      prerelease: true,
+    });
+
+    const activity = await activitySnapshot(repoUrl);
+    expect(activity.ok).toBe(true);
+    if (activity.ok) {
+      expect(activity.data.open_prs_count).toBe(3);
+      expect(activity.data.last_commit_message).toBe('Fix');
+      expect(activity.meta.warnings).toEqual([
+        'Not supported by Gitea: contributors_count, has_discussions',
+      ]);
+    }
+  });
+});
+
+describe('Bitbucket provider', () => {
+  const api = 'https://api.bitbucket.org/2.0/repositories/workspace/repo';
+  const repoUrl = 'https://bitbucket.org/workspace/repo';
+
+  beforeEach(() => {
+    routeFetch({
+      [api]: {
+        body: {
+          name: 'repo',
+          full_name: 'workspace/repo',
+          description: 'A repository',
+          language: 'python',
+          created_on: '2023-01-01T00:00:00Z',
+          updated_on: '2024-01-01T00:00:00Z',
+          mainbranch: { name: 'develop' },
+          website: null,
+          has_wiki: false,
+          has_issues: true,
+          links: { html: { href: repoUrl } },
+          owner: { type: 'team', display_name: 'Workspace', links: { avatar: { href: 'https://a' } } },
+          workspace: { slug: 'workspace' },
+        },
+      },
+      [`${api}/forks`]: { body: { size: 6 } },
+      [`${api}/watchers`]: { body: { size: 9 } },
+      [`${api}/issues`]: { body: { size: 2 } },
+      [`${api}/pullrequests`]: { body: { size: 1 } },
+      [`${api}/commit/`]: { body: { hash: 'c0ffee' } },
+      [`${api}/src/c0ffee/README.md`]: { body: '# Repo' },
+      [`${api}/refs/tags`]: {
+        body: {
+          values: [
+            {
+              name: 'v1.2.0',
+              message: 'Release 1.2.0\n',
+              date: '2024-01-01T00:00:00Z',
+              target: { hash: 'abc', date: '2023-12-31T00:00:00Z' },
+              links: { html: { href: `${repoUrl}/src/v1.2.0` } },
+            },
+          ],
+          next: `${api}/refs/tags?pagelen=5&page=2`,
+        },
+      },
+      [`${api}/commits`]: {
+        body: { values: [{ hash: 'abc', date: '2024-01-02T00:00:00Z', message: 'Fix' }] },
+      },
+    });
+  });
+
+  it('should map repository metadata and warn about unsupported fields', async () => {
+    const result = await repoOverview(repoUrl);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data).toMatchObject({
+        forks: 6,
+        stars: 0,
+        license: null,
+        default_branch: 'develop',
+        owner: { login: 'workspace', type: 'Organization' },
+      });
+      expect(result.meta.warnings).toEqual(['Not supported by Bitbucket: stars, topics, license']);
+    }
+  });
+
+  it('should list tags in place of releases', async () => {
+    const result = await releaseNotes(repoUrl);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.releases[0]).toMatchObject({
+        tag_name: 'v1.2.0',
+        body: 'Release 1.2.0',
+        published_at: '2024-01-01T00:00:00Z',
+      });
+      expect(result.meta.warnings).toContain('Bitbucket has no releases; tags are listed instead');
+
+      const calls = mockFetch.mock.calls.length;
+      const next = await releaseNotes(repoUrl, 5, { cursor: result.meta.pagination!.next_cursor! });
+      expect(next.ok).toBe(true);
+      expect(mockFetch.mock.calls[calls][0]).toBe(`${api}/refs/tags?sort=-target.date&pagelen=5&page=2`);
+    }
+  });
+
+  it('should read files at the main branch commit and activity counts', async () => {
+    const files = await extractKeyFiles(repoUrl, ['README.md']);
+    expect(files.ok && files.data.files[0].content).toBe('# Repo');
+
+    const activity = await activitySnapshot(repoUrl);
+    expect(activity.ok && activity.data).toMatchObject({
+      open_issues_count: 2,
+      open_prs_count: 1,
+      watchers_count: 9,
+      last_commit_message: 'Fix',
+    });
+  });
+
+  it('should scope the latest commit to the ref and path of a deep link', async () => {
+    await activitySnapshot(`${repoUrl}/src/release/docs`);
+
+    expect(mockFetch.mock.calls.map(([url]) => url)).toContain(
+      `${api}/commits/c0ffee?pagelen=1&path=docs`
+    );
+  });
+});
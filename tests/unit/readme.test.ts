@@ -0,0 +1,335 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { badgeKind, parseAsciidoc, parseMarkdown, parseRst, resolveReadmeUrl } from '../../src/readme/index.js';
+import { readmeDigest } from '../../src/tools/readme.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+describe('parseMarkdown', () => {
+  it('should find ATX, setext and HTML headings but not lines in code blocks', () => {
+    const document = parseMarkdown(
+      [
+        '<h1 align="center">Widget</h1>',
+        '',
+        'Intro',
+        '=====',
+        '',
+        '```sh',
+        '# not a heading',
+        '```',
+        '',
+        '## Install `widget` ##',
+        '',
+        'Usage',
+        '-----',
+      ].join('\n')
+    );
+
+    expect(document.headings).toEqual([
+      { title: 'Widget', level: 1, line: 1 },
+      { title: 'Intro', level: 1, line: 3 },
+      { title: 'Install widget', level: 2, line: 10 },
+      { title: 'Usage', level: 2, line: 12 },
+    ]);
+    expect(document.codeBlocks).toEqual([{ language: 'sh', code: '# not a heading', line: 6 }]);
+  });
+
+  it('should resolve reference links and linked images, ignoring code spans and escapes', () => {
+    const document = parseMarkdown(
+      [
+        '[![Build](https://img.shields.io/badge/build-passing-green)][ci] see [the docs](docs/README.md)',
+        'and [Guide], not `[code](x)` or \\[escaped](y), <https://example.com>',
+        '',
+        '[ci]: https://github.com/owner/repo/actions',
+        '[guide]: <https://example.com/guide> "Guide"',
+      ].join('\n')
+    );
+
+    expect(document.images).toEqual([
+      {
+        alt: 'Build',
+        url: 'https://img.shields.io/badge/build-passing-green',
+        link: 'https://github.com/owner/repo/actions',
+        line: 1,
+      },
+    ]);
+    expect(document.links.map((link) => [link.text, link.url])).toEqual([
+      ['the docs', 'docs/README.md'],
+      ['Guide', 'https://example.com/guide'],
+      ['https://example.com', 'https://example.com'],
+    ]);
+  });
+});
+
+describe('parseRst', () => {
+  it('should find titles by adornment style, code blocks and substitution images', () => {
+    const document = parseRst(
+      [
+        '======',
+        'Widget',
+        '======',
+        '',
+        '|build|',
+        '',
+        '.. |build| image:: https://github.com/owner/repo/actions/workflows/ci.yml/badge.svg',
+        '   :target: https://github.com/owner/repo/actions',
+        '',
+        'Installation',
+        '============',
+        '',
+        '.. code-block:: bash',
+        '',
+        '   pip install widget',
+        '',
+        'Read the `documentation <https://widget.readthedocs.io>`_ or Example_::',
+        '',
+        '    widget --help',
+        '',
+        '.. _Example: https://example.com',
+      ].join('\n')
+    );
+
+    expect(document.headings).toEqual([
+      { title: 'Widget', level: 1, line: 2 },
+      { title: 'Installation', level: 2, line: 10 },
+    ]);
+    expect(document.codeBlocks).toEqual([
+      { language: 'bash', code: 'pip install widget', line: 13 },
+      { language: null, code: 'widget --help', line: 17 },
+    ]);
+    expect(document.images).toEqual([
+      {
+        alt: 'build',
+        url: 'https://github.com/owner/repo/actions/workflows/ci.yml/badge.svg',
+        link: 'https://github.com/owner/repo/actions',
+        line: 5,
+      },
+    ]);
+    expect(document.links.map((link) => [link.text, link.url])).toEqual([
+      ['documentation', 'https://widget.readthedocs.io'],
+      ['Example', 'https://example.com'],
+    ]);
+  });
+});
+
+describe('parseAsciidoc', () => {
+  it('should find titles, source blocks and macros with attributes substituted', () => {
+    const document = parseAsciidoc(
+      [
+        '= Widget',
+        ':repo: https://github.com/owner/repo',
+        '',
+        'image:https://img.shields.io/badge/license-MIT-blue[License,link={repo}/blob/main/LICENSE]',
+        '',
+        '== Usage',
+        '',
+        '[source,js]',
+        '----',
+        "widget('hello');",
+        '----',
+        '',
+        'See {repo}[the repository] and link:docs/guide.adoc[the guide].',
+      ].join('\n')
+    );
+
+    expect(document.headings).toEqual([
+      { title: 'Widget', level: 1, line: 1 },
+      { title: 'Usage', level: 2, line: 6 },
+    ]);
+    expect(document.codeBlocks).toEqual([{ language: 'js', code: "widget('hello');", line: 9 }]);
+    expect(document.images).toEqual([
+      {
+        alt: 'License',
+        url: 'https://img.shields.io/badge/license-MIT-blue',
+        link: 'https://github.com/owner/repo/blob/main/LICENSE',
+        line: 4,
+      },
+    ]);
+    expect(document.links.map((link) => [link.text, link.url])).toEqual([
+      ['the repository', 'https://github.com/owner/repo'],
+      ['the guide', 'docs/guide.adoc'],
+    ]);
+  });
+});
+
+describe('badgeKind', () => {
+  it('should classify badges by their alternative text before their URL', () => {
+    expect(badgeKind('https://github.com/owner/repo/actions/workflows/ci.yml/badge.svg', '')).toBe('ci');
+    expect(badgeKind('https://codecov.io/gh/owner/repo/branch/main/graph/badge.svg', '')).toBe('coverage');
+    expect(badgeKind('https://img.shields.io/npm/v/widget.svg', '')).toBe('version');
+    expect(badgeKind('https://img.shields.io/npm/dm/widget.svg', '')).toBe('downloads');
+    expect(badgeKind('https://img.shields.io/github/license/owner/check-error', '')).toBe('license');
+    expect(badgeKind('https://img.shields.io/badge/chat-on%20discord-blue', 'Discord')).toBe('other');
+    expect(badgeKind('https://img.shields.io/badge/a-b-c', 'Documentation Status')).toBe('docs');
+  });
+});
+
+describe('resolveReadmeUrl', () => {
+  const fileUrl = (path: string) => `https://github.com/owner/repo/blob/c0ffee/${path}`;
+
+  it('should resolve relative paths against the directory of the README', () => {
+    expect(resolveReadmeUrl('guide.md#setup', 'docs/README.md', fileUrl)).toBe(
+      'https://github.com/owner/repo/blob/c0ffee/docs/guide.md#setup'
+    );
+    expect(resolveReadmeUrl('../LICENSE', 'docs/README.md', fileUrl)).toBe(
+      'https://github.com/owner/repo/blob/c0ffee/LICENSE'
+    );
+    expect(resolveReadmeUrl('/CONTRIBUTING.md', 'docs/README.md', fileUrl)).toBe(
+      'https://github.com/owner/repo/blob/c0ffee/CONTRIBUTING.md'
+    );
+  });
+
+  it('should keep web URLs and drop anchors and other schemes', () => {
+    expect(resolveReadmeUrl('https://example.com/a', 'README.md', fileUrl)).toBe('https://example.com/a');
+    expect(resolveReadmeUrl('//example.com/a', 'README.md', fileUrl)).toBe('https://example.com/a');
+    expect(resolveReadmeUrl('#usage', 'README.md', fileUrl)).toBeNull();
+    expect(resolveReadmeUrl('mailto:someone@example.com', 'README.md', fileUrl)).toBeNull();
+  });
+});
+
+describe('readmeDigest', () => {
+  const api = 'https://api.github.com/repos/owner/repo';
+  const raw = 'https://raw.githubusercontent.com/owner/repo/c0ffee';
+
+  function mockRepository(files: Record<string, string>) {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === api) return Response.json({ default_branch: 'main' });
+      if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+      if (url.startsWith(`${api}/git/trees/`)) {
+        return Response.json({
+          sha: 'c0ffee',
+          tree: Object.keys(files).map((path) => ({ path, type: 'blob', size: files[path].length })),
+          truncated: false,
+        });
+      }
+      const path = url.startsWith(`${raw}/`) ? url.slice(raw.length + 1) : '';
+      return path in files ? new Response(files[path]) : new Response('Not Found', { status: 404 });
+    });
+  }
+
+  it('should digest the README with install and usage blocks, badges and resolved links', async () => {
+    mockRepository({
+      'README.md': [
+        '# Widget',
+        '',
+        '[![CI](https://github.com/owner/repo/actions/workflows/ci.yml/badge.svg)](https://github.com/owner/repo/actions)',
+        '[![npm](https://img.shields.io/npm/v/widget.svg)](https://www.npmjs.com/package/widget)',
+        '',
+        '![Screenshot](docs/screenshot.png)',
+        '',
+        '## Installation',
+        '',
+        '```bash',
+        'npm install widget',
+        '```',
+        '',
+        '## Usage',
+        '',
+        '```js',
+        "import widget from 'widget';",
+        '```',
+        '',
+        '## Contributing',
+        '',
+        '```bash',
+        'npm test',
+        '```',
+        '',
+        'See [the guide](docs/guide.md), [the license](LICENSE) and [the site](https://widget.dev).',
+      ].join('\n'),
+      'docs/README.md': '# Docs',
+      'readme.txt': 'Old',
+    });
+
+    const result = await readmeDigest('https://github.com/owner/repo');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.path).toBe('README.md');
+      expect(result.data.format).toBe('markdown');
+      expect(result.data.sections).toEqual([
+        {
+          title: 'Widget',
+          level: 1,
+          line: 1,
+          children: [
+            { title: 'Installation', level: 2, line: 8, children: [] },
+            { title: 'Usage', level: 2, line: 14, children: [] },
+            { title: 'Contributing', level: 2, line: 20, children: [] },
+          ],
+        },
+      ]);
+      expect(result.data.install).toEqual([
+        { section: 'Installation', language: 'bash', code: 'npm install widget', line: 10 },
+      ]);
+      expect(result.data.usage).toEqual([
+        { section: 'Usage', language: 'js', code: "import widget from 'widget';", line: 16 },
+      ]);
+      expect(result.data.badges).toEqual([
+        {
+          kind: 'ci',
+          label: 'CI',
+          image_url: 'https://github.com/owner/repo/actions/workflows/ci.yml/badge.svg',
+          target_url: 'https://github.com/owner/repo/actions',
+        },
+        {
+          kind: 'version',
+          label: 'npm',
+          image_url: 'https://img.shields.io/npm/v/widget.svg',
+          target_url: 'https://www.npmjs.com/package/widget',
+        },
+      ]);
+      expect(result.data.images).toEqual([{ alt: 'Screenshot', url: `${raw}/docs/screenshot.png` }]);
+      expect(result.data.links).toEqual([
+        { text: 'the guide', url: 'https://github.com/owner/repo/blob/c0ffee/docs/guide.md', external: false },
+        { text: 'the license', url: 'https://github.com/owner/repo/blob/c0ffee/LICENSE', external: false },
+        { text: 'the site', url: 'https://widget.dev', external: true },
+      ]);
+      expect(result.data.sha).toBe('c0ffee');
+      expect(result.meta.warnings).toEqual([]);
+    }
+  });
+
+  it('should read the README of a linked directory', async () => {
+    mockRepository({
+      'README.md': '# Root',
+      'packages/cli/README.rst': 'CLI\n===\n\n.. image:: logo.png\n',
+    });
+
+    const result = await readmeDigest('https://github.com/owner/repo/tree/main/packages/cli');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.path).toBe('packages/cli/README.rst');
+      expect(result.data.format).toBe('rst');
+      expect(result.data.sections.map((section) => section.title)).toEqual(['CLI']);
+      expect(result.data.images).toEqual([{ alt: '', url: `${raw}/packages/cli/logo.png` }]);
+    }
+  });
+
+  it('should fail when the directory has no README', async () => {
+    mockRepository({ 'src/index.ts': 'export {};' });
+
+    const result = await readmeDigest('https://github.com/owner/repo');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_INPUT');
+      expect(result.error.message).toBe('No README in the root directory at main in owner/repo');
+    }
+  });
+});
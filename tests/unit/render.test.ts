@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { renderResult, renderYaml } from '../../src/render/index.js';
+import { createErrorResponse, createSuccessResponse } from '../../src/types.js';
+
+const overview = {
+  name: 'repo',
+  full_name: 'owner/repo',
+  description: 'Pipes | and <tags> are escaped',
+  stars: 42,
+  forks: 3,
+  language: 'TypeScript',
+  topics: ['mcp', 'github'],
+  license: 'MIT',
+  created_at: '2023-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  default_branch: 'main',
+  homepage: null,
+  owner: { login: 'owner', avatar_url: '', type: 'User' },
+};
+
+describe('renderYaml', () => {
+  it('should serialize nested objects and arrays', () => {
+    expect(renderYaml({ a: 1, b: [true, null], c: { d: 'x' }, e: [], skip: undefined })).toBe(
+      'a: 1\nb:\n- true\n- null\nc:\n  d: x\ne: []\n'
+    );
+  });
+
+  it('should quote ambiguous scalars', () => {
+    expect(renderYaml({ v: '1.0', k: 'null', colon: 'a: b', empty: '' })).toBe(
+      'v: "1.0"\nk: "null"\ncolon: "a: b"\nempty: ""\n'
+    );
+  });
+
+  it('should use block scalars for multiline strings', () => {
+    expect(renderYaml({ body: 'line one\n\nline two\n' })).toBe(
+      'body: |\n  line one\n\n  line two\n'
+    );
+    expect(renderYaml([{ body: 'a\nb' }])).toBe('- body: |-\n    a\n    b\n');
+  });
+});
+
+describe('renderResult', () => {
+  const result = createSuccessResponse(overview, {
+    source: 'https://api.github.com/repos/owner/repo',
+    warnings: ['something odd'],
+  });
+
+  it('should keep JSON as the default rendering', () => {
+    expect(JSON.parse(renderResult('repo_overview', result, 'json'))).toEqual(result);
+  });
+
+  it('should render an overview as Markdown with a heading and table', () => {
+    const md = renderResult('repo_overview', result, 'markdown');
+
+    expect(md).toContain('# [owner/repo](https://github.com/owner/repo)');
+    expect(md).toContain('| Field | Value |');
+    expect(md).toContain('| Stars | 42 |');
+    expect(md).toContain('Pipes | and \\<tags\\> are escaped');
+    expect(md).toContain('## Warnings\n\n- something odd');
+  });
+
+  it('should render escaped HTML', () => {
+    const html = renderResult('repo_overview', result, 'html');
+
+    expect(html).toContain('<h1><a href="https://github.com/owner/repo">owner/repo</a></h1>');
+    expect(html).toContain('<td>Stars</td><td>42</td>');
+    expect(html).toContain('&lt;tags&gt;');
+  });
+
+  it('should fence file contents safely', () => {
+    const files = createSuccessResponse({
+      default_branch: 'main',
+      ref: 'main',
+      sha: 'abc123',
+      files: [
+        {
+          path: 'README.md',
+          content: 'Use ```js blocks',
+          size: 16,
+          encoding: 'utf-8',
+          truncated: false,
+          is_binary: false,
+          sha: 'e69de29',
+        },
+      ],
+    });
+    const md = renderResult('extract_key_files', files, 'markdown');
+
+    expect(md).toContain('````markdown\nUse ```js blocks\n````');
+  });
+
+  it('should list binary files without dumping their base64 content', () => {
+    const files = createSuccessResponse({
+      default_branch: 'main',
+      ref: 'main',
+      sha: 'abc123',
+      files: [
+        {
+          path: 'logo.png',
+          content: 'iVBORw0KGgo=',
+          size: 8,
+          encoding: 'base64' as const,
+          truncated: false,
+          is_binary: true,
+          sha: 'd1b2c3',
+        },
+      ],
+    });
+    const md = renderResult('extract_key_files', files, 'markdown');
+
+    expect(md).toContain('| logo.png | 8 B | binary |');
+    expect(md).not.toContain('iVBORw0KGgo=');
+  });
+
+  it('should render error envelopes', () => {
+    const error = createErrorResponse('RATE_LIMITED', 'GitHub API rate limit exceeded', {
+      reset_at: null,
+    });
+
+    expect(renderResult('repo_overview', error, 'markdown')).toContain('# Error: RATE\\_LIMITED');
+    expect(renderResult('repo_overview', error, 'yaml')).toContain('code: RATE_LIMITED');
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { compareVersions, parseRange, parseVersion, satisfies } from '../../src/semver.js';
+import { releaseNotes } from '../../src/tools/releases.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+function inRange(tag: string, range: string): boolean {
+  return satisfies(parseVersion(tag)!, parseRange(range)!);
+}
+
+describe('parseVersion', () => {
+  it('should read plain, v-prefixed and partial versions', () => {
+    expect(parseVersion('v1.2.3')).toEqual({
+      package: null,
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: null,
+      build: null,
+    });
+    expect(parseVersion('2.0.0-rc.1+build.5')).toMatchObject({ major: 2, prerelease: 'rc.1', build: 'build.5' });
+    expect(parseVersion('v3')).toMatchObject({ major: 3, minor: 0, patch: 0 });
+  });
+
+  it('should read the package of monorepo tags', () => {
+    expect(parseVersion('pkg@1.2.3')).toMatchObject({ package: 'pkg', major: 1, minor: 2, patch: 3 });
+    expect(parseVersion('@scope/pkg@4.5.6-beta.2')).toMatchObject({
+      package: '@scope/pkg',
+      major: 4,
+      prerelease: 'beta.2',
+    });
+    expect(parseVersion('my-tool-v0.9.1')).toMatchObject({ package: 'my-tool', minor: 9, patch: 1 });
+    expect(parseVersion('tools/cli/v2.1.0')).toMatchObject({ package: 'tools/cli', major: 2, minor: 1 });
+  });
+
+  it('should return null for tags naming no version', () => {
+    expect(parseVersion('latest')).toBeNull();
+    expect(parseVersion('nightly-build')).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  it('should order prereleases below their release and numeric identifiers numerically', () => {
+    const tags = ['1.0.0', '1.0.0-rc.10', '1.0.0-alpha', '1.0.0-rc.2', '0.9.12', '1.0.0-alpha.1', '0.10.0'];
+
+    const sorted = tags.sort((a, b) => compareVersions(parseVersion(a)!, parseVersion(b)!));
+
+    expect(sorted).toEqual(['0.9.12', '0.10.0', '1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-rc.2', '1.0.0-rc.10', '1.0.0']);
+  });
+});
+
+describe('parseRange', () => {
+  it('should combine comparators and alternatives', () => {
+    expect(inRange('v2.4.0', '>=2.0.0 <3')).toBe(true);
+    expect(inRange('v3.0.0', '>=2.0.0 <3')).toBe(false);
+    expect(inRange('v3.0.0-rc.1', '>=2.0.0 <3')).toBe(false);
+    expect(inRange('2.0.0-rc.1', '>=2.0.0 <3')).toBe(false);
+    expect(inRange('1.9.0', '1.x || >= 2.5')).toBe(true);
+    expect(inRange('2.4.9', '1.x || >= 2.5')).toBe(false);
+  });
+
+  it('should read caret, tilde, hyphen and partial ranges as npm does', () => {
+    expect(inRange('1.9.9', '^1.4')).toBe(true);
+    expect(inRange('2.0.0', '^1.4')).toBe(false);
+    expect(inRange('0.2.9', '^0.2.3')).toBe(true);
+    expect(inRange('0.3.0', '^0.2.3')).toBe(false);
+    expect(inRange('1.2.9', '~1.2.3')).toBe(true);
+    expect(inRange('1.3.0', '~1.2.3')).toBe(false);
+    expect(inRange('1.5.0', '1.2.3 - 1.5')).toBe(true);
+    expect(inRange('1.6.0', '1.2.3 - 1.5')).toBe(false);
+    expect(inRange('1.2.7', '1.2')).toBe(true);
+    expect(inRange('1.2.8', '<=1.2')).toBe(true);
+    expect(inRange('1.3.0', '>1.2')).toBe(true);
+    expect(inRange('1.2.9', '>1.2')).toBe(false);
+    expect(inRange('pkg@5.0.0', '*')).toBe(true);
+  });
+
+  it('should reject what is not a range', () => {
+    expect(parseRange('>= two')).toBeNull();
+    expect(parseRange('1.2.3.4')).toBeNull();
+  });
+});
+
+describe('releaseNotes filtering', () => {
+  const api = 'https://api.github.com/repos/owner/repo';
+
+  function release(tag: string, publishedAt: string | null, flags: { prerelease?: boolean; draft?: boolean } = {}) {
+    return {
+      tag_name: tag,
+      name: tag,
+      body: null,
+      published_at: publishedAt,
+      prerelease: flags.prerelease ?? false,
+      draft: flags.draft ?? false,
+      html_url: `https://github.com/owner/repo/releases/tag/${tag}`,
+    };
+  }
+
+  // As GitHub lists them: by creation, so a backport can come after a newer major
+  const releases = [
+    release('v3.0.0-beta.1', '2024-06-01T00:00:00Z'),
+    release('v2.5.1', '2024-05-20T00:00:00Z'),
+    release('v3.0.0-draft', null, { draft: true }),
+    release('v1.9.4', '2024-05-10T00:00:00Z'),
+    release('v2.5.0', '2024-04-01T00:00:00Z'),
+    release('v2.4.0', '2024-02-01T00:00:00Z', { prerelease: true }),
+    release('v2.0.0', '2023-10-01T00:00:00Z'),
+    release('v1.9.3', '2023-09-01T00:00:00Z'),
+  ];
+
+  beforeEach(() => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const query = new URL(url).searchParams;
+      const perPage = Number(query.get('per_page'));
+      const page = Number(query.get('page') ?? 1);
+      const last = Math.ceil(releases.length / perPage);
+      return Response.json(releases.slice((page - 1) * perPage, page * perPage), {
+        headers: page < last ? { link: `<${api}/releases?per_page=${perPage}&page=${page + 1}>; rel="next"` } : {},
+      });
+    });
+  });
+
+  it('should list the stable releases since a version, with structured versions', async () => {
+    const result = await releaseNotes('https://github.com/owner/repo', 10, {
+      includePrereleases: false,
+      includeDrafts: false,
+      versionRange: '>=2.0.0',
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.releases.map((r) => r.tag_name)).toEqual(['v2.5.1', 'v2.5.0', 'v2.0.0']);
+      expect(result.data.releases[0].version).toEqual({
+        package: null,
+        major: 2,
+        minor: 5,
+        patch: 1,
+        prerelease: null,
+        build: null,
+      });
+      expect(result.data.total_count).toBe(3);
+      expect(result.meta.pagination?.next_cursor).toBeNull();
+    }
+  });
+
+  it('should filter by publication date and page through matches with a cursor', async () => {
+    const first = await releaseNotes('https://github.com/owner/repo', 2, { since: '2024-03-01' });
+
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    expect(first.data.releases.map((r) => r.tag_name)).toEqual(['v3.0.0-beta.1', 'v2.5.1']);
+
+    const second = await releaseNotes('https://github.com/owner/repo', 2, {
+      since: '2024-03-01',
+      cursor: first.meta.pagination!.next_cursor!,
+    });
+
+    expect(second.ok).toBe(true);
+    if (second.ok) {
+      expect(second.data.releases.map((r) => r.tag_name)).toEqual(['v1.9.4', 'v2.5.0']);
+      expect(second.meta.pagination?.next_cursor).toBeNull();
+    }
+
+    const other = await releaseNotes('https://github.com/owner/repo', 2, {
+      cursor: first.meta.pagination!.next_cursor!,
+    });
+    expect(other.ok).toBe(false);
+  });
+
+  it('should sort by version or date on request', async () => {
+    const byVersion = await releaseNotes('https://github.com/owner/repo', 4, { sort: 'version' });
+    const byDate = await releaseNotes('https://github.com/owner/repo', 3, { sort: 'date', includeDrafts: false });
+
+    expect(byVersion.ok && byVersion.data.releases.map((r) => r.tag_name)).toEqual([
+      'v3.0.0-draft',
+      'v3.0.0-beta.1',
+      'v2.5.1',
+      'v2.5.0',
+    ]);
+    expect(byVersion.ok && byVersion.data.total_count).toBe(8);
+    expect(byDate.ok && byDate.data.releases.map((r) => r.tag_name)).toEqual(['v3.0.0-beta.1', 'v2.5.1', 'v1.9.4']);
+  });
+
+  it('should report when no release matches', async () => {
+    const result = await releaseNotes('https://github.com/owner/repo', 5, { versionRange: '>=4' });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.releases).toEqual([]);
+      expect(result.data.total_count).toBe(0);
+      expect(result.meta.warnings).toContain('No releases match the filters');
+    }
+  });
+});
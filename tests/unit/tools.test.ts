@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { parseRepoUrl } from '../../src/tools/overview.js';
+import { parseRepoReference } from '../../src/repo-url.js';
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -8,6 +9,7 @@ import {
   ReleaseNotesInputSchema,
   ActivitySnapshotInputSchema,
 } from '../../src/types.js';
+import { resetRateLimitState } from '../../src/upstream/index.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -29,13 +31,83 @@ describe('parseRepoUrl', () => {
     expect(result).toEqual({ owner: 'owner', repo: 'repo' });
   });
 
-  it('should handle URLs with additional path segments', () => {
+  it('should read the ref from tree links', () => {
     const result = parseRepoUrl('https://github.com/owner/repo/tree/main');
-    expect(result).toEqual({ owner: 'owner', repo: 'repo' });
+    expect(result).toEqual({ owner: 'owner', repo: 'repo', ref: 'main' });
+  });
+
+  it('should read the ref and sub-path from deep links', () => {
+    expect(parseRepoUrl('https://github.com/owner/repo/tree/v2.1/packages/core')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+      ref: 'v2.1',
+      path: 'packages/core',
+      pathType: 'dir',
+    });
+    expect(parseRepoUrl('https://github.com/owner/repo/blob/main/README.md')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+      ref: 'main',
+      path: 'README.md',
+      pathType: 'file',
+    });
+    expect(parseRepoUrl('https://github.com/owner/repo/releases/tag/v1.0.0')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+      ref: 'v1.0.0',
+    });
+  });
+
+  it('should parse SSH clone URLs', () => {
+    expect(parseRepoUrl('git@github.com:owner/repo.git')).toEqual({ owner: 'owner', repo: 'repo' });
+    expect(parseRepoUrl('ssh://git@github.com/owner/repo.git')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+    });
+    expect(parseRepoUrl('git@gitlab.com:group/subgroup/repo.git')).toEqual({
+      owner: 'group/subgroup',
+      repo: 'repo',
+      host: 'gitlab.com',
+      provider: 'gitlab',
+    });
+  });
+
+  it('should parse shorthands', () => {
+    expect(parseRepoUrl('owner/repo')).toEqual({ owner: 'owner', repo: 'repo' });
+    expect(parseRepoUrl('github.com/owner/repo')).toEqual({ owner: 'owner', repo: 'repo' });
+    expect(parseRepoUrl('github:owner/repo#v1.2.0')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+      ref: 'v1.2.0',
+    });
+    expect(parseRepoUrl('gitlab:group/repo')).toEqual({
+      owner: 'group',
+      repo: 'repo',
+      host: 'gitlab.com',
+      provider: 'gitlab',
+    });
   });
 
-  it('should return null for non-GitHub URLs', () => {
+  it('should parse a GitLab URL', () => {
     const result = parseRepoUrl('https://gitlab.com/owner/repo');
+    expect(result).toEqual({ owner: 'owner', repo: 'repo', host: 'gitlab.com', provider: 'gitlab' });
+  });
+
+  it('should keep GitLab subgroups in the owner and read project pages', () => {
+    const result = parseRepoUrl('https://gitlab.com/group/subgroup/repo/-/tree/main/src');
+    expect(result).toEqual({
+      owner: 'group/subgroup',
+      repo: 'repo',
+      host: 'gitlab.com',
+      provider: 'gitlab',
+      ref: 'main',
+      path: 'src',
+      pathType: 'dir',
+    });
+  });
+
+  it('should return null for URLs on unknown hosts', () => {
+    const result = parseRepoUrl('https://example.com/owner/repo');
     expect(result).toBeNull();
   });
 
@@ -48,6 +120,21 @@ describe('parseRepoUrl', () => {
     const result = parseRepoUrl('https://github.com/owner');
     expect(result).toBeNull();
   });
+
+  it('should explain why a reference was rejected', () => {
+    expect(parseRepoReference('https://example.com/owner/repo')).toMatchObject({
+      ok: false,
+      reason: expect.stringContaining('Unknown host "example.com"'),
+    });
+    expect(parseRepoReference('npm:owner/repo')).toMatchObject({
+      ok: false,
+      reason: expect.stringContaining('Unknown prefix "npm:"'),
+    });
+    expect(parseRepoReference('owner/re po')).toMatchObject({
+      ok: false,
+      reason: '"re po" is not a valid owner or repository name',
+    });
+  });
 });
 
 describe('createSuccessResponse', () => {
@@ -111,13 +198,45 @@ describe('Input Schemas', () => {
       expect(result.success).toBe(true);
     });
 
-    it('should reject non-GitHub URLs', () => {
+    it('should accept GitLab URLs', () => {
       const result = RepoOverviewInputSchema.safeParse({
         repo_url: 'https://gitlab.com/owner/repo',
       });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject URLs on unknown hosts', () => {
+      const result = RepoOverviewInputSchema.safeParse({
+        repo_url: 'https://example.com/owner/repo',
+      });
       expect(result.success).toBe(false);
     });
 
+    it('should accept a ref for tools that read the repository at one', () => {
+      expect(
+        ExtractKeyFilesInputSchema.safeParse({ repo_url: 'owner/repo', ref: 'v1.0.0' }).success
+      ).toBe(true);
+      expect(ActivitySnapshotInputSchema.safeParse({ repo_url: 'owner/repo', ref: '' }).success).toBe(
+        false
+      );
+    });
+
+    it('should accept SSH URLs and shorthands', () => {
+      for (const repo_url of ['git@github.com:owner/repo.git', 'owner/repo', 'github:owner/repo']) {
+        expect(RepoOverviewInputSchema.safeParse({ repo_url }).success).toBe(true);
+      }
+    });
+
+    it('should report why a URL was rejected', () => {
+      const result = RepoOverviewInputSchema.safeParse({ repo_url: 'owner' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe(
+          'Expected a repository URL or owner/repo shorthand'
+        );
+      }
+    });
+
     it('should reject missing repo_url', () => {
       const result = RepoOverviewInputSchema.safeParse({});
       expect(result.success).toBe(false);
@@ -196,6 +315,7 @@ describe('Input Schemas', () => {
 describe('Tool functions with mocked fetch', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    resetRateLimitState();
   });
 
   afterEach(() => {
@@ -246,7 +366,7 @@ describe('Tool functions with mocked fetch', () => {
 
     it('should return error for invalid URL', async () => {
       const { repoOverview } = await import('../../src/tools/overview.js');
-      const result = await repoOverview('https://gitlab.com/owner/repo');
+      const result = await repoOverview('https://example.com/owner/repo');
 
       expect(result.ok).toBe(false);
       if (!result.ok) {
@@ -330,6 +450,29 @@ describe('Tool functions with mocked fetch', () => {
         headers: new Map(),
       });
 
+      const { releaseNotes } = await import('../../src/tools/releases.js');
+      const result = await releaseNotes('https://github.com/owner/repo', 5, { source: 'releases' });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.releases).toHaveLength(0);
+        expect(result.meta.warnings).toContain('No releases found for this repository');
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should look for a changelog and tags before reporting no releases', async () => {
+      const api = 'https://api.github.com/repos/owner/repo';
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url === api) return Response.json({ default_branch: 'main' });
+        if (url.startsWith(`${api}/commits/`)) return new Response('c0ffee');
+        if (url.startsWith(`${api}/git/trees/`)) {
+          return Response.json({ sha: 'c0ffee', tree: [{ path: 'README.md', type: 'blob', size: 8 }], truncated: false });
+        }
+        if (url.startsWith(`${api}/releases`) || url.startsWith(`${api}/tags?`)) return Response.json([]);
+        return new Response('Not Found', { status: 404 });
+      });
+
       const { releaseNotes } = await import('../../src/tools/releases.js');
       const result = await releaseNotes('https://github.com/owner/repo');
 
@@ -338,6 +481,9 @@ describe('Tool functions with mocked fetch', () => {
         expect(result.data.releases).toHaveLength(0);
         expect(result.meta.warnings).toContain('No releases found for this repository');
       }
+      const urls = mockFetch.mock.calls.map(([url]) => String(url));
+      expect(urls.some((url) => url.startsWith(`${api}/git/trees/`))).toBe(true);
+      expect(urls.some((url) => url.startsWith(`${api}/tags?`))).toBe(true);
     });
   });
 
@@ -351,27 +497,50 @@ describe('Tool functions with mocked fetch', () => {
         headers: new Map(),
       });
 
-      // File fetches
+      // Commit of the default branch
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 200,
-        text: async () => '# README\nThis is a test repo',
+        text: async () => 'abc123',
         headers: new Map(),
       });
+
+      // Root listing the key files are chosen from
       mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
+        ok: true,
+        status: 200,
+        json: async () => ({
+          sha: 'abc123',
+          tree: [
+            { path: 'README.md', type: 'blob', size: 28 },
+            { path: 'package.json', type: 'blob', size: 21 },
+            { path: 'src', type: 'tree' },
+            { path: 'src/index.ts', type: 'blob', size: 100 },
+          ],
+          truncated: false,
+        }),
         headers: new Map(),
       });
+
+      // Languages
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 200,
-        text: async () => '{"name": "test-repo"}',
+        json: async () => ({ TypeScript: 1000 }),
         headers: new Map(),
       });
+
+      // File fetches
       mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => new TextEncoder().encode('# README\nThis is a test repo').buffer,
+        headers: new Map(),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => new TextEncoder().encode('{"name": "test-repo"}').buffer,
         headers: new Map(),
       });
 
@@ -381,19 +550,107 @@ describe('Tool functions with mocked fetch', () => {
       expect(result.ok).toBe(true);
       if (result.ok) {
         expect(result.data.default_branch).toBe('main');
-        expect(result.data.files).toHaveLength(4);
+        expect(result.data.sha).toBe('abc123');
+        expect(result.data.files.map((f) => [f.path, f.reason])).toEqual([
+          ['README.md', 'README'],
+          ['package.json', 'npm manifest; TypeScript is the primary language'],
+        ]);
 
         const readme = result.data.files.find((f) => f.path === 'README.md');
-        // Check readme exists and content if available
-        expect(readme).toBeDefined();
-        if (readme?.content) {
-          expect(readme.content).toContain('# README');
-        }
+        expect(readme?.content).toContain('# README');
+        expect(result.meta.warnings).toEqual([]);
+      }
+    });
 
-        const license = result.data.files.find((f) => f.path === 'LICENSE');
-        expect(license?.error).toBe('File not found');
+    it('should read files at the ref and under the path of a deep link', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ default_branch: 'main' }),
+        headers: new Map(),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => 'abc123',
+        headers: new Map(),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => new TextEncoder().encode('{"name": "core"}').buffer,
+        headers: new Map(),
+      });
+
+      const { extractKeyFiles } = await import('../../src/tools/files.js');
+      const result = await extractKeyFiles('https://github.com/owner/repo/tree/v2.1/packages/core', [
+        'package.json',
+      ]);
+
+      expect(mockFetch.mock.calls[1][0]).toBe('https://api.github.com/repos/owner/repo/commits/v2.1');
+      expect(mockFetch.mock.calls[2][0]).toBe(
+        'https://raw.githubusercontent.com/owner/repo/abc123/packages/core/package.json'
+      );
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.ref).toBe('v2.1');
+        expect(result.data.sha).toBe('abc123');
+        expect(result.data.default_branch).toBe('main');
+        expect(result.data.files[0].path).toBe('packages/core/package.json');
       }
     });
+
+    it('should fail clearly for a ref that does not exist', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ default_branch: 'main' }),
+        headers: new Map(),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Map(),
+      });
+
+      const { extractKeyFiles } = await import('../../src/tools/files.js');
+      const result = await extractKeyFiles('https://github.com/owner/repo', undefined, {
+        ref: 'no-such-tag',
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('INVALID_INPUT');
+        expect(result.error.details).toEqual({ ref: 'no-such-tag' });
+      }
+    });
+
+    it('should fetch the file a blob link points at', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ default_branch: 'main' }),
+        headers: new Map(),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => 'abc123',
+        headers: new Map(),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => new TextEncoder().encode('# Docs').buffer,
+        headers: new Map(),
+      });
+
+      const { extractKeyFiles } = await import('../../src/tools/files.js');
+      const result = await extractKeyFiles('https://github.com/owner/repo/blob/main/docs/guide.md');
+
+      expect(result.ok && result.data.files.map((f) => f.path)).toEqual(['docs/guide.md']);
+    });
   });
 
   describe('activitySnapshot', () => {
@@ -455,7 +712,202 @@ describe('Tool functions with mocked fetch', () => {
         expect(result.data.last_commit_date).toBe('2024-01-15T10:00:00Z');
         expect(result.data.last_commit_message).toBe('Latest commit');
         expect(result.data.has_wiki).toBe(true);
+        expect(result.data.ref).toBeNull();
       }
     });
+
+    it('should read the last commit at a requested ref', async () => {
+      mockFetch.mockImplementation(async (url: string) => ({
+        ok: true,
+        status: 200,
+        json: async () =>
+          url.includes('/commits?')
+            ? [{ sha: 'abc123', commit: { message: 'Release', author: { date: '2024-01-01T00:00:00Z' } } }]
+            : url.includes('/pulls') || url.includes('/contributors')
+              ? []
+              : { open_issues_count: 0, watchers_count: 0, has_wiki: false, has_discussions: false },
+        text: async () => 'abc123',
+        headers: new Map(),
+      }));
+
+      const { activitySnapshot } = await import('../../src/tools/activity.js');
+      const result = await activitySnapshot('https://github.com/owner/repo', { ref: 'v1.0.0' });
+
+      const urls = mockFetch.mock.calls.map(([url]) => url);
+      expect(urls).toContain('https://api.github.com/repos/owner/repo/commits/v1.0.0');
+      expect(urls).toContain('https://api.github.com/repos/owner/repo/commits?per_page=1&sha=abc123');
+      expect(result.ok && result.data).toMatchObject({
+        ref: 'v1.0.0',
+        sha: 'abc123',
+        last_commit_message: 'Release',
+      });
+    });
+  });
+});
+
+describe('repoBrief', () => {
+  const repoPayload = {
+    name: 'repo',
+    full_name: 'owner/repo',
+    description: 'A repository',
+    stargazers_count: 5,
+    forks_count: 1,
+    language: 'TypeScript',
+    topics: [],
+    license: { spdx_id: 'MIT', name: 'MIT License' },
+    created_at: '2023-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    default_branch: 'develop',
+    homepage: null,
+    open_issues_count: 3,
+    watchers_count: 7,
+    has_wiki: false,
+    has_discussions: false,
+    owner: { login: 'owner', avatar_url: '', type: 'User' },
+  };
+
+  function routeFetch(routes: Record<string, { status: number; body?: unknown }>) {
+    mockFetch.mockImplementation(async (url: string) => {
+      const key = Object.keys(routes)
+        .sort((a, b) => b.length - a.length)
+        .find((prefix) => url.startsWith(prefix));
+      const route = key ? routes[key] : { status: 404 };
+      return {
+        ok: route.status >= 200 && route.status < 300,
+        status: route.status,
+        statusText: '',
+        json: async () => route.body,
+        text: async () => String(route.body ?? ''),
+        headers: new Map(),
+      };
+    });
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    resetRateLimitState();
+  });
+
+  it('should share one metadata fetch across sections', async () => {
+    routeFetch({
+      'https://api.github.com/repos/owner/repo': { status: 200, body: repoPayload },
+      'https://api.github.com/repos/owner/repo/releases': { status: 200, body: [] },
+      'https://api.github.com/repos/owner/repo/commits': { status: 200, body: [] },
+      'https://api.github.com/repos/owner/repo/commits/develop': { status: 200, body: 'c0ffee' },
+      'https://api.github.com/repos/owner/repo/pulls': { status: 200, body: [] },
+      'https://api.github.com/repos/owner/repo/contributors': { status: 200, body: [] },
+      'https://raw.githubusercontent.com/owner/repo/c0ffee/README.md': {
+        status: 200,
+        body: '# Repo',
+      },
+    });
+
+    const { repoBrief } = await import('../../src/tools/brief.js');
+    const result = await repoBrief('https://github.com/owner/repo');
+
+    const metadataCalls = mockFetch.mock.calls.filter(
+      ([url]) => url === 'https://api.github.com/repos/owner/repo'
+    );
+    expect(metadataCalls).toHaveLength(1);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.overview?.name).toBe('repo');
+      expect(result.data.key_files?.default_branch).toBe('develop');
+      expect(result.data.key_files?.sha).toBe('c0ffee');
+      expect(result.data.activity?.open_issues_count).toBe(3);
+      expect(result.data.sections.releases.status).toBe('ok');
+    }
+  });
+
+  it('should degrade failed sections into warnings', async () => {
+    routeFetch({
+      'https://api.github.com/repos/owner/repo': { status: 200, body: repoPayload },
+      'https://api.github.com/repos/owner/repo/releases': { status: 500 },
+      'https://api.github.com/repos/owner/repo/commits': { status: 200, body: [] },
+      'https://api.github.com/repos/owner/repo/pulls': { status: 200, body: [] },
+      'https://api.github.com/repos/owner/repo/contributors': { status: 403 },
+    });
+
+    const { repoBrief } = await import('../../src/tools/brief.js');
+    const result = await repoBrief('https://github.com/owner/repo', {
+      sections: ['releases', 'activity'],
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.sections.releases.status).toBe('error');
+      expect(result.data.sections.releases.error?.code).toBe('UPSTREAM_ERROR');
+      expect(result.data.sections.activity.status).toBe('ok');
+      expect(result.data.sections.overview.status).toBe('skipped');
+      expect(result.meta.warnings).toContain('activity: Could not fetch contributors count');
+      expect(result.meta.warnings.some((w) => w.startsWith('releases:'))).toBe(true);
+    }
+  });
+
+  it('should skip the metadata fetch when only releases are requested', async () => {
+    routeFetch({
+      'https://api.github.com/repos/owner/repo/releases': { status: 200, body: [] },
+    });
+
+    const { repoBrief } = await import('../../src/tools/brief.js');
+    const progress: number[] = [];
+    const result = await repoBrief('https://github.com/owner/repo', {
+      sections: ['releases'],
+      onProgress: (value) => progress.push(value),
+    });
+
+    expect(result.ok).toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(progress).toEqual([1, 2]);
+  });
+
+  it('should resolve a requested ref once for all sections', async () => {
+    routeFetch({
+      'https://api.github.com/repos/owner/repo': { status: 200, body: repoPayload },
+      'https://api.github.com/repos/owner/repo/commits': { status: 200, body: [] },
+      'https://api.github.com/repos/owner/repo/commits/v1.0.0': { status: 200, body: 'beef' },
+      'https://api.github.com/repos/owner/repo/pulls': { status: 200, body: [] },
+      'https://api.github.com/repos/owner/repo/contributors': { status: 200, body: [] },
+    });
+
+    const { repoBrief } = await import('../../src/tools/brief.js');
+    const result = await repoBrief('https://github.com/owner/repo', {
+      sections: ['key_files', 'activity'],
+      ref: 'v1.0.0',
+    });
+
+    const resolveCalls = mockFetch.mock.calls.filter(([url]) => url.includes('/commits/v1.0.0'));
+    expect(resolveCalls).toHaveLength(1);
+    expect(result.ok && result.data.key_files?.sha).toBe('beef');
+    expect(result.ok && result.data.activity?.ref).toBe('v1.0.0');
+  });
+
+  it('should fail the brief for a ref the repository does not have', async () => {
+    routeFetch({
+      'https://api.github.com/repos/owner/repo': { status: 200, body: repoPayload },
+      'https://api.github.com/repos/owner/repo/commits/nope': { status: 422 },
+    });
+
+    const { repoBrief } = await import('../../src/tools/brief.js');
+    const result = await repoBrief('owner/repo#nope');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_INPUT');
+      expect(result.error.message).toBe('No branch, tag or commit "nope" in owner/repo');
+    }
+  });
+
+  it('should fail the brief when the repository cannot be read', async () => {
+    routeFetch({});
+
+    const { repoBrief } = await import('../../src/tools/brief.js');
+    const result = await repoBrief('https://github.com/owner/repo');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toContain('not found');
+    }
   });
 });
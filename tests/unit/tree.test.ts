@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { globToRegExp, isGlob } from '../../src/glob.js';
+import { extractKeyFiles } from '../../src/tools/files.js';
+import { listTree } from '../../src/tools/tree.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const api = 'https://api.github.com/repos/owner/repo';
+const raw = 'https://raw.githubusercontent.com/owner/repo/c0ffee';
+
+/**
+ * Answer requests from a table of URL prefixes, longest match first
+ */
+function routeFetch(routes: Record<string, { status?: number; body: unknown; headers?: Record<string, string> }>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const key = Object.keys(routes)
+      .sort((a, b) => b.length - a.length)
+      .find((prefix) => url.startsWith(prefix));
+    const route = key ? routes[key] : { status: 404, body: { message: 'Not Found' } };
+    return new Response(typeof route.body === 'string' ? route.body : JSON.stringify(route.body), {
+      status: route.status ?? 200,
+      headers: route.headers,
+    });
+  });
+}
+
+function githubRepo(tree: Array<{ path: string; type: 'blob' | 'tree'; size?: number }>, truncated = false) {
+  routeFetch({
+    [api]: { body: { default_branch: 'main' } },
+    [`${api}/commits/`]: { body: 'c0ffee' },
+    [`${api}/git/trees/c0ffee`]: { body: { sha: 'c0ffee', tree, truncated } },
+    [`${raw}/`]: { body: 'content' },
+  });
+}
+
+const TREE = [
+  { path: '.github', type: 'tree' as const },
+  { path: '.github/workflows', type: 'tree' as const },
+  { path: '.github/workflows/ci.yml', type: 'blob' as const, size: 300 },
+  { path: '.github/workflows/release.yaml', type: 'blob' as const, size: 200 },
+  { path: 'README.md', type: 'blob' as const, size: 1000 },
+  { path: 'docs', type: 'tree' as const },
+  { path: 'docs/guide', type: 'tree' as const },
+  { path: 'docs/guide/install.md', type: 'blob' as const, size: 400 },
+  { path: 'docs/index.md', type: 'blob' as const, size: 100 },
+  { path: 'docs/logo.png', type: 'blob' as const, size: 5000 },
+];
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+describe('globToRegExp', () => {
+  it('should keep single stars within a path segment', () => {
+    const regex = globToRegExp('.github/workflows/*.yml');
+    expect(regex.test('.github/workflows/ci.yml')).toBe(true);
+    expect(regex.test('.github/workflows/nested/ci.yml')).toBe(false);
+  });
+
+  it('should let double stars cross segments, including none', () => {
+    const regex = globToRegExp('docs/**/*.md');
+    expect(regex.test('docs/index.md')).toBe(true);
+    expect(regex.test('docs/guide/install.md')).toBe(true);
+    expect(regex.test('src/docs/index.md')).toBe(false);
+  });
+
+  it('should support alternatives, classes and single characters', () => {
+    expect(globToRegExp('*.{yml,yaml}').test('ci.yaml')).toBe(true);
+    expect(globToRegExp('v[0-9].txt').test('v1.txt')).toBe(true);
+    expect(globToRegExp('v[!0-9].txt').test('v1.txt')).toBe(false);
+    expect(globToRegExp('file?.md').test('file1.md')).toBe(true);
+    expect(globToRegExp('a+b.md').test('a+b.md')).toBe(true);
+  });
+
+  it('should tell globs from literal paths', () => {
+    expect(isGlob('docs/**/*.md')).toBe(true);
+    expect(isGlob('docs/index.md')).toBe(false);
+  });
+});
+
+describe('extractKeyFiles with globs', () => {
+  it('should expand globs against the tree alongside literal paths', async () => {
+    githubRepo(TREE);
+
+    const result = await extractKeyFiles('https://github.com/owner/repo', [
+      'README.md',
+      'docs/**/*.md',
+      '.github/workflows/*.{yml,yaml}',
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.files.map((f) => f.path)).toEqual([
+        'README.md',
+        'docs/guide/install.md',
+        'docs/index.md',
+        '.github/workflows/ci.yml',
+        '.github/workflows/release.yaml',
+      ]);
+      expect(result.meta.warnings).toEqual([]);
+    }
+  });
+
+  it('should skip the tree listing when no path is a glob', async () => {
+    githubRepo(TREE);
+
+    await extractKeyFiles('https://github.com/owner/repo', ['README.md']);
+
+    const urls = mockFetch.mock.calls.map(([url]) => url as string);
+    expect(urls.some((url) => url.includes('/git/trees/'))).toBe(false);
+  });
+
+  it('should stop at max_files and max_bytes and say what was left out', async () => {
+    githubRepo(TREE);
+
+    const result = await extractKeyFiles(
+      'https://github.com/owner/repo',
+      ['docs/**/*.md', 'README.md', '.github/**'],
+      { maxFiles: 3, maxBytes: 800 }
+    );
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.files.map((f) => f.path)).toEqual([
+        'docs/guide/install.md',
+        'docs/index.md',
+        '.github/workflows/ci.yml',
+      ]);
+      expect(result.meta.warnings).toEqual([
+        'Reached max_files (3); not read: .github/workflows/release.yaml',
+        'Reached max_bytes (800); not read: README.md',
+      ]);
+    }
+  });
+
+  it('should cut a file to what is left of max_bytes once its size is known', async () => {
+    routeFetch({
+      [api]: { body: { default_branch: 'main' } },
+      [`${api}/commits/`]: { body: 'c0ffee' },
+      [`${raw}/a.md`]: { body: 'a'.repeat(600) },
+      [`${raw}/b.md`]: { body: 'b'.repeat(600) },
+    });
+
+    const result = await extractKeyFiles('https://github.com/owner/repo', ['a.md', 'b.md'], { maxBytes: 1000 });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const [a, b] = result.data.files;
+      expect([a.content, a.truncated]).toEqual(['a'.repeat(600), false]);
+      expect([b.content, b.truncated]).toEqual([`${'b'.repeat(400)}\n\n[truncated: 400 of 600 bytes shown]`, true]);
+      expect(result.meta.warnings).toEqual(['Reached max_bytes (1000); truncated to fit: b.md']);
+    }
+  });
+
+  it('should read paths with brackets as paths', async () => {
+    githubRepo([
+      { path: 'app', type: 'tree' },
+      { path: 'app/[slug]', type: 'tree' },
+      { path: 'app/[slug]/page.tsx', type: 'blob', size: 7 },
+      { path: 'app/s/page.tsx', type: 'blob', size: 7 },
+    ]);
+
+    const result = await extractKeyFiles('https://github.com/owner/repo', [
+      'app/[slug]/page.tsx',
+      'app/[id]/layout.tsx',
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.files.map((f) => [f.path, f.reason, f.content])).toEqual([
+        ['app/[slug]/page.tsx', 'Requested', 'content'],
+        ['app/[id]/layout.tsx', 'Requested', 'content'],
+      ]);
+      expect(result.meta.warnings).toEqual([]);
+    }
+  });
+
+  it('should warn about patterns without matches and truncated trees', async () => {
+    githubRepo(TREE, true);
+
+    const result = await extractKeyFiles('https://github.com/owner/repo', ['**/*.rst']);
+
+    expect(result.ok && result.meta.warnings).toEqual([
+      'GitHub returned a truncated tree; glob matches may be incomplete',
+      'No files match **/*.rst',
+    ]);
+  });
+});
+
+describe('listTree', () => {
+  it('should list entries to the given depth with directory sizes', async () => {
+    githubRepo(TREE);
+
+    const result = await listTree('https://github.com/owner/repo', { depth: 1 });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data).toMatchObject({ path: '', depth: 1, ref: 'main', sha: 'c0ffee' });
+      expect(result.data.entries).toEqual([
+        { path: '.github', type: 'dir', size: 500 },
+        { path: 'README.md', type: 'file', size: 1000 },
+        { path: 'docs', type: 'dir', size: 5500 },
+      ]);
+    }
+  });
+
+  it('should list below the directory of a deep link', async () => {
+    githubRepo(TREE);
+
+    const result = await listTree('https://github.com/owner/repo/tree/v1/docs');
+
+    expect(result.ok && result.data.entries.map((e) => e.path)).toEqual([
+      'docs/guide',
+      'docs/guide/install.md',
+      'docs/index.md',
+      'docs/logo.png',
+    ]);
+    expect(result.ok && result.data.ref).toBe('v1');
+  });
+
+  it('should reject a directory the tree does not have', async () => {
+    githubRepo(TREE);
+
+    const result = await listTree('https://github.com/owner/repo', { path: 'src' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_INPUT');
+      expect(result.error.message).toBe('No directory "src" at main in owner/repo');
+    }
+  });
+
+  it('should page through GitLab trees, which carry no sizes', async () => {
+    const project = 'https://gitlab.com/api/v4/projects/group%2Frepo';
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === project) return Response.json({ default_branch: 'main' });
+      if (url.startsWith(`${project}/repository/commits/`)) return Response.json({ id: 'c0ffee' });
+      const page = new URL(url).searchParams.get('page');
+      return page === '1'
+        ? Response.json([{ path: 'src', type: 'tree' }], { headers: { 'x-next-page': '2' } })
+        : Response.json([{ path: 'src/main.go', type: 'blob' }]);
+    });
+
+    const result = await listTree('https://gitlab.com/group/repo');
+
+    expect(result.ok && result.data.entries).toEqual([
+      { path: 'src', type: 'dir', size: null },
+      { path: 'src/main.go', type: 'file', size: null },
+    ]);
+    expect(result.ok && result.data.truncated).toBe(false);
+  });
+});
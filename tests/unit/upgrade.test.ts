@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { breakingChangesInCommit, breakingChangesInNotes } from '../../src/changelog/index.js';
+import { upgradeNotes } from '../../src/tools/upgrade.js';
+import { resetConfig, setConfig } from '../../src/config.js';
+import { clearResponseCache, resetRateLimitState } from '../../src/upstream/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  resetConfig();
+  setConfig({ requestDelayMs: 0 });
+  resetRateLimitState();
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+describe('breakingChangesInNotes', () => {
+  it('should read the items under a Breaking heading', () => {
+    const notes = [
+      '## Features',
+      '- Add a cache',
+      '',
+      '## ⚠ Breaking Changes',
+      '- Drop Node 16',
+      '- Rename `load` to `read`,',
+      '  which now returns a promise',
+      '',
+      '## Fixes',
+      '- Fix a leak',
+    ].join('\n');
+
+    expect(breakingChangesInNotes(notes)).toEqual([
+      { text: 'Drop Node 16', marker: 'heading' },
+      { text: 'Rename `load` to `read`, which now returns a promise', marker: 'heading' },
+    ]);
+  });
+
+  it('should read bold headings, footers and conventional commit subjects', () => {
+    const notes = [
+      '**Breaking:**',
+      'The config file moved to `.toolrc`.',
+      '',
+      '### Changes',
+      '* feat(api)!: remove the v1 endpoints (#12)',
+      '* fix: handle empty input',
+      '',
+      'BREAKING CHANGE: tokens are required',
+    ].join('\n');
+
+    expect(breakingChangesInNotes(notes)).toEqual([
+      { text: 'The config file moved to `.toolrc`.', marker: 'heading' },
+      { text: 'feat(api)!: remove the v1 endpoints (#12)', marker: 'conventional' },
+      { text: 'tokens are required', marker: 'footer' },
+    ]);
+  });
+
+  it('should skip fenced code', () => {
+    const notes = ['```', 'BREAKING CHANGE: not a note', 'feat!: nor this', '```', 'Nothing breaks.'].join('\n');
+
+    expect(breakingChangesInNotes(notes)).toEqual([]);
+  });
+});
+
+describe('breakingChangesInCommit', () => {
+  it('should read a ! subject and multi-line BREAKING CHANGE footers', () => {
+    const message = [
+      'refactor(core)!: split the parser',
+      '',
+      'Parsing is now done in two passes.',
+      '',
+      'BREAKING CHANGE: parse() no longer',
+      'accepts a callback.',
+      'Reviewed-by: someone',
+    ].join('\n');
+
+    expect(breakingChangesInCommit(message)).toEqual([
+      { text: 'refactor(core)!: split the parser', marker: 'conventional' },
+      { text: 'parse() no longer accepts a callback.', marker: 'footer' },
+    ]);
+    expect(breakingChangesInCommit('fix: a typo\n\nMentions a BREAKING CHANGE: in prose')).toEqual([]);
+  });
+});
+
+describe('upgradeNotes', () => {
+  const api = 'https://api.github.com/repos/owner/repo';
+
+  function release(tag: string, body: string | null, flags: { prerelease?: boolean } = {}) {
+    return {
+      tag_name: tag,
+      name: tag,
+      body,
+      published_at: '2024-01-01T00:00:00Z',
+      prerelease: flags.prerelease ?? false,
+      draft: false,
+      html_url: `https://github.com/owner/repo/releases/tag/${tag}`,
+    };
+  }
+
+  function commit(sha: string, message: string) {
+    return {
+      sha,
+      html_url: `https://github.com/owner/repo/commit/${sha}`,
+      commit: { message, author: { name: 'Dev', date: '2024-07-01T00:00:00Z' } },
+    };
+  }
+
+  function route(releases: unknown[], compare: Record<string, unknown>) {
+    mockFetch.mockImplementation(async (url: string) => {
+      const { pathname } = new URL(url);
+      if (pathname === '/repos/owner/repo/releases') {
+        return Response.json(releases);
+      }
+      const range = pathname.split('/compare/')[1];
+      if (range && compare[decodeURIComponent(range)]) {
+        return Response.json(compare[decodeURIComponent(range)]);
+      }
+      return new Response('Not Found', { status: 404 });
+    });
+  }
+
+  const releases = [
+    release('v3.0.0-rc.1', 'Next major', { prerelease: true }),
+    release('v2.1.0', '## Features\n- Streams'),
+    release('v2.0.0', '## Breaking changes\n- Drop the sync API\n\n## Fixes\n- Faster'),
+    release('v1.5.0', 'feat!: rename options'),
+    release('v1.4.0', 'Old'),
+  ];
+
+  it('should collect releases after from up to to, oldest first, with their breaking changes', async () => {
+    route(releases, {});
+
+    const result = await upgradeNotes('https://github.com/owner/repo', 'v1.4.0', 'v2.1.0');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.versions.map((version) => version.tag_name)).toEqual(['v1.5.0', 'v2.0.0', 'v2.1.0']);
+    expect(result.data.versions.every((version) => version.source === 'release')).toBe(true);
+    expect(result.data.versions[1].version).toMatchObject({ major: 2, minor: 0, patch: 0 });
+    expect(result.data.breaking).toEqual([
+      { tag_name: 'v1.5.0', text: 'feat!: rename options', marker: 'conventional' },
+      { tag_name: 'v2.0.0', text: 'Drop the sync API', marker: 'heading' },
+    ]);
+    expect(mockFetch.mock.calls.every(([url]) => !String(url).includes('/compare/'))).toBe(true);
+  });
+
+  it('should list the commits since the last release when to has none', async () => {
+    route(releases, {
+      'v2.1.0...v2.2.0': {
+        total_commits: 3,
+        commits: [
+          commit('aaaaaaa1', 'feat: add retries'),
+          commit('bbbbbbb2', 'fix(net)!: time out after 10s'),
+        ],
+      },
+    });
+
+    const result = await upgradeNotes('https://github.com/owner/repo', 'v2.0.0', 'v2.2.0');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.versions.map((version) => [version.tag_name, version.source])).toEqual([
+      ['v2.1.0', 'release'],
+      ['v2.2.0', 'commits'],
+    ]);
+    const fallback = result.data.versions[1];
+    expect(fallback.commits.map((entry) => entry.breaking)).toEqual([false, true]);
+    expect(fallback.commits[1]).toMatchObject({
+      sha: 'bbbbbbb2',
+      author: 'Dev',
+      html_url: 'https://github.com/owner/repo/commit/bbbbbbb2',
+    });
+    expect(result.data.breaking).toEqual([
+      { tag_name: 'v2.2.0', text: 'fix(net)!: time out after 10s', marker: 'conventional' },
+    ]);
+    expect(result.meta.warnings).toContain('GitHub listed only part of the commits between v2.1.0 and v2.2.0');
+  });
+
+  it('should include prereleases only when asked or when upgrading to one', async () => {
+    route(releases, {});
+
+    const stable = await upgradeNotes('https://github.com/owner/repo', 'v2.1.0', 'v3.0.0-rc.1');
+    expect(stable.ok && stable.data.versions.map((version) => version.tag_name)).toEqual(['v3.0.0-rc.1']);
+
+    const excluded = await upgradeNotes('https://github.com/owner/repo', 'v1.5.0', 'v2.1.0', {
+      includePrereleases: false,
+    });
+    expect(excluded.ok && excluded.data.versions.map((version) => version.tag_name)).toEqual(['v2.0.0', 'v2.1.0']);
+  });
+
+  it('should compare refs that name no version directly', async () => {
+    route([], {
+      'main...feature': { total_commits: 1, commits: [commit('ccccccc3', 'docs: usage\n\nBREAKING CHANGE: none really')] },
+    });
+
+    const result = await upgradeNotes('https://github.com/owner/repo', 'main', 'feature');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.versions).toHaveLength(1);
+    expect(result.data.breaking).toEqual([{ tag_name: 'feature', text: 'none really', marker: 'footer' }]);
+    expect(mockFetch.mock.calls.map(([url]) => String(url))).toEqual([`${api}/compare/main...feature`]);
+  });
+
+  it('should reject a from that is not before to, and report unknown refs', async () => {
+    route([], {});
+
+    const backwards = await upgradeNotes('https://github.com/owner/repo', 'v2.0.0', 'v1.0.0');
+    expect(!backwards.ok && backwards.error.code).toBe('INVALID_INPUT');
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    const missing = await upgradeNotes('https://github.com/owner/repo', 'v1.0.0', 'v9.0.0');
+    expect(missing.ok).toBe(false);
+    if (missing.ok) return;
+    expect(missing.error.code).toBe('INVALID_INPUT');
+    expect(missing.error.message).toContain('no such branch, tag or commit');
+  });
+});
@@ -0,0 +1,518 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setConfig, resetConfig } from '../../src/config.js';
+import {
+  rateLimitedFetch,
+  clearResponseCache,
+  withUpstreamContext,
+  createFileCacheStore,
+  resetCacheStores,
+  resetRateLimitState,
+  resetTokenPool,
+  getTokenPool,
+  disableToken,
+  isTokenDisabled,
+} from '../../src/upstream/index.js';
+import { getForgeHosts } from '../../src/hosts.js';
+import { handleJsonRpcRequest } from '../../src/transport/jsonrpc.js';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function jsonResponse(body: unknown, init: { status?: number; headers?: Record<string, string> } = {}) {
+  return new Response(init.status === 304 ? null : JSON.stringify(body), {
+    status: init.status ?? 200,
+    headers: { 'content-type': 'application/json', ...init.headers },
+  });
+}
+
+describe('response cache', () => {
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    resetConfig();
+    setConfig({ requestDelayMs: 0 });
+    await clearResponseCache();
+  });
+
+  afterEach(() => {
+    resetConfig();
+  });
+
+  it('should revalidate with If-None-Match and serve the cached body on 304', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ n: 1 }, { headers: { etag: '"abc"' } }));
+    mockFetch.mockResolvedValueOnce(jsonResponse(null, { status: 304 }));
+
+    const url = 'https://api.github.com/repos/cache/etag';
+    const first = await rateLimitedFetch(url);
+    expect(await first.json()).toEqual({ n: 1 });
+
+    const { value: second, meta } = await withUpstreamContext({}, () => rateLimitedFetch(url));
+    expect(second.status).toBe(200);
+    expect(await second.json()).toEqual({ n: 1 });
+
+    const headers = mockFetch.mock.calls[1][1].headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('"abc"');
+    expect(meta.cache).toMatchObject({ from_cache: true, revalidated: 1, misses: 0 });
+  });
+
+  it('should serve within the TTL without contacting upstream unless max_age is exceeded', async () => {
+    setConfig({ cacheTtlMs: 60000 });
+    mockFetch.mockResolvedValueOnce(jsonResponse({ n: 1 }));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ n: 2 }));
+
+    const url = 'https://api.github.com/repos/cache/ttl';
+    await rateLimitedFetch(url);
+
+    const cached = await withUpstreamContext({}, () => rateLimitedFetch(url));
+    expect(await cached.value.json()).toEqual({ n: 1 });
+    expect(cached.meta.cache).toMatchObject({ from_cache: true, hits: 1 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    const fresh = await withUpstreamContext({ maxAgeSeconds: 0 }, () => rateLimitedFetch(url));
+    expect(await fresh.value.json()).toEqual({ n: 2 });
+    expect(fresh.meta.cache).toMatchObject({ from_cache: false, misses: 1 });
+  });
+
+  it('should key cached bodies by token', async () => {
+    setConfig({ cacheTtlMs: 60000, githubToken: 'token-a' });
+    mockFetch.mockResolvedValueOnce(jsonResponse({ who: 'a' }));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ who: 'b' }));
+
+    const url = 'https://api.github.com/repos/cache/token';
+    await rateLimitedFetch(url);
+
+    setConfig({ githubToken: 'token-b' });
+    const response = await rateLimitedFetch(url);
+    expect(await response.json()).toEqual({ who: 'b' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report cache use in tool response meta', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({ default_branch: 'main' }));
+
+    const response = await handleJsonRpcRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: {
+        name: 'extract_key_files',
+        arguments: { repo_url: 'https://github.com/cache/meta', paths: [], max_age: 0 },
+      },
+    }, { protocolVersion: '2025-06-18' });
+
+    const result = (response?.result as { structuredContent: { meta: Record<string, unknown> } })
+      .structuredContent;
+    expect(result.meta.cache).toMatchObject({ from_cache: false });
+  });
+});
+
+describe('file cache store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'git-repo-brief-cache-'));
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function tick(): void {
+    vi.setSystemTime(Date.now() + 1000);
+  }
+
+  it('should persist entries across store instances', async () => {
+    const options = { dir, maxBytes: 1024 * 1024, maxEntries: 100, eviction: 'lru' as const };
+    await createFileCacheStore<{ n: number }>(options).set('key', { n: 1 });
+
+    const reopened = createFileCacheStore<{ n: number }>(options);
+    expect(await reopened.get('key')).toEqual({ n: 1 });
+    expect(await reopened.get('missing')).toBeUndefined();
+    expect((await reopened.stats()).entries).toBe(1);
+  });
+
+  it('should evict the least recently used entry when over the size limit', async () => {
+    const store = createFileCacheStore<string>({ dir, maxBytes: 120, maxEntries: 100, eviction: 'lru' });
+    await store.set('a', 'x'.repeat(30));
+    tick();
+    await store.set('b', 'x'.repeat(30));
+    tick();
+    await store.get('a');
+    tick();
+    await store.set('c', 'x'.repeat(30));
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+
+  it('should evict the oldest write under FIFO regardless of reads', async () => {
+    const store = createFileCacheStore<string>({ dir, maxBytes: 120, maxEntries: 100, eviction: 'fifo' });
+    await store.set('a', 'x'.repeat(30));
+    tick();
+    await store.set('b', 'x'.repeat(30));
+    tick();
+    await store.get('a');
+    tick();
+    await store.set('c', 'x'.repeat(30));
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toBeDefined();
+  });
+
+  it('should prune entries unused for longer than the given age and clear everything', async () => {
+    const store = createFileCacheStore<number>({ dir, maxBytes: 1024, maxEntries: 100, eviction: 'lru' });
+    await store.set('old', 1);
+    vi.setSystemTime(Date.now() + 60000);
+    await store.set('new', 2);
+
+    expect(await store.prune(30000)).toBe(1);
+    expect(await store.get('old')).toBeUndefined();
+    expect(await store.get('new')).toBe(2);
+
+    await store.clear();
+    expect((await store.stats()).entries).toBe(0);
+  });
+});
+
+describe('computed brief cache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    dir = await mkdtemp(join(tmpdir(), 'git-repo-brief-briefs-'));
+    resetConfig();
+    setConfig({ requestDelayMs: 0, cacheTtlMs: 60000, cacheDir: dir });
+    resetCacheStores();
+  });
+
+  afterEach(async () => {
+    resetConfig();
+    resetCacheStores();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should serve a repeated brief from the persistent cache', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse([]));
+
+    const { repoBrief } = await import('../../src/tools/brief.js');
+    const first = await repoBrief('https://github.com/cache/brief', { sections: ['releases'] });
+    expect(first.ok).toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    // A fresh store instance reads what the first one wrote to disk
+    resetCacheStores();
+    const { value: second, meta } = await withUpstreamContext({}, () =>
+      repoBrief('https://github.com/cache/brief', { sections: ['releases'] })
+    );
+    expect(second).toEqual(first);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(meta.cache).toMatchObject({ from_cache: true, hits: 1 });
+  });
+});
+
+describe('rate-limit budget', () => {
+  const reset = String(Math.floor(Date.now() / 1000) + 3600);
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    resetConfig();
+    setConfig({ requestDelayMs: 0 });
+    resetRateLimitState();
+    await clearResponseCache();
+  });
+
+  afterEach(() => {
+    resetConfig();
+    resetRateLimitState();
+  });
+
+  it('should report the lowest observed budget in meta', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({}, {
+        headers: {
+          'x-ratelimit-limit': '60',
+          'x-ratelimit-remaining': '12',
+          'x-ratelimit-reset': reset,
+          'x-ratelimit-resource': 'core',
+        },
+      })
+    );
+
+    const { meta } = await withUpstreamContext({}, () =>
+      rateLimitedFetch('https://api.github.com/repos/budget/meta')
+    );
+    expect(meta.rate_limit).toEqual({
+      resource: 'core',
+      limit: 60,
+      remaining: 12,
+      reset_at: new Date(Number(reset) * 1000).toISOString(),
+    });
+  });
+
+  it('should refuse requests without sending them once the budget is exhausted', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({}, {
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset, 'x-ratelimit-resource': 'core' },
+      })
+    );
+
+    const { repoOverview } = await import('../../src/tools/overview.js');
+    await rateLimitedFetch('https://api.github.com/repos/budget/first');
+    const result = await repoOverview('https://github.com/budget/second');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('RATE_LIMITED');
+      expect(result.error.details).toMatchObject({ resource: 'core', remaining: 0, secondary: false });
+    }
+  });
+
+  it('should treat 429 with retry-after as a secondary limit', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({}, { status: 429, headers: { 'retry-after': '30' } }));
+
+    const { activitySnapshot } = await import('../../src/tools/activity.js');
+    const result = await activitySnapshot('https://github.com/budget/secondary');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('RATE_LIMITED');
+      expect(result.error.details).toMatchObject({ secondary: true, retry_after_seconds: 30 });
+    }
+  });
+
+  it('should report per-resource budgets from rate_limit_status', async () => {
+    const resource = (remaining: number) => ({ limit: 5000, remaining, used: 5000 - remaining, reset: Number(reset) });
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ resources: { core: resource(4999), search: resource(30), graphql: resource(5000) } })
+    );
+
+    const { rateLimitStatus } = await import('../../src/tools/rate-limit.js');
+    const result = await rateLimitStatus();
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.resources.map((r) => [r.resource, r.remaining])).toEqual([
+        ['core', 4999],
+        ['search', 30],
+        ['graphql', 5000],
+      ]);
+    }
+  });
+
+  it('should read rate_limit_status once the core budget is exhausted', async () => {
+    const resource = (remaining: number) => ({ limit: 60, remaining, used: 60 - remaining, reset: Number(reset) });
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({}, {
+        status: 403,
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset, 'x-ratelimit-resource': 'core' },
+      })
+    );
+    mockFetch.mockResolvedValueOnce(jsonResponse({ resources: { core: resource(0) } }));
+
+    await expect(rateLimitedFetch('https://api.github.com/repos/budget/spent')).rejects.toThrow();
+    const { rateLimitStatus } = await import('../../src/tools/rate-limit.js');
+    const result = await rateLimitStatus();
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.ok && result.data.resources.map((r) => [r.resource, r.remaining])).toEqual([['core', 0]]);
+  });
+});
+
+describe('retries', () => {
+  function networkError(code: string): Error {
+    return Object.assign(new Error(`connect ${code}`), { code });
+  }
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    resetConfig();
+    setConfig({ requestDelayMs: 0, retryBaseDelayMs: 1, retryJitterMs: 0 });
+    resetRateLimitState();
+    await clearResponseCache();
+  });
+
+  afterEach(() => {
+    resetConfig();
+  });
+
+  it('should retry transient failures and report the count in meta', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed', { cause: networkError('ECONNRESET') }));
+    mockFetch.mockResolvedValueOnce(jsonResponse({}, { status: 503 }));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ n: 1 }));
+
+    const { value, meta } = await withUpstreamContext({}, () =>
+      rateLimitedFetch('https://api.github.com/repos/retry/transient')
+    );
+    expect(await value.json()).toEqual({ n: 1 });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(meta.retries).toBe(2);
+  });
+
+  it('should not retry type errors that are not network failures', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed', { cause: networkError('ENOTFOUND') }));
+    mockFetch.mockRejectedValueOnce(new TypeError("Cannot read properties of undefined (reading 'json')"));
+
+    await expect(rateLimitedFetch('https://api.github.com/repos/retry/unknown-host')).rejects.toThrow('fetch failed');
+    await expect(rateLimitedFetch('https://api.github.com/repos/retry/bug')).rejects.toThrow(TypeError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    setConfig({ retryMaxAttempts: 2 });
+    mockFetch.mockImplementation(async () => jsonResponse({}, { status: 502 }));
+
+    const response = await rateLimitedFetch('https://api.github.com/repos/retry/exhausted');
+    expect(response.status).toBe(502);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never retry client errors or non-idempotent requests', async () => {
+    setConfig({ retryStatuses: [404, 503] });
+    mockFetch.mockImplementation(async () => jsonResponse({}, { status: 404 }));
+    await rateLimitedFetch('https://api.github.com/repos/retry/missing');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    mockFetch.mockImplementation(async () => jsonResponse({}, { status: 503 }));
+    await rateLimitedFetch('https://api.github.com/graphql', { method: 'POST', body: '{}' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry when retry-after would overrun the request deadline', async () => {
+    setConfig({ requestTimeoutMs: 1000 });
+    mockFetch.mockResolvedValueOnce(jsonResponse({}, { status: 503, headers: { 'retry-after': '5' } }));
+
+    const response = await rateLimitedFetch('https://api.github.com/repos/retry/deadline');
+    expect(response.status).toBe(503);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('token pool', () => {
+  function authorizationOf(call: unknown[]): string | undefined {
+    return ((call[1] as RequestInit).headers as Record<string, string>).Authorization;
+  }
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    resetConfig();
+    setConfig({ requestDelayMs: 0, githubTokens: ['token-one', 'token-two'] });
+    resetRateLimitState();
+    resetTokenPool();
+    await clearResponseCache();
+  });
+
+  afterEach(() => {
+    resetConfig();
+    resetTokenPool();
+  });
+
+  it('should send each request with the token that has the most remaining budget', async () => {
+    const remaining: Record<string, string> = { 'Bearer token-one': '10', 'Bearer token-two': '100' };
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) =>
+      jsonResponse({}, {
+        headers: {
+          'x-ratelimit-remaining': remaining[(init.headers as Record<string, string>).Authorization],
+          'x-ratelimit-resource': 'core',
+        },
+      })
+    );
+
+    await rateLimitedFetch('https://api.github.com/repos/pool/a');
+    await rateLimitedFetch('https://api.github.com/repos/pool/b');
+    const { meta } = await withUpstreamContext({}, () =>
+      rateLimitedFetch('https://api.github.com/repos/pool/c')
+    );
+
+    expect(mockFetch.mock.calls.map(authorizationOf)).toEqual([
+      'Bearer token-one',
+      'Bearer token-two',
+      'Bearer token-two',
+    ]);
+    expect(meta.token_slots).toEqual([2]);
+  });
+
+  it('should fail over on 401 and stop using the rejected token', async () => {
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) =>
+      (init.headers as Record<string, string>).Authorization === 'Bearer token-one'
+        ? jsonResponse({ message: 'Bad credentials' }, { status: 401 })
+        : jsonResponse({ ok: true })
+    );
+
+    const { value, meta } = await withUpstreamContext({}, () =>
+      rateLimitedFetch('https://api.github.com/repos/pool/failover')
+    );
+    expect(value.status).toBe(200);
+    expect(meta.token_slots).toEqual([2]);
+    expect(JSON.stringify(meta)).not.toContain('token-');
+
+    await rateLimitedFetch('https://api.github.com/repos/pool/after');
+    expect(mockFetch.mock.calls.map(authorizationOf)).toEqual([
+      'Bearer token-one',
+      'Bearer token-two',
+      'Bearer token-two',
+    ]);
+  });
+
+  it('should read anonymously while every token is rejected', async () => {
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) =>
+      authorizationOf([url, init])
+        ? jsonResponse({ message: 'Bad credentials' }, { status: 401 })
+        : jsonResponse({ ok: true })
+    );
+
+    const response = await rateLimitedFetch('https://api.github.com/repos/pool/rejected');
+    expect(response.status).toBe(200);
+    await rateLimitedFetch('https://api.github.com/repos/pool/anonymous');
+
+    expect(mockFetch.mock.calls.map(authorizationOf)).toEqual([
+      'Bearer token-one',
+      'Bearer token-two',
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('should try a rejected token again after a cooldown', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const [token] = getTokenPool(getForgeHosts()[0]);
+      disableToken(token);
+      vi.setSystemTime(Date.now() + 9 * 60 * 1000);
+      expect(isTokenDisabled(token)).toBe(true);
+      vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+      expect(isTokenDisabled(token)).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should send no token to hosts other than the configured forges', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({ ok: true }));
+
+    await rateLimitedFetch('https://api.github.com/repos/pool/known');
+    await rateLimitedFetch('https://elsewhere.example/repos/pool/unknown');
+
+    expect(mockFetch.mock.calls.map(authorizationOf)).toEqual(['Bearer token-one', undefined]);
+  });
+
+  it('should fail over when a token has exhausted its budget', async () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 3600);
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) =>
+      (init.headers as Record<string, string>).Authorization === 'Bearer token-one'
+        ? jsonResponse({}, { status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset } })
+        : jsonResponse({ ok: true }, { headers: { 'x-ratelimit-remaining': '4000' } })
+    );
+
+    const response = await rateLimitedFetch('https://api.github.com/repos/pool/exhausted');
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});